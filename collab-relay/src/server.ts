@@ -0,0 +1,238 @@
+import http from "node:http";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { WebSocket, WebSocketServer } from "ws";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+
+// Keeps shared whiteboards in sync. Every room is a Yjs document; browsers
+// connect with y-websocket to ws://<host>:3006/<room>, updates are merged
+// here and relayed to everyone else in the room, and presence (awareness)
+// is forwarded as is. Rooms are saved to COLLAB_DATA_DIR, so a board
+// outlives the meeting and the relay restarting.
+//
+//   npm start
+//   COLLAB_RELAY_PORT=8080 COLLAB_DATA_DIR=/var/lib/whiteboard npm start
+
+interface Room {
+  name: string;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  // Awareness client ids each connection controls, removed when it leaves
+  conns: Map<WebSocket, Set<number>>;
+  saveTimer?: NodeJS.Timeout;
+}
+
+// y-websocket message types
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+const PORT = Number(process.env.COLLAB_RELAY_PORT) || 3006;
+const HOST = process.env.COLLAB_RELAY_HOST || "0.0.0.0";
+const DATA_DIR = path.resolve(
+  process.env.COLLAB_DATA_DIR ||
+    path.join(path.dirname(fileURLToPath(import.meta.url)), "../data")
+);
+const SAVE_DELAY_MS = 2000;
+const PING_INTERVAL_MS = 30000;
+// Room names end up in file names
+const ROOM_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+
+const rooms = new Map<string, Room>();
+
+const roomFile = (name: string) => path.join(DATA_DIR, `${name}.yjs`);
+
+function saveRoom(room: Room) {
+  clearTimeout(room.saveTimer);
+  room.saveTimer = undefined;
+  try {
+    mkdirSync(DATA_DIR, { recursive: true });
+    writeFileSync(roomFile(room.name), Y.encodeStateAsUpdate(room.doc));
+  } catch (error) {
+    console.error(`❌ Could not save room ${room.name}:`, error);
+  }
+}
+
+function send(conn: WebSocket, message: Uint8Array) {
+  if (conn.readyState !== WebSocket.OPEN) return;
+  conn.send(message, (error) => {
+    if (error) conn.close();
+  });
+}
+
+// Helper function to encode an awareness update for some clients
+function encodeAwareness(room: Room, clientIds: number[]) {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(
+    encoder,
+    awarenessProtocol.encodeAwarenessUpdate(room.awareness, clientIds)
+  );
+  return encoding.toUint8Array(encoder);
+}
+
+// Load a room from disk, or start an empty one
+function getRoom(name: string): Room {
+  const existing = rooms.get(name);
+  if (existing) return existing;
+
+  const doc = new Y.Doc();
+  if (existsSync(roomFile(name))) {
+    Y.applyUpdate(doc, readFileSync(roomFile(name)));
+    console.log(`📂 Loaded room ${name}`);
+  }
+  const awareness = new awarenessProtocol.Awareness(doc);
+  // The relay itself has no presence
+  awareness.setLocalState(null);
+  const room: Room = { name, doc, awareness, conns: new Map() };
+
+  doc.on("update", (update: Uint8Array) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    const message = encoding.toUint8Array(encoder);
+    room.conns.forEach((_, conn) => send(conn, message));
+
+    if (!room.saveTimer) room.saveTimer = setTimeout(() => saveRoom(room), SAVE_DELAY_MS);
+  });
+
+  awareness.on(
+    "update",
+    (
+      { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      const controlled = room.conns.get(origin as WebSocket);
+      if (controlled) {
+        added.forEach((id) => controlled.add(id));
+        removed.forEach((id) => controlled.delete(id));
+      }
+      const message = encodeAwareness(room, [...added, ...updated, ...removed]);
+      room.conns.forEach((_, conn) => send(conn, message));
+    }
+  );
+
+  rooms.set(name, room);
+  return room;
+}
+
+function handleMessage(room: Room, conn: WebSocket, data: Uint8Array) {
+  const decoder = decoding.createDecoder(data);
+  const encoder = encoding.createEncoder();
+  const type = decoding.readVarUint(decoder);
+
+  if (type === MESSAGE_SYNC) {
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn);
+    // Only a sync step 1 needs an answer
+    if (encoding.length(encoder) > 1) send(conn, encoding.toUint8Array(encoder));
+  } else if (type === MESSAGE_AWARENESS) {
+    awarenessProtocol.applyAwarenessUpdate(
+      room.awareness,
+      decoding.readVarUint8Array(decoder),
+      conn
+    );
+  }
+}
+
+function closeConnection(room: Room, conn: WebSocket) {
+  const controlled = room.conns.get(conn);
+  if (!controlled) return;
+  room.conns.delete(conn);
+  awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(controlled), null);
+  console.log(`👋 Left room ${room.name} (${room.conns.size} connected)`);
+
+  // Keep idle rooms on disk only
+  if (room.conns.size === 0) {
+    saveRoom(room);
+    room.awareness.destroy();
+    room.doc.destroy();
+    rooms.delete(room.name);
+  }
+}
+
+const server = http.createServer((req, res) => {
+  if (req.url === "/health") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        status: "OK",
+        message: "Collab relay is running",
+        rooms: rooms.size,
+        connections: Array.from(rooms.values()).reduce((sum, room) => sum + room.conns.size, 0),
+      })
+    );
+    return;
+  }
+  res.writeHead(404).end();
+});
+
+const wss = new WebSocketServer({ server });
+
+wss.on("connection", (conn, req) => {
+  // Room names never need decoding, so the raw path is tested as is; decoding
+  // (or URL-parsing) a malformed path would throw out of this handler
+  const name = (req.url || "/").split("?")[0].slice(1);
+  if (!ROOM_NAME.test(name)) {
+    conn.close(4400, "Invalid room name");
+    return;
+  }
+
+  const room = getRoom(name);
+  conn.binaryType = "arraybuffer";
+  room.conns.set(conn, new Set());
+  console.log(`🤝 Joined room ${name} (${room.conns.size} connected)`);
+
+  conn.on("message", (message: ArrayBuffer) => {
+    try {
+      handleMessage(room, conn, new Uint8Array(message));
+    } catch (error) {
+      console.error(`❌ Bad message in room ${name}:`, error);
+    }
+  });
+
+  // Drop connections that stop answering pings
+  let alive = true;
+  conn.on("pong", () => {
+    alive = true;
+  });
+  const pingTimer = setInterval(() => {
+    if (!alive) {
+      conn.terminate();
+      return;
+    }
+    alive = false;
+    conn.ping();
+  }, PING_INTERVAL_MS);
+
+  conn.on("close", () => {
+    clearInterval(pingTimer);
+    closeConnection(room, conn);
+  });
+
+  // Start the sync and tell the newcomer who else is here
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, room.doc);
+  send(conn, encoding.toUint8Array(encoder));
+  const present = Array.from(room.awareness.getStates().keys());
+  if (present.length) send(conn, encodeAwareness(room, present));
+});
+
+// Save open rooms before exiting
+const shutdown = () => {
+  rooms.forEach(saveRoom);
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+server.listen(PORT, HOST, () => {
+  console.log(`🔄 Collab relay running on ws://localhost:${PORT}`);
+  console.log(`💾 Rooms saved in ${DATA_DIR}`);
+  console.log(`📋 Health check: http://localhost:${PORT}/health`);
+});
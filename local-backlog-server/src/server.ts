@@ -0,0 +1,198 @@
+import express, { NextFunction, Request, Response } from "express";
+import cors from "cors";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  addComment,
+  createTask,
+  findTask,
+  loadConfig,
+  loadTasks,
+  TaskChanges,
+  updateTask,
+} from "./tasks";
+
+// Serves a folder of Markdown/YAML task files as the "Local files" issue
+// tracker. Every request reads the folder again, so edits made in an editor
+// or pulled with git show up on the next sync, and board moves are written
+// straight back into the files.
+//
+//   npm start -- ../path/to/backlog      (or BACKLOG_DIR=...)
+//
+// It writes into the user's files, so it only listens on localhost, only
+// the app's own origin may call it (LOCAL_BACKLOG_ALLOWED_ORIGINS,
+// comma-separated), and LOCAL_BACKLOG_TOKEN, when set, is required as a
+// bearer token.
+
+const app = express();
+const PORT = Number(process.env.LOCAL_BACKLOG_PORT) || 3003;
+const BACKLOG_DIR = path.resolve(
+  process.argv[2] ||
+    process.env.BACKLOG_DIR ||
+    path.join(path.dirname(fileURLToPath(import.meta.url)), "../example-backlog")
+);
+
+const AUTH_TOKEN = process.env.LOCAL_BACKLOG_TOKEN;
+const ALLOWED_ORIGINS = (
+  process.env.LOCAL_BACKLOG_ALLOWED_ORIGINS || "http://localhost:5173,http://127.0.0.1:5173"
+)
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+app.use(cors({ origin: ALLOWED_ORIGINS }));
+app.use(express.json());
+
+// Browsers always send Origin, so a page on another site (or a DNS-rebound
+// host name) is turned away; scripts on this machine send none
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const origin = req.header("origin");
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    res.status(403).json({ error: `Origin ${origin} is not allowed` });
+    return;
+  }
+  if (AUTH_TOKEN && req.header("authorization") !== `Bearer ${AUTH_TOKEN}`) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+  next();
+});
+
+function sendError(res: Response, error: unknown) {
+  console.error("❌ Backlog error:", error);
+  res.status(500).json({
+    error: "Backlog server error",
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+app.get("/health", async (_req, res) => {
+  try {
+    const tasks = await loadTasks(BACKLOG_DIR);
+    res.json({
+      status: "OK",
+      message: "Local backlog server is running",
+      folder: BACKLOG_DIR,
+      tasks: tasks.length,
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/backlog/config", async (_req, res) => {
+  try {
+    res.json(await loadConfig(BACKLOG_DIR));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/backlog/tasks", async (_req, res) => {
+  try {
+    res.json({ tasks: await loadTasks(BACKLOG_DIR) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// New tasks start in the first status of the workflow
+app.post("/api/backlog/tasks", async (req, res) => {
+  try {
+    const { title, description, assignee, due } = req.body || {};
+    if (!title) {
+      res.status(400).json({ error: "Task title is required" });
+      return;
+    }
+
+    const config = await loadConfig(BACKLOG_DIR);
+    const task = await createTask(BACKLOG_DIR, {
+      title: String(title),
+      description: description ? String(description) : undefined,
+      status: config.statuses[0],
+      assignee: assignee ? String(assignee) : undefined,
+      due: due ? String(due) : undefined,
+    });
+    console.log(`➕ Created ${task.key} (${task.file})`);
+    res.status(201).json(task);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.get("/api/backlog/tasks/:key", async (req, res) => {
+  try {
+    const task = await findTask(BACKLOG_DIR, req.params.key);
+    if (!task) {
+      res.status(404).json({ error: `Task ${req.params.key} not found` });
+      return;
+    }
+    res.json(task);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Statuses are checked against the workflow in backlog.yaml
+app.patch("/api/backlog/tasks/:key", async (req, res) => {
+  try {
+    const changes: TaskChanges = req.body || {};
+    const [task, config] = await Promise.all([
+      findTask(BACKLOG_DIR, req.params.key),
+      loadConfig(BACKLOG_DIR),
+    ]);
+    if (!task) {
+      res.status(404).json({ error: `Task ${req.params.key} not found` });
+      return;
+    }
+
+    if (changes.status !== undefined) {
+      const status = config.statuses.find(
+        (s) => s.toLowerCase() === changes.status!.toLowerCase()
+      );
+      if (!status) {
+        res.status(400).json({
+          error: `Unknown status "${changes.status}" (available: ${config.statuses.join(", ")})`,
+        });
+        return;
+      }
+      changes.status = status;
+    }
+
+    const updated = await updateTask(BACKLOG_DIR, task, changes);
+    console.log(`✏️ Updated ${task.key} (${task.file})`);
+    res.json(updated);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.post("/api/backlog/tasks/:key/comments", async (req, res) => {
+  try {
+    const { text, author } = req.body || {};
+    if (!text) {
+      res.status(400).json({ error: "Comment text is required" });
+      return;
+    }
+    const task = await findTask(BACKLOG_DIR, req.params.key);
+    if (!task) {
+      res.status(404).json({ error: `Task ${req.params.key} not found` });
+      return;
+    }
+
+    const updated = await addComment(BACKLOG_DIR, task, String(text), author);
+    console.log(`💬 Commented on ${task.key} (${task.file})`);
+    res.json(updated);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.listen(PORT, "127.0.0.1", () => {
+  console.log(`🗂️ Local backlog server running on http://localhost:${PORT}`);
+  console.log(`📁 Serving tasks from ${BACKLOG_DIR}`);
+  console.log(`📋 Health check: http://localhost:${PORT}/health`);
+  console.log(
+    `🔒 Allowed origins: ${ALLOWED_ORIGINS.join(", ")}${AUTH_TOKEN ? " (bearer token required)" : ""}`
+  );
+});
@@ -0,0 +1,251 @@
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Document, isSeq, parseDocument } from "yaml";
+
+// A task file is either Markdown with YAML front-matter or a plain YAML file.
+// Only the fields below are read; anything else in the file is left alone
+// when a task is updated.
+//
+//   ---
+//   id: WEB-3            # defaults to the file name
+//   title: Login page    # defaults to the first "# heading"
+//   status: In Progress
+//   assignee: Alice
+//   priority: High
+//   points: 3
+//   sprint: Sprint 7
+//   labels: [frontend]
+//   ---
+
+export interface BacklogTask {
+  key: string;
+  title: string;
+  status: string;
+  assignee?: string;
+  priority?: string;
+  points?: number;
+  type?: string;
+  labels?: string[];
+  due?: string;
+  parent?: string;
+  sprint?: string;
+  updated: string;
+  // Path relative to the backlog folder
+  file: string;
+}
+
+export interface BacklogSprint {
+  name: string;
+  goal?: string;
+  start?: string;
+  end?: string;
+}
+
+// Optional backlog.yaml next to the tasks
+export interface BacklogConfig {
+  statuses: string[];
+  doneStatuses: string[];
+  team?: string[];
+  sprint?: BacklogSprint;
+}
+
+export interface TaskChanges {
+  status?: string;
+  assignee?: string | null;
+  priority?: string;
+}
+
+export interface NewTask {
+  title: string;
+  description?: string;
+  status: string;
+  assignee?: string;
+  due?: string;
+}
+
+export const CONFIG_FILE = "backlog.yaml";
+
+const DEFAULT_CONFIG: BacklogConfig = {
+  statuses: ["To Do", "In Progress", "In Review", "Done"],
+  doneStatuses: ["Done"],
+};
+
+const TASK_EXTENSIONS = [".md", ".markdown", ".yaml", ".yml"];
+const FRONT_MATTER = /^---\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+interface TaskFile {
+  doc: Document;
+  // Markdown body after the front-matter; undefined for YAML task files
+  body?: string;
+}
+
+const asString = (value: unknown) =>
+  value === undefined || value === null || value === "" ? undefined : String(value);
+
+function parseTaskFile(file: string, source: string): TaskFile {
+  if (path.extname(file).startsWith(".y")) {
+    return { doc: parseDocument(source) };
+  }
+  const match = source.match(FRONT_MATTER);
+  return match
+    ? { doc: parseDocument(match[1] || ""), body: source.slice(match[0].length) }
+    : { doc: parseDocument(""), body: source };
+}
+
+function serializeTaskFile({ doc, body }: TaskFile): string {
+  const yaml = doc.toString({ flowCollectionPadding: false });
+  if (body === undefined) return yaml;
+  return doc.contents === null ? body : `---\n${yaml}---\n${body}`;
+}
+
+function toTask(file: string, { doc, body }: TaskFile, updated: Date): BacklogTask {
+  const data = (doc.toJS() || {}) as Record<string, unknown>;
+  const heading = body?.match(/^#\s+(.+)$/m)?.[1];
+  const points = asString(data.points ?? data.estimate);
+  const labels = Array.isArray(data.labels)
+    ? data.labels.map(String)
+    : asString(data.labels)?.split(",").map((label) => label.trim());
+
+  return {
+    key: asString(data.id) || path.basename(file, path.extname(file)),
+    title: asString(data.title) || heading?.trim() || path.basename(file, path.extname(file)),
+    status: asString(data.status) || DEFAULT_CONFIG.statuses[0],
+    assignee: asString(data.assignee),
+    priority: asString(data.priority),
+    points: points && Number.isFinite(Number(points)) ? Number(points) : undefined,
+    type: asString(data.type),
+    labels: labels?.length ? labels : undefined,
+    due: asString(data.due),
+    parent: asString(data.parent),
+    sprint: asString(data.sprint),
+    updated: updated.toISOString(),
+    file,
+  };
+}
+
+export async function loadConfig(dir: string): Promise<BacklogConfig> {
+  try {
+    const config = parseDocument(await readFile(path.join(dir, CONFIG_FILE), "utf8")).toJS() || {};
+    return {
+      statuses: config.statuses?.length ? config.statuses.map(String) : DEFAULT_CONFIG.statuses,
+      doneStatuses: config.doneStatuses?.length
+        ? config.doneStatuses.map(String)
+        : DEFAULT_CONFIG.doneStatuses,
+      team: config.team?.map(String),
+      sprint: config.sprint?.name ? config.sprint : undefined,
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return DEFAULT_CONFIG;
+    throw error;
+  }
+}
+
+// Every task file in the folder and its subfolders (hidden folders skipped)
+export async function loadTasks(dir: string): Promise<BacklogTask[]> {
+  const entries = await readdir(dir, { recursive: true });
+  const files = entries.filter(
+    (file) =>
+      TASK_EXTENSIONS.includes(path.extname(file).toLowerCase()) &&
+      path.basename(file) !== CONFIG_FILE &&
+      !file.split(path.sep).some((part) => part.startsWith(".") || part === "node_modules") &&
+      path.basename(file).toLowerCase() !== "readme.md"
+  );
+
+  const tasks = await Promise.all(
+    files.map(async (file) => {
+      const fullPath = path.join(dir, file);
+      const [source, info] = await Promise.all([readFile(fullPath, "utf8"), stat(fullPath)]);
+      return toTask(file, parseTaskFile(file, source), info.mtime);
+    })
+  );
+  return tasks.sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }));
+}
+
+export async function findTask(dir: string, key: string): Promise<BacklogTask | undefined> {
+  const tasks = await loadTasks(dir);
+  return tasks.find((task) => task.key.toLowerCase() === key.toLowerCase());
+}
+
+// Helper function to pick the next id: the most common "ABC-12" prefix in the
+// folder, one past its highest number
+function nextTaskKey(tasks: BacklogTask[]): string {
+  const numbers = new Map<string, number[]>();
+  for (const task of tasks) {
+    const match = task.key.match(/^([A-Za-z][\w]*)-(\d+)$/);
+    if (match) numbers.set(match[1], [...(numbers.get(match[1]) || []), Number(match[2])]);
+  }
+  const [prefix, used] = [...numbers.entries()].sort((a, b) => b[1].length - a[1].length)[0] || [
+    "TASK",
+    [],
+  ];
+  return `${prefix}-${Math.max(0, ...used) + 1}`;
+}
+
+// New tasks are Markdown files named after their id
+export async function createTask(dir: string, task: NewTask): Promise<BacklogTask> {
+  const key = nextTaskKey(await loadTasks(dir));
+  const file = `${key}.md`;
+  const doc = parseDocument("");
+  doc.contents = doc.createNode({
+    title: task.title,
+    status: task.status,
+    ...(task.assignee && { assignee: task.assignee }),
+    ...(task.due && { due: task.due }),
+  });
+  const taskFile: TaskFile = { doc, body: task.description ? `\n${task.description.trim()}\n` : "" };
+  // "wx" so a file created in the meantime is never overwritten
+  await writeFile(path.join(dir, file), serializeTaskFile(taskFile), { flag: "wx" });
+  return toTask(file, taskFile, new Date());
+}
+
+// Helper function to edit a task file in place, keeping its other content
+async function editTaskFile(
+  dir: string,
+  task: BacklogTask,
+  edit: (taskFile: TaskFile) => void
+): Promise<BacklogTask> {
+  const fullPath = path.join(dir, task.file);
+  const taskFile = parseTaskFile(task.file, await readFile(fullPath, "utf8"));
+  edit(taskFile);
+  await writeFile(fullPath, serializeTaskFile(taskFile));
+  return toTask(task.file, taskFile, new Date());
+}
+
+export function updateTask(
+  dir: string,
+  task: BacklogTask,
+  changes: TaskChanges
+): Promise<BacklogTask> {
+  return editTaskFile(dir, task, ({ doc }) => {
+    for (const field of ["status", "assignee", "priority"] as const) {
+      const value = changes[field];
+      if (value === null) doc.delete(field);
+      else if (value !== undefined) doc.set(field, value);
+    }
+  });
+}
+
+// Markdown tasks get a "## Comments" section; YAML tasks a comments list
+export function addComment(
+  dir: string,
+  task: BacklogTask,
+  text: string,
+  author?: string
+): Promise<BacklogTask> {
+  const date = new Date().toISOString().slice(0, 10);
+  return editTaskFile(dir, task, (taskFile) => {
+    if (taskFile.body === undefined) {
+      const entry = taskFile.doc.createNode({ date, ...(author && { author }), text });
+      const comments = taskFile.doc.get("comments");
+      if (isSeq(comments)) comments.add(entry);
+      else taskFile.doc.set("comments", taskFile.doc.createNode([entry]));
+      return;
+    }
+
+    const body = taskFile.body.trimEnd();
+    const line = `- ${date}${author ? ` **${author}**` : ""}: ${text.replace(/\s*\n\s*/g, " ")}`;
+    taskFile.body = /^## Comments\s*$/m.test(body)
+      ? `${body}\n${line}\n`
+      : `${body}${body ? "\n\n" : ""}## Comments\n\n${line}\n`;
+  });
+}
@@ -0,0 +1,195 @@
+import express, { NextFunction, Request, Response } from "express";
+import cors from "cors";
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Browsers can't spawn processes, so stdio MCP servers run here instead. Each
+// server in mcp-bridge.json (same shape as other MCP clients' "mcpServers"
+// config) is served at /servers/<name>/mcp over Streamable HTTP. Every
+// browser session gets its own child process, and JSON-RPC messages are
+// relayed between the two transports unchanged.
+//
+//   npm start                      (reads ./mcp-bridge.json)
+//   npm start -- ~/mcp-servers.json
+//
+// Child processes run with this user's permissions, so only the app's own
+// origin may call the bridge (MCP_BRIDGE_ALLOWED_ORIGINS, comma-separated),
+// and MCP_BRIDGE_TOKEN, when set, is required as a bearer token.
+
+interface StdioServerConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+interface BridgeSession {
+  server: string;
+  http: StreamableHTTPServerTransport;
+  child: StdioClientTransport;
+}
+
+const PORT = Number(process.env.MCP_BRIDGE_PORT) || 3004;
+const AUTH_TOKEN = process.env.MCP_BRIDGE_TOKEN;
+const ALLOWED_ORIGINS = (
+  process.env.MCP_BRIDGE_ALLOWED_ORIGINS || "http://localhost:5173,http://127.0.0.1:5173"
+)
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const CONFIG_PATH = path.resolve(
+  process.argv[2] ||
+    process.env.MCP_BRIDGE_CONFIG ||
+    path.join(path.dirname(fileURLToPath(import.meta.url)), "../mcp-bridge.json")
+);
+
+function loadServers(): Record<string, StdioServerConfig> {
+  try {
+    const config = JSON.parse(readFileSync(CONFIG_PATH, "utf8"));
+    return config.mcpServers || {};
+  } catch (error) {
+    console.warn(`⚠️ Could not read ${CONFIG_PATH}:`, (error as Error).message);
+    return {};
+  }
+}
+
+const servers = loadServers();
+const sessions = new Map<string, BridgeSession>();
+
+const app = express();
+// The session id header has to be readable from the browser
+app.use(cors({ origin: ALLOWED_ORIGINS, exposedHeaders: ["Mcp-Session-Id"] }));
+app.use(express.json({ limit: "4mb" }));
+
+function jsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+// Browsers always send Origin, so a page on another site (or a DNS-rebound
+// host name) is turned away; local MCP clients send none
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const origin = req.header("origin");
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    jsonRpcError(res, 403, `Origin ${origin} is not allowed`);
+    return;
+  }
+  if (AUTH_TOKEN && req.header("authorization") !== `Bearer ${AUTH_TOKEN}`) {
+    jsonRpcError(res, 401, "Unauthorized");
+    return;
+  }
+  next();
+});
+
+// Helper function to start a child server and relay messages both ways
+async function openSession(name: string, config: StdioServerConfig) {
+  const child = new StdioClientTransport({
+    command: config.command,
+    args: config.args,
+    env: { ...getDefaultEnvironment(), ...config.env },
+    cwd: config.cwd,
+    stderr: "inherit",
+  });
+  const http: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId) => {
+      sessions.set(sessionId, { server: name, http, child });
+      console.log(`🔗 Session ${sessionId} opened for "${name}"`);
+    },
+  });
+
+  http.onmessage = (message) => {
+    child.send(message).catch((error) => console.error(`❌ "${name}" send failed:`, error));
+  };
+  child.onmessage = (message) => {
+    http.send(message).catch((error) => console.error(`❌ Relay to browser failed:`, error));
+  };
+  // Either side closing ends the session
+  let closed = false;
+  const closeSession = () => {
+    if (closed) return;
+    closed = true;
+    if (http.sessionId) sessions.delete(http.sessionId);
+    child.close().catch(() => undefined);
+    http.close().catch(() => undefined);
+    console.log(`🔌 Session ${http.sessionId || "(uninitialized)"} closed for "${name}"`);
+  };
+  http.onclose = closeSession;
+  child.onclose = closeSession;
+  child.onerror = (error) => console.error(`❌ "${name}" process error:`, error);
+
+  await child.start();
+  await http.start();
+  return http;
+}
+
+app.get("/health", (_req, res) => {
+  res.json({
+    status: "OK",
+    message: "MCP bridge is running",
+    servers: Object.keys(servers),
+    sessions: sessions.size,
+  });
+});
+
+app.get("/servers", (_req, res) => {
+  res.json({ servers: Object.keys(servers) });
+});
+
+app.all("/servers/:name/mcp", async (req: Request, res: Response) => {
+  const { name } = req.params;
+  try {
+    const sessionId = req.header("mcp-session-id");
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || session.server !== name) {
+        jsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      await session.http.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+      jsonRpcError(res, 400, "No session - send an initialize request first");
+      return;
+    }
+    const config = servers[name];
+    if (!config) {
+      jsonRpcError(res, 404, `No MCP server named "${name}" in ${CONFIG_PATH}`);
+      return;
+    }
+
+    console.log(`🚀 Starting "${name}": ${config.command} ${(config.args || []).join(" ")}`);
+    const http = await openSession(name, config);
+    await http.handleRequest(req, res, req.body);
+    // A rejected initialize never opens a session, so its process goes too
+    if (!http.sessionId) await http.close();
+  } catch (error) {
+    console.error(`❌ Error bridging "${name}":`, error);
+    if (!res.headersSent) {
+      jsonRpcError(res, 500, error instanceof Error ? error.message : "Bridge error");
+    }
+  }
+});
+
+// Local use only - child processes run with this user's permissions
+app.listen(PORT, "127.0.0.1", () => {
+  console.log(`🌉 MCP bridge running on http://localhost:${PORT}`);
+  console.log(`🧰 Servers from ${CONFIG_PATH}: ${Object.keys(servers).join(", ") || "none"}`);
+  console.log(`📋 Health check: http://localhost:${PORT}/health`);
+  console.log(
+    `🔒 Allowed origins: ${ALLOWED_ORIGINS.join(", ")}${AUTH_TOKEN ? " (bearer token required)" : ""}`
+  );
+});
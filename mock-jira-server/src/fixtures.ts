@@ -0,0 +1,195 @@
+// Seed data for the mock Jira server. Everything lives in memory and is
+// rebuilt by createFixtures(), so a restart (or POST /api/mock/reset) gives a
+// clean demo board.
+
+export const BASE_URL = "https://mock-jira.local";
+export const STORY_POINTS_FIELD = "customfield_10016";
+
+export type StatusCategory = "new" | "indeterminate" | "done";
+
+export interface MockStatus {
+  id: string;
+  name: string;
+  category: StatusCategory;
+}
+
+export interface MockUser {
+  accountId: string;
+  displayName: string;
+  emailAddress: string;
+}
+
+export interface MockComment {
+  id: string;
+  author: MockUser;
+  body: unknown;
+  created: string;
+}
+
+export interface MockIssue {
+  id: string;
+  key: string;
+  projectKey: string;
+  summary: string;
+  // Atlassian Document Format, as sent by the client
+  description?: unknown;
+  statusId: string;
+  issueType: "Story" | "Task" | "Bug" | "Epic";
+  priority: string;
+  assigneeId: string | null;
+  storyPoints?: number;
+  parentKey?: string;
+  labels: string[];
+  dueDate?: string;
+  // Keys of the issues this one "is blocked by"
+  blockedBy?: string[];
+  sprintId?: number;
+  created: string;
+  updated: string;
+  comments: MockComment[];
+}
+
+export interface MockSprint {
+  id: number;
+  boardId: number;
+  name: string;
+  state: "active" | "closed" | "future";
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export const STATUSES: MockStatus[] = [
+  { id: "10000", name: "To Do", category: "new" },
+  { id: "10001", name: "In Progress", category: "indeterminate" },
+  { id: "10002", name: "In Review", category: "indeterminate" },
+  { id: "10003", name: "Done", category: "done" },
+];
+
+// Workflow: transition id -> target status, and which statuses may use it
+export const TRANSITIONS: { id: string; name: string; to: string; from: string[] }[] = [
+  { id: "11", name: "Start Progress", to: "10001", from: ["10000", "10002"] },
+  { id: "21", name: "Submit for Review", to: "10002", from: ["10001"] },
+  { id: "31", name: "Done", to: "10003", from: ["10002"] },
+  { id: "41", name: "Stop Progress", to: "10000", from: ["10001"] },
+  { id: "51", name: "Reopen", to: "10000", from: ["10003"] },
+];
+
+export const USERS: MockUser[] = [
+  { accountId: "u-akash", displayName: "Akash Raj", emailAddress: "akash@example.com" },
+  { accountId: "u-deepak", displayName: "Deepak V", emailAddress: "deepak@example.com" },
+  { accountId: "u-kumar", displayName: "Kumar S", emailAddress: "kumar@example.com" },
+  { accountId: "u-priya", displayName: "Priya N", emailAddress: "priya@example.com" },
+];
+
+export const PROJECTS = [
+  { id: "10000", key: "SCRUM", name: "Spark Demo", projectTypeKey: "software" },
+  { id: "10001", key: "OPS", name: "Platform Ops", projectTypeKey: "software" },
+];
+
+export const BOARDS = [
+  { id: 1, name: "SCRUM board", type: "scrum", projectKey: "SCRUM", filterId: "10100" },
+  { id: 2, name: "OPS board", type: "kanban", projectKey: "OPS", filterId: "10101" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS).toISOString();
+const dateOnly = (days: number) => daysFromNow(days).slice(0, 10);
+
+export interface MockState {
+  issues: MockIssue[];
+  sprints: MockSprint[];
+  nextCommentId: number;
+}
+
+export function createFixtures(): MockState {
+  const sprints: MockSprint[] = [
+    {
+      id: 4,
+      boardId: 1,
+      name: "SCRUM Sprint 4",
+      state: "closed",
+      startDate: daysFromNow(-19),
+      endDate: daysFromNow(-5),
+    },
+    {
+      id: 5,
+      boardId: 1,
+      name: "SCRUM Sprint 5",
+      state: "active",
+      goal: "Ship the payment flow to beta users",
+      startDate: daysFromNow(-5),
+      endDate: daysFromNow(9),
+    },
+    { id: 6, boardId: 1, name: "SCRUM Sprint 6", state: "future" },
+  ];
+
+  let id = 10100;
+  const issue = (
+    key: string,
+    summary: string,
+    fields: Partial<MockIssue> & Pick<MockIssue, "statusId" | "issueType">
+  ): MockIssue => ({
+    id: String(id++),
+    key,
+    projectKey: key.split("-")[0],
+    summary,
+    priority: "Medium",
+    assigneeId: null,
+    labels: [],
+    created: daysFromNow(-20),
+    updated: daysFromNow(-1),
+    comments: [],
+    ...fields,
+  });
+
+  const issues: MockIssue[] = [
+    issue("SCRUM-1", "Payments", { statusId: "10001", issueType: "Epic" }),
+    issue("SCRUM-2", "Team onboarding", { statusId: "10000", issueType: "Epic" }),
+    issue("SCRUM-3", "Integrate Stripe checkout", {
+      statusId: "10001", issueType: "Story", priority: "High", assigneeId: "u-deepak",
+      storyPoints: 8, parentKey: "SCRUM-1", labels: ["payments"], sprintId: 5, dueDate: dateOnly(4),
+    }),
+    issue("SCRUM-4", "Store payment receipts", {
+      statusId: "10000", issueType: "Story", assigneeId: "u-deepak",
+      storyPoints: 5, parentKey: "SCRUM-1", labels: ["payments"], sprintId: 5, blockedBy: ["SCRUM-3"],
+    }),
+    issue("SCRUM-5", "Fix currency rounding on invoices", {
+      statusId: "10002", issueType: "Bug", priority: "Highest", assigneeId: "u-kumar",
+      storyPoints: 3, parentKey: "SCRUM-1", labels: ["payments", "bug-bash"], sprintId: 5, dueDate: dateOnly(-1),
+    }),
+    issue("SCRUM-6", "Implement JWT authentication", {
+      statusId: "10003", issueType: "Story", priority: "High", assigneeId: "u-akash",
+      storyPoints: 8, sprintId: 5, updated: daysFromNow(-2),
+    }),
+    issue("SCRUM-7", "Write API tests for checkout", {
+      statusId: "10001", issueType: "Task", assigneeId: "u-kumar",
+      storyPoints: 3, parentKey: "SCRUM-1", labels: ["testing"], sprintId: 5, blockedBy: ["SCRUM-5"],
+    }),
+    issue("SCRUM-8", "Mobile layout for the welcome screen", {
+      statusId: "10000", issueType: "Story", priority: "Low", assigneeId: "u-priya",
+      storyPoints: 2, parentKey: "SCRUM-2", sprintId: 5,
+    }),
+    issue("SCRUM-9", "Onboarding checklist emails", {
+      statusId: "10000", issueType: "Story", assigneeId: "u-priya",
+      storyPoints: 5, parentKey: "SCRUM-2", sprintId: 6,
+    }),
+    issue("SCRUM-10", "Document the REST API", {
+      statusId: "10003", issueType: "Task", priority: "Low", assigneeId: "u-akash",
+      storyPoints: 1, sprintId: 5, updated: daysFromNow(-3),
+    }),
+    issue("SCRUM-11", "Optimize dashboard queries", {
+      statusId: "10000", issueType: "Task", assigneeId: null,
+      labels: ["performance"],
+    }),
+    issue("OPS-1", "Rotate staging database credentials", {
+      statusId: "10001", issueType: "Task", priority: "High", assigneeId: "u-akash",
+      labels: ["security"], dueDate: dateOnly(2),
+    }),
+    issue("OPS-2", "Set up uptime alerts", {
+      statusId: "10000", issueType: "Task", assigneeId: "u-priya",
+    }),
+  ];
+
+  return { issues, sprints, nextCommentId: 1 };
+}
@@ -0,0 +1,165 @@
+import { BOARDS, MockIssue, MockState, STATUSES, USERS } from "./fixtures";
+
+// A small JQL subset - enough for the queries the whiteboard builds. Clauses
+// are ANDed; anything unrecognised is logged and ignored rather than failing,
+// so custom queries still return something useful offline.
+
+type Predicate = (issue: MockIssue) => boolean;
+
+const CATEGORY_NAMES: Record<string, string> = {
+  "to do": "new",
+  new: "new",
+  "in progress": "indeterminate",
+  indeterminate: "indeterminate",
+  done: "done",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const unquote = (value: string) => value.trim().replace(/^["']|["']$/g, "");
+
+const parseList = (value: string) =>
+  value
+    .replace(/^\(|\)$/g, "")
+    .split(",")
+    .map((item) => unquote(item).toLowerCase())
+    .filter(Boolean);
+
+// Drop grouping parentheses left over from splitting on AND
+function stripUnbalanced(clause: string): string {
+  let result = clause.trim();
+  const count = (char: string) => result.split(char).length - 1;
+  while (result.startsWith("(") && count("(") > count(")")) {
+    result = result.slice(1).trim();
+  }
+  while (result.endsWith(")") && count(")") > count("(")) {
+    result = result.slice(0, -1).trim();
+  }
+  if (result.startsWith("(") && result.endsWith(")") && !/\bin\s*\(/i.test(result)) {
+    result = result.slice(1, -1).trim();
+  }
+  return result;
+}
+
+function statusName(issue: MockIssue): string {
+  return STATUSES.find((status) => status.id === issue.statusId)?.name.toLowerCase() || "";
+}
+
+function statusCategory(issue: MockIssue): string {
+  return STATUSES.find((status) => status.id === issue.statusId)?.category || "";
+}
+
+function matchesUser(issue: MockIssue, value: string): boolean {
+  const user = USERS.find((u) => u.accountId === issue.assigneeId);
+  if (!user) return false;
+  const target = value.toLowerCase();
+  return [user.accountId, user.displayName, user.emailAddress].some(
+    (field) => field.toLowerCase() === target
+  );
+}
+
+function relativeDate(value: string): number | undefined {
+  const match = value.match(/^-(\d+)([dw])$/i);
+  if (!match) return Date.parse(unquote(value)) || undefined;
+  const days = Number(match[1]) * (match[2].toLowerCase() === "w" ? 7 : 1);
+  return Date.now() - days * DAY_MS;
+}
+
+function parseClause(clause: string, state: MockState): Predicate | null {
+  let match: RegExpMatchArray | null;
+
+  if ((match = clause.match(/^project\s*=\s*(.+)$/i))) {
+    const key = unquote(match[1]).toLowerCase();
+    return (issue) => issue.projectKey.toLowerCase() === key;
+  }
+  if ((match = clause.match(/^project\s+in\s*(\(.+\))$/i))) {
+    const keys = parseList(match[1]);
+    return (issue) => keys.includes(issue.projectKey.toLowerCase());
+  }
+  if ((match = clause.match(/^filter\s*=\s*(.+)$/i))) {
+    const board = BOARDS.find((b) => b.filterId === unquote(match![1]));
+    return (issue) => !!board && issue.projectKey === board.projectKey;
+  }
+  if ((match = clause.match(/^(?:issuekey|key)\s*=\s*(.+)$/i))) {
+    const key = unquote(match[1]).toLowerCase();
+    return (issue) => issue.key.toLowerCase() === key;
+  }
+  if ((match = clause.match(/^(?:issuekey|key)\s+in\s*(\(.+\))$/i))) {
+    const keys = parseList(match[1]);
+    return (issue) => keys.includes(issue.key.toLowerCase());
+  }
+  if ((match = clause.match(/^statusCategory\s*(!?=)\s*(.+)$/i))) {
+    const category = CATEGORY_NAMES[unquote(match[2]).toLowerCase()];
+    const negate = match[1] === "!=";
+    return (issue) => (statusCategory(issue) === category) !== negate;
+  }
+  if ((match = clause.match(/^status\s*(!?=)\s*(.+)$/i))) {
+    const name = unquote(match[2]).toLowerCase();
+    const negate = match[1] === "!=";
+    return (issue) => (statusName(issue) === name) !== negate;
+  }
+  if ((match = clause.match(/^status\s+(not\s+)?in\s*(\(.+\))$/i))) {
+    const names = parseList(match[2]);
+    const negate = !!match[1];
+    return (issue) => names.includes(statusName(issue)) !== negate;
+  }
+  if ((match = clause.match(/^assignee\s+is\s+(not\s+)?empty$/i))) {
+    const negate = !!match[1];
+    return (issue) => (issue.assigneeId === null) !== negate;
+  }
+  if ((match = clause.match(/^assignee\s*=\s*(.+)$/i))) {
+    const value = unquote(match[1]);
+    return (issue) => matchesUser(issue, value);
+  }
+  if (/^sprint\s+in\s+openSprints\(\)$/i.test(clause)) {
+    const open = state.sprints.filter((s) => s.state === "active").map((s) => s.id);
+    return (issue) => issue.sprintId !== undefined && open.includes(issue.sprintId);
+  }
+  if ((match = clause.match(/^sprint\s*=\s*(.+)$/i))) {
+    const value = unquote(match[1]).toLowerCase();
+    const sprint = state.sprints.find(
+      (s) => String(s.id) === value || s.name.toLowerCase() === value
+    );
+    return (issue) => !!sprint && issue.sprintId === sprint.id;
+  }
+  if ((match = clause.match(/^(updated|created)\s*(>=|<=|>|<)\s*(.+)$/i))) {
+    const field = match[1].toLowerCase() as "updated" | "created";
+    const operator = match[2];
+    const bound = relativeDate(match[3].trim());
+    if (bound === undefined) return null;
+    return (issue) => {
+      const value = Date.parse(issue[field]);
+      return operator.startsWith(">") ? value >= bound : value <= bound;
+    };
+  }
+
+  return null;
+}
+
+export function runJql(state: MockState, jql: string): MockIssue[] {
+  const orderMatch = jql.match(/\border\s+by\s+(\w+)(?:\s+(asc|desc))?\s*$/i);
+  const filter = (orderMatch ? jql.slice(0, orderMatch.index) : jql).trim();
+
+  const predicates: Predicate[] = [];
+  if (filter) {
+    filter.split(/\s+AND\s+/i).forEach((rawClause) => {
+      const clause = stripUnbalanced(rawClause);
+      const predicate = /\s+OR\s+/i.test(clause) ? null : parseClause(clause, state);
+      if (predicate) {
+        predicates.push(predicate);
+      } else {
+        console.warn(`⚠️  Mock JQL ignores unsupported clause: ${clause}`);
+      }
+    });
+  }
+
+  const results = state.issues.filter((issue) => predicates.every((p) => p(issue)));
+
+  const orderField = (orderMatch?.[1] || "updated").toLowerCase();
+  const direction = (orderMatch?.[2] || "desc").toLowerCase() === "asc" ? 1 : -1;
+  return results.sort((a, b) => {
+    const left = orderField === "created" ? a.created : orderField === "key" ? a.id : a.updated;
+    const right = orderField === "created" ? b.created : orderField === "key" ? b.id : b.updated;
+    return left.localeCompare(right) * direction;
+  });
+}
@@ -0,0 +1,368 @@
+import express, { Request, Response } from "express";
+import cors from "cors";
+import {
+  BASE_URL,
+  BOARDS,
+  createFixtures,
+  MockIssue,
+  MockState,
+  PROJECTS,
+  STATUSES,
+  STORY_POINTS_FIELD,
+  TRANSITIONS,
+  USERS,
+} from "./fixtures";
+import { runJql } from "./jql";
+
+// Mock of the Jira proxy server (proxy-server/server.js) for offline
+// development and demos. It serves the same /api/jira routes from in-memory
+// fixture data with a realistic To Do -> In Progress -> In Review -> Done
+// workflow. Point the app at it with VITE_PROXY_BASE_URL=http://localhost:3002
+// or the "Use local mock Jira" toggle in settings.
+
+const app = express();
+const PORT = Number(process.env.MOCK_JIRA_PORT) || 3002;
+
+app.use(cors());
+app.use(express.json());
+
+let state: MockState = createFixtures();
+
+function jiraError(res: Response, status: number, message: string) {
+  res.status(status).json({ errorMessages: [message], errors: {} });
+}
+
+function findIssue(req: Request, res: Response): MockIssue | undefined {
+  const key = req.params.issueKey.toUpperCase();
+  const issue = state.issues.find((i) => i.key === key);
+  if (!issue) {
+    jiraError(res, 404, "Issue does not exist or you do not have permission to see it.");
+  }
+  return issue;
+}
+
+function toJiraUser(accountId: string | null) {
+  const user = USERS.find((u) => u.accountId === accountId);
+  return user ? { ...user, active: true } : null;
+}
+
+function toJiraStatus(statusId: string) {
+  const status = STATUSES.find((s) => s.id === statusId)!;
+  return {
+    id: status.id,
+    name: status.name,
+    statusCategory: { key: status.category },
+  };
+}
+
+const BLOCKS_LINK_TYPE = { id: "10000", name: "Blocks", inward: "is blocked by", outward: "blocks" };
+
+// Helper function to list "Blocks" links from both ends, like Jira does
+function toIssueLinks(issue: MockIssue) {
+  const blockedBy = (issue.blockedBy || []).map((key) => ({
+    type: BLOCKS_LINK_TYPE,
+    inwardIssue: { key },
+  }));
+  const blocks = state.issues
+    .filter((other) => other.blockedBy?.includes(issue.key))
+    .map((other) => ({ type: BLOCKS_LINK_TYPE, outwardIssue: { key: other.key } }));
+  return [...blockedBy, ...blocks];
+}
+
+// Shape an issue like Jira's REST v3 response
+function toJiraIssue(issue: MockIssue) {
+  const parent = state.issues.find((i) => i.key === issue.parentKey);
+  const sprint = state.sprints.find((s) => s.id === issue.sprintId);
+  return {
+    id: issue.id,
+    key: issue.key,
+    self: `${BASE_URL}/rest/api/3/issue/${issue.id}`,
+    fields: {
+      summary: issue.summary,
+      description: issue.description ?? null,
+      status: toJiraStatus(issue.statusId),
+      issuetype: { name: issue.issueType },
+      priority: { name: issue.priority },
+      assignee: toJiraUser(issue.assigneeId),
+      project: PROJECTS.find((p) => p.key === issue.projectKey),
+      parent: parent
+        ? { key: parent.key, fields: { summary: parent.summary } }
+        : undefined,
+      labels: issue.labels,
+      duedate: issue.dueDate || null,
+      issuelinks: toIssueLinks(issue),
+      created: issue.created,
+      updated: issue.updated,
+      sprint: sprint ? { id: sprint.id, name: sprint.name, state: sprint.state } : null,
+      comment: { total: issue.comments.length, comments: issue.comments },
+      [STORY_POINTS_FIELD]: issue.storyPoints ?? null,
+    },
+  };
+}
+
+const touch = (issue: MockIssue) => {
+  issue.updated = new Date().toISOString();
+};
+
+// Health check endpoint
+app.get("/health", (_req, res) => {
+  res.json({
+    status: "ok",
+    message: "Mock Jira server is running",
+    jiraUrl: BASE_URL,
+    mock: true,
+  });
+});
+
+// Reset all fixture data (handy between demo runs)
+app.post("/api/mock/reset", (_req, res) => {
+  state = createFixtures();
+  console.log("🔄 Mock Jira data reset");
+  res.json({ success: true });
+});
+
+// Search with nextPageToken pagination, like /rest/api/3/search/jql
+app.post("/api/jira/search", (req, res) => {
+  const { jql = "", maxResults = 50, nextPageToken } = req.body || {};
+  console.log(`📞 Mock search: ${jql}`);
+
+  const results = runJql(state, jql);
+  const start = nextPageToken ? Number(nextPageToken) || 0 : 0;
+  const pageSize = Math.max(1, Math.min(Number(maxResults) || 50, 100));
+  const page = results.slice(start, start + pageSize);
+  const isLast = start + pageSize >= results.length;
+
+  res.json({
+    issues: page.map(toJiraIssue),
+    isLast,
+    nextPageToken: isLast ? undefined : String(start + pageSize),
+  });
+});
+
+// New issues start in To Do and take the next number in their project
+app.post("/api/jira/issue", (req, res) => {
+  const fields = req.body?.fields || {};
+  const projectKey = String(fields.project?.key || "").toUpperCase();
+  const issueType = fields.issuetype?.name;
+  if (!PROJECTS.some((p) => p.key === projectKey)) {
+    res.status(400).json({ errorMessages: [], errors: { project: "valid project is required" } });
+    return;
+  }
+  if (!["Story", "Task", "Bug", "Epic"].includes(issueType)) {
+    res.status(400).json({ errorMessages: [], errors: { issuetype: "Specify a valid issue type" } });
+    return;
+  }
+  if (!fields.summary) {
+    res.status(400).json({ errorMessages: [], errors: { summary: "You must specify a summary of the issue." } });
+    return;
+  }
+
+  const number =
+    Math.max(
+      0,
+      ...state.issues
+        .filter((i) => i.projectKey === projectKey)
+        .map((i) => Number(i.key.split("-")[1]))
+    ) + 1;
+  const now = new Date().toISOString();
+  const issue: MockIssue = {
+    id: String(Math.max(...state.issues.map((i) => Number(i.id))) + 1),
+    key: `${projectKey}-${number}`,
+    projectKey,
+    summary: String(fields.summary),
+    description: fields.description,
+    statusId: "10000",
+    issueType,
+    priority: fields.priority?.name || "Medium",
+    assigneeId: fields.assignee?.accountId ?? null,
+    labels: Array.isArray(fields.labels) ? fields.labels : [],
+    dueDate: fields.duedate || undefined,
+    created: now,
+    updated: now,
+    comments: [],
+  };
+  state.issues.push(issue);
+
+  console.log(`➕ Mock created ${issue.key}: ${issue.summary}`);
+  res.status(201).json({ id: issue.id, key: issue.key, self: `${BASE_URL}/rest/api/3/issue/${issue.id}` });
+});
+
+app.get("/api/jira/issue/:issueKey", (req, res) => {
+  const issue = findIssue(req, res);
+  if (issue) res.json(toJiraIssue(issue));
+});
+
+// Field updates: summary, priority, assignee, labels and due date
+app.put("/api/jira/issue/:issueKey", (req, res) => {
+  const issue = findIssue(req, res);
+  if (!issue) return;
+
+  const fields = req.body?.fields || {};
+  if ("assignee" in fields) {
+    const accountId = fields.assignee?.accountId ?? null;
+    if (accountId && !USERS.some((u) => u.accountId === accountId)) {
+      res.status(400).json({ errorMessages: [], errors: { assignee: `User '${accountId}' does not exist.` } });
+      return;
+    }
+    issue.assigneeId = accountId;
+  }
+  if (fields.priority?.name) issue.priority = fields.priority.name;
+  if (typeof fields.summary === "string") issue.summary = fields.summary;
+  if (Array.isArray(fields.labels)) issue.labels = fields.labels;
+  if ("duedate" in fields) issue.dueDate = fields.duedate || undefined;
+  if (STORY_POINTS_FIELD in fields) issue.storyPoints = fields[STORY_POINTS_FIELD] ?? undefined;
+  touch(issue);
+
+  console.log(`📝 Mock updated ${issue.key}:`, fields);
+  res.json({ success: true, message: `Updated issue ${issue.key}` });
+});
+
+// Transitions available from the issue's current status
+app.get("/api/jira/issue/:issueKey/transitions", (req, res) => {
+  const issue = findIssue(req, res);
+  if (!issue) return;
+
+  res.json({
+    transitions: TRANSITIONS.filter((t) => t.from.includes(issue.statusId)).map((t) => ({
+      id: t.id,
+      name: t.name,
+      to: toJiraStatus(t.to),
+    })),
+  });
+});
+
+app.post("/api/jira/issue/:issueKey/transitions", (req, res) => {
+  const issue = findIssue(req, res);
+  if (!issue) return;
+
+  const transitionId = String(req.body?.transition?.id || "");
+  const transition = TRANSITIONS.find((t) => t.id === transitionId);
+  if (!transition || !transition.from.includes(issue.statusId)) {
+    jiraError(res, 400, `Transition id '${transitionId}' is not valid for this issue.`);
+    return;
+  }
+
+  issue.statusId = transition.to;
+  touch(issue);
+  console.log(`🔄 Mock transitioned ${issue.key} to ${toJiraStatus(issue.statusId).name}`);
+  res.json({ success: true, message: `Transitioned issue ${issue.key}` });
+});
+
+app.post("/api/jira/issue/:issueKey/comment", (req, res) => {
+  const issue = findIssue(req, res);
+  if (!issue) return;
+
+  if (!req.body?.body) {
+    jiraError(res, 400, "Comment body can not be empty!");
+    return;
+  }
+
+  const comment = {
+    id: String(state.nextCommentId++),
+    author: USERS[0],
+    body: req.body.body,
+    created: new Date().toISOString(),
+  };
+  issue.comments.push(comment);
+  touch(issue);
+  console.log(`💬 Mock comment on ${issue.key}`);
+  res.json({ success: true, message: `Added comment to issue ${issue.key}` });
+});
+
+// Confluence isn't mocked; page comments (e.g. posted meeting minutes) are
+// accepted for any page and only logged, so the flow works offline
+app.post("/api/confluence/page/:pageId/comment", (req, res) => {
+  if (!req.body?.html) {
+    jiraError(res, 400, "Comment body can not be empty!");
+    return;
+  }
+
+  const id = String(state.nextCommentId++);
+  console.log(`💬 Mock comment on Confluence page ${req.params.pageId}`);
+  res.json({ success: true, id });
+});
+
+app.get("/api/jira/project", (_req, res) => {
+  res.json(PROJECTS);
+});
+
+app.get("/api/jira/user/search", (req, res) => {
+  const query = String(req.query.query || "").toLowerCase();
+  res.json(
+    USERS.filter(
+      (u) =>
+        u.displayName.toLowerCase().includes(query) ||
+        u.emailAddress.toLowerCase().includes(query)
+    )
+  );
+});
+
+app.get("/api/jira/board", (req, res) => {
+  const projectKey = String(req.query.projectKeyOrId || "").toUpperCase();
+  const type = String(req.query.type || "");
+  const boards = BOARDS.filter(
+    (b) => (!projectKey || b.projectKey === projectKey) && (!type || b.type === type)
+  ).map(({ id, name, type: boardType }) => ({ id, name, type: boardType }));
+  res.json({ values: boards, isLast: true });
+});
+
+app.get("/api/jira/board/:boardId/configuration", (req, res) => {
+  const board = BOARDS.find((b) => String(b.id) === req.params.boardId);
+  if (!board) {
+    jiraError(res, 404, `Board ${req.params.boardId} does not exist.`);
+    return;
+  }
+  res.json({ id: board.id, name: board.name, filter: { id: board.filterId } });
+});
+
+app.get("/api/jira/board/:boardId/sprint", (req, res) => {
+  const stateFilter = String(req.query.state || "");
+  const sprints = state.sprints.filter(
+    (s) =>
+      String(s.boardId) === req.params.boardId &&
+      (!stateFilter || stateFilter.split(",").includes(s.state))
+  );
+  res.json({ values: sprints, isLast: true });
+});
+
+// Sprint report: issues created after the sprint started count as added
+// during it, and every estimate is taken to be unchanged since
+app.get("/api/jira/board/:boardId/sprint/:sprintId/report", (req, res) => {
+  const sprint = state.sprints.find(
+    (s) => String(s.boardId) === req.params.boardId && String(s.id) === req.params.sprintId
+  );
+  if (!sprint) {
+    jiraError(res, 404, `Sprint ${req.params.sprintId} does not exist.`);
+    return;
+  }
+
+  const issues = state.issues.filter((i) => i.sprintId === sprint.id);
+  const toReportIssue = (issue: MockIssue) => ({
+    key: issue.key,
+    estimateStatistic: {
+      statFieldId: STORY_POINTS_FIELD,
+      statFieldValue: issue.storyPoints !== undefined ? { value: issue.storyPoints } : {},
+    },
+  });
+  const isDone = (issue: MockIssue) => toJiraStatus(issue.statusId).statusCategory.key === "done";
+  const started = sprint.startDate ? Date.parse(sprint.startDate) : Infinity;
+
+  res.json({
+    contents: {
+      completedIssues: issues.filter(isDone).map(toReportIssue),
+      issuesNotCompletedInCurrentSprint: issues.filter((i) => !isDone(i)).map(toReportIssue),
+      puntedIssues: [],
+      issuesCompletedInAnotherSprint: [],
+      issueKeysAddedDuringSprint: Object.fromEntries(
+        issues.filter((i) => Date.parse(i.created) > started).map((i) => [i.key, true])
+      ),
+    },
+    sprint: { id: sprint.id, name: sprint.name, state: sprint.state.toUpperCase() },
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`🧪 Mock Jira server running on http://localhost:${PORT}`);
+  console.log(`📋 ${state.issues.length} fixture issues across ${PROJECTS.length} projects`);
+  console.log(`📋 Health check: http://localhost:${PORT}/health`);
+});
@@ -33,6 +33,30 @@ function getAuthHeader(username, token) {
   return Buffer.from(`${username}:${token}`).toString("base64");
 }
 
+// Express decodes path params, so an unchecked one could carry "../" into
+// the upstream URL; every param is also encoded where it is interpolated.
+// Jira takes keys in any case, so a typed "scrum-12" is let through.
+const ISSUE_KEY = /^[A-Z][A-Z0-9_]*-\d+$/;
+app.param("issueKey", (req, res, next, issueKey) => {
+  if (!ISSUE_KEY.test(issueKey.toUpperCase())) {
+    res.status(400).json({ errorMessages: [`Invalid issue key: ${issueKey}`], errors: {} });
+    return;
+  }
+  next();
+});
+
+// Agile board and sprint ids are numbers; ".." would survive encoding
+const NUMERIC_ID = /^\d+$/;
+["boardId", "sprintId"].forEach((name) => {
+  app.param(name, (req, res, next, value) => {
+    if (!NUMERIC_ID.test(value)) {
+      res.status(400).json({ errorMessages: [`Invalid ${name}: ${value}`], errors: {} });
+      return;
+    }
+    next();
+  });
+});
+
 // Health check endpoint
 app.get("/health", (req, res) => {
   res.json({
@@ -53,7 +77,7 @@ app.post("/api/jira/search", async (req, res) => {
     // Enforce bounded JQL to satisfy Jira Cloud requirements (avoid unbounded queries)
     const incomingBody = req.body || {};
     const originalJql = (incomingBody.jql || "").trim();
-    const hasRestriction = /\b(project\s*=|updated\s*[<>]=|created\s*[<>]=|issuekey\s*=|assignee\s*=|reporter\s*=|updated\s*>=\s*-\d+d)/i.test(
+    const hasRestriction = /\b(project\s*=|project\s+in\b|filter\s*=|sprint\s*=|sprint\s+in\b|updated\s*[<>]=|created\s*[<>]=|issuekey\s*=|assignee\s*=|reporter\s*=|updated\s*>=\s*-\d+d)/i.test(
       originalJql
     );
     const boundedJql = hasRestriction
@@ -97,6 +121,79 @@ app.post("/api/jira/search", async (req, res) => {
   }
 });
 
+// Proxy endpoint for fetching a single Jira issue
+app.get("/api/jira/issue/:issueKey", async (req, res) => {
+  try {
+    const { issueKey } = req.params;
+    console.log(`🎫 Fetching Jira issue: ${issueKey}`);
+
+    const cfg = getEffectiveJiraConfig(req);
+    const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
+
+    const response = await axios.get(
+      `${cfg.baseURL}/rest/api/3/issue/${encodeURIComponent(issueKey)}`,
+      {
+        params: req.query,
+        headers: {
+          Authorization: `Basic ${authHeader}`,
+          Accept: "application/json",
+        },
+      }
+    );
+
+    console.log(`✅ Successfully fetched issue ${issueKey}`);
+    res.json(response.data);
+  } catch (error) {
+    console.error(
+      `❌ Error fetching issue ${req.params.issueKey}:`,
+      error.message
+    );
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
+// Proxy endpoint for creating Jira issues
+app.post("/api/jira/issue", async (req, res) => {
+  try {
+    console.log(`➕ Creating Jira issue: ${req.body?.fields?.summary}`);
+
+    const cfg = getEffectiveJiraConfig(req);
+    const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
+
+    const response = await axios.post(
+      `${cfg.baseURL}/rest/api/3/issue`,
+      req.body,
+      {
+        headers: {
+          Authorization: `Basic ${authHeader}`,
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    console.log(`✅ Successfully created issue ${response.data.key}`);
+    res.json(response.data);
+  } catch (error) {
+    console.error("❌ Error creating issue:", error.message);
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
 // Proxy endpoint for Jira issue updates
 app.put("/api/jira/issue/:issueKey", async (req, res) => {
   try {
@@ -107,7 +204,7 @@ app.put("/api/jira/issue/:issueKey", async (req, res) => {
     const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
 
     const response = await axios.put(
-      `${cfg.baseURL}/rest/api/3/issue/${issueKey}`,
+      `${cfg.baseURL}/rest/api/3/issue/${encodeURIComponent(issueKey)}`,
       req.body,
       {
         headers: {
@@ -136,6 +233,45 @@ app.put("/api/jira/issue/:issueKey", async (req, res) => {
   }
 });
 
+// Proxy endpoint for listing the transitions available to an issue
+app.get("/api/jira/issue/:issueKey/transitions", async (req, res) => {
+  try {
+    const { issueKey } = req.params;
+    console.log(`🔀 Fetching transitions for Jira issue: ${issueKey}`);
+
+    const cfg = getEffectiveJiraConfig(req);
+    const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
+
+    const response = await axios.get(
+      `${cfg.baseURL}/rest/api/3/issue/${encodeURIComponent(issueKey)}/transitions`,
+      {
+        headers: {
+          Authorization: `Basic ${authHeader}`,
+          Accept: "application/json",
+        },
+      }
+    );
+
+    console.log(
+      `✅ Found ${response.data.transitions.length} transitions for ${issueKey}`
+    );
+    res.json(response.data);
+  } catch (error) {
+    console.error(
+      `❌ Error fetching transitions for ${req.params.issueKey}:`,
+      error.message
+    );
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
 // Proxy endpoint for Jira issue transitions
 app.post("/api/jira/issue/:issueKey/transitions", async (req, res) => {
   try {
@@ -146,7 +282,7 @@ app.post("/api/jira/issue/:issueKey/transitions", async (req, res) => {
     const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
 
     const response = await axios.post(
-      `${cfg.baseURL}/rest/api/3/issue/${issueKey}/transitions`,
+      `${cfg.baseURL}/rest/api/3/issue/${encodeURIComponent(issueKey)}/transitions`,
       req.body,
       {
         headers: {
@@ -185,7 +321,7 @@ app.post("/api/jira/issue/:issueKey/comment", async (req, res) => {
     const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
 
     const response = await axios.post(
-      `${cfg.baseURL}/rest/api/3/issue/${issueKey}/comment`,
+      `${cfg.baseURL}/rest/api/3/issue/${encodeURIComponent(issueKey)}/comment`,
       req.body,
       {
         headers: {
@@ -214,6 +350,232 @@ app.post("/api/jira/issue/:issueKey/comment", async (req, res) => {
   }
 });
 
+// Proxy endpoint for commenting on a Confluence page, e.g. posting meeting
+// minutes. Confluence Cloud lives on the same Atlassian site as Jira.
+app.post("/api/confluence/page/:pageId/comment", async (req, res) => {
+  try {
+    const { pageId } = req.params;
+    console.log(`💬 Adding comment to Confluence page: ${pageId}`);
+
+    const cfg = getEffectiveJiraConfig(req);
+    const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
+
+    const response = await axios.post(
+      `${cfg.baseURL}/wiki/api/v2/footer-comments`,
+      {
+        pageId,
+        body: { representation: "storage", value: req.body.html },
+      },
+      {
+        headers: {
+          Authorization: `Basic ${authHeader}`,
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    console.log(`✅ Successfully added comment to page ${pageId}`);
+    res.json({ success: true, id: response.data.id });
+  } catch (error) {
+    console.error(
+      `❌ Error adding comment to page ${req.params.pageId}:`,
+      error.message
+    );
+    if (error.response) {
+      // Reshape Confluence errors the way Jira reports them
+      const errors = error.response.data?.errors || [];
+      res.status(error.response.status).json({
+        errorMessages: errors.map((e) => e.title || e.detail || e.message),
+      });
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
+// Proxy endpoint for finding users (used to resolve assignee names to account ids)
+app.get("/api/jira/user/search", async (req, res) => {
+  try {
+    const query = req.query.query || "";
+    console.log(`👤 Searching Jira users: ${query}`);
+
+    const cfg = getEffectiveJiraConfig(req);
+    const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
+
+    const response = await axios.get(`${cfg.baseURL}/rest/api/3/user/search`, {
+      params: { query },
+      headers: {
+        Authorization: `Basic ${authHeader}`,
+        Accept: "application/json",
+      },
+    });
+
+    console.log(`✅ Found ${response.data.length} users matching "${query}"`);
+    res.json(response.data);
+  } catch (error) {
+    console.error("❌ Error searching users:", error.message);
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
+// Proxy endpoint for an Agile board's configuration (its saved filter scopes board syncs)
+app.get("/api/jira/board/:boardId/configuration", async (req, res) => {
+  try {
+    const { boardId } = req.params;
+    console.log(`📋 Fetching configuration for Jira board: ${boardId}`);
+
+    const cfg = getEffectiveJiraConfig(req);
+    const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
+
+    const response = await axios.get(
+      `${cfg.baseURL}/rest/agile/1.0/board/${encodeURIComponent(boardId)}/configuration`,
+      {
+        headers: {
+          Authorization: `Basic ${authHeader}`,
+          Accept: "application/json",
+        },
+      }
+    );
+
+    console.log(`✅ Board ${boardId} uses filter ${response.data.filter?.id}`);
+    res.json(response.data);
+  } catch (error) {
+    console.error(
+      `❌ Error fetching board ${req.params.boardId} configuration:`,
+      error.message
+    );
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
+// Proxy endpoint for listing Agile boards (e.g. ?projectKeyOrId=SCRUM&type=scrum)
+app.get("/api/jira/board", async (req, res) => {
+  try {
+    console.log("📋 Fetching Jira boards...", req.query);
+
+    const cfg = getEffectiveJiraConfig(req);
+    const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
+
+    const response = await axios.get(`${cfg.baseURL}/rest/agile/1.0/board`, {
+      params: req.query,
+      headers: {
+        Authorization: `Basic ${authHeader}`,
+        Accept: "application/json",
+      },
+    });
+
+    console.log(`✅ Found ${response.data.values.length} boards`);
+    res.json(response.data);
+  } catch (error) {
+    console.error("❌ Error fetching boards:", error.message);
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
+// Proxy endpoint for a board's sprints (e.g. ?state=active)
+app.get("/api/jira/board/:boardId/sprint", async (req, res) => {
+  try {
+    const { boardId } = req.params;
+    console.log(`🏃 Fetching sprints for Jira board: ${boardId}`);
+
+    const cfg = getEffectiveJiraConfig(req);
+    const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
+
+    const response = await axios.get(
+      `${cfg.baseURL}/rest/agile/1.0/board/${encodeURIComponent(boardId)}/sprint`,
+      {
+        params: req.query,
+        headers: {
+          Authorization: `Basic ${authHeader}`,
+          Accept: "application/json",
+        },
+      }
+    );
+
+    console.log(
+      `✅ Found ${response.data.values.length} sprints for board ${boardId}`
+    );
+    res.json(response.data);
+  } catch (error) {
+    console.error(
+      `❌ Error fetching sprints for board ${req.params.boardId}:`,
+      error.message
+    );
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
+// Proxy endpoint for a sprint's report, the only place Jira keeps the scope
+// a sprint started with
+app.get("/api/jira/board/:boardId/sprint/:sprintId/report", async (req, res) => {
+  try {
+    const { boardId, sprintId } = req.params;
+    console.log(`📊 Fetching report for sprint ${sprintId} on board ${boardId}`);
+
+    const cfg = getEffectiveJiraConfig(req);
+    const authHeader = getAuthHeader(cfg.username, cfg.apiToken);
+
+    const response = await axios.get(
+      `${cfg.baseURL}/rest/greenhopper/1.0/rapid/charts/sprintreport`,
+      {
+        params: { rapidViewId: boardId, sprintId },
+        headers: {
+          Authorization: `Basic ${authHeader}`,
+          Accept: "application/json",
+        },
+      }
+    );
+
+    console.log(`✅ Fetched report for sprint ${sprintId}`);
+    res.json(response.data);
+  } catch (error) {
+    console.error(
+      `❌ Error fetching report for sprint ${req.params.sprintId}:`,
+      error.message
+    );
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
 // Proxy endpoint for getting projects
 app.get("/api/jira/project", async (req, res) => {
   try {
@@ -249,6 +611,156 @@ app.get("/api/jira/project", async (req, res) => {
   }
 });
 
+// Helper to list the root fields of each operation in a GraphQL document.
+// Returns null when a root field can't be named (e.g. a fragment spread).
+function getGraphQLRootFields(query) {
+  const tokens =
+    String(query || "")
+      .replace(/"(?:[^"\\]|\\.)*"/g, '""')
+      .replace(/#[^\n]*/g, "")
+      .match(/\.\.\.|[A-Za-z_][A-Za-z0-9_]*|\S/g) || [];
+  const operations = [];
+  let operation = null;
+  let depth = 0;
+  let parens = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === "(") parens++;
+    else if (token === ")") parens--;
+    if (parens > 0 || token === ")") continue;
+
+    if (token === "{") {
+      // An anonymous "{ ... }" document is a query
+      if (depth === 0 && !operation) {
+        operation = { type: "query", fields: [] };
+        operations.push(operation);
+      }
+      depth++;
+    } else if (token === "}") {
+      depth--;
+      if (depth === 0) operation = null;
+    } else if (depth === 0 && ["query", "mutation", "subscription", "fragment"].includes(token)) {
+      operation = { type: token, fields: [] };
+      operations.push(operation);
+    } else if (depth === 1 && operation && operation.type !== "fragment") {
+      if (token === "...") return null;
+      if (/^[A-Za-z_]/.test(token) && tokens[i - 1] !== "@" && tokens[i + 1] !== ":") {
+        operation.fields.push(token);
+      }
+    }
+  }
+  return operations.filter((op) => op.type !== "fragment");
+}
+
+// Root fields the tracker adapters use, by operation type. The server's own
+// token only runs these, so the open proxy can't be used for anything else;
+// a caller's own token is passed through as is.
+const GRAPHQL_ALLOWLIST = {
+  github: {
+    query: ["repository", "repositoryOwner"],
+    mutation: [
+      "updateProjectV2ItemFieldValue",
+      "closeIssue",
+      "reopenIssue",
+      "addComment",
+      "updateIssue",
+      "createIssue",
+      "addProjectV2ItemById",
+    ],
+  },
+  linear: {
+    query: ["teams", "issues", "issue", "projects"],
+    mutation: ["issueUpdate", "commentCreate", "issueCreate"],
+  },
+};
+
+// Helper to check a request against the allowlist; returns why it's refused
+function getDisallowedOperation(body, allowlist) {
+  const operations = getGraphQLRootFields(body && body.query);
+  if (!operations || operations.length !== 1) {
+    return "Only single operations with named root fields are allowed";
+  }
+  const [{ type, fields }] = operations;
+  const allowed = allowlist[type] || [];
+  const refused = fields.filter((field) => !allowed.includes(field));
+  if (fields.length === 0 || refused.length > 0) {
+    return `${type} ${refused.join(", ") || "(empty)"} is not allowed with the server's token`;
+  }
+  return null;
+}
+
+// Proxy endpoint for the GitHub GraphQL API (Issues and Projects v2)
+app.post("/api/github/graphql", async (req, res) => {
+  try {
+    console.log("🐙 Proxying GitHub GraphQL request...");
+    const callerToken = req.header("X-GitHub-Token");
+    const token = callerToken || process.env.GITHUB_TOKEN;
+    const refusal = !callerToken && getDisallowedOperation(req.body, GRAPHQL_ALLOWLIST.github);
+    if (refusal) {
+      console.warn(`⛔ Refused GitHub GraphQL request: ${refusal}`);
+      return res.status(403).json({ error: "Operation not allowed", message: refusal });
+    }
+
+    const response = await axios.post("https://api.github.com/graphql", req.body, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+    });
+
+    console.log("✅ GitHub GraphQL request completed");
+    res.json(response.data);
+  } catch (error) {
+    console.error("❌ Error proxying GitHub request:", error.message);
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
+// Proxy endpoint for the Linear GraphQL API (issues, workflow states and cycles)
+app.post("/api/linear/graphql", async (req, res) => {
+  try {
+    console.log("📐 Proxying Linear GraphQL request...");
+    const callerKey = req.header("X-Linear-Key");
+    const apiKey = callerKey || process.env.LINEAR_API_KEY;
+    const refusal = !callerKey && getDisallowedOperation(req.body, GRAPHQL_ALLOWLIST.linear);
+    if (refusal) {
+      console.warn(`⛔ Refused Linear GraphQL request: ${refusal}`);
+      return res.status(403).json({ error: "Operation not allowed", message: refusal });
+    }
+
+    // Personal API keys go in the Authorization header without a scheme
+    const response = await axios.post("https://api.linear.app/graphql", req.body, {
+      headers: {
+        Authorization: apiKey,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+    });
+
+    console.log("✅ Linear GraphQL request completed");
+    res.json(response.data);
+  } catch (error) {
+    console.error("❌ Error proxying Linear request:", error.message);
+    if (error.response) {
+      res.status(error.response.status).json(error.response.data);
+    } else {
+      res.status(500).json({
+        error: "Proxy server error",
+        message: error.message,
+      });
+    }
+  }
+});
+
 app.listen(PORT, () => {
   console.log(`🚀 Jira Proxy Server running on http://localhost:${PORT}`);
   console.log(`🎯 Proxying requests to: ${JIRA_CONFIG.baseURL}`);
@@ -6,35 +6,35 @@ import { z } from "zod";
 import { HumanMessage } from "@langchain/core/messages";
 
 // Import our existing tools
-import { processJiraToolCall } from "../tools/jira-whiteboard-tools";
+import { processTrackerToolCall } from "../tools/tracker-whiteboard-tools";
 import { processToolCall } from "../tools/whiteboard-tools";
 
 // LangChain tool definitions that wrap our existing functionality
-const syncJiraBoardTool = tool(
+const syncTrackerBoardTool = tool(
   async (input: { includeCompleted?: boolean }) => {
-    console.log("🔧 LangChain: Executing sync_jira_board tool");
+    console.log("🔧 LangChain: Executing sync_tracker_board tool");
 
     const currentData = (window as any).getCurrentWhiteboardData?.() || {
       elements: [],
     };
-    const result = await processJiraToolCall(
+    const result = await processTrackerToolCall(
       currentData,
-      "sync_jira_board",
+      "sync_tracker_board",
       input
     );
 
     // Update whiteboard if there's new data
     if (result.newData && (window as any).setWhiteboardData) {
-      (window as any).setWhiteboardData(result.newData);
+      (window as any).setWhiteboardData(result.newData, undefined, currentData);
     }
 
-    console.log("✅ LangChain: sync_jira_board completed:", result.response);
+    console.log("✅ LangChain: sync_tracker_board completed:", result.response);
     return JSON.stringify(result.response);
   },
   {
-    name: "sync_jira_board",
+    name: "sync_tracker_board",
     description:
-      "Sync whiteboard with real Jira project data. Fetches current issues and displays them in Kanban format.",
+      "Sync whiteboard with the issue tracker the board is bound to (Jira, GitHub, Linear or local task files). Fetches current issues and displays them in Kanban format.",
     schema: z.object({
       includeCompleted: z
         .boolean()
@@ -51,7 +51,7 @@ const getTeamWorkloadTool = tool(
     const currentData = (window as any).getCurrentWhiteboardData?.() || {
       elements: [],
     };
-    const result = await processJiraToolCall(
+    const result = await processTrackerToolCall(
       currentData,
       "get_team_workload",
       input
@@ -63,7 +63,7 @@ const getTeamWorkloadTool = tool(
   {
     name: "get_team_workload",
     description:
-      "Get current workload for team members from Jira. Returns structured data about team assignments.",
+      "Get current workload for team members from the board's issue tracker. Returns structured data about team assignments.",
     schema: z.object({
       includeCompleted: z
         .boolean()
@@ -73,34 +73,65 @@ const getTeamWorkloadTool = tool(
   }
 );
 
-const updateJiraFromStandupTool = tool(
-  async (input: { issueKey: string; action: string; comment?: string }) => {
-    console.log("🔧 LangChain: Executing update_jira_from_standup tool");
+const updateIssueFromStandupTool = tool(
+  async (input: {
+    issueKey: string;
+    action: string;
+    targetStatus?: string;
+    comment?: string;
+    speaker?: string;
+    assignee?: string;
+    priority?: string;
+  }) => {
+    console.log("🔧 LangChain: Executing update_issue_from_standup tool");
 
     const currentData = (window as any).getCurrentWhiteboardData?.() || {
       elements: [],
     };
-    const result = await processJiraToolCall(
+    const result = await processTrackerToolCall(
       currentData,
-      "update_jira_from_standup",
+      "update_issue_from_standup",
       input
     );
 
     console.log(
-      "✅ LangChain: update_jira_from_standup completed:",
+      "✅ LangChain: update_issue_from_standup completed:",
       result.response
     );
     return JSON.stringify(result.response);
   },
   {
-    name: "update_jira_from_standup",
-    description: "Update Jira issues based on standup information.",
+    name: "update_issue_from_standup",
+    description:
+      "Write standup updates back to an issue in the board's tracker: status change, comment attributed to the speaker, assignee or priority.",
     schema: z.object({
-      issueKey: z.string().describe("Jira issue key (e.g., 'PROJ-123')"),
+      issueKey: z.string().describe("Issue key (e.g. 'PROJ-123' in Jira, 'owner/repo#12' in GitHub)"),
       action: z
-        .enum(["start_work", "complete_work", "add_comment"])
-        .describe("Action to perform on the Jira issue"),
+        .enum([
+          "start_work",
+          "complete_work",
+          "transition",
+          "add_comment",
+          "update_fields",
+        ])
+        .describe("Action to perform on the issue"),
+      targetStatus: z
+        .string()
+        .optional()
+        .describe("Status to move to, required for transition"),
       comment: z.string().optional().describe("Comment to add to the issue"),
+      speaker: z
+        .string()
+        .optional()
+        .describe("Team member the comment is attributed to"),
+      assignee: z
+        .string()
+        .optional()
+        .describe("Person to assign the issue to, or 'unassigned'"),
+      priority: z
+        .enum(["Highest", "High", "Medium", "Low", "Lowest"])
+        .optional()
+        .describe("New priority for the issue"),
     }),
   }
 );
@@ -120,7 +151,7 @@ const updateWhiteboardTool = tool(
 
     // Update whiteboard if there's new data
     if (result.newData && (window as any).setWhiteboardData) {
-      (window as any).setWhiteboardData(result.newData);
+      (window as any).setWhiteboardData(result.newData, undefined, currentData);
     }
 
     console.log("✅ LangChain: update_whiteboard completed:", result.response);
@@ -160,7 +191,7 @@ const moveTaskTool = tool(
 
     // Update whiteboard if there's new data
     if (result.newData && (window as any).setWhiteboardData) {
-      (window as any).setWhiteboardData(result.newData);
+      (window as any).setWhiteboardData(result.newData, undefined, currentData);
     }
 
     console.log("✅ LangChain: move_task completed:", result.response);
@@ -172,8 +203,10 @@ const moveTaskTool = tool(
     schema: z.object({
       taskText: z.string().describe("Text content of the task to move"),
       targetColumn: z
-        .enum(["todo", "inprogress", "done"])
-        .describe("Target column to move the task to"),
+        .string()
+        .describe(
+          "Target column id or title to move the task to (e.g. todo, inprogress, done)"
+        ),
     }),
   }
 );
@@ -199,9 +232,9 @@ export class SparkLangChainAgent {
 
     // Define tools
     this.tools = [
-      syncJiraBoardTool,
+      syncTrackerBoardTool,
       getTeamWorkloadTool,
-      updateJiraFromStandupTool,
+      updateIssueFromStandupTool,
       updateWhiteboardTool,
       moveTaskTool,
     ];
@@ -218,7 +251,7 @@ Facilitate efficient, engaging, and data-driven standup meetings using real team
 
 ## CRITICAL PROTOCOL: ALWAYS START WITH DATA
 When ANY session begins, you MUST:
-1. **IMMEDIATELY** call sync_jira_board to get current sprint data
+1. **IMMEDIATELY** call sync_tracker_board to get current sprint data
 2. **IMMEDIATELY** call get_team_workload to discover real team members and their assignments
 3. **PARSE the responses** to extract actual team member names and current tasks
 4. **USE ONLY the discovered team members** - NEVER use placeholder names like Alice, Bob, Charlie, etc.
@@ -226,7 +259,7 @@ When ANY session begins, you MUST:
 ## REAL TEAM CONTEXT
 - The team composition is DYNAMIC and comes from Jira data
 - Team member names will be in the workload response
-- Tasks and their status come from the sync_jira_board response
+- Tasks and their status come from the sync_tracker_board response
 - NEVER assume team composition - always discover it first
 
 ## MEETING FACILITATION
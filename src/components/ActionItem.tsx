@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { CheckSquare, ExternalLink, Loader2, Quote, Send } from 'lucide-react';
+import { ActionItem as ActionItemType, ActionItemStatus } from '../types/whiteboard';
+import { TRACKER_LABELS } from '../lib/trackers';
+import { getTodayDate } from '../lib/action-items';
+import { ElementPresence } from '../types/presence';
+
+interface ActionItemProps {
+  element: ActionItemType;
+  onUpdate: (id: string, updates: Partial<ActionItemType>) => void;
+  onDragStart: (id: string) => void;
+  onDrag: (id: string, x: number, y: number) => void;
+  onDragEnd: () => void;
+  // Creates an issue for the item in the board's tracker
+  onCreateIssue: (id: string) => Promise<void>;
+  // Tracker the board syncs with, named on the create button
+  trackerLabel: string;
+  presence?: ElementPresence;
+  onEditingChange?: (id: string, editing: boolean) => void;
+}
+
+const statusOptions: { value: ActionItemStatus; label: string; className: string }[] = [
+  { value: 'open', label: 'Open', className: 'bg-gray-100 text-gray-700' },
+  { value: 'in-progress', label: 'In progress', className: 'bg-blue-100 text-blue-700' },
+  { value: 'done', label: 'Done', className: 'bg-green-100 text-green-700' },
+];
+
+export default function ActionItem({ element, onUpdate, onDragStart, onDrag, onDragEnd, onCreateIssue, trackerLabel, presence, onEditingChange }: ActionItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [isCreating, setIsCreating] = useState(false);
+
+  const statusIndex = Math.max(0, statusOptions.findIndex(s => s.value === element.status));
+  const status = statusOptions[statusIndex];
+  // Both are zero-padded local dates, so they compare as strings
+  const isOverdue =
+    element.status !== 'done' && !!element.dueDate && element.dueDate < getTodayDate();
+  const lockedBy = presence?.editing && !isEditing ? presence.user : undefined;
+
+  useEffect(() => {
+    if (!isEditing) return;
+    onEditingChange?.(element.id, true);
+    return () => onEditingChange?.(element.id, false);
+  }, [isEditing, element.id, onEditingChange]);
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const container = document.getElementById('whiteboard-container');
+      if (!container) return;
+      const containerRect = container.getBoundingClientRect();
+      onDrag(element.id, e.clientX - containerRect.left - dragOffset.x, e.clientY - containerRect.top - dragOffset.y);
+    };
+    const handleMouseUp = () => {
+      setIsDragging(false);
+      onDragEnd();
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, dragOffset, element.id, onDrag, onDragEnd]);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (isEditing) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDragOffset({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    setIsDragging(true);
+    onDragStart(element.id);
+  };
+
+  const cycleStatus = () => {
+    onUpdate(element.id, { status: statusOptions[(statusIndex + 1) % statusOptions.length].value });
+  };
+
+  const createIssue = async () => {
+    setIsCreating(true);
+    try {
+      await onCreateIssue(element.id);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Inputs inside the card shouldn't start a drag
+  const stopDrag = (e: React.MouseEvent) => e.stopPropagation();
+
+  return (
+    <div
+      className={`absolute w-56 h-[150px] bg-white border-2 border-amber-300 rounded-lg shadow-lg cursor-move transition-all duration-200 hover:shadow-xl flex flex-col ${element.status === 'done' ? 'opacity-70' : ''}`}
+      style={{
+        left: element.x,
+        top: element.y,
+        ...(presence && { outline: `3px solid ${presence.user.color}`, outlineOffset: 2 })
+      }}
+      onMouseDown={handleMouseDown}
+    >
+      {presence && (
+        <div
+          className="absolute -top-3 right-2 px-2 py-0.5 rounded-full shadow-sm text-xs text-white whitespace-nowrap z-10"
+          style={{ backgroundColor: presence.user.color }}
+        >
+          {presence.editing ? `${presence.user.name} is typing…` : presence.user.name}
+        </div>
+      )}
+
+      <div className="flex items-center gap-1 px-2 pt-2 text-[10px]">
+        <CheckSquare size={12} className="text-amber-500" />
+        <span className="font-semibold uppercase tracking-wide text-amber-700">Action</span>
+        <button
+          onMouseDown={stopDrag}
+          onClick={cycleStatus}
+          className={`ml-auto px-1.5 py-0.5 rounded-full ${status.className}`}
+          title="Change status"
+        >
+          {status.label}
+        </button>
+      </div>
+
+      <div className="px-2 pt-1 flex-1 min-h-0">
+        {isEditing ? (
+          <textarea
+            autoFocus
+            value={element.text}
+            onMouseDown={stopDrag}
+            onChange={(e) => onUpdate(element.id, { text: e.target.value })}
+            onBlur={() => setIsEditing(false)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                setIsEditing(false);
+              }
+            }}
+            className="w-full h-full resize-none bg-transparent border-none outline-none text-sm font-medium text-gray-800"
+            placeholder="What needs doing?"
+          />
+        ) : (
+          <div
+            onDoubleClick={() => !lockedBy && setIsEditing(true)}
+            className={`w-full h-full overflow-hidden text-sm font-medium text-gray-800 ${element.status === 'done' ? 'line-through' : ''}`}
+            title={lockedBy ? `${lockedBy.name} is editing` : 'Double-click to edit'}
+          >
+            {element.text || 'Double-click to edit...'}
+          </div>
+        )}
+      </div>
+
+      {element.sourceQuote && (
+        <p className="px-2 flex items-start gap-1 text-[10px] italic text-gray-500 truncate" title={element.sourceQuote}>
+          <Quote size={10} className="shrink-0 mt-0.5" />
+          <span className="truncate">{element.sourceQuote}</span>
+        </p>
+      )}
+
+      <div className="flex items-center gap-1 px-2 pb-2 pt-1 text-[10px]">
+        <input
+          value={element.owner || ''}
+          onMouseDown={stopDrag}
+          onChange={(e) => onUpdate(element.id, { owner: e.target.value || undefined })}
+          placeholder="Owner"
+          className="w-20 min-w-0 px-1 py-0.5 border border-gray-200 rounded"
+        />
+        <input
+          type="date"
+          value={element.dueDate || ''}
+          onMouseDown={stopDrag}
+          onChange={(e) => onUpdate(element.id, { dueDate: e.target.value || undefined })}
+          className={`min-w-0 px-1 py-0.5 border rounded ${isOverdue ? 'border-red-300 bg-red-50 text-red-700' : 'border-gray-200 text-gray-600'}`}
+          title={isOverdue ? 'Overdue' : 'Due date'}
+        />
+        {element.issue ? (
+          <a
+            href={element.issue.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            onMouseDown={stopDrag}
+            className="ml-auto flex items-center gap-0.5 px-1.5 py-0.5 bg-gray-800 text-white rounded"
+            title={`Open ${element.issue.key} in ${TRACKER_LABELS[element.issue.tracker]}`}
+          >
+            {element.issue.key}
+            <ExternalLink size={9} />
+          </a>
+        ) : (
+          <button
+            onMouseDown={stopDrag}
+            onClick={createIssue}
+            disabled={isCreating || !element.text.trim()}
+            className="ml-auto p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            title={`Create ${trackerLabel} issue`}
+          >
+            {isCreating ? <Loader2 size={12} className="animate-spin text-gray-600" /> : <Send size={12} className="text-gray-600" />}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { ChevronDown, Copy, FolderOpen, Pencil, Plus, Trash2 } from 'lucide-react';
+import { BoardMeta } from '../types/whiteboard';
+import { BoardSaveStatus } from '../hooks/useBoardLibrary';
+
+interface BoardLibraryProps {
+  boards: BoardMeta[];
+  currentBoard: BoardMeta | null;
+  saveStatus: BoardSaveStatus;
+  onCreate: (name?: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onSwitch: (id: string) => void;
+}
+
+export default function BoardLibrary({
+  boards,
+  currentBoard,
+  saveStatus,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onSwitch,
+}: BoardLibraryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const startRename = (board: BoardMeta) => {
+    setRenamingId(board.id);
+    setRenameValue(board.name);
+  };
+
+  const submitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (board: BoardMeta) => {
+    if (confirm(`Delete board "${board.name}"? This cannot be undone.`)) {
+      onDelete(board.id);
+    }
+  };
+
+  const getSaveStatusText = () => {
+    switch (saveStatus) {
+      case 'saving':
+        return 'Saving…';
+      case 'saved':
+        return 'All changes saved';
+      case 'error':
+        return 'Not saved';
+      default:
+        return '';
+    }
+  };
+
+  return (
+    <div className="fixed top-4 left-4 bg-white rounded-xl shadow border border-gray-300 p-3 z-30 min-w-[240px]">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-left font-semibold text-gray-900 hover:opacity-80"
+          title="Board library"
+        >
+          <FolderOpen size={16} className="text-gray-600" />
+          <span className="truncate max-w-[150px]">{currentBoard?.name || 'Loading…'}</span>
+          <ChevronDown size={14} className="text-gray-500" />
+        </button>
+        <button
+          onClick={() => onCreate()}
+          className="p-1 rounded-lg hover:bg-gray-100 transition-colors"
+          title="New board"
+        >
+          <Plus size={16} className="text-gray-600" />
+        </button>
+      </div>
+
+      <div className={`text-xs mt-1 ${saveStatus === 'error' ? 'text-red-500' : 'text-gray-400'}`}>
+        {getSaveStatusText()}
+      </div>
+
+      {isOpen && (
+        <ul className="mt-3 border-t pt-2 space-y-1 max-h-72 overflow-y-auto">
+          {boards.map(board => (
+            <li
+              key={board.id}
+              className={`group flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm ${
+                board.id === currentBoard?.id ? 'bg-gray-100 font-medium' : 'hover:bg-gray-50'
+              }`}
+            >
+              {renamingId === board.id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={submitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="flex-1 px-2 py-0.5 border border-gray-400 rounded text-sm"
+                />
+              ) : (
+                <button
+                  onClick={() => {
+                    onSwitch(board.id);
+                    setIsOpen(false);
+                  }}
+                  className="flex-1 text-left truncate text-gray-800"
+                  title={`Updated ${new Date(board.updatedAt).toLocaleString()}`}
+                >
+                  {board.name}
+                </button>
+              )}
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => startRename(board)} className="p-1 hover:bg-gray-200 rounded" title="Rename">
+                  <Pencil size={12} className="text-gray-600" />
+                </button>
+                <button onClick={() => onDuplicate(board.id)} className="p-1 hover:bg-gray-200 rounded" title="Duplicate">
+                  <Copy size={12} className="text-gray-600" />
+                </button>
+                <button onClick={() => handleDelete(board)} className="p-1 hover:bg-gray-200 rounded" title="Delete">
+                  <Trash2 size={12} className="text-gray-600" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Columns, Plus, Trash2, X } from 'lucide-react';
+import { KanbanColumn } from '../types/whiteboard';
+import { COLUMN_PRESETS } from '../lib/kanban-columns';
+
+interface ColumnSettingsProps {
+  columns: KanbanColumn[];
+  onColumnsChange: (columns: KanbanColumn[]) => void;
+}
+
+const colorChoices = ['yellow', 'orange', 'blue', 'purple', 'pink', 'green'];
+
+const slugify = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'column';
+
+export default function ColumnSettings({ columns, onColumnsChange }: ColumnSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<KanbanColumn[]>(columns);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(columns);
+    }
+  }, [isOpen, columns]);
+
+  const updateColumn = (index: number, updates: Partial<KanbanColumn>) => {
+    setDraft(prev => prev.map((column, i) => (i === index ? { ...column, ...updates } : column)));
+  };
+
+  const moveColumn = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  // New columns get their id from the title when applied
+  const addColumn = () => {
+    setDraft([...draft, { id: '', title: 'New Column', statuses: [], color: 'blue' }]);
+  };
+
+  const handleApply = () => {
+    // Keep column ids unique so notes stay attached to the right column
+    const usedIds = new Set<string>();
+    const cleaned = draft
+      .filter(column => column.title.trim())
+      .map(column => {
+        let id = column.id || slugify(column.title);
+        while (usedIds.has(id)) id = `${id}-2`;
+        usedIds.add(id);
+        return { ...column, id, title: column.title.trim() };
+      });
+
+    if (cleaned.length === 0) {
+      alert('A board needs at least one column');
+      return;
+    }
+
+    onColumnsChange(cleaned);
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 right-20 bg-gray-800 text-white p-3 rounded-full shadow-lg hover:bg-gray-700 transition-colors z-30"
+        title="Board Columns"
+      >
+        <Columns size={20} />
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-800">Board Columns</h2>
+              <div className="flex items-center gap-2">
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const preset = COLUMN_PRESETS.find(p => p.id === e.target.value);
+                    if (preset) setDraft(preset.columns);
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="" disabled>Load preset…</option>
+                  {COLUMN_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setIsOpen(false)}
+                  className="p-2 text-gray-600 hover:text-gray-800 transition-colors"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              {draft.map((column, index) => (
+                <div key={`${column.id}-${index}`} className="flex items-start gap-2 p-3 border border-gray-200 rounded-lg">
+                  <div className="flex flex-col">
+                    <button onClick={() => moveColumn(index, -1)} className="p-1 hover:bg-gray-100 rounded" title="Move left">
+                      <ArrowUp size={12} className="text-gray-600" />
+                    </button>
+                    <button onClick={() => moveColumn(index, 1)} className="p-1 hover:bg-gray-100 rounded" title="Move right">
+                      <ArrowDown size={12} className="text-gray-600" />
+                    </button>
+                  </div>
+                  <div className="flex-1 grid grid-cols-6 gap-2">
+                    <input
+                      value={column.title}
+                      onChange={(e) => updateColumn(index, { title: e.target.value })}
+                      placeholder="Title"
+                      className="col-span-2 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={column.wipLimit ?? ''}
+                      onChange={(e) => updateColumn(index, { wipLimit: e.target.value ? Number(e.target.value) : undefined })}
+                      placeholder="WIP"
+                      className="px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                    <select
+                      value={column.color}
+                      onChange={(e) => updateColumn(index, { color: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm"
+                    >
+                      {colorChoices.map(color => (
+                        <option key={color} value={color}>{color}</option>
+                      ))}
+                    </select>
+                    <input
+                      value={column.statuses.join(', ')}
+                      onChange={(e) => updateColumn(index, {
+                        statuses: e.target.value.split(',').map(status => status.trim()).filter(Boolean)
+                      })}
+                      placeholder="Statuses, e.g. In Review, Code Review"
+                      className="col-span-6 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                  </div>
+                  <button
+                    onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                    className="p-1 hover:bg-gray-100 rounded"
+                    title="Remove column"
+                  >
+                    <Trash2 size={14} className="text-gray-600" />
+                  </button>
+                </div>
+              ))}
+
+              <button
+                onClick={addColumn}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 border border-dashed border-gray-400 rounded-lg hover:bg-gray-50"
+              >
+                <Plus size={14} />
+                Add column
+              </button>
+            </div>
+
+            <div className="p-4 border-t border-gray-200 bg-gray-50 flex items-center justify-between">
+              <div className="text-sm text-gray-600">
+                <strong>Tip:</strong> Statuses map tracker workflow states (e.g. Jira statuses) onto each column.
+              </div>
+              <button
+                onClick={handleApply}
+                className="px-3 py-1 bg-black text-white text-sm rounded-lg hover:opacity-90"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -4,13 +4,27 @@ import { WhiteboardElement } from '../types/whiteboard';
 interface ConnectionLineProps {
   from: WhiteboardElement;
   to: WhiteboardElement;
+  // Blocker links run from the blocking note to the blocked one
+  variant?: 'flow' | 'blocker' | 'resolved-blocker';
 }
 
-export default function ConnectionLine({ from, to }: ConnectionLineProps) {
-  const fromCenterX = from.x + 64; // Half width of flow node
-  const fromCenterY = from.y + 40; // Half height of flow node
-  const toCenterX = to.x + 64;
-  const toCenterY = to.y + 40;
+// Helper function to get the rendered half size of an element
+const getHalfSize = (element: WhiteboardElement) =>
+  element.type === 'sticky' ? { width: 96, height: 64 } : { width: 64, height: 40 };
+
+const lineStyles = {
+  flow: { stroke: '#6B7280', dash: undefined },
+  blocker: { stroke: '#DC2626', dash: '6 4' },
+  'resolved-blocker': { stroke: '#D1D5DB', dash: '6 4' }
+};
+
+export default function ConnectionLine({ from, to, variant = 'flow' }: ConnectionLineProps) {
+  const fromSize = getHalfSize(from);
+  const toSize = getHalfSize(to);
+  const fromCenterX = from.x + fromSize.width;
+  const fromCenterY = from.y + fromSize.height;
+  const toCenterX = to.x + toSize.width;
+  const toCenterY = to.y + toSize.height;
 
   const dx = toCenterX - fromCenterX;
   const dy = toCenterY - fromCenterY;
@@ -21,9 +35,17 @@ export default function ConnectionLine({ from, to }: ConnectionLineProps) {
   const angle = Math.atan2(dy, dx);
   const arrowSize = 8;
 
-  // Calculate arrow points
-  const arrowX = toCenterX - Math.cos(angle) * 32; // Stop at edge of target node
-  const arrowY = toCenterY - Math.sin(angle) * 32;
+  // Calculate arrow points - stop at the edge of the target (the edge of its
+  // box for sticky notes)
+  const edgeDistance = to.type === 'sticky'
+    ? Math.min(
+        toSize.width / Math.max(Math.abs(Math.cos(angle)), 0.001),
+        toSize.height / Math.max(Math.abs(Math.sin(angle)), 0.001)
+      )
+    : 32;
+  const arrowX = toCenterX - Math.cos(angle) * edgeDistance;
+  const arrowY = toCenterY - Math.sin(angle) * edgeDistance;
+  const style = lineStyles[variant];
 
   const arrowPoints = [
     [arrowX, arrowY],
@@ -47,7 +69,7 @@ export default function ConnectionLine({ from, to }: ConnectionLineProps) {
         >
           <polygon
             points="0 0, 10 3.5, 0 7"
-            fill="#6B7280"
+            fill={style.stroke}
           />
         </marker>
       </defs>
@@ -57,8 +79,9 @@ export default function ConnectionLine({ from, to }: ConnectionLineProps) {
         y1={fromCenterY}
         x2={arrowX}
         y2={arrowY}
-        stroke="#6B7280"
+        stroke={style.stroke}
         strokeWidth="2"
+        strokeDasharray={style.dash}
         markerEnd={`url(#arrowhead-${from.id}-${to.id})`}
       />
     </svg>
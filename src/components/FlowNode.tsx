@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Edit3, Link } from 'lucide-react';
 import { FlowNode as FlowNodeType } from '../types/whiteboard';
+import { ElementPresence } from '../types/presence';
 
 interface FlowNodeProps {
   element: FlowNodeType;
@@ -8,9 +9,12 @@ interface FlowNodeProps {
   onDragStart: (id: string) => void;
   onDrag: (id: string, x: number, y: number) => void;
   onDragEnd: () => void;
+  // Another participant on a shared board has this element selected or is typing in it
+  presence?: ElementPresence;
+  onEditingChange?: (id: string, editing: boolean) => void;
 }
 
-export default function FlowNode({ element, onUpdate, onDragStart, onDrag, onDragEnd }: FlowNodeProps) {
+export default function FlowNode({ element, onUpdate, onDragStart, onDrag, onDragEnd, presence, onEditingChange }: FlowNodeProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
@@ -23,6 +27,15 @@ export default function FlowNode({ element, onUpdate, onDragStart, onDrag, onDra
     }
   }, [isEditing]);
 
+  // Let others know, so they can't type over each other
+  useEffect(() => {
+    if (!isEditing) return;
+    onEditingChange?.(element.id, true);
+    return () => onEditingChange?.(element.id, false);
+  }, [isEditing, element.id, onEditingChange]);
+
+  const lockedBy = presence?.editing && !isEditing ? presence.user : undefined;
+
   const handleMouseDown = (e: React.MouseEvent) => {
     if (isEditing) return;
     
@@ -88,16 +101,30 @@ export default function FlowNode({ element, onUpdate, onDragStart, onDrag, onDra
   return (
     <div
       className={`absolute w-32 h-20 ${getShapeClass()} shadow-lg cursor-move transition-all duration-200 hover:shadow-xl group flex items-center justify-center`}
-      style={{ left: element.x, top: element.y }}
+      style={{
+        left: element.x,
+        top: element.y,
+        ...(presence && { outline: `3px solid ${presence.user.color}`, outlineOffset: 2 })
+      }}
       onMouseDown={handleMouseDown}
     >
+      {presence && (
+        <div
+          className="absolute -top-3 right-2 px-2 py-0.5 rounded-full shadow-sm text-xs text-white whitespace-nowrap z-10"
+          style={{ backgroundColor: presence.user.color }}
+        >
+          {presence.editing ? `${presence.user.name} is typing…` : presence.user.name}
+        </div>
+      )}
       <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
         <button
           onClick={(e) => {
             e.stopPropagation();
-            setIsEditing(true);
+            if (!lockedBy) setIsEditing(true);
           }}
-          className="p-1 bg-white rounded-full shadow-sm hover:shadow-md transition-shadow"
+          disabled={!!lockedBy}
+          className="p-1 bg-white rounded-full shadow-sm hover:shadow-md transition-shadow disabled:opacity-40 disabled:cursor-not-allowed"
+          title={lockedBy ? `${lockedBy.name} is editing` : 'Edit'}
         >
           <Edit3 size={10} className="text-gray-600" />
         </button>
@@ -2,12 +2,24 @@ import { useState, useEffect } from 'react';
 import { MicOff, PhoneOff, Settings, Volume2, HelpCircle, RefreshCw } from 'lucide-react';
 import { useGeminiLive } from '../hooks/useGeminiLive';
 import FacilitronOrb from './FacilitronOrb';
+import { BoardSyncConfig, TrackerKind } from '../types/whiteboard';
+import { isMockJiraEnabled, MOCK_JIRA_URL } from '../lib/jira-proxy';
+import { TRACKER_LABELS } from '../lib/trackers';
+import { LOCAL_BACKLOG_URL } from '../lib/local-backlog';
+import MCPServerSettings from './MCPServerSettings';
+import TranscriptPanel from './TranscriptPanel';
+import MeetingMinutesPanel from './MeetingMinutesPanel';
+import { useMeetingTranscript } from '../hooks/useMeetingTranscript';
 
 interface GeminiLiveControlsProps {
   apiKey?: string;
+  // Board the meeting transcript is saved with
+  boardId?: string;
+  syncConfig?: BoardSyncConfig;
+  onSyncConfigChange?: (config: BoardSyncConfig) => void;
 }
 
-export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps) {
+export default function GeminiLiveControls({ apiKey, boardId, syncConfig, onSyncConfigChange }: GeminiLiveControlsProps) {
   const [showSettings, setShowSettings] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [localApiKey, setLocalApiKey] = useState('');
@@ -15,6 +27,69 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
   const [jiraUrl, setJiraUrl] = useState('');
   const [jiraUser, setJiraUser] = useState('');
   const [jiraToken, setJiraToken] = useState('');
+  const [githubToken, setGithubToken] = useState('');
+  const [linearKey, setLinearKey] = useState('');
+  const [useMockJira, setUseMockJira] = useState(isMockJiraEnabled);
+  const [syncScopeError, setSyncScopeError] = useState<string>();
+  const [syncDraft, setSyncDraft] = useState({ tracker: 'jira' as TrackerKind, projectKeys: '', boardId: '', sprint: '', jql: '', maxIssues: '', storyPointsField: '', githubOwner: '', githubRepo: '', githubProject: '', linearTeam: '', linearProject: '' });
+
+  // Load the board's sync scope into the settings form
+  useEffect(() => {
+    if (showSettings) {
+      setSyncDraft({
+        tracker: syncConfig?.tracker || 'jira',
+        projectKeys: (syncConfig?.projectKeys || []).join(', '),
+        boardId: syncConfig?.boardId || '',
+        sprint: syncConfig?.sprint || '',
+        jql: syncConfig?.jql || '',
+        maxIssues: syncConfig?.maxIssues ? String(syncConfig.maxIssues) : '',
+        storyPointsField: syncConfig?.storyPointsField || '',
+        githubOwner: syncConfig?.github?.owner || '',
+        githubRepo: syncConfig?.github?.repo || '',
+        githubProject: syncConfig?.github?.projectNumber ? String(syncConfig.github.projectNumber) : '',
+        linearTeam: syncConfig?.linear?.teamKey || '',
+        linearProject: syncConfig?.linear?.projectName || ''
+      });
+      setSyncScopeError(undefined);
+    }
+  }, [showSettings, syncConfig]);
+
+  const handleSaveSyncScope = () => {
+    // The GitHub and Linear adapters can't be built without their owner or team
+    if (syncDraft.tracker === 'github' && !syncDraft.githubOwner.trim()) {
+      setSyncScopeError('GitHub needs an owner (user or org)');
+      return;
+    }
+    if (syncDraft.tracker === 'linear' && !syncDraft.linearTeam.trim()) {
+      setSyncScopeError('Linear needs a team key');
+      return;
+    }
+    setSyncScopeError(undefined);
+    onSyncConfigChange?.({
+      ...syncConfig,
+      tracker: syncDraft.tracker,
+      projectKeys: syncDraft.projectKeys.split(',').map(key => key.trim().toUpperCase()).filter(Boolean),
+      boardId: syncDraft.boardId.trim() || undefined,
+      sprint: syncDraft.sprint.trim() || undefined,
+      jql: syncDraft.jql.trim() || undefined,
+      maxIssues: Number(syncDraft.maxIssues) > 0 ? Number(syncDraft.maxIssues) : undefined,
+      storyPointsField: syncDraft.storyPointsField.trim() || undefined,
+      github: syncDraft.githubOwner.trim()
+        ? {
+            ...syncConfig?.github,
+            owner: syncDraft.githubOwner.trim(),
+            repo: syncDraft.githubRepo.trim() || undefined,
+            projectNumber: Number(syncDraft.githubProject) > 0 ? Number(syncDraft.githubProject) : undefined
+          }
+        : undefined,
+      linear: syncDraft.linearTeam.trim()
+        ? {
+            teamKey: syncDraft.linearTeam.trim().toUpperCase(),
+            projectName: syncDraft.linearProject.trim() || undefined
+          }
+        : undefined
+    });
+  };
 
   // Initialize API key from various sources
   useEffect(() => {
@@ -30,13 +105,22 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
     setJiraUrl(localStorage.getItem('jira-override-url') || '');
     setJiraUser(localStorage.getItem('jira-override-user') || '');
     setJiraToken(localStorage.getItem('jira-override-token') || '');
+    setGithubToken(localStorage.getItem('github-override-token') || '');
+    setLinearKey(localStorage.getItem('linear-override-key') || '');
   }, [apiKey]);
 
   const geminiLive = useGeminiLive({ 
     apiKey: localApiKey
   });
 
-  const { state, connect, disconnect, startRecording, stopRecording, volume, updateSystemInstructionsWithJiraData } = geminiLive;
+  const { state, connect, disconnect, startRecording, stopRecording, volume, transcript, setTranscript, meeting, setMeeting, updateSystemInstructionsWithJiraData } = geminiLive;
+
+  useMeetingTranscript(boardId, transcript, setTranscript);
+
+  // A meeting belongs to the board it was held on
+  useEffect(() => {
+    setMeeting(null);
+  }, [boardId, setMeeting]);
 
   // Auto-update system instructions when connected (one-time only)
   useEffect(() => {
@@ -44,7 +128,7 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
       if (state.isConnected) {
         console.log("🔗 Connection established, updating system instructions with Jira data...");
         
-        const success = await updateSystemInstructionsWithJiraData();
+        const success = await updateSystemInstructionsWithJiraData(syncConfig);
         
         if (success) {
           console.log("✅ System instructions updated successfully! New instructions will apply on next reconnection.");
@@ -60,7 +144,7 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
         updateInstructions();
       }
     }
-  }, [state.isConnected, updateSystemInstructionsWithJiraData]);
+  }, [state.isConnected, updateSystemInstructionsWithJiraData, syncConfig]);
 
   const handleConnect = async () => {
     if (!localApiKey) {
@@ -94,7 +178,7 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
     
-    const success = await updateSystemInstructionsWithJiraData();
+    const success = await updateSystemInstructionsWithJiraData(syncConfig);
     
     if (success) {
       // Trigger the whiteboard to hide the welcome screen
@@ -135,12 +219,14 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
   };
 
   const getStatusColor = () => {
+    if (state.reconnect) return 'text-yellow-600';
     if (state.error) return 'text-red-500';
     if (state.isConnected) return 'text-green-500';
     return 'text-gray-500';
   };
 
   const getStatusText = () => {
+    if (state.reconnect) return `Reconnecting… (${state.reconnect.attempt}/${state.reconnect.maxAttempts})`;
     if (state.error) return `Error: ${state.error}`;
     if (state.isConnected) return 'Connected';
     return 'Disconnected';
@@ -230,9 +316,180 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
             </a>
           </p>
 
-          {/* Jira override (dev use) */}
+          {/* Board sync (saved with the board) */}
+          {onSyncConfigChange && (
+            <div className="mt-4 border-t pt-3">
+              <div className="text-sm font-medium text-gray-800 mb-2">Board Sync</div>
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!syncConfig?.transitionOnMove}
+                  onChange={(e) => onSyncConfigChange({ ...syncConfig, transitionOnMove: e.target.checked })}
+                  className="mt-0.5"
+                />
+                Moving an issue note to another column transitions the issue in the tracker
+              </label>
+              <select
+                value={syncDraft.tracker}
+                onChange={(e) => setSyncDraft({ ...syncDraft, tracker: e.target.value as TrackerKind })}
+                className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mt-2"
+              >
+                {(Object.keys(TRACKER_LABELS) as TrackerKind[]).map(kind => (
+                  <option key={kind} value={kind}>{TRACKER_LABELS[kind]}</option>
+                ))}
+              </select>
+              {syncDraft.tracker === 'github' ? (
+                <>
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      type="text"
+                      value={syncDraft.githubOwner}
+                      onChange={(e) => setSyncDraft({ ...syncDraft, githubOwner: e.target.value })}
+                      placeholder="Owner (user or org)"
+                      className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={syncDraft.githubRepo}
+                      onChange={(e) => setSyncDraft({ ...syncDraft, githubRepo: e.target.value })}
+                      placeholder="Repository"
+                      className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+                    />
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={syncDraft.githubProject}
+                      onChange={(e) => setSyncDraft({ ...syncDraft, githubProject: e.target.value })}
+                      placeholder="Project number"
+                      className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={syncDraft.sprint}
+                      onChange={(e) => setSyncDraft({ ...syncDraft, sprint: e.target.value })}
+                      placeholder="Iteration ('active' or title)"
+                      className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+                    />
+                  </div>
+                </>
+              ) : syncDraft.tracker === 'local' ? (
+                <>
+                  <div className="text-xs text-gray-600 mt-2">
+                    Tasks come from the local backlog server at {LOCAL_BACKLOG_URL}
+                  </div>
+                  <input
+                    type="text"
+                    value={syncDraft.sprint}
+                    onChange={(e) => setSyncDraft({ ...syncDraft, sprint: e.target.value })}
+                    placeholder="Sprint ('active' or name)"
+                    className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mt-2"
+                  />
+                </>
+              ) : syncDraft.tracker === 'linear' ? (
+                <>
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      type="text"
+                      value={syncDraft.linearTeam}
+                      onChange={(e) => setSyncDraft({ ...syncDraft, linearTeam: e.target.value })}
+                      placeholder="Team key, e.g. ENG"
+                      className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={syncDraft.sprint}
+                      onChange={(e) => setSyncDraft({ ...syncDraft, sprint: e.target.value })}
+                      placeholder="Cycle ('active' or number)"
+                      className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+                    />
+                  </div>
+                  <input
+                    type="text"
+                    value={syncDraft.linearProject}
+                    onChange={(e) => setSyncDraft({ ...syncDraft, linearProject: e.target.value })}
+                    placeholder="Project name (optional)"
+                    className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mt-2"
+                  />
+                </>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    value={syncDraft.projectKeys}
+                    onChange={(e) => setSyncDraft({ ...syncDraft, projectKeys: e.target.value })}
+                    placeholder="Project keys, e.g. SCRUM, OPS"
+                    className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mt-2"
+                  />
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      type="text"
+                      value={syncDraft.boardId}
+                      onChange={(e) => setSyncDraft({ ...syncDraft, boardId: e.target.value })}
+                      placeholder="Board ID"
+                      className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={syncDraft.sprint}
+                      onChange={(e) => setSyncDraft({ ...syncDraft, sprint: e.target.value })}
+                      placeholder="Sprint ('active' or name)"
+                      className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+                    />
+                  </div>
+                  <textarea
+                    value={syncDraft.jql}
+                    onChange={(e) => setSyncDraft({ ...syncDraft, jql: e.target.value })}
+                    placeholder="Custom JQL (replaces the filters above)"
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mt-2 font-mono"
+                  />
+                  <input
+                    type="text"
+                    value={syncDraft.storyPointsField}
+                    onChange={(e) => setSyncDraft({ ...syncDraft, storyPointsField: e.target.value })}
+                    placeholder="Story points field (customfield_10016)"
+                    className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mt-2"
+                  />
+                </>
+              )}
+              <div className="flex gap-2 mt-2 items-center">
+                <input
+                  type="number"
+                  min={1}
+                  value={syncDraft.maxIssues}
+                  onChange={(e) => setSyncDraft({ ...syncDraft, maxIssues: e.target.value })}
+                  placeholder="Max issues (200)"
+                  className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+                />
+                <button
+                  onClick={handleSaveSyncScope}
+                  className="px-3 py-1 bg-black text-white text-sm rounded-lg hover:opacity-90"
+                >
+                  Save Sync Scope
+                </button>
+              </div>
+              {syncScopeError && <div className="text-xs text-red-600 mt-1">{syncScopeError}</div>}
+            </div>
+          )}
+
+          <MCPServerSettings />
+
+          {/* Tracker credential overrides (dev use) */}
           <div className="mt-4 border-t pt-3">
-            <div className="text-sm font-medium text-gray-800 mb-2">Jira Override (dev)</div>
+            <div className="text-sm font-medium text-gray-800 mb-2">Tracker Overrides (dev)</div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+              <input
+                type="checkbox"
+                checked={useMockJira}
+                onChange={(e) => {
+                  localStorage.setItem('jira-use-mock', String(e.target.checked));
+                  setUseMockJira(e.target.checked);
+                }}
+              />
+              Use local mock Jira ({MOCK_JIRA_URL})
+            </label>
             <input
               type="text"
               value={jiraUrl}
@@ -254,13 +511,29 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
               placeholder="Jira API token"
               className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mb-2"
             />
+            <input
+              type="password"
+              value={githubToken}
+              onChange={(e) => setGithubToken(e.target.value)}
+              placeholder="GitHub token (overrides GITHUB_TOKEN)"
+              className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mb-2"
+            />
+            <input
+              type="password"
+              value={linearKey}
+              onChange={(e) => setLinearKey(e.target.value)}
+              placeholder="Linear API key (overrides LINEAR_API_KEY)"
+              className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mb-2"
+            />
             <div className="flex gap-2">
               <button
                 onClick={() => {
                   localStorage.setItem('jira-override-url', jiraUrl.trim());
                   localStorage.setItem('jira-override-user', jiraUser.trim());
                   localStorage.setItem('jira-override-token', jiraToken.trim());
-                  alert('Saved Jira override. Your next requests will use these headers.');
+                  localStorage.setItem('github-override-token', githubToken.trim());
+                  localStorage.setItem('linear-override-key', linearKey.trim());
+                  alert('Saved tracker overrides. Your next requests will use these headers.');
                 }}
                 className="px-3 py-1 bg-black text-white text-sm rounded-lg hover:opacity-90"
               >
@@ -271,7 +544,9 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
                   localStorage.removeItem('jira-override-url');
                   localStorage.removeItem('jira-override-user');
                   localStorage.removeItem('jira-override-token');
-                  setJiraUrl(''); setJiraUser(''); setJiraToken('');
+                  localStorage.removeItem('github-override-token');
+                  localStorage.removeItem('linear-override-key');
+                  setJiraUrl(''); setJiraUser(''); setJiraToken(''); setGithubToken(''); setLinearKey('');
                 }}
                 className="px-3 py-1 bg-gray-200 text-gray-800 text-sm rounded-lg hover:bg-gray-300"
               >
@@ -290,6 +565,9 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
             {getStatusText()}
           </span>
         </div>
+        {state.notice && (
+          <p className="text-xs text-yellow-700">{state.notice}</p>
+        )}
 
         {/* Connection Controls */}
         <div className="flex gap-2">
@@ -383,6 +661,15 @@ export default function GeminiLiveControls({ apiKey }: GeminiLiveControlsProps)
             <p className="text-sm text-blue-800">{state.response}</p>
           </div>
         )}
+
+        <TranscriptPanel turns={transcript} />
+        <MeetingMinutesPanel
+          apiKey={localApiKey}
+          meeting={meeting}
+          transcript={transcript}
+          syncConfig={syncConfig}
+          onMeetingChange={setMeeting}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,33 @@
+import { Redo2, Undo2 } from 'lucide-react';
+
+interface HistoryControlsProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export default function HistoryControls({ canUndo, canRedo, undoLabel, redoLabel, onUndo, onRedo }: HistoryControlsProps) {
+  return (
+    <div className="fixed bottom-4 left-4 bg-white rounded-xl shadow border border-gray-300 p-1 z-30 flex gap-1">
+      <button
+        onClick={onUndo}
+        disabled={!canUndo}
+        className="p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        title={canUndo ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 size={16} className="text-gray-700" />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!canRedo}
+        className="p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        title={canRedo ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 size={16} className="text-gray-700" />
+      </button>
+    </div>
+  );
+}
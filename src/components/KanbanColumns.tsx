@@ -0,0 +1,51 @@
+import { KanbanColumn } from '../types/whiteboard';
+import { getColumnBoundsByIndex } from '../lib/kanban-columns';
+
+interface KanbanColumnsProps {
+  columns: KanbanColumn[];
+  counts: Record<string, number>;
+}
+
+export default function KanbanColumns({ columns, counts }: KanbanColumnsProps) {
+  return (
+    <div className="absolute inset-0">
+      {columns.map((column, index) => {
+        const bounds = getColumnBoundsByIndex(index);
+        const count = counts[column.id] || 0;
+        const overLimit = column.wipLimit !== undefined && count > column.wipLimit;
+
+        return (
+          <div
+            key={column.id}
+            className={`absolute bg-white border-2 rounded-2xl shadow-md ${overLimit ? 'border-red-400' : 'border-gray-300'}`}
+            style={{
+              left: `${bounds.left}px`,
+              top: `${bounds.top}px`,
+              width: `${bounds.right - bounds.left}px`,
+              height: `${bounds.bottom - bounds.top}px`,
+              boxShadow: '0 10px 40px rgba(0,0,0,0.05)'
+            }}
+          >
+            <div className="absolute top-6 left-6 right-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-3 h-3 bg-black rounded-full"></div>
+                  <h2 className="text-gray-900 text-xl font-bold tracking-wide">{column.title.toUpperCase()}</h2>
+                </div>
+                <span
+                  className={`text-xs px-3 py-1.5 rounded-full font-semibold shadow-sm ${
+                    overLimit ? 'bg-red-100 text-red-700' : 'bg-gray-200 text-gray-900'
+                  }`}
+                  title={column.wipLimit !== undefined ? `WIP limit: ${column.wipLimit}` : undefined}
+                >
+                  {column.wipLimit !== undefined ? `${count} / ${column.wipLimit}` : count}
+                </span>
+              </div>
+              <div className="h-px bg-gray-300"></div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { MCPServerConfig, MCPServerStatus, MCPTransportKind } from '../types/mcp';
+import {
+  isWhiteboardMCPEnabled,
+  loadMCPServers,
+  MCP_BRIDGE_URL,
+  saveMCPServers,
+  setWhiteboardMCPEnabled,
+  WHITEBOARD_MCP_URL,
+} from '../config/mcp-config';
+import { mcpHost } from '../lib/mcp-host';
+
+const transportLabels: Record<MCPTransportKind, string> = {
+  http: 'Streamable HTTP',
+  sse: 'SSE',
+  stdio: 'stdio (local bridge)',
+};
+
+const emptyDraft = { name: '', transport: 'http' as MCPTransportKind, endpoint: '', authToken: '' };
+
+// MCP servers whose tools Spark can call; changes apply on the next connect
+export default function MCPServerSettings() {
+  const [servers, setServers] = useState<MCPServerConfig[]>(loadMCPServers);
+  const [statuses, setStatuses] = useState<MCPServerStatus[]>(() => mcpHost.getStatuses());
+  const [draft, setDraft] = useState(emptyDraft);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSharing, setIsSharing] = useState(isWhiteboardMCPEnabled);
+
+  useEffect(() => mcpHost.subscribe(() => setStatuses(mcpHost.getStatuses())), []);
+
+  const updateServers = (next: MCPServerConfig[]) => {
+    setServers(next);
+    saveMCPServers(next);
+  };
+
+  const handleAdd = () => {
+    const name = draft.name.trim();
+    const endpoint = draft.endpoint.trim();
+    if (!name || (draft.transport !== 'stdio' && !endpoint)) {
+      alert('An MCP server needs a name and a URL');
+      return;
+    }
+    updateServers([
+      ...servers,
+      {
+        id: `mcp-${Date.now()}`,
+        name,
+        transport: draft.transport,
+        url: draft.transport === 'stdio' ? undefined : endpoint,
+        bridgeServer: draft.transport === 'stdio' ? endpoint || name : undefined,
+        authToken: draft.authToken.trim() || undefined,
+        enabled: true,
+      },
+    ]);
+    setDraft(emptyDraft);
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      await mcpHost.sync(servers);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const describeStatus = (server: MCPServerConfig) => {
+    if (!server.enabled) return { text: 'Disabled', color: 'text-gray-500' };
+    const status = statuses.find(s => s.id === server.id);
+    if (!status) return { text: 'Not connected', color: 'text-gray-500' };
+    if (status.state === 'connecting') return { text: 'Connecting...', color: 'text-yellow-600' };
+    if (status.state === 'error') return { text: status.error || 'Error', color: 'text-red-600' };
+    return { text: `${status.toolNames.length} tools`, color: 'text-green-600' };
+  };
+
+  return (
+    <div className="mt-4 border-t pt-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-gray-800">MCP Servers</div>
+        <button
+          onClick={handleCheck}
+          disabled={isChecking}
+          className="flex items-center gap-1 text-xs text-gray-700 hover:text-black disabled:opacity-50"
+          title="Connect now and list tools"
+        >
+          <RefreshCw size={12} className={isChecking ? 'animate-spin' : ''} />
+          Check
+        </button>
+      </div>
+
+      {servers.length === 0 && (
+        <div className="text-xs text-gray-500 mb-2">
+          Tools from added servers are offered to Spark on the next connect.
+        </div>
+      )}
+      {servers.map(server => {
+        const status = describeStatus(server);
+        return (
+          <div key={server.id} className="flex items-center gap-2 text-sm mb-1">
+            <input
+              type="checkbox"
+              checked={server.enabled}
+              onChange={(e) =>
+                updateServers(servers.map(s => (s.id === server.id ? { ...s, enabled: e.target.checked } : s)))
+              }
+            />
+            <div className="flex-1 min-w-0">
+              <div className="truncate text-gray-800">
+                {server.name}{' '}
+                <span className="text-xs text-gray-500">{transportLabels[server.transport]}</span>
+              </div>
+              <div className={`text-xs truncate ${status.color}`} title={status.text}>{status.text}</div>
+            </div>
+            <button
+              onClick={() => {
+                updateServers(servers.filter(s => s.id !== server.id));
+                mcpHost.disconnectServer(server.id);
+              }}
+              className="p-1 text-gray-500 hover:text-red-600"
+              title="Remove server"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2 mt-2">
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Name, e.g. github"
+          className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+        />
+        <select
+          value={draft.transport}
+          onChange={(e) => setDraft({ ...draft, transport: e.target.value as MCPTransportKind })}
+          className="w-1/2 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+        >
+          {(Object.keys(transportLabels) as MCPTransportKind[]).map(kind => (
+            <option key={kind} value={kind}>{transportLabels[kind]}</option>
+          ))}
+        </select>
+      </div>
+      <input
+        type="text"
+        value={draft.endpoint}
+        onChange={(e) => setDraft({ ...draft, endpoint: e.target.value })}
+        placeholder={
+          draft.transport === 'stdio'
+            ? `Bridge server name (defaults to the name) - ${MCP_BRIDGE_URL}`
+            : 'https://example.com/mcp'
+        }
+        className="w-full px-3 py-2 border border-gray-400 rounded-lg text-sm mt-2"
+      />
+      <div className="flex gap-2 mt-2">
+        <input
+          type="password"
+          value={draft.authToken}
+          onChange={(e) => setDraft({ ...draft, authToken: e.target.value })}
+          placeholder="Bearer token (optional)"
+          className="flex-1 px-3 py-2 border border-gray-400 rounded-lg text-sm"
+        />
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1 px-3 py-1 bg-black text-white text-sm rounded-lg hover:opacity-90"
+        >
+          <Plus size={14} />
+          Add
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-800 mt-3">
+        <input
+          type="checkbox"
+          checked={isSharing}
+          onChange={(e) => {
+            setIsSharing(e.target.checked);
+            setWhiteboardMCPEnabled(e.target.checked);
+          }}
+        />
+        Share this board with MCP clients
+      </label>
+      {isSharing && (
+        <div className="text-xs text-gray-500 mt-1">
+          Other agents connect to {WHITEBOARD_MCP_URL}/mcp (run whiteboard-mcp-server)
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Check, ChevronDown, ChevronRight, ClipboardList, Copy, Download, Loader2, Send, Sparkles } from 'lucide-react';
+import { TranscriptTurn } from '../types/gemini-live';
+import { MeetingMinutes, MeetingRecord } from '../types/meeting';
+import { BoardSyncConfig, WhiteboardData } from '../types/whiteboard';
+import { formatMinutesHtml, formatMinutesMarkdown, formatMinutesText, generateMeetingMinutes } from '../lib/meeting-minutes';
+import { formatTurnTime } from '../lib/transcript';
+import { createIssueTracker, resolveSyncConfig, TRACKER_LABELS } from '../lib/trackers';
+import { addConfluencePageComment } from '../lib/jira-proxy';
+import { getTeamMembers } from '../tools/tracker-whiteboard-tools';
+
+interface MeetingMinutesPanelProps {
+  apiKey: string;
+  meeting: MeetingRecord | null;
+  transcript: TranscriptTurn[];
+  syncConfig?: BoardSyncConfig;
+  onMeetingChange: (meeting: MeetingRecord | null) => void;
+}
+
+type PostTarget = 'tracker' | 'confluence';
+
+// Writes the minutes of the current meeting from its transcript, board
+// changes and tracker updates, then exports or posts them
+export default function MeetingMinutesPanel({ apiKey, meeting, transcript, syncConfig, onMeetingChange }: MeetingMinutesPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [minutes, setMinutes] = useState<MeetingMinutes | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string>();
+  const [copied, setCopied] = useState(false);
+  const [postTarget, setPostTarget] = useState<PostTarget>('tracker');
+  const [postId, setPostId] = useState('');
+  const [postStatus, setPostStatus] = useState<'idle' | 'posting' | 'posted'>('idle');
+
+  const trackerLabel = TRACKER_LABELS[syncConfig?.tracker ?? 'jira'];
+  const markdown = minutes ? formatMinutesMarkdown(minutes) : '';
+
+  const writeMinutes = async () => {
+    if (!meeting) return;
+    // Taking the minutes ends the meeting; the next connect starts a new one
+    const ended = { ...meeting, endedAt: meeting.endedAt || Date.now() };
+    onMeetingChange(ended);
+    setIsWriting(true);
+    setError(undefined);
+    setPostStatus('idle');
+
+    try {
+      const boardAfter =
+        (window as unknown as { getCurrentWhiteboardData?: () => WhiteboardData }).getCurrentWhiteboardData?.() ||
+        { elements: [] };
+      const teamMembers = await getTeamMembers(resolveSyncConfig(boardAfter.syncConfig)).catch(() => []);
+      setMinutes(await generateMeetingMinutes({ apiKey, meeting: ended, transcript, boardAfter, teamMembers }));
+    } catch (error) {
+      console.error('❌ Failed to write meeting minutes:', error);
+      setError(error instanceof Error ? error.message : 'Failed to write minutes');
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  const copyMinutes = async () => {
+    await navigator.clipboard.writeText(markdown);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const downloadMinutes = () => {
+    if (!minutes) return;
+    const blob = new Blob([markdown], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `standup-minutes-${new Date(minutes.startedAt).toISOString().slice(0, 10)}.md`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const postMinutes = async () => {
+    if (!minutes || !postId.trim()) return;
+    setPostStatus('posting');
+    setError(undefined);
+    try {
+      if (postTarget === 'confluence') {
+        await addConfluencePageComment(postId.trim(), formatMinutesHtml(minutes));
+      } else {
+        // Built here so a board with an incomplete tracker config can still write minutes
+        const tracker = createIssueTracker(resolveSyncConfig(syncConfig));
+        // Jira shows Markdown as literal text; the other trackers render it
+        await tracker.addComment(
+          postId.trim(),
+          tracker.kind === 'jira' ? formatMinutesText(minutes) : markdown
+        );
+      }
+      setPostStatus('posted');
+    } catch (error) {
+      console.error('❌ Failed to post meeting minutes:', error);
+      setError(error instanceof Error ? error.message : 'Failed to post minutes');
+      setPostStatus('idle');
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 text-sm text-gray-700 hover:text-gray-900"
+      >
+        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <ClipboardList size={14} />
+        Minutes
+        <span className="ml-auto text-xs text-gray-400">
+          {meeting && !meeting.endedAt ? `since ${formatTurnTime(meeting.startedAt)}` : ''}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <button
+            onClick={writeMinutes}
+            disabled={!meeting || isWriting}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-30"
+          >
+            {isWriting ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+            {isWriting ? 'Writing minutes...' : meeting?.endedAt ? 'Rewrite minutes' : 'End meeting & write minutes'}
+          </button>
+          {!meeting && (
+            <p className="text-xs text-gray-400 text-center">Connect to start a meeting</p>
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          {minutes && (
+            <>
+              <div className="flex items-center gap-1">
+                <span className="text-xs text-gray-500 flex-1">
+                  {minutes.updates.length} updates · {minutes.decisions.length} decisions · {minutes.actionItems.length} action items
+                </span>
+                <button
+                  onClick={copyMinutes}
+                  className="p-1.5 rounded-lg hover:bg-gray-100 transition-colors"
+                  title="Copy as Markdown"
+                >
+                  {copied ? <Check size={14} className="text-green-600" /> : <Copy size={14} className="text-gray-600" />}
+                </button>
+                <button
+                  onClick={downloadMinutes}
+                  className="p-1.5 rounded-lg hover:bg-gray-100 transition-colors"
+                  title="Download Markdown"
+                >
+                  <Download size={14} className="text-gray-600" />
+                </button>
+              </div>
+
+              <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap text-xs text-gray-700 bg-gray-50 rounded-lg p-2">
+                {markdown}
+              </pre>
+
+              <div className="flex gap-2">
+                <select
+                  value={postTarget}
+                  onChange={(e) => {
+                    setPostTarget(e.target.value as PostTarget);
+                    setPostStatus('idle');
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="tracker">{trackerLabel} issue</option>
+                  <option value="confluence">Confluence page</option>
+                </select>
+                <input
+                  value={postId}
+                  onChange={(e) => {
+                    setPostId(e.target.value);
+                    setPostStatus('idle');
+                  }}
+                  placeholder={postTarget === 'confluence' ? 'Page id' : 'Issue key'}
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                />
+                <button
+                  onClick={postMinutes}
+                  disabled={!postId.trim() || postStatus === 'posting'}
+                  className="p-1.5 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-30"
+                  title="Post as a comment"
+                >
+                  {postStatus === 'posting' ? (
+                    <Loader2 size={14} className="animate-spin text-gray-600" />
+                  ) : postStatus === 'posted' ? (
+                    <Check size={14} className="text-green-600" />
+                  ) : (
+                    <Send size={14} className="text-gray-600" />
+                  )}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
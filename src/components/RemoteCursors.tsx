@@ -0,0 +1,43 @@
+import { RemoteParticipant } from '../types/presence';
+
+interface RemoteCursorsProps {
+  participants: RemoteParticipant[];
+  zoom: number;
+}
+
+// Other participants' pointers, drawn in board coordinates inside the zoomed layer
+export default function RemoteCursors({ participants, zoom }: RemoteCursorsProps) {
+  return (
+    <>
+      {participants.map(participant => participant.cursor && (
+        <div
+          key={participant.clientId}
+          className="absolute pointer-events-none z-40 transition-transform duration-75 ease-linear"
+          style={{
+            left: 0,
+            top: 0,
+            // Keep the pointer the same size at any zoom
+            transform: `translate(${participant.cursor.x}px, ${participant.cursor.y}px) scale(${1 / zoom})`,
+            transformOrigin: '0 0'
+          }}
+        >
+          <svg width="18" height="18" viewBox="0 0 18 18">
+            <path
+              d="M1 1 L1 15 L5 11 L8 17 L10.5 16 L7.5 10 L13 10 Z"
+              fill={participant.user.color}
+              stroke="white"
+              strokeWidth="1.2"
+            />
+          </svg>
+          <div
+            className="ml-4 -mt-1 px-1.5 py-0.5 rounded text-[11px] font-medium text-white whitespace-nowrap shadow"
+            style={{ backgroundColor: participant.user.color }}
+          >
+            {participant.user.name}
+            {participant.editingId && ' is typing…'}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
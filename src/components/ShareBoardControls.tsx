@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Check, Link, LogOut, Users } from 'lucide-react';
+import { SharedBoardStatus } from '../hooks/useSharedBoard';
+import { PresenceUser, RemoteParticipant } from '../types/presence';
+
+interface ShareBoardControlsProps {
+  room: string | null;
+  status: SharedBoardStatus;
+  participantCount: number;
+  user: PresenceUser;
+  participants: RemoteParticipant[];
+  onRenameUser: (name: string) => void;
+  onShare: () => void;
+  onLeave: () => void;
+}
+
+const statusStyles: Record<SharedBoardStatus, { dot: string; text: string }> = {
+  local: { dot: 'bg-gray-300', text: 'Only you' },
+  connecting: { dot: 'bg-yellow-400', text: 'Connecting…' },
+  connected: { dot: 'bg-green-500', text: 'Live' },
+  offline: { dot: 'bg-red-500', text: 'Offline - changes will sync on reconnect' },
+};
+
+// Helper function to get the initials shown in an avatar
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+function Avatar({ user, title, onClick }: { user: PresenceUser; title: string; onClick?: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={!onClick}
+      className="w-6 h-6 -ml-1 first:ml-0 rounded-full border-2 border-white text-[10px] font-semibold text-white flex items-center justify-center disabled:cursor-default"
+      style={{ backgroundColor: user.color }}
+      title={title}
+    >
+      {initials(user.name)}
+    </button>
+  );
+}
+
+export default function ShareBoardControls({
+  room,
+  status,
+  participantCount,
+  user,
+  participants,
+  onRenameUser,
+  onShare,
+  onLeave
+}: ShareBoardControlsProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyInviteLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const renameUser = () => {
+    const name = prompt('Your name on shared boards:', user.name)?.trim();
+    if (name) onRenameUser(name);
+  };
+
+  if (!room) {
+    return (
+      <button
+        onClick={onShare}
+        className="fixed bottom-4 left-32 bg-white rounded-xl shadow border border-gray-300 px-3 py-2 z-30 flex items-center gap-2 text-sm text-gray-800 hover:bg-gray-100 transition-colors"
+        title="Edit this board together with your team in real time"
+      >
+        <Users size={16} className="text-gray-700" />
+        Share board
+      </button>
+    );
+  }
+
+  const style = statusStyles[status];
+  return (
+    <div className="fixed bottom-4 left-32 bg-white rounded-xl shadow border border-gray-300 px-3 py-1 z-30 flex items-center gap-2 text-sm text-gray-800">
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} title={style.text} />
+      <Users size={16} className="text-gray-700" />
+      <span title={style.text}>{participantCount}</span>
+      <div className="flex items-center">
+        <Avatar user={user} title={`${user.name} (you) - click to rename`} onClick={renameUser} />
+        {participants.map(participant => (
+          <Avatar key={participant.clientId} user={participant.user} title={participant.user.name} />
+        ))}
+      </div>
+      <button
+        onClick={copyInviteLink}
+        className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+        title="Copy invite link"
+      >
+        {copied ? <Check size={16} className="text-green-600" /> : <Link size={16} className="text-gray-700" />}
+      </button>
+      <button
+        onClick={onLeave}
+        className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+        title="Stop sharing (keeps a copy of the board)"
+      >
+        <LogOut size={16} className="text-gray-700" />
+      </button>
+    </div>
+  );
+}
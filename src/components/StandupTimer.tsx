@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Play, SkipForward, Square, Timer, UserX, X } from 'lucide-react';
+import { StandupSession } from '../types/meeting';
+import { BoardSyncConfig } from '../types/whiteboard';
+import {
+  advanceSpeaker,
+  DEFAULT_MEETING_LIMIT,
+  DEFAULT_SPEAKER_LIMIT,
+  endStandup,
+  formatDuration,
+  getStandupTiming,
+  SpeakerOrder,
+  startStandup
+} from '../lib/standup';
+import { resolveSyncConfig } from '../lib/trackers';
+import { getTeamMembers } from '../tools/tracker-whiteboard-tools';
+
+interface StandupTimerProps {
+  standup?: StandupSession;
+  syncConfig?: BoardSyncConfig;
+  onChange: (standup: StandupSession | undefined, label: string) => void;
+}
+
+// Timeboxed standup: the speaker queue with a timer per speaker and for the
+// whole meeting. Spark drives the same session with next_speaker.
+export default function StandupTimer({ standup, syncConfig, onChange }: StandupTimerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [speakerMinutes, setSpeakerMinutes] = useState(DEFAULT_SPEAKER_LIMIT / 60);
+  const [meetingMinutes, setMeetingMinutes] = useState(DEFAULT_MEETING_LIMIT / 60);
+  const [order, setOrder] = useState<SpeakerOrder>('rotate');
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const isRunning = !!standup && !standup.endedAt;
+
+  // Tick while the clock runs; times are derived from the session's timestamps
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  const start = async () => {
+    setIsStarting(true);
+    setError(undefined);
+    try {
+      const members = await getTeamMembers(resolveSyncConfig(syncConfig));
+      onChange(
+        startStandup(members, {
+          order,
+          speakerLimit: Math.round(speakerMinutes * 60),
+          meetingLimit: Math.round(meetingMinutes * 60)
+        }),
+        'Start standup'
+      );
+      setNow(Date.now());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load the roster');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!isOpen && !isRunning) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-20 left-4 bg-white rounded-xl shadow border border-gray-300 px-3 py-2 z-30 flex items-center gap-2 text-sm text-gray-700 hover:bg-gray-50"
+        title="Timeboxed standup"
+      >
+        <Timer size={16} />
+        Standup
+      </button>
+    );
+  }
+
+  const timing = standup ? getStandupTiming(standup, now) : undefined;
+  const meetingProgress = timing ? Math.min(1, timing.elapsed / timing.meetingLimit) : 0;
+  const speakerProgress = timing?.current ? Math.min(1, timing.current.seconds / timing.speakerLimit) : 0;
+
+  return (
+    <div className="fixed bottom-20 left-4 bg-white rounded-xl shadow border border-gray-300 p-3 z-30 w-64 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-800">
+        <Timer size={16} />
+        Standup
+        {timing && (
+          <span className={`ml-auto text-xs font-normal ${timing.meetingRemaining < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+            {formatDuration(timing.elapsed)} / {formatDuration(timing.meetingLimit)}
+          </span>
+        )}
+        {!isRunning && (
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              if (standup) onChange(undefined, 'Close standup');
+            }}
+            className={`${timing ? '' : 'ml-auto '}p-0.5 rounded hover:bg-gray-100`}
+            title="Close"
+          >
+            <X size={14} className="text-gray-500" />
+          </button>
+        )}
+      </div>
+
+      {timing && (
+        <div className="h-1 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${timing.meetingRemaining < 0 ? 'bg-red-500' : timing.projectedOverrun ? 'bg-amber-500' : 'bg-gray-800'}`}
+            style={{ width: `${meetingProgress * 100}%` }}
+          />
+        </div>
+      )}
+
+      {!isRunning && (
+        <div className="space-y-2 text-sm">
+          {timing && (
+            <p className="text-xs text-gray-500">
+              Last standup took {formatDuration(timing.elapsed)}
+              {timing.projectedOverrun || timing.meetingRemaining < 0 ? ' - over the timebox' : ''}
+            </p>
+          )}
+          <label className="flex items-center justify-between gap-2 text-gray-700">
+            Minutes per speaker
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={speakerMinutes}
+              onChange={(e) => setSpeakerMinutes(Number(e.target.value) || DEFAULT_SPEAKER_LIMIT / 60)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-gray-700">
+            Timebox (minutes)
+            <input
+              type="number"
+              min={1}
+              value={meetingMinutes}
+              onChange={(e) => setMeetingMinutes(Number(e.target.value) || DEFAULT_MEETING_LIMIT / 60)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-gray-700">
+            Order
+            <select
+              value={order}
+              onChange={(e) => setOrder(e.target.value as SpeakerOrder)}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="rotate">Rotate daily</option>
+              <option value="roster">Roster</option>
+              <option value="shuffle">Shuffle</option>
+            </select>
+          </label>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <button
+            onClick={start}
+            disabled={isStarting}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-30"
+          >
+            {isStarting ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+            {isStarting ? 'Loading roster...' : 'Start standup'}
+          </button>
+        </div>
+      )}
+
+      {isRunning && standup && timing && (
+        <>
+          {timing.current && (
+            <div>
+              <div className="flex items-baseline justify-between">
+                <span className="font-medium text-gray-900 truncate">{timing.current.name}</span>
+                <span className={`text-2xl font-mono ${timing.current.overrun ? 'text-red-600' : 'text-gray-800'}`}>
+                  {formatDuration(timing.current.seconds)}
+                </span>
+              </div>
+              <div className="h-1.5 mt-1 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${timing.current.overrun ? 'bg-red-500' : speakerProgress > 0.75 ? 'bg-amber-500' : 'bg-green-500'}`}
+                  style={{ width: `${speakerProgress * 100}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {timing.current.overrun
+                  ? `${formatDuration(timing.current.overrun)} over the ${formatDuration(timing.speakerLimit)} limit`
+                  : `${formatDuration(timing.speakerLimit - timing.current.seconds)} left`}
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-1">
+            <button
+              onClick={() => onChange(advanceSpeaker(standup), 'Next speaker')}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800"
+            >
+              <SkipForward size={14} />
+              Next
+            </button>
+            <button
+              onClick={() => onChange(advanceSpeaker(standup, { skip: true }), 'Skip speaker')}
+              className="p-1.5 rounded-lg border border-gray-300 hover:bg-gray-100"
+              title="Not here - skip"
+            >
+              <UserX size={14} className="text-gray-600" />
+            </button>
+            <button
+              onClick={() => onChange(endStandup(standup), 'End standup')}
+              className="p-1.5 rounded-lg border border-gray-300 hover:bg-gray-100"
+              title="End standup"
+            >
+              <Square size={14} className="text-gray-600" />
+            </button>
+          </div>
+
+          <ol className="max-h-40 overflow-y-auto space-y-1 text-sm">
+            {standup.queue.map((turn, index) => {
+              const isCurrent = index === standup.current;
+              const seconds = turn.startedAt && turn.endedAt
+                ? Math.floor((turn.endedAt - turn.startedAt) / 1000)
+                : undefined;
+              return (
+                <li key={`${turn.name}-${index}`} className="flex items-center gap-2">
+                  <span className={`w-1.5 h-1.5 rounded-full ${isCurrent ? 'bg-green-500' : turn.endedAt ? 'bg-gray-300' : 'bg-gray-500'}`} />
+                  {!isCurrent && !turn.endedAt ? (
+                    <button
+                      onClick={() => onChange(advanceSpeaker(standup, { name: turn.name }), `Give the floor to ${turn.name}`)}
+                      className={`flex-1 text-left truncate hover:underline ${turn.skipped ? 'text-gray-400 line-through' : 'text-gray-700'}`}
+                      title={`Give the floor to ${turn.name}`}
+                    >
+                      {turn.name}
+                    </button>
+                  ) : (
+                    <span className={`flex-1 truncate ${isCurrent ? 'font-medium text-gray-900' : 'text-gray-400'}`}>{turn.name}</span>
+                  )}
+                  {seconds !== undefined && (
+                    <span className={`text-xs font-mono ${seconds > standup.speakerLimit ? 'text-red-500' : 'text-gray-400'}`}>
+                      {formatDuration(seconds)}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+          {timing.projectedOverrun > 0 && (
+            <p className="text-xs text-amber-700">
+              On track to run {formatDuration(timing.projectedOverrun)} over
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Edit3 } from 'lucide-react';
+import { AlertOctagon, AlertTriangle, Edit3, ExternalLink, Link2, Loader2, X } from 'lucide-react';
 import { StickyNote as StickyNoteType } from '../types/whiteboard';
+import { TRACKER_LABELS } from '../lib/trackers';
+import { getTodayDate } from '../lib/action-items';
+import { ElementPresence } from '../types/presence';
+
+// A note blocking this one, for the blocker panel
+export interface StickyBlocker {
+  id: string;
+  title: string;
+  source: 'board' | 'tracker';
+  resolved: boolean;
+}
 
 interface StickyNoteProps {
   element: StickyNoteType;
@@ -8,20 +19,33 @@ interface StickyNoteProps {
   onDragStart: (id: string) => void;
   onDrag: (id: string, x: number, y: number) => void;
   onDragEnd: () => void;
+  // Another participant on a shared board has this element selected or is typing in it
+  presence?: ElementPresence;
+  onEditingChange?: (id: string, editing: boolean) => void;
+  blockers?: StickyBlocker[];
+  onStartBlockerLink?: (id: string) => void;
+  onRemoveBlockerLink?: (id: string, blockerId: string) => void;
+  // Set while another note is picking its blocker; clicking this note picks it
+  onPickBlocker?: (id: string) => void;
 }
 
 const colorOptions = [
   { name: 'White', value: 'white', bg: 'bg-white', border: 'border-gray-300' },
 ];
 
-export default function StickyNote({ element, onUpdate, onDragStart, onDrag, onDragEnd }: StickyNoteProps) {
+export default function StickyNote({ element, onUpdate, onDragStart, onDrag, onDragEnd, presence, onEditingChange, blockers = [], onStartBlockerLink, onRemoveBlockerLink, onPickBlocker }: StickyNoteProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const [showColorPicker, setShowColorPicker] = useState(false);
+  const [showBlockers, setShowBlockers] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const colorConfig = colorOptions.find(c => c.value === element.color) || colorOptions[0];
+  const issue = element.issue;
+  const trackerLabel = issue ? TRACKER_LABELS[issue.tracker] : '';
+  // Due dates are YYYY-MM-DD, so they compare with today's local date as strings
+  const isOverdue = !!issue?.dueDate && issue.dueDate < getTodayDate();
 
   useEffect(() => {
     if (isEditing && textareaRef.current) {
@@ -30,7 +54,23 @@ export default function StickyNote({ element, onUpdate, onDragStart, onDrag, onD
     }
   }, [isEditing]);
 
+  // Let others know, so they can't type over each other
+  useEffect(() => {
+    if (!isEditing) return;
+    onEditingChange?.(element.id, true);
+    return () => onEditingChange?.(element.id, false);
+  }, [isEditing, element.id, onEditingChange]);
+
+  const lockedBy = presence?.editing && !isEditing ? presence.user : undefined;
+  const openBlockers = blockers.filter(blocker => !blocker.resolved);
+  const isBlocked = !!element.blocker || openBlockers.length > 0;
+
   const handleMouseDown = (e: React.MouseEvent) => {
+    if (onPickBlocker) {
+      e.stopPropagation();
+      onPickBlocker(element.id);
+      return;
+    }
     if (isEditing) return;
     
     const rect = e.currentTarget.getBoundingClientRect();
@@ -82,22 +122,122 @@ export default function StickyNote({ element, onUpdate, onDragStart, onDrag, onD
 
   return (
     <div
-      className={`absolute w-48 h-32 ${colorConfig.bg} ${colorConfig.border} border-2 rounded-lg shadow-lg cursor-move transition-all duration-200 hover:shadow-xl group`}
-      style={{ left: element.x, top: element.y }}
+      className={`absolute w-48 h-32 ${colorConfig.bg} ${isBlocked ? 'border-red-400' : colorConfig.border} border-2 rounded-lg shadow-lg ${onPickBlocker ? 'cursor-crosshair hover:ring-2 hover:ring-red-400' : 'cursor-move'} transition-all duration-200 hover:shadow-xl group ${element.issue?.removed ? 'opacity-60 border-dashed' : ''}`}
+      style={{
+        left: element.x,
+        top: element.y,
+        ...(presence && { outline: `3px solid ${presence.user.color}`, outlineOffset: 2 })
+      }}
       onMouseDown={handleMouseDown}
     >
+      {presence && (
+        <div
+          className="absolute -top-3 right-2 px-2 py-0.5 rounded-full shadow-sm text-xs text-white whitespace-nowrap z-10"
+          style={{ backgroundColor: presence.user.color }}
+        >
+          {presence.editing ? `${presence.user.name} is typing…` : presence.user.name}
+        </div>
+      )}
       <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
         <button
           onClick={(e) => {
             e.stopPropagation();
-            setIsEditing(true);
+            if (!lockedBy) setIsEditing(true);
           }}
-          className="p-1 bg-white rounded-full shadow-sm hover:shadow-md transition-shadow"
+          disabled={!!lockedBy}
+          className="p-1 bg-white rounded-full shadow-sm hover:shadow-md transition-shadow disabled:opacity-40 disabled:cursor-not-allowed"
+          title={lockedBy ? `${lockedBy.name} is editing` : 'Edit'}
         >
           <Edit3 size={12} className="text-gray-600" />
         </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowBlockers(!showBlockers);
+          }}
+          className="p-1 bg-white rounded-full shadow-sm hover:shadow-md transition-shadow"
+          title="Blockers"
+        >
+          <AlertOctagon size={12} className={isBlocked ? 'text-red-600' : 'text-gray-600'} />
+        </button>
       </div>
 
+      {isBlocked && (
+        <div
+          className="absolute -top-2 -left-2 p-0.5 bg-red-600 rounded-full shadow-sm z-10"
+          title={[
+            element.blocker && `Blocked${element.blocker.reason ? `: ${element.blocker.reason}` : ''}`,
+            ...openBlockers.map(blocker => `Blocked by ${blocker.title}`)
+          ].filter(Boolean).join('\n')}
+        >
+          <AlertOctagon size={12} className="text-white" />
+        </div>
+      )}
+
+      {showBlockers && (
+        <div
+          className="absolute top-full left-0 mt-2 w-64 bg-white rounded-lg shadow-xl border border-gray-200 p-3 space-y-2 z-20 cursor-default"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!element.blocker}
+                onChange={(e) => onUpdate(element.id, {
+                  blocker: e.target.checked ? { reason: '', since: Date.now() } : undefined
+                })}
+              />
+              Blocked
+            </label>
+            <button onClick={() => setShowBlockers(false)} className="p-0.5 rounded hover:bg-gray-100" title="Close">
+              <X size={12} className="text-gray-500" />
+            </button>
+          </div>
+          {element.blocker && (
+            <input
+              value={element.blocker.reason}
+              onChange={(e) => onUpdate(element.id, { blocker: { ...element.blocker!, reason: e.target.value } })}
+              placeholder="What's in the way?"
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          )}
+
+          <p className="text-xs font-medium text-gray-500">Blocked by</p>
+          {blockers.length === 0 && <p className="text-xs text-gray-400">No linked tasks</p>}
+          {blockers.map(blocker => (
+            <div key={blocker.id} className="flex items-center gap-1 text-xs">
+              <span className={`flex-1 truncate ${blocker.resolved ? 'line-through text-gray-400' : 'text-gray-700'}`} title={blocker.title}>
+                {blocker.title}
+              </span>
+              {blocker.source === 'tracker' ? (
+                <span className="text-gray-400" title={`Linked in ${trackerLabel}`}>{trackerLabel}</span>
+              ) : (
+                <button
+                  onClick={() => onRemoveBlockerLink?.(element.id, blocker.id)}
+                  className="p-0.5 rounded hover:bg-gray-100"
+                  title="Remove link"
+                >
+                  <X size={10} className="text-gray-500" />
+                </button>
+              )}
+            </div>
+          ))}
+          {onStartBlockerLink && (
+            <button
+              onClick={() => {
+                setShowBlockers(false);
+                onStartBlockerLink(element.id);
+              }}
+              className="w-full flex items-center justify-center gap-1 px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              <Link2 size={12} />
+              Pick the note that blocks this
+            </button>
+          )}
+        </div>
+      )}
+
       {showColorPicker && (
         <div className="absolute top-10 right-2 bg-white rounded-lg shadow-xl p-2 grid grid-cols-3 gap-1 z-10">
           {colorOptions.map((color) => (
@@ -111,6 +251,33 @@ export default function StickyNote({ element, onUpdate, onDragStart, onDrag, onD
         </div>
       )}
 
+      {element.issue?.removed && (
+        <div
+          className="absolute -top-3 left-2 px-2 py-0.5 bg-white border border-gray-300 rounded-full shadow-sm text-xs text-gray-500"
+          title={`${element.issue.key} was not in the latest ${trackerLabel} sync`}
+        >
+          Not in {trackerLabel} sync
+        </div>
+      )}
+      {element.issue?.syncState === 'pending' && (
+        <div
+          className="absolute -top-3 left-2 flex items-center gap-1 px-2 py-0.5 bg-white border border-gray-300 rounded-full shadow-sm text-xs text-gray-600"
+          title={`Updating ${element.issue.key} in ${trackerLabel}`}
+        >
+          <Loader2 size={10} className="animate-spin" />
+          Syncing
+        </div>
+      )}
+      {element.issue?.syncState === 'failed' && (
+        <div
+          className="absolute -top-3 left-2 flex items-center gap-1 px-2 py-0.5 bg-red-50 border border-red-300 rounded-full shadow-sm text-xs text-red-700"
+          title={element.issue.syncError}
+        >
+          <AlertTriangle size={10} />
+          {trackerLabel} rejected move
+        </div>
+      )}
+
       <div className="p-3 h-full">
         {isEditing ? (
           <textarea
@@ -133,6 +300,45 @@ export default function StickyNote({ element, onUpdate, onDragStart, onDrag, onD
           </div>
         )}
       </div>
+
+      {issue && (
+        <div className="absolute bottom-1.5 left-2 right-2 flex flex-wrap items-center gap-1 text-[10px] leading-none">
+          {issue.issueType && (
+            <span className="px-1.5 py-0.5 bg-white/80 border border-gray-300 rounded text-gray-700">{issue.issueType}</span>
+          )}
+          {issue.storyPoints !== undefined && (
+            <span className="px-1.5 py-0.5 bg-gray-800 text-white rounded-full" title="Story points">{issue.storyPoints} pts</span>
+          )}
+          {issue.parent && (
+            <span className="px-1.5 py-0.5 bg-purple-100 text-purple-800 rounded max-w-[80px] truncate" title={`${issue.parent.key}: ${issue.parent.summary}`}>
+              {issue.parent.summary}
+            </span>
+          )}
+          {issue.labels?.slice(0, 2).map(label => (
+            <span key={label} className="px-1.5 py-0.5 bg-white/80 text-gray-600 rounded">#{label}</span>
+          ))}
+          {issue.dueDate && (
+            <span
+              className={`px-1.5 py-0.5 rounded ${isOverdue ? 'bg-red-100 text-red-700' : 'bg-white/80 text-gray-600'}`}
+              title={isOverdue ? 'Overdue' : 'Due date'}
+            >
+              📅 {new Date(`${issue.dueDate}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+            </span>
+          )}
+          {issue.url && (
+            <a
+              href={issue.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onMouseDown={(e) => e.stopPropagation()}
+              className="ml-auto p-0.5 bg-white rounded shadow-sm hover:shadow-md"
+              title={`Open ${issue.key} in ${trackerLabel}`}
+            >
+              <ExternalLink size={10} className="text-gray-600" />
+            </a>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, ChevronRight, Copy, ScrollText, Search } from 'lucide-react';
+import { TranscriptTurn } from '../types/gemini-live';
+import { formatTranscript, formatTurnTime, getSpeakerName, searchTranscript } from '../lib/transcript';
+
+interface TranscriptPanelProps {
+  turns: TranscriptTurn[];
+}
+
+const formatDay = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Collapsible meeting transcript: follows the conversation live and searches
+// every meeting held on this board
+export default function TranscriptPanel({ turns }: TranscriptPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [copied, setCopied] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visibleTurns = searchTranscript(turns, query);
+
+  // Keep the newest words in view while following along
+  useEffect(() => {
+    if (isOpen && !query && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [turns, isOpen, query]);
+
+  const copyTranscript = async () => {
+    await navigator.clipboard.writeText(formatTranscript(visibleTurns));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 text-sm text-gray-700 hover:text-gray-900"
+      >
+        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <ScrollText size={14} />
+        Transcript
+        <span className="ml-auto text-xs text-gray-400">{turns.length} turns</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <div className="flex gap-2">
+            <div className="flex-1 flex items-center gap-1 px-2 py-1 border border-gray-300 rounded-lg">
+              <Search size={12} className="text-gray-400" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search meetings..."
+                className="flex-1 text-sm outline-none"
+              />
+            </div>
+            <button
+              onClick={copyTranscript}
+              disabled={visibleTurns.length === 0}
+              className="p-1.5 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-30"
+              title="Copy transcript"
+            >
+              {copied ? <Check size={14} className="text-green-600" /> : <Copy size={14} className="text-gray-600" />}
+            </button>
+          </div>
+
+          <div ref={listRef} className="max-h-64 overflow-y-auto space-y-2 pr-1">
+            {visibleTurns.length === 0 && (
+              <p className="text-xs text-gray-400 text-center py-2">
+                {query ? 'No turns match your search' : 'Nothing said yet - connect and start speaking'}
+              </p>
+            )}
+            {visibleTurns.map((turn, index) => {
+              const previous = visibleTurns[index - 1];
+              const newDay = !previous || formatDay(previous.startedAt) !== formatDay(turn.startedAt);
+              return (
+                <div key={turn.id}>
+                  {newDay && (
+                    <p className="text-[10px] uppercase tracking-wide text-gray-400 text-center my-1">
+                      {formatDay(turn.startedAt)}
+                    </p>
+                  )}
+                  <div className={`text-sm ${turn.speaker === 'spark' ? 'pl-3 border-l-2 border-blue-200' : ''}`}>
+                    <span className="text-xs text-gray-400 mr-1">{formatTurnTime(turn.startedAt)}</span>
+                    <span className={`font-medium ${turn.speaker === 'spark' ? 'text-blue-700' : 'text-gray-900'}`}>
+                      {getSpeakerName(turn.speaker)}:
+                    </span>{' '}
+                    <span className={turn.done ? 'text-gray-700' : 'text-gray-500 italic'}>{turn.text.trim()}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,44 @@
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { WhiteboardData, WhiteboardElement } from '../types/whiteboard';
+import { Plus } from 'lucide-react';
 import StickyNote from './StickyNote';
 import FlowNode from './FlowNode';
 import MermaidDiagram from './MermaidDiagram';
 import EmbeddedLink from './EmbeddedLink';
+import ActionItem from './ActionItem';
 import ConnectionLine from './ConnectionLine';
 import Toolbar from './Toolbar';
 import JsonEditor from './JsonEditor';
 import GeminiLiveControls from './GeminiLiveControls';
+import BoardLibrary from './BoardLibrary';
+import KanbanColumns from './KanbanColumns';
+import ColumnSettings from './ColumnSettings';
 import { processWhiteboardToolCall } from '../tools/whiteboard-tools';
 import { NotificationSystem, useNotifications } from './NotificationSystem';
+import { useBoardLibrary } from '../hooks/useBoardLibrary';
+import { useBoardHistory } from '../hooks/useBoardHistory';
+import { useTrackerTransitionSync } from '../hooks/useTrackerTransitionSync';
+import { useWhiteboardMCPLink } from '../hooks/useWhiteboardMCPLink';
+import { getRoomFromUrl, useSharedBoard } from '../hooks/useSharedBoard';
+import ShareBoardControls from './ShareBoardControls';
+import RemoteCursors from './RemoteCursors';
+import { usePresence } from '../hooks/usePresence';
+import { createRoomId } from '../lib/shared-board';
+import { mergeBoardChange } from '../lib/board-merge';
+import { convertActionItemToIssue, createActionItem, getNextActionItemPosition } from '../lib/action-items';
+import { getBlockerLinks, linkBlocker, unlinkBlocker } from '../lib/blockers';
+import { TRACKER_LABELS } from '../lib/trackers';
+import HistoryControls from './HistoryControls';
+import StandupTimer from './StandupTimer';
+import {
+  COLUMN_LAYOUT,
+  getColumnBounds,
+  getColumnBoundsByIndex,
+  getColumns,
+  getDropZoneColumn,
+  getElementColumnId,
+  layoutElementsForColumns
+} from '../lib/kanban-columns';
 
 // Clean initial state - no mock data, just empty canvas
 const initialData: WhiteboardData = {
@@ -17,7 +46,8 @@ const initialData: WhiteboardData = {
 };
 
 export default function Whiteboard() {
-  const [data, setData] = useState<WhiteboardData>(initialData);
+  const sharedBoard = useSharedBoard(initialData);
+  const { data, setData } = sharedBoard;
   const [hasJiraData, setHasJiraData] = useState(true); // Set to true to show whiteboard immediately
   const [draggedElement, setDraggedElement] = useState<string | null>(null);
   const [pan, setPan] = useState({ x: 0, y: 0 });
@@ -26,6 +56,35 @@ export default function Whiteboard() {
   const [lastPanPoint, setLastPanPoint] = useState({ x: 0, y: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
   const { addNotification, notifications, removeNotification } = useNotifications();
+  const history = useBoardHistory(data, setData);
+  const { leave: leaveSharedBoard, join: joinSharedBoard } = sharedBoard;
+  const presence = usePresence(sharedBoard.provider);
+  const { setEditingId } = presence;
+  const handleEditingChange = useCallback((id: string, editing: boolean) => {
+    setEditingId(editing ? id : null);
+  }, [setEditingId]);
+  // Opening another library board ends the shared session first, so it isn't
+  // pushed into the room
+  const openLibraryBoard = useCallback((boardData: WhiteboardData) => {
+    leaveSharedBoard();
+    setData(boardData);
+  }, [leaveSharedBoard, setData]);
+  const boardLibrary = useBoardLibrary(data, openLibraryBoard, history.reset);
+  // In a shared room one participant makes the tracker transitions for everyone
+  useTrackerTransitionSync(data, setData, sharedBoard.isSyncLeader);
+  useWhiteboardMCPLink(data, history.applyChange);
+  const dragStartDataRef = useRef<WhiteboardData | null>(null);
+  // Note picking its blocker: the next note clicked blocks it
+  const [blockerLinkFrom, setBlockerLinkFrom] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blockerLinkFrom) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setBlockerLinkFrom(null);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [blockerLinkFrom]);
 
   // Function to handle Jira data loaded
   const handleJiraDataLoaded = () => {
@@ -41,13 +100,26 @@ export default function Whiteboard() {
 
   // Use refs to maintain stable function references
   const dataRef = useRef(data);
-  const setDataRef = useRef(setData);
+  const applyChangeRef = useRef(history.applyChange);
   
-  // Update refs when data or setData changes
+  // Update refs when data or the history-aware setter changes
   useEffect(() => {
     dataRef.current = data;
-    setDataRef.current = setData;
-  }, [data, setData]);
+    applyChangeRef.current = history.applyChange;
+  }, [data, history.applyChange]);
+
+  // Guests opening an invite link get a new library board for the room, so its
+  // content never overwrites one of their own boards
+  const inviteHandledRef = useRef(false);
+  useEffect(() => {
+    const room = getRoomFromUrl();
+    if (!room || !boardLibrary.currentBoard || inviteHandledRef.current) return;
+    inviteHandledRef.current = true;
+    const name = `Shared board ${room}`;
+    const existing = boardLibrary.boards.find(board => board.name === name);
+    const openBoard = existing ? boardLibrary.switchBoard(existing.id) : boardLibrary.createBoard(name);
+    openBoard.then(() => joinSharedBoard(room));
+  }, [boardLibrary, joinSharedBoard]);
 
   // Auto-detect when Jira data is loaded based on elements
   useEffect(() => {
@@ -68,10 +140,20 @@ export default function Whiteboard() {
       return dataRef.current;
     };
 
-    // Function to set whiteboard data
-    (window as any).setWhiteboardData = (newData: WhiteboardData) => {
+    // Function to set whiteboard data - each call is one undoable AI change.
+    // Passing the board the change was computed from replays just that change,
+    // keeping edits made while the tool call was running.
+    (window as any).setWhiteboardData = (
+      newData: WhiteboardData,
+      label: string = 'Assistant board update',
+      baseData?: WhiteboardData
+    ) => {
       console.log('setWhiteboardData called with:', newData);
-      setDataRef.current(newData);
+      applyChangeRef.current(
+        baseData ? current => mergeBoardChange(baseData, newData, current) : newData,
+        label,
+        { source: 'ai' }
+      );
     };
 
     // Function to update whiteboard from Gemini (legacy support)
@@ -79,10 +161,10 @@ export default function Whiteboard() {
       console.log('updateWhiteboardFromGemini called with:', updates);
       if (updates && updates.elements) {
         const currentData = dataRef.current;
-        setDataRef.current({
+        applyChangeRef.current({
           ...currentData,
           elements: updates.elements
-        });
+        }, updates.reasoning || 'Assistant board update', { source: 'ai' });
         
         // Trigger Jira data loaded when elements are added
         if (updates.elements.length > 0) {
@@ -103,7 +185,7 @@ export default function Whiteboard() {
     };
   }, []); // No dependencies - functions are stable and use refs for current values
 
-  const updateElement = (id: string, updates: Partial<WhiteboardElement>) => {
+  const patchElement = (id: string, updates: Partial<WhiteboardElement>) => {
     setData(prev => ({
       ...prev,
       elements: prev.elements.map(el => 
@@ -112,126 +194,123 @@ export default function Whiteboard() {
     }));
   };
 
+  // Manual edits (typing, colour changes) - consecutive edits to one element merge into one undo step
+  const updateElement = (id: string, updates: Partial<WhiteboardElement>) => {
+    history.applyChange(prev => ({
+      ...prev,
+      elements: prev.elements.map(el => 
+        el.id === id ? { ...el, ...updates } as WhiteboardElement : el
+      )
+    }), 'Edit element', { coalesceKey: `edit-${id}` });
+  };
+
+  // Add a blank action item in the next free slot under the columns
+  const addActionItem = () => {
+    history.applyChange(prev => ({
+      ...prev,
+      elements: [...prev.elements, createActionItem(prev, { text: 'New action item' })]
+    }), 'Add action item');
+  };
+
+  // Create an issue for an action item in the board's tracker and link it
+  const createIssueFromActionItem = async (id: string) => {
+    const item = dataRef.current.elements.find(el => el.id === id);
+    if (item?.type !== 'action-item') return;
+    try {
+      const issue = await convertActionItemToIssue(item, dataRef.current.syncConfig);
+      applyChangeRef.current(prev => ({
+        ...prev,
+        elements: prev.elements.map(el =>
+          el.id === id && el.type === 'action-item' ? { ...el, issue } : el
+        )
+      }), `Create ${issue.key} from action item`);
+      addNotification({
+        type: 'success',
+        message: `✅ Created ${issue.key} for "${item.text}"`,
+        duration: 3000
+      });
+    } catch (error) {
+      console.error('❌ Failed to create issue from action item:', error);
+      addNotification({
+        type: 'warning',
+        message: `Couldn't create an issue: ${error instanceof Error ? error.message : 'unknown error'}`,
+        duration: 5000
+      });
+    }
+  };
+
+  const pickBlocker = (blockerId: string) => {
+    if (!blockerLinkFrom) return;
+    history.applyChange(prev => linkBlocker(prev, blockerLinkFrom, blockerId), 'Link blocker');
+    setBlockerLinkFrom(null);
+  };
+
   // Function to reorganize all elements in their columns
   const reorganizeElements = () => {
-    setData(prev => {
-      const newElements = [...prev.elements];
-      
-      // Separate elements by column and type (updated boundaries)
-      const todoElements = newElements.filter(el => 
-        el.type === 'sticky' && el.x >= 40 && el.x <= 380
-      ).sort((a, b) => a.y - b.y);
-      
-      const inProgressElements = newElements.filter(el => 
-        el.type === 'sticky' && el.x >= 420 && el.x <= 760
-      ).sort((a, b) => a.y - b.y);
-      
-      const doneElements = newElements.filter(el => 
-        el.type === 'sticky' && el.x >= 800 && el.x <= 1140
-      ).sort((a, b) => a.y - b.y);
-      
-      const otherElements = newElements.filter(el => 
-        el.type !== 'sticky' || (el.x < 40 || (el.x > 380 && el.x < 420) || (el.x > 760 && el.x < 800) || el.x > 1140)
+    history.applyChange(prev => {
+      const columns = getColumns(prev);
+      const columnElements = columns.map(column =>
+        prev.elements
+          .filter(el => getElementColumnId(el, columns) === column.id)
+          .sort((a, b) => a.y - b.y)
       );
-      
-      // Reorganize each column with proper spacing
-      let startY = 200; // Updated to account for new header height
-      const spacing = 100; // Increased spacing for better visual appeal
-      
-      // Reorganize TODO column
-      todoElements.forEach((el, index) => {
-        if (el.type === 'sticky') {
-          el.x = 100; // Centered in new column
-          el.y = startY + (index * spacing);
-          el.color = 'yellow';
-        }
-      });
-      
-      // Reorganize IN PROGRESS column
-      inProgressElements.forEach((el, index) => {
-        if (el.type === 'sticky') {
-          el.x = 480; // Centered in new column
-          el.y = startY + (index * spacing);
-          el.color = 'orange';
-        }
-      });
-      
-      // Reorganize DONE column
-      doneElements.forEach((el, index) => {
-        if (el.type === 'sticky') {
-          el.x = 860; // Centered in new column
-          el.y = startY + (index * spacing);
-          el.color = 'green';
-        }
-      });
-      
+      const organizedIds = new Set(columnElements.flat().map(el => el.id));
+      const otherElements = prev.elements.filter(el => !organizedIds.has(el.id));
+
+      // Reorganize each column with proper spacing (copies keep history snapshots intact)
+      const organized = columnElements.flatMap((elements, columnIndex) =>
+        elements.map((el, index) => ({
+          ...el,
+          x: getColumnBoundsByIndex(columnIndex).cardX,
+          y: COLUMN_LAYOUT.firstCardY + index * COLUMN_LAYOUT.cardSpacingY,
+          color: columns[columnIndex].color,
+          columnId: columns[columnIndex].id
+        }) as WhiteboardElement)
+      );
+
       return {
         ...prev,
-        elements: [...todoElements, ...inProgressElements, ...doneElements, ...otherElements]
+        elements: [...organized, ...otherElements]
       };
-    });
+    }, 'Auto-organize board');
   };
 
   const addElement = (type: string) => {
     let newElement: WhiteboardElement;
     
+    const columns = getColumns(data);
+
     // Helper function to get next available Y position in a column
-    const getNextYPosition = (columnX: number) => {
-      // Define column boundaries more precisely (updated for new layout)
-      let columnStart, columnEnd;
-      if (columnX <= 210) { // TODO column
-        columnStart = 40;
-        columnEnd = 380;
-      } else if (columnX >= 420 && columnX <= 580) { // IN PROGRESS column
-        columnStart = 420;
-        columnEnd = 760;
-      } else { // DONE column
-        columnStart = 800;
-        columnEnd = 1140;
-      }
-      
+    const getNextYPosition = (columnId: string) => {
       // Get all elements in this column, sorted by Y position
       const elementsInColumn = data.elements.filter(el => 
-        el.x >= columnStart && el.x <= columnEnd && el.y >= 120 && el.type === 'sticky'
+        getElementColumnId(el, columns) === columnId
       ).sort((a, b) => a.y - b.y);
       
       // Start from base position (after column header)
-      let nextY = 200; // Updated for new header height
+      let nextY = COLUMN_LAYOUT.firstCardY;
       
       // Find the next available position
       for (const element of elementsInColumn) {
         if (element.y >= nextY) {
-          nextY = Math.max(nextY, element.y + 100); // Increased spacing
+          nextY = Math.max(nextY, element.y + COLUMN_LAYOUT.cardSpacingY);
         }
       }
       
       return nextY;
     };
     
-    // Determine Kanban column based on type or default to TODO (updated positions)
-    const getKanbanPosition = (status: 'todo' | 'inprogress' | 'done' = 'todo') => {
-      switch (status) {
-        case 'todo':
-          return { x: 100, color: 'yellow' }; // Centered in TODO column
-        case 'inprogress':
-          return { x: 480, color: 'orange' }; // Centered in IN PROGRESS column
-        case 'done':
-          return { x: 860, color: 'green' }; // Centered in DONE column
-        default:
-          return { x: 100, color: 'yellow' };
-      }
-    };
-    
     if (type === 'sticky') {
-      // Default new sticky notes to TODO column
-      const position = getKanbanPosition('todo');
+      // Default new sticky notes to the first column
+      const column = columns[0];
       newElement = {
         id: `${type}-${Date.now()}`,
-        x: position.x,
-        y: getNextYPosition(position.x),
+        x: getColumnBoundsByIndex(0).cardX,
+        y: getNextYPosition(column.id),
         type: 'sticky',
         text: 'New task',
-        color: position.color
+        color: column.color,
+        columnId: column.id
       };
     } else if (type.startsWith('flow-')) {
       newElement = {
@@ -264,36 +343,28 @@ export default function Whiteboard() {
       return; // Unknown type, don't add anything
     }
 
-    setData(prev => ({
+    history.applyChange(prev => ({
       ...prev,
       elements: [...prev.elements, newElement]
-    }));
+    }), `Add ${newElement.type}`);
     
     // Log the current state for debugging
     console.log("📋 Current Kanban Board JSON Structure:");
     console.log("=====================================");
     setTimeout(() => {
       setData(currentData => {
-        // Organize elements by column for display (updated boundaries)
-        const todoItems = currentData.elements.filter(el => 
-          el.type === 'sticky' && el.x >= 40 && el.x <= 380
-        ).sort((a, b) => a.y - b.y);
-        
-        const inProgressItems = currentData.elements.filter(el => 
-          el.type === 'sticky' && el.x >= 420 && el.x <= 760
-        ).sort((a, b) => a.y - b.y);
-        
-        const doneItems = currentData.elements.filter(el => 
-          el.type === 'sticky' && el.x >= 800 && el.x <= 1140
-        ).sort((a, b) => a.y - b.y);
+        // Organize elements by column for display
+        const currentColumns = getColumns(currentData);
+        currentColumns.forEach(column => {
+          const items = currentData.elements.filter(el => 
+            getElementColumnId(el, currentColumns) === column.id
+          ).sort((a, b) => a.y - b.y);
+          console.log(`📌 ${column.title.toUpperCase()} Column:`, items.map(item => ({ id: item.id, text: item.type === 'sticky' ? item.text : '', x: item.x, y: item.y })));
+        });
         
         const otherItems = currentData.elements.filter(el => 
-          el.type !== 'sticky' || (el.x < 40 || (el.x > 380 && el.x < 420) || (el.x > 760 && el.x < 800) || el.x > 1140)
+          !getElementColumnId(el, currentColumns)
         );
-        
-        console.log("🟡 TODO Column:", todoItems.map(item => ({ id: item.id, text: item.type === 'sticky' ? item.text : '', x: item.x, y: item.y })));
-        console.log("🟠 IN PROGRESS Column:", inProgressItems.map(item => ({ id: item.id, text: item.type === 'sticky' ? item.text : '', x: item.x, y: item.y })));
-        console.log("🟢 DONE Column:", doneItems.map(item => ({ id: item.id, text: item.type === 'sticky' ? item.text : '', x: item.x, y: item.y })));
         console.log("⚪ Other Elements:", otherItems.map(item => ({ id: item.id, type: item.type, x: item.x, y: item.y })));
         console.log("=====================================");
         
@@ -304,24 +375,63 @@ export default function Whiteboard() {
 
   const handleDragStart = (id: string) => {
     setDraggedElement(id);
+    presence.setSelectedId(id);
+    dragStartDataRef.current = dataRef.current;
   };
 
   const handleDrag = (id: string, x: number, y: number) => {
-    updateElement(id, { x, y });
+    patchElement(id, { x, y });
   };
 
+  // Dropping a task onto a column changes its status; dropping it outside every
+  // column snaps it back. The whole drag gesture is a single undo step.
   const handleDragEnd = () => {
+    const id = draggedElement;
     setDraggedElement(null);
+    const startData = dragStartDataRef.current;
+    dragStartDataRef.current = null;
+    if (!startData || startData === dataRef.current) return;
+
+    let label = 'Move element';
+    const dropped = dataRef.current.elements.find(el => el.id === id);
+    if (dropped?.type === 'sticky') {
+      const columns = getColumns(dataRef.current);
+      const target = getDropZoneColumn(columns, dropped.x, dropped.y);
+      if (target) {
+        const statusChanged = target.id !== getElementColumnId(dropped, columns);
+        patchElement(dropped.id, {
+          columnId: target.id,
+          x: getColumnBounds(columns, target.id)!.cardX,
+          color: statusChanged ? target.color : dropped.color
+        });
+        if (statusChanged) label = `Move task to ${target.title}`;
+      } else if (dropped.columnId) {
+        const bounds = getColumnBounds(columns, dropped.columnId);
+        if (bounds) patchElement(dropped.id, { x: bounds.cardX });
+      }
+    }
+
+    history.recordSnapshot(startData, label);
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.target === containerRef.current) {
+      presence.setSelectedId(null);
       setIsPanning(true);
       setLastPanPoint({ x: e.clientX, y: e.clientY });
     }
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    // Share the pointer in board coordinates, so it lands right at any pan and zoom
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (rect) {
+      presence.setCursor({
+        x: (e.clientX - rect.left - pan.x) / zoom,
+        y: (e.clientY - rect.top - pan.y) / zoom
+      });
+    }
+
     if (isPanning) {
       const deltaX = e.clientX - lastPanPoint.x;
       const deltaY = e.clientY - lastPanPoint.y;
@@ -337,6 +447,10 @@ export default function Whiteboard() {
     setIsPanning(false);
   };
 
+  const handleMouseLeave = () => {
+    presence.setCursor(null);
+  };
+
   const handleWheel = (e: React.WheelEvent) => {
     // Remove preventDefault to avoid passive event listener warning
     const delta = e.deltaY * -0.01;
@@ -344,6 +458,16 @@ export default function Whiteboard() {
     setZoom(newZoom);
   };
 
+  const columns = getColumns(data);
+  const columnCounts = Object.fromEntries(
+    columns.map(column => [
+      column.id,
+      data.elements.filter(el => getElementColumnId(el, columns) === column.id).length
+    ])
+  );
+
+  const blockerLinks = getBlockerLinks(data);
+
   const renderElement = (element: WhiteboardElement) => {
     switch (element.type) {
       case 'sticky':
@@ -355,6 +479,24 @@ export default function Whiteboard() {
             onDragStart={handleDragStart}
             onDrag={handleDrag}
             onDragEnd={handleDragEnd}
+            presence={presence.elementPresence.get(element.id)}
+            onEditingChange={handleEditingChange}
+            blockers={blockerLinks
+              .filter(link => link.blockedId === element.id)
+              .map(link => {
+                const blocker = data.elements.find(el => el.id === link.blockerId);
+                return {
+                  id: link.blockerId,
+                  title: blocker?.type === 'sticky' ? blocker.text.split('\n')[0] : link.blockerId,
+                  source: link.source,
+                  resolved: link.resolved
+                };
+              })}
+            onStartBlockerLink={setBlockerLinkFrom}
+            onRemoveBlockerLink={(id, blockerId) =>
+              history.applyChange(prev => unlinkBlocker(prev, id, blockerId), 'Remove blocker link')
+            }
+            onPickBlocker={blockerLinkFrom && blockerLinkFrom !== element.id ? pickBlocker : undefined}
           />
         );
       case 'flow-node':
@@ -366,6 +508,23 @@ export default function Whiteboard() {
             onDragStart={handleDragStart}
             onDrag={handleDrag}
             onDragEnd={handleDragEnd}
+            presence={presence.elementPresence.get(element.id)}
+            onEditingChange={handleEditingChange}
+          />
+        );
+      case 'action-item':
+        return (
+          <ActionItem
+            key={element.id}
+            element={element}
+            onUpdate={updateElement}
+            onDragStart={handleDragStart}
+            onDrag={handleDrag}
+            onDragEnd={handleDragEnd}
+            onCreateIssue={createIssueFromActionItem}
+            trackerLabel={TRACKER_LABELS[data.syncConfig?.tracker || 'jira']}
+            presence={presence.elementPresence.get(element.id)}
+            onEditingChange={handleEditingChange}
           />
         );
       case 'mermaid':
@@ -415,14 +574,79 @@ export default function Whiteboard() {
       }
     });
 
+    // Blocker links between notes, from the blocker to the note it blocks
+    blockerLinks.forEach(link => {
+      const from = data.elements.find(el => el.id === link.blockerId);
+      const to = data.elements.find(el => el.id === link.blockedId);
+      if (from && to) {
+        connections.push(
+          <ConnectionLine
+            key={`blocks-${link.blockerId}-${link.blockedId}`}
+            from={from}
+            to={to}
+            variant={link.resolved ? 'resolved-blocker' : 'blocker'}
+          />
+        );
+      }
+    });
+
     return connections;
   };
 
   return (
     <div className="h-screen w-screen bg-white overflow-hidden">
       {/* <Toolbar onAddElement={addElement} /> */}
-      <GeminiLiveControls />
+      <BoardLibrary
+        boards={boardLibrary.boards}
+        currentBoard={boardLibrary.currentBoard}
+        saveStatus={boardLibrary.saveStatus}
+        onCreate={boardLibrary.createBoard}
+        onRename={boardLibrary.renameBoard}
+        onDuplicate={boardLibrary.duplicateBoard}
+        onDelete={boardLibrary.deleteBoard}
+        onSwitch={boardLibrary.switchBoard}
+      />
+      <GeminiLiveControls
+        boardId={boardLibrary.currentBoard?.id}
+        syncConfig={data.syncConfig}
+        onSyncConfigChange={(syncConfig) => history.applyChange(prev => ({ ...prev, syncConfig }), 'Change sync settings')}
+      />
+      <ShareBoardControls
+        room={sharedBoard.room}
+        status={sharedBoard.status}
+        participantCount={sharedBoard.participantCount}
+        user={presence.user}
+        participants={presence.participants}
+        onRenameUser={(name) => presence.setUser({ ...presence.user, name })}
+        onShare={() => joinSharedBoard(createRoomId())}
+        onLeave={leaveSharedBoard}
+      />
+      <StandupTimer
+        standup={data.standup}
+        syncConfig={data.syncConfig}
+        onChange={(standup, label) => history.applyChange(prev => ({ ...prev, standup }), label)}
+      />
+      <HistoryControls
+        canUndo={history.canUndo}
+        canRedo={history.canRedo}
+        undoLabel={history.undoLabel}
+        redoLabel={history.redoLabel}
+        onUndo={history.undo}
+        onRedo={history.redo}
+      />
       
+      {blockerLinkFrom && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-2 bg-red-600 text-white text-sm rounded-lg shadow-lg">
+          Click the note that blocks this task
+          <button
+            onClick={() => setBlockerLinkFrom(null)}
+            className="px-2 py-0.5 bg-white/20 rounded hover:bg-white/30"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
       {/* Whiteboard is always visible now */}
       <div
         ref={containerRef}
@@ -431,6 +655,7 @@ export default function Whiteboard() {
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
         onWheel={handleWheel}
         style={{
           opacity: 1, // Always fully visible
@@ -452,88 +677,36 @@ export default function Whiteboard() {
           }} />
           
           {/* Kanban Columns Background - Monochrome */}
-          <div className="absolute inset-0">
-            {/* To Do Column - Enhanced */}
-            <div 
-              className="absolute bg-white border-2 border-gray-300 rounded-2xl shadow-md"
-              style={{
-                left: '40px',
-                top: '120px', 
-                width: '340px',
-                height: '680px',
-                boxShadow: '0 10px 40px rgba(0,0,0,0.05)'
-              }}
-            >
-              <div className="absolute top-6 left-6 right-6">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center gap-3">
-                    <div className="w-3 h-3 bg-black rounded-full"></div>
-                    <h2 className="text-gray-900 text-xl font-bold tracking-wide">TO DO</h2>
-                  </div>
-                  <span className="text-xs bg-gray-200 text-gray-900 px-3 py-1.5 rounded-full font-semibold shadow-sm">
-                    {data.elements.filter(el => el.x >= 40 && el.x <= 380 && el.y >= 120).length}
-                  </span>
-                </div>
-                <div className="h-px bg-gray-300"></div>
-              </div>
-            </div>
-            
-            {/* In Progress Column - Enhanced */}
-            <div 
-              className="absolute bg-white border-2 border-gray-300 rounded-2xl shadow-md"
-              style={{
-                left: '420px',
-                top: '120px',
-                width: '340px', 
-                height: '680px',
-                boxShadow: '0 10px 40px rgba(0,0,0,0.05)'
-              }}
-            >
-              <div className="absolute top-6 left-6 right-6">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center gap-3">
-                    <div className="w-3 h-3 bg-black rounded-full"></div>
-                    <h2 className="text-gray-900 text-xl font-bold tracking-wide">IN PROGRESS</h2>
-                  </div>
-                  <span className="text-xs bg-gray-200 text-gray-900 px-3 py-1.5 rounded-full font-semibold shadow-sm">
-                    {data.elements.filter(el => el.x >= 420 && el.x <= 760 && el.y >= 120).length}
-                  </span>
-                </div>
-                <div className="h-px bg-gray-300"></div>
-              </div>
-            </div>
-            
-            {/* Done Column - Enhanced */}
-            <div 
-              className="absolute bg-white border-2 border-gray-300 rounded-2xl shadow-md"
-              style={{
-                left: '800px',
-                top: '120px',
-                width: '340px',
-                height: '680px',
-                boxShadow: '0 10px 40px rgba(0,0,0,0.05)'
-              }}
-            >
-              <div className="absolute top-6 left-6 right-6">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center gap-3">
-                    <div className="w-3 h-3 bg-black rounded-full"></div>
-                    <h2 className="text-gray-900 text-xl font-bold tracking-wide">DONE</h2>
-                  </div>
-                  <span className="text-xs bg-gray-200 text-gray-900 px-3 py-1.5 rounded-full font-semibold shadow-sm">
-                    {data.elements.filter(el => el.x >= 800 && el.x <= 1140 && el.y >= 120).length}
-                  </span>
-                </div>
-                <div className="h-px bg-gray-300"></div>
-              </div>
-            </div>
-          </div>
+          <KanbanColumns columns={columns} counts={columnCounts} />
           
           {/* Connections */}
           {renderConnections()}
           
           {/* Elements */}
           {data.elements.map(renderElement)}
+
+          {/* Empty slot that adds an action item by hand */}
+          {(() => {
+            const slot = getNextActionItemPosition(data);
+            return (
+              <button
+                onClick={addActionItem}
+                className="absolute flex items-center justify-center gap-2 border-2 border-dashed border-gray-300 rounded-xl text-sm text-gray-500 hover:border-gray-400 hover:text-gray-700 transition-colors"
+                style={{
+                  left: `${slot.x}px`,
+                  top: `${slot.y}px`,
+                  width: `${COLUMN_LAYOUT.actionItemWidth}px`,
+                  height: `${COLUMN_LAYOUT.actionItemHeight}px`
+                }}
+              >
+                <Plus size={16} />
+                Add action item
+              </button>
+            );
+          })()}
+
+          {/* Teammates' pointers */}
+          <RemoteCursors participants={presence.participants} zoom={zoom} />
         </div>
       </div>
 
@@ -583,7 +756,18 @@ export default function Whiteboard() {
         </div>
       </div> */}
 
-      <JsonEditor data={data} onDataChange={setData} />
+      <ColumnSettings
+        columns={columns}
+        onColumnsChange={(newColumns) => history.applyChange(prev => ({
+          ...prev,
+          columns: newColumns,
+          elements: layoutElementsForColumns(prev.elements, getColumns(prev), newColumns)
+        }), 'Change board columns')}
+      />
+      <JsonEditor
+        data={data}
+        onDataChange={(newData) => history.applyChange(newData, 'Edit JSON', { coalesceKey: 'json-editor' })}
+      />
       <NotificationSystem notifications={notifications} onRemove={removeNotification} />
     </div>
   );
@@ -1,3 +1,5 @@
+import { MCPServerConfig } from "../types/mcp";
+
 // MCP Atlassian Client Configuration
 export interface MCPConfig {
   jiraUrl: string;
@@ -92,3 +94,58 @@ export function getMCPSetupInstructions(): string {
 Current status: ${isMCPConfigured() ? "✅ Configured" : "❌ Not configured"}
   `;
 }
+
+// Generic MCP servers whose tools are offered to Gemini Live
+
+// The local stdio bridge in mcp-bridge/
+export const MCP_BRIDGE_URL =
+  (typeof import.meta !== 'undefined' && import.meta.env?.VITE_MCP_BRIDGE_URL) ||
+  "http://localhost:3004";
+
+const MCP_SERVERS_KEY = "mcp-servers";
+
+export function loadMCPServers(): MCPServerConfig[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MCP_SERVERS_KEY) || "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveMCPServers(servers: MCPServerConfig[]): void {
+  localStorage.setItem(MCP_SERVERS_KEY, JSON.stringify(servers));
+}
+
+// Helper function to find the endpoint a configured server is reached at
+export function getMCPServerUrl(server: MCPServerConfig): string {
+  if (server.transport === "stdio") {
+    return `${MCP_BRIDGE_URL}/servers/${encodeURIComponent(server.bridgeServer || server.name)}/mcp`;
+  }
+  if (!server.url) {
+    throw new Error(`MCP server "${server.name}" has no URL`);
+  }
+  return server.url;
+}
+
+// The whiteboard's own MCP server in whiteboard-mcp-server/, which the open
+// board links to so other agents can read and edit it
+export const WHITEBOARD_MCP_URL =
+  (typeof import.meta !== 'undefined' && import.meta.env?.VITE_WHITEBOARD_MCP_URL) ||
+  "http://localhost:3005";
+
+// Matches WHITEBOARD_MCP_TOKEN on the server, if it requires one
+export const WHITEBOARD_MCP_TOKEN: string | undefined =
+  (typeof import.meta !== 'undefined' && import.meta.env?.VITE_WHITEBOARD_MCP_TOKEN) || undefined;
+
+const WHITEBOARD_MCP_ENABLED_KEY = "whiteboard-mcp-enabled";
+export const WHITEBOARD_MCP_CHANGE_EVENT = "whiteboard-mcp-change";
+
+export function isWhiteboardMCPEnabled(): boolean {
+  return localStorage.getItem(WHITEBOARD_MCP_ENABLED_KEY) === "true";
+}
+
+export function setWhiteboardMCPEnabled(enabled: boolean): void {
+  localStorage.setItem(WHITEBOARD_MCP_ENABLED_KEY, String(enabled));
+  window.dispatchEvent(new Event(WHITEBOARD_MCP_CHANGE_EVENT));
+}
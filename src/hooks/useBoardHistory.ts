@@ -0,0 +1,151 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { WhiteboardData } from "../types/whiteboard";
+import { BoardHistory, RecordOptions } from "../lib/board-history";
+import { mergeBoardChange } from "../lib/board-merge";
+
+export type BoardUpdate =
+  | WhiteboardData
+  | ((prev: WhiteboardData) => WhiteboardData);
+
+export interface UseBoardHistoryResult {
+  applyChange: (
+    update: BoardUpdate,
+    label: string,
+    options?: RecordOptions
+  ) => void;
+  recordSnapshot: (
+    previous: WhiteboardData,
+    label: string,
+    options?: RecordOptions
+  ) => void;
+  undo: () => void;
+  redo: () => void;
+  reset: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+// Wraps board state updates so every change can be undone with Ctrl+Z and
+// redone with Ctrl+Shift+Z (or Ctrl+Y). Undo reverts only what the change
+// itself did, keeping later edits from collaborators and background syncs.
+export function useBoardHistory(
+  data: WhiteboardData,
+  setData: (update: BoardUpdate) => void
+): UseBoardHistoryResult {
+  const historyRef = useRef(new BoardHistory());
+  const dataRef = useRef(data);
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
+
+  const bump = useCallback(() => setVersion((v) => v + 1), []);
+
+  // Note the board a recorded change produced, once queued updates have run
+  const settle = useCallback(() => {
+    setData((current) => {
+      historyRef.current.settle(current);
+      return current;
+    });
+  }, [setData]);
+
+  // The "before" state is taken inside the updater, so changes made back to
+  // back before a render (e.g. several tool calls in one message) each record
+  // the board the previous one produced. Strict mode may run the updater
+  // twice; only the first run records.
+  const applyChange = useCallback(
+    (update: BoardUpdate, label: string, options?: RecordOptions) => {
+      let recorded = false;
+      setData((prev) => {
+        if (!recorded) {
+          recorded = true;
+          historyRef.current.record(prev, label, options);
+        }
+        return typeof update === "function" ? update(prev) : update;
+      });
+      settle();
+      bump();
+    },
+    [setData, settle, bump]
+  );
+
+  // For changes applied incrementally (e.g. dragging), record the state from
+  // before the gesture once it is finished
+  const recordSnapshot = useCallback(
+    (previous: WhiteboardData, label: string, options?: RecordOptions) => {
+      historyRef.current.record(previous, label, options);
+      settle();
+      bump();
+    },
+    [settle, bump]
+  );
+
+  const undo = useCallback(() => {
+    const entry = historyRef.current.undo(dataRef.current);
+    if (entry) {
+      console.log(`↩️ Undo: ${entry.label}`);
+      setData((current) => mergeBoardChange(entry.after, entry.data, current));
+      bump();
+    }
+  }, [setData, bump]);
+
+  const redo = useCallback(() => {
+    const entry = historyRef.current.redo(dataRef.current);
+    if (entry) {
+      console.log(`↪️ Redo: ${entry.label}`);
+      setData((current) => mergeBoardChange(entry.data, entry.after, current));
+      bump();
+    }
+  }, [setData, bump]);
+
+  const reset = useCallback(() => {
+    historyRef.current.clear();
+    bump();
+  }, [bump]);
+
+  // Keyboard shortcuts - leave text fields to their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const history = historyRef.current;
+
+  return {
+    applyChange,
+    recordSnapshot,
+    undo,
+    redo,
+    reset,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    undoLabel: history.undoLabel,
+    redoLabel: history.redoLabel,
+  };
+}
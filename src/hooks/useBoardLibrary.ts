@@ -0,0 +1,295 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { BoardMeta, WhiteboardData } from "../types/whiteboard";
+import {
+  createBoardId,
+  deleteBoard as deleteStoredBoard,
+  listBoards,
+  loadBoard,
+  saveBoard,
+} from "../lib/board-storage";
+
+const CURRENT_BOARD_KEY = "whiteboard-current-board";
+const AUTOSAVE_DELAY_MS = 500;
+
+export type BoardSaveStatus = "idle" | "saving" | "saved" | "error";
+
+export interface UseBoardLibraryResult {
+  boards: BoardMeta[];
+  currentBoard: BoardMeta | null;
+  isLoaded: boolean;
+  saveStatus: BoardSaveStatus;
+  createBoard: (name?: string) => Promise<void>;
+  renameBoard: (id: string, name: string) => Promise<void>;
+  duplicateBoard: (id: string) => Promise<void>;
+  deleteBoard: (id: string) => Promise<void>;
+  switchBoard: (id: string) => Promise<void>;
+}
+
+const emptyBoardData = (): WhiteboardData => ({ elements: [] });
+
+// Keeps the current WhiteboardData autosaved to IndexedDB and manages the
+// library of named boards the user can switch between.
+export function useBoardLibrary(
+  data: WhiteboardData,
+  setData: (data: WhiteboardData) => void,
+  onBoardLoaded?: (board: BoardMeta) => void
+): UseBoardLibraryResult {
+  const [boards, setBoards] = useState<BoardMeta[]>([]);
+  const [currentBoard, setCurrentBoard] = useState<BoardMeta | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<BoardSaveStatus>("idle");
+
+  const dataRef = useRef(data);
+  const currentBoardRef = useRef<BoardMeta | null>(null);
+  const skipNextSaveRef = useRef(false);
+  const onBoardLoadedRef = useRef(onBoardLoaded);
+  const initStartedRef = useRef(false);
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
+
+  useEffect(() => {
+    onBoardLoadedRef.current = onBoardLoaded;
+  }, [onBoardLoaded]);
+
+  const refreshBoards = useCallback(async () => {
+    setBoards(await listBoards());
+  }, []);
+
+  // Replace the canvas with a stored board without echoing it back as a save
+  const openBoard = useCallback(
+    (meta: BoardMeta, boardData: WhiteboardData) => {
+      skipNextSaveRef.current = true;
+      currentBoardRef.current = meta;
+      setCurrentBoard(meta);
+      localStorage.setItem(CURRENT_BOARD_KEY, meta.id);
+      setData(boardData);
+      onBoardLoadedRef.current?.(meta);
+    },
+    [setData]
+  );
+
+  // Write the current canvas to the active board immediately
+  const flushSave = useCallback(async () => {
+    const meta = currentBoardRef.current;
+    if (!meta) return;
+
+    const updated: BoardMeta = { ...meta, updatedAt: Date.now() };
+    setSaveStatus("saving");
+    try {
+      await saveBoard({ ...updated, data: dataRef.current });
+      currentBoardRef.current = updated;
+      setCurrentBoard(updated);
+      setSaveStatus("saved");
+    } catch (error) {
+      console.error("❌ Failed to save board:", error);
+      setSaveStatus("error");
+    }
+  }, []);
+
+  // Load the last opened board (or create the first one) on mount. StrictMode
+  // runs this twice in development, which on an empty database would create
+  // two first boards, so only the first run does the work.
+  useEffect(() => {
+    if (initStartedRef.current) return;
+    initStartedRef.current = true;
+
+    const initializeLibrary = async () => {
+      try {
+        const storedBoards = await listBoards();
+        const lastBoardId = localStorage.getItem(CURRENT_BOARD_KEY);
+        const boardToOpen =
+          storedBoards.find((board) => board.id === lastBoardId) ||
+          storedBoards[0];
+
+        if (boardToOpen) {
+          const saved = await loadBoard(boardToOpen.id);
+          openBoard(boardToOpen, saved?.data || emptyBoardData());
+          console.log(`📂 Restored board "${boardToOpen.name}"`);
+        } else {
+          const now = Date.now();
+          const meta: BoardMeta = {
+            id: createBoardId(),
+            name: "My Board",
+            createdAt: now,
+            updatedAt: now,
+          };
+          await saveBoard({ ...meta, data: dataRef.current });
+          currentBoardRef.current = meta;
+          setCurrentBoard(meta);
+          localStorage.setItem(CURRENT_BOARD_KEY, meta.id);
+          console.log("📂 Created first board in library");
+        }
+
+        setBoards(await listBoards());
+      } catch (error) {
+        console.error("❌ Failed to initialize board library:", error);
+        setSaveStatus("error");
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    initializeLibrary();
+  }, [openBoard]);
+
+  // Debounced autosave whenever the board content changes
+  useEffect(() => {
+    if (!isLoaded || !currentBoardRef.current) return;
+
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      flushSave()
+        .then(refreshBoards)
+        .catch((error) => {
+          console.error("❌ Failed to refresh board library:", error);
+          setSaveStatus("error");
+        });
+    }, AUTOSAVE_DELAY_MS);
+    autosaveTimerRef.current = timer;
+
+    return () => clearTimeout(timer);
+  }, [data, isLoaded, flushSave, refreshBoards]);
+
+  const switchBoard = useCallback(
+    async (id: string) => {
+      if (currentBoardRef.current?.id === id) return;
+
+      await flushSave();
+      const saved = await loadBoard(id);
+      if (!saved) {
+        console.warn("⚠️ Board not found:", id);
+        return;
+      }
+
+      const { data: boardData, ...meta } = saved;
+      openBoard(meta, boardData);
+      await refreshBoards();
+    },
+    [flushSave, openBoard, refreshBoards]
+  );
+
+  const createBoard = useCallback(
+    async (name?: string) => {
+      await flushSave();
+
+      const now = Date.now();
+      const meta: BoardMeta = {
+        id: createBoardId(),
+        name: name?.trim() || `Board ${boards.length + 1}`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const boardData = emptyBoardData();
+      await saveBoard({ ...meta, data: boardData });
+
+      openBoard(meta, boardData);
+      await refreshBoards();
+    },
+    [boards.length, flushSave, openBoard, refreshBoards]
+  );
+
+  const renameBoard = useCallback(
+    async (id: string, name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+
+      const saved = await loadBoard(id);
+      if (!saved) return;
+
+      // Keep the live canvas for the active board, stored data for the rest
+      const isCurrent = currentBoardRef.current?.id === id;
+      const renamed = {
+        ...saved,
+        name: trimmed,
+        updatedAt: Date.now(),
+        data: isCurrent ? dataRef.current : saved.data,
+      };
+      await saveBoard(renamed);
+
+      if (isCurrent) {
+        const meta: BoardMeta = {
+          id: renamed.id,
+          name: renamed.name,
+          createdAt: renamed.createdAt,
+          updatedAt: renamed.updatedAt,
+        };
+        currentBoardRef.current = meta;
+        setCurrentBoard(meta);
+      }
+      await refreshBoards();
+    },
+    [refreshBoards]
+  );
+
+  const duplicateBoard = useCallback(
+    async (id: string) => {
+      const isCurrent = currentBoardRef.current?.id === id;
+      const saved = await loadBoard(id);
+      if (!saved) return;
+
+      const now = Date.now();
+      await saveBoard({
+        id: createBoardId(),
+        name: `${saved.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+        data: isCurrent ? dataRef.current : saved.data,
+      });
+      await refreshBoards();
+    },
+    [refreshBoards]
+  );
+
+  const deleteBoard = useCallback(
+    async (id: string) => {
+      // Drop a pending autosave so it can't write the deleted board back
+      const isCurrent = currentBoardRef.current?.id === id;
+      if (isCurrent) {
+        clearTimeout(autosaveTimerRef.current);
+        currentBoardRef.current = null;
+      }
+
+      await deleteStoredBoard(id);
+      const remaining = await listBoards();
+
+      if (isCurrent) {
+        if (remaining.length > 0) {
+          const saved = await loadBoard(remaining[0].id);
+          openBoard(remaining[0], saved?.data || emptyBoardData());
+        } else {
+          const now = Date.now();
+          const meta: BoardMeta = {
+            id: createBoardId(),
+            name: "My Board",
+            createdAt: now,
+            updatedAt: now,
+          };
+          await saveBoard({ ...meta, data: emptyBoardData() });
+          openBoard(meta, emptyBoardData());
+        }
+      }
+
+      await refreshBoards();
+    },
+    [openBoard, refreshBoards]
+  );
+
+  return {
+    boards,
+    currentBoard,
+    isLoaded,
+    saveStatus,
+    createBoard,
+    renameBoard,
+    duplicateBoard,
+    deleteBoard,
+    switchBoard,
+  };
+}
@@ -1,16 +1,39 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { LiveConnectConfig } from "@google/genai";
-import { GeminiLiveClient, LiveClientOptions } from "../lib/gemini-live-client";
+import {
+  FunctionCall,
+  LiveConnectConfig,
+  LiveServerToolCallCancellation,
+} from "@google/genai";
+import {
+  GeminiLiveClient,
+  LiveClientOptions,
+  ReconnectInfo,
+} from "../lib/gemini-live-client";
 import { AudioRecorder } from "../lib/audio-recorder";
 import { AudioStreamer } from "../lib/audio-streamer";
-import { GeminiLiveState } from "../types/gemini-live";
-import { WhiteboardData } from "../types/whiteboard";
-import { whiteboardTools, processToolCall } from "../tools/whiteboard-tools";
 import {
-  jiraWhiteboardTools,
-  initializeJiraTools,
+  GeminiLiveState,
+  TranscriptSpeaker,
+  TranscriptTurn,
+} from "../types/gemini-live";
+import { MeetingRecord } from "../types/meeting";
+import { appendTranscriptChunk, closeTranscriptTurns } from "../lib/transcript";
+import { getOverrunNotice } from "../lib/standup";
+import { BoardSyncConfig, WhiteboardData } from "../types/whiteboard";
+import {
+  whiteboardTools,
+  buildWhiteboardTools,
+  processToolCall,
+} from "../tools/whiteboard-tools";
+import { getColumns } from "../lib/kanban-columns";
+import { mcpHost } from "../lib/mcp-host";
+import { loadMCPServers } from "../config/mcp-config";
+import { createIssueTracker, resolveSyncConfig } from "../lib/trackers";
+import {
+  trackerWhiteboardTools,
+  initializeTrackerTools,
   getTeamMembers,
-} from "../tools/jira-whiteboard-tools";
+} from "../tools/tracker-whiteboard-tools";
 
 export interface UseGeminiLiveResult {
   state: GeminiLiveState;
@@ -21,7 +44,16 @@ export interface UseGeminiLiveResult {
   setConfig: (config: LiveConnectConfig) => void;
   setModel: (model: string) => void;
   volume: number;
-  updateSystemInstructionsWithJiraData: () => Promise<boolean>;
+  // Timestamped turns of the user and Spark, from audio transcription
+  transcript: TranscriptTurn[];
+  setTranscript: (turns: TranscriptTurn[]) => void;
+  // The meeting minutes are taken of: starts on connect, ends when its
+  // minutes are written
+  meeting: MeetingRecord | null;
+  setMeeting: (meeting: MeetingRecord | null) => void;
+  updateSystemInstructionsWithJiraData: (
+    syncConfig?: BoardSyncConfig
+  ) => Promise<boolean>;
 }
 
 export function useGeminiLive(
@@ -31,6 +63,13 @@ export function useGeminiLive(
   const clientRef = useRef<GeminiLiveClient | null>(null);
   const audioRecorderRef = useRef<AudioRecorder | null>(null);
   const audioStreamerRef = useRef<AudioStreamer | null>(null);
+  // Tool calls that haven't answered yet, so a cancellation can abort them
+  const inFlightCallsRef = useRef(new Map<string, AbortController>());
+  // Board changes made by calls in the current turn, so a late cancellation
+  // can take them back
+  const appliedCallsRef = useRef(
+    new Map<string, { before: WhiteboardData; after: WhiteboardData; label: string }>()
+  );
 
   const [model, setModel] = useState<string>("models/gemini-2.0-flash-exp");
   const [config, setConfig] = useState<LiveConnectConfig>({
@@ -40,14 +79,14 @@ export function useGeminiLive(
           text: `🚨 MANDATORY TOOL RESPONSE PROCESSING 🚨
 
 ABSOLUTE RULES - NEVER BREAK THESE:
-1. When you call sync_jira_board or get_team_workload, the response contains REAL_TEAM_MEMBERS
+1. When you call sync_tracker_board or get_team_workload, the response contains REAL_TEAM_MEMBERS
 2. You MUST use those exact team member names in your very next sentence
 3. NEVER say "Alice, Bob, Charlie, Diana, Eve" - those people don't exist on this project
 4. When you receive forced user instructions about team members, follow them exactly
 5. Always acknowledge real team data immediately when received
 
 EXAMPLES OF CORRECT BEHAVIOR:
-- After sync_jira_board returns team: "I can see our team members: Deepak V, LA Jeeththenthar CSE, gnanasambandam.sr2022csbs"
+- After sync_tracker_board returns team: "I can see our team members: Deepak V, LA Jeeththenthar CSE, gnanasambandam.sr2022csbs"
 - After get_team_workload: "Perfect! Let me start our standup with Deepak V"
 
 🚨 CRITICAL: DO NOT USE HARDCODED NAMES! 
@@ -62,7 +101,7 @@ When you receive a user message saying "CRITICAL UPDATE: You just received tool
 4. Reference specific Jira tasks for each team member
 
 🚨 TOOL RESPONSE PROCESSING:
-When sync_jira_board or get_team_workload returns data:
+When sync_tracker_board or get_team_workload returns data:
 1. Look for REAL_TEAM_MEMBERS or DISCOVERED_TEAM_MEMBERS in the response
 2. Use those exact names in your very next sentence
 3. Say something like: "Perfect! I can see our team members: [actual names from response]"
@@ -76,7 +115,7 @@ You are 'Spark', an AI facilitator for daily standup meetings and project manage
 - ✅ **DONE Column** (x: 780-1100): Completed tasks (green sticky notes)
 
 **REAL-TIME DATA INTEGRATION:**
-- Use sync_jira_board FIRST to fetch current project data and team members
+- Use sync_tracker_board FIRST to fetch current project data and team members
 - Use get_team_workload to see current assignments and capacity
 - NEVER use hardcoded names - always get real team data from Jira
 
@@ -94,7 +133,7 @@ The team composition and tasks are dynamically loaded from Jira. No hardcoded te
 
 **STARTUP PROTOCOL (MANDATORY):**
 When ANY meeting or session starts:
-1. IMMEDIATELY use sync_jira_board to get real team and task data
+1. IMMEDIATELY use sync_tracker_board to get real team and task data
 2. IMMEDIATELY use get_team_workload to understand current assignments
 3. Extract team member names and their current work from the response
 4. Update your knowledge base with this real data for the meeting
@@ -103,7 +142,7 @@ When ANY meeting or session starts:
 **DYNAMIC STANDUP FACILITATION PROTOCOL:**
 
 STEP 1: **DATA ACQUISITION (MANDATORY FIRST)**
-- Call sync_jira_board to get current sprint data
+- Call sync_tracker_board to get current sprint data
 - Call get_team_workload to get team assignments
 - Parse the workload response to extract:
   * Real team member names (Object.keys(workload_data))
@@ -156,16 +195,17 @@ Only start a meeting when a user explicitly requests it by saying something like
 - "Begin our meeting"
 
 When a meeting is requested, respond: "Good morning team! Let me sync our current sprint data and see who's working on what..." then:
-1. Call sync_jira_board (to get current issues on board)
+1. Call sync_tracker_board (to get current issues on board)
 2. Call get_team_workload (to discover team and assignments)
 3. Parse the workload response to build meeting context
 4. Announce the discovered team members and their current work from the data
-5. Begin conducting standup for each person discovered in the workload
+5. Call next_speaker to start the timed speaker queue, and go through people in the order it gives
+6. Begin conducting standup for each person discovered in the workload
 
 **EXAMPLE DYNAMIC FLOW:**
 User: "Start our standup meeting"
 Response: "Good morning! Let me get our current sprint data..."
-[calls sync_jira_board and get_team_workload]
+[calls sync_tracker_board and get_team_workload]
 [parses workload response to discover team and tasks]
 "Perfect! I can see we have [X] team members with active work. Let's start with [FIRST_PERSON_FROM_DATA] - I see you're assigned to [THEIR_ACTUAL_ISSUES]. How did yesterday go?"
 
@@ -173,11 +213,17 @@ Response: "Good morning! Let me get our current sprint data..."
 When you first connect, simply say: "Hello! I'm ready to facilitate your standup meeting. Just say 'Start our standup meeting' when you're ready to begin."
 
 **TOOL USAGE:**
-- sync_jira_board: Get real team members and current sprint data
+- sync_tracker_board: Get real team members and current sprint data
 - get_team_workload: Check individual workloads and assignments
-- update_jira_from_standup: Update Jira based on meeting discussions
+- get_sprint_progress: Check the active sprint goal, days remaining and points completed
+- update_issue_from_standup: Write meeting updates back to the issue tracker (status changes, comments attributed to the speaker, assignee and priority) - read its spokenSummary back to the team
 - create_standup_summary: Document meeting outcomes
+- next_speaker: Run the standup queue - the first call starts standup mode with the roster and per-speaker timers, then call it whenever someone finishes their update
+- get_meeting_time: Check the speaker timer and the meeting timebox; when someone overruns, thank them politely at a pause, offer to take it offline and move on with next_speaker
+- add_action_item: Record a commitment made in the meeting with its owner, due date and the quote it came from; set createIssue when the team wants it tracked
 - get_whiteboard_info: Search existing board content
+- flag_blocker: Flag a task as blocked with the reason, and link the task that blocks it; clear it when the blocker is gone
+- get_blockers: Review every blocked task, including tracker "is blocked by" links
 - move_task: Move tasks between columns
 - update_whiteboard: Add or update board elements
 
@@ -214,7 +260,7 @@ ALWAYS use tools in real-time during conversations - never just describe what sh
 
 **Handling Blockers:**
 - **Voice:** "You're blocked on that? Let me highlight that on the board so we can track it."
-- **Board Action:** Move blocked tasks back to TODO or mark them clearly
+- **Board Action:** Use flag_blocker on the task with the reason in their words, and blockedBy when another task is what they're waiting on
 
 **Common Standup Phrases & Actions:**
 - "I finished the user authentication system" → move_task with taskText="user authentication system" targetColumn="done"
@@ -275,13 +321,13 @@ After all team members give updates:
 2. **Summarize what you heard:** "Great session team! Here's what I captured..."
 3. **Highlight completed work:** "We moved X items to DONE today!"
 4. **Note new work starting:** "Starting fresh on Y tasks in IN PROGRESS"
-5. **Call out any blockers:** "Blockers to follow up: [list them]"
+5. **Call out any blockers:** Call get_blockers, then "Blockers to follow up: [list them]"
 6. **Create meeting summary note:** Use update_whiteboard for permanent record
 7. **Set next meeting context:** "See you tomorrow for another productive standup!"
 
 **MEETING SUMMARY CREATION:**
 Use update_whiteboard to create a well-positioned summary sticky note BELOW the columns with:
-- Position: x=450, y=650 (centered below all columns)
+- Position: x=450, y=820 (centered below all columns)
 - Width: 600px to span across the bottom
 - Color: light blue for meeting summaries
 - Content:
@@ -297,8 +343,8 @@ Use update_whiteboard to create a well-positioned summary sticky note BELOW the
 - DONE column: celebrate accomplishments, archive old items weekly
 - Use consistent spacing: 90px between tasks vertically
 - Always organize tasks by priority within each column
-- Summary notes positioned BELOW columns at y=650+ to keep board clean
-- Main task area: y=100-600, Summary area: y=650+
+- Summary notes positioned BELOW columns at y=820+ to keep board clean
+- Main task area: y=120-800, Summary area: y=820+
 
 **PROACTIVE ORGANIZATION:**
 - Auto-organize tasks by priority and status
@@ -306,7 +352,7 @@ Use update_whiteboard to create a well-positioned summary sticky note BELOW the
 - Maintain clean visual hierarchy
 - Suggest when columns get too full
 - Keep the board as the single source of truth
-- Position meeting summaries below main task columns (y=650+)
+- Position meeting summaries below main task columns (y=820+)
 - Maintain clear separation between active tasks and meeting notes
 
 **MANDATORY MEETING STRUCTURE:**
@@ -321,6 +367,9 @@ ALWAYS use tools in real-time during conversations - never just describe what sh
     },
     // Initialize tools as empty, will be populated during initialization
     tools: [],
+    // Transcribe both sides of the conversation for the meeting transcript
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
   });
 
   // Add initialization effect for Jira tools
@@ -330,10 +379,13 @@ ALWAYS use tools in real-time during conversations - never just describe what sh
         console.log("🔄 Initializing Jira MCP tools...");
 
         // Initialize Jira tools first
-        await initializeJiraTools();
+        await initializeTrackerTools();
 
-        // Try to get real team members
-        const teamMembers = await getTeamMembers();
+        // Try to get real team members; the tools work without them
+        const teamMembers = await getTeamMembers().catch((error) => {
+          console.warn("⚠️ Could not load team members:", error);
+          return [];
+        });
         console.log("👥 Real team members from Jira:", teamMembers);
 
         // Update config with initialized tools
@@ -343,7 +395,7 @@ ALWAYS use tools in real-time during conversations - never just describe what sh
             {
               functionDeclarations: [
                 ...whiteboardTools,
-                ...jiraWhiteboardTools,
+                ...trackerWhiteboardTools,
               ],
             },
           ],
@@ -352,11 +404,11 @@ ALWAYS use tools in real-time during conversations - never just describe what sh
         console.log("✅ Jira initialization complete!");
         console.log(
           "🔧 Total tools available:",
-          [...whiteboardTools, ...jiraWhiteboardTools].length
+          [...whiteboardTools, ...trackerWhiteboardTools].length
         );
 
         // Log tool names for debugging
-        const allTools = [...whiteboardTools, ...jiraWhiteboardTools];
+        const allTools = [...whiteboardTools, ...trackerWhiteboardTools];
         console.log(
           "🛠️ Tool names:",
           allTools.map((t) => t.name)
@@ -382,43 +434,29 @@ ALWAYS use tools in real-time during conversations - never just describe what sh
   }, []); // Run once on mount
 
   // Function to dynamically update system instructions with real Jira data
-  const updateSystemInstructionsWithJiraData = useCallback(async () => {
+  const updateSystemInstructionsWithJiraData = useCallback(async (syncConfig?: BoardSyncConfig) => {
     try {
       console.log("🔄 Updating system instructions with real Jira data...");
 
-      // Fetch current team workload using search endpoint
-      const response = await fetch("http://localhost:3001/api/jira/search", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          jql: "project = SCRUM AND assignee IS NOT EMPTY ORDER BY updated DESC",
-          fields: ["summary", "status", "assignee", "priority", "updated"],
-          maxResults: 50,
-        }),
-      });
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const searchData = await response.json();
-      console.log("📊 Current Jira data:", searchData);
+      // Fetch current team workload within the board's sync scope
+      const tracker = createIssueTracker(resolveSyncConfig(syncConfig));
+      const { issues } = await tracker.searchIssues({ assignedOnly: true });
+      const searchData = { issues };
+      console.log(`📊 Current ${tracker.label} data:`, searchData);
 
       // Process issues to group by assignee
       const teamWorkload =
-        searchData.issues?.reduce((acc: any, issue: any) => {
-          const assigneeName =
-            issue.fields.assignee?.displayName || "Unassigned";
+        searchData.issues?.reduce((acc: any, issue) => {
+          const assigneeName = issue.assignee || "Unassigned";
           if (!acc[assigneeName]) {
             acc[assigneeName] = [];
           }
           acc[assigneeName].push({
             key: issue.key,
-            summary: issue.fields.summary,
-            status: issue.fields.status?.name,
-            priority: issue.fields.priority?.name,
-            updated: issue.fields.updated,
+            summary: issue.title,
+            status: issue.status,
+            priority: issue.priority,
+            updated: issue.updated,
           });
           return acc;
         }, {}) || {};
@@ -454,7 +492,7 @@ ALWAYS use tools in real-time during conversations - never just describe what sh
       const enhancedSystemInstructions = `
 🚨 CRITICAL: This is your LIVE TEAM ROSTER - Use ONLY these names:
 
-**ACTUAL TEAM MEMBERS (Live from Jira):**
+**ACTUAL TEAM MEMBERS (Live from ${tracker.label}):**
 ${teamRoster}
 
 🔇 **SPEAKING PROTOCOL:**
@@ -478,7 +516,7 @@ ${taskSummary}
 
 🎯 **IMMEDIATE ACTION PROTOCOL:**
 When a user starts speaking:
-1. IMMEDIATELY call sync_jira_board to get the latest data
+1. IMMEDIATELY call sync_tracker_board to get the latest data
 2. IMMEDIATELY call get_team_workload to get current assignments  
 3. Parse the workload response to understand who is working on what
 4. Use the response data to guide your conversation - NOT hardcoded names
@@ -543,7 +581,7 @@ You are Spark, an AI facilitator for real-time standup meetings. You have access
 - Extract individualWorkloads with currentWork arrays for each team member
 - Use the AI_INSTRUCTION field in responses to guide your behavior
 - If get_team_workload returns team members, use those exact names immediately
-- If sync_jira_board shows issues, reference those specific issue keys
+- If sync_tracker_board shows issues, reference those specific issue keys
 - Always incorporate tool response data into your conversation flow
 - Never ignore tool responses or use outdated information
 - ONLY reference task data from individualWorkloads.currentWork arrays
@@ -607,6 +645,10 @@ When you receive tool responses, immediately use that fresh data in your next st
   });
 
   const [volume, setVolume] = useState(0);
+  const [transcript, setTranscript] = useState<TranscriptTurn[]>([]);
+  const [meeting, setMeeting] = useState<MeetingRecord | null>(null);
+  // Who is mid-utterance, so chunks extend the live caption instead of replacing it
+  const openSpeakerRef = useRef<TranscriptSpeaker | null>(null);
 
   const setupEventListeners = useCallback(() => {
     if (!clientRef.current) return;
@@ -615,20 +657,64 @@ When you receive tool responses, immediately use that fresh data in your next st
       setState((prev) => ({ ...prev, isConnected: true, error: undefined }));
     };
 
-    const onClose = () => {
-      setState((prev) => ({ ...prev, isConnected: false, isRecording: false }));
+    // Only sent once reconnecting has given up
+    const onClose = (event: CloseEvent) => {
+      if (audioRecorderRef.current?.recording) {
+        audioRecorderRef.current.stop();
+      }
+      setState((prev) => ({
+        ...prev,
+        isConnected: false,
+        isRecording: false,
+        reconnect: undefined,
+        error: event.reason || prev.error,
+      }));
     };
 
+    // Errors are followed by a close, which reconnects
     const onError = (error: ErrorEvent) => {
       console.error("Gemini Live error:", error);
       setState((prev) => ({
         ...prev,
         error: error.message || "Connection error",
-        isConnected: false,
-        isRecording: false,
       }));
     };
 
+    // The session stays "connected" while it reconnects, so recording and
+    // the meeting carry on once it's back
+    const onReconnecting = ({ attempt, maxAttempts, delayMs }: ReconnectInfo) => {
+      console.log(
+        `🔄 Gemini Live connection lost, reconnecting in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`
+      );
+      audioStreamerRef.current?.stop();
+      setState((prev) => ({
+        ...prev,
+        isSpeaking: false,
+        reconnect: { attempt, maxAttempts },
+        notice: undefined,
+      }));
+    };
+
+    const onReconnected = (resumed: boolean) => {
+      console.log(
+        resumed
+          ? "✅ Gemini Live session resumed"
+          : "⚠️ Gemini Live reconnected with a new session"
+      );
+      setState((prev) => ({
+        ...prev,
+        reconnect: undefined,
+        error: undefined,
+        notice: resumed
+          ? undefined
+          : "Reconnected, but Spark could not resume the conversation",
+      }));
+    };
+
+    const onGoAway = () => {
+      console.log("👋 Gemini Live is closing this connection, moving to a new one");
+    };
+
     const onAudio = (data: ArrayBuffer) => {
       setState((prev) => ({ ...prev, isSpeaking: true }));
       audioStreamerRef.current?.addPCM16(new Uint8Array(data));
@@ -651,15 +737,74 @@ When you receive tool responses, immediately use that fresh data in your next st
       }
     };
 
+    // Transcribed speech extends the speaker's turn in the transcript and the
+    // live caption: state.transcript for the user, state.response for Spark
+    const onTranscription = (
+      speaker: TranscriptSpeaker,
+      text: string,
+      finished: boolean
+    ) => {
+      const continuing = openSpeakerRef.current === speaker;
+      openSpeakerRef.current = finished ? null : speaker;
+      setTranscript((turns) => {
+        const next = appendTranscriptChunk(turns, speaker, text);
+        return finished ? closeTranscriptTurns(next) : next;
+      });
+      setState((prev) =>
+        speaker === "user"
+          ? { ...prev, transcript: (continuing ? prev.transcript || "" : "") + text }
+          : { ...prev, response: (continuing ? prev.response || "" : "") + text }
+      );
+    };
+
+    const onInputTranscription = (text: string, finished: boolean) =>
+      onTranscription("user", text, finished);
+
+    const onOutputTranscription = (text: string, finished: boolean) =>
+      onTranscription("spark", text, finished);
+
+    // Spark's turn ends when it finishes or is talked over
+    const endSparkTurn = () => {
+      if (openSpeakerRef.current === "spark") openSpeakerRef.current = null;
+      setTranscript((turns) => closeTranscriptTurns(turns, "spark"));
+    };
+
     const onInterrupted = () => {
       audioStreamerRef.current?.stop();
+      endSparkTurn();
       setState((prev) => ({ ...prev, isSpeaking: false }));
     };
 
     const onTurnComplete = () => {
+      appliedCallsRef.current.clear();
+      endSparkTurn();
       setState((prev) => ({ ...prev, isSpeaking: false }));
     };
 
+    // Gemini cancels calls it no longer wants answered, usually because the
+    // user interrupted. Running work is aborted and dropped; changes a call
+    // already made to the board are reverted.
+    const onToolCallCancellation = ({ ids }: LiveServerToolCallCancellation) => {
+      for (const id of ids || []) {
+        const controller = inFlightCallsRef.current.get(id);
+        if (controller) {
+          console.log(`🛑 Cancelling tool call ${id}`);
+          controller.abort();
+        }
+
+        const applied = appliedCallsRef.current.get(id);
+        if (applied && (window as any).setWhiteboardData) {
+          console.log(`↩️ Reverting board changes of cancelled tool call ${id}`);
+          (window as any).setWhiteboardData(
+            applied.before,
+            `Cancelled: ${applied.label}`,
+            applied.after
+          );
+        }
+        appliedCallsRef.current.delete(id);
+      }
+    };
+
     const onToolCall = async (toolCall: any) => {
       console.log("🔧 Tool call received:", toolCall);
       console.log("🔍 Tool call details:", JSON.stringify(toolCall, null, 2));
@@ -668,8 +813,24 @@ When you receive tool responses, immediately use that fresh data in your next st
         if (toolCall.functionCalls) {
           console.log("✅ Processing functionCalls:", toolCall.functionCalls);
 
+          // Register every call up front, so calls still waiting their turn
+          // can be cancelled too
+          const controllers = new Map<FunctionCall, AbortController>(
+            toolCall.functionCalls.map((call: FunctionCall) => [
+              call,
+              new AbortController(),
+            ])
+          );
+          controllers.forEach((controller, call) => {
+            if (call.id) inFlightCallsRef.current.set(call.id, controller);
+          });
+
           // Process each function call sequentially
           for (const call of toolCall.functionCalls) {
+            const controller = controllers.get(call)!;
+            if (controller.signal.aborted) {
+              continue;
+            }
             console.log(
               "📞 Processing function call:",
               call.name,
@@ -680,16 +841,54 @@ When you receive tool responses, immediately use that fresh data in your next st
             try {
               console.log("📝 Processing tool call:", call.name, call.args);
 
+              // We need to get current data - let's pass it via global function
+              const boardBeforeCall: WhiteboardData = (
+                window as any
+              ).getCurrentWhiteboardData?.() || { elements: [] };
+
               // Process the tool call and get response
               const result = await processToolCall(
-                // We need to get current data - let's pass it via global function
-                (window as any).getCurrentWhiteboardData?.() || {
-                  elements: [],
-                },
+                boardBeforeCall,
                 call.name,
-                call.args
+                call.args,
+                controller.signal
               );
 
+              // Cancelled while running: Gemini isn't waiting for the answer
+              // any more, and the board stays as it is
+              if (controller.signal.aborted) {
+                console.log(`🛑 Dropped result of cancelled tool call ${call.name}`);
+                continue;
+              }
+
+              // Keep what Spark wrote back to the tracker for the minutes
+              if (
+                call.name === "update_issue_from_standup" &&
+                result.response.changes
+              ) {
+                const succeeded: string[] = result.response.changes
+                  .filter((change: { success: boolean }) => change.success)
+                  .map((change: { detail: string }) => change.detail);
+                if (succeeded.length > 0) {
+                  setMeeting((prev) =>
+                    prev && !prev.endedAt
+                      ? {
+                          ...prev,
+                          trackerChanges: [
+                            ...prev.trackerChanges,
+                            {
+                              issueKey: result.response.issueKey,
+                              speaker: call.args?.speaker as string | undefined,
+                              changes: succeeded,
+                              at: Date.now(),
+                            },
+                          ],
+                        }
+                      : prev
+                  );
+                }
+              }
+
               // ENHANCED: Create structured response for Gemini
               let enhancedResponse = result.response;
 
@@ -711,7 +910,7 @@ When you receive tool responses, immediately use that fresh data in your next st
 
               // CRITICAL: Force Gemini to use real team data immediately
               if (
-                (call.name === "sync_jira_board" ||
+                (call.name === "sync_tracker_board" ||
                   call.name === "get_team_workload") &&
                 result.response.success &&
                 (result.response.REAL_TEAM_MEMBERS ||
@@ -728,6 +927,7 @@ When you receive tool responses, immediately use that fresh data in your next st
 
                 // Wait briefly for tool response to be processed, then force team acknowledgment
                 setTimeout(() => {
+                  if (controller.signal.aborted) return;
                   try {
                     // Build detailed task information for each team member
                     const taskDetails =
@@ -789,6 +989,7 @@ You must immediately respond by saying: "Perfect! I can see our team members fro
                 );
 
                 setTimeout(() => {
+                  if (controller.signal.aborted) return;
                   try {
                     clientRef.current?.send(
                       [
@@ -817,39 +1018,42 @@ Continue with the next team member NOW! Keep the standup flowing with real-time
                 }, 200);
               }
 
-              // If there's new data, update the whiteboard
+              // If there's new data, update the whiteboard as one undoable step
               if (result.newData) {
                 console.log("🎨 Updating whiteboard with new data");
 
-                // For move_task and sync_jira_board, we need to directly set the new data
-                if (
-                  call.name === "move_task" ||
-                  call.name === "sync_jira_board"
-                ) {
-                  if ((window as any).setWhiteboardData) {
-                    console.log(
-                      `🔄 Directly setting whiteboard data for ${call.name} operation`
-                    );
-                    (window as any).setWhiteboardData(result.newData);
-                  } else {
-                    console.warn("⚠️ setWhiteboardData not available");
+                const historyLabel =
+                  call.args?.reasoning || `Spark: ${call.name}`;
+
+                if ((window as any).setWhiteboardData) {
+                  console.log(
+                    `🔄 Setting whiteboard data for ${call.name} operation`
+                  );
+                  // Only this call's changes are applied, so edits made
+                  // while it ran (drags, collaborators) are kept
+                  (window as any).setWhiteboardData(
+                    result.newData,
+                    historyLabel,
+                    boardBeforeCall
+                  );
+                  if (call.id) {
+                    appliedCallsRef.current.set(call.id, {
+                      before: boardBeforeCall,
+                      after: result.newData,
+                      label: historyLabel,
+                    });
                   }
+                } else if (onWhiteboardUpdate) {
+                  console.log("📞 Using callback to update whiteboard");
+                  onWhiteboardUpdate(result.newData);
                 } else {
-                  // For other tools, use the normal update mechanism
-                  if ((window as any).updateWhiteboardFromGemini) {
-                    console.log(
-                      "🌍 Using global function to update whiteboard"
-                    );
-                    (window as any).updateWhiteboardFromGemini(call.args);
-                  } else if (onWhiteboardUpdate) {
-                    console.log("📞 Using callback to update whiteboard");
-                    onWhiteboardUpdate(result.newData);
-                  } else {
-                    console.warn("⚠️ No whiteboard update handler available");
-                  }
+                  console.warn("⚠️ No whiteboard update handler available");
                 }
               }
             } catch (error) {
+              if (controller.signal.aborted) {
+                continue;
+              }
               console.error("❌ Error processing tool call:", error);
 
               // Send error response back to Gemini
@@ -868,6 +1072,8 @@ Continue with the next team member NOW! Keep the standup flowing with real-time
                   },
                 ],
               });
+            } finally {
+              if (call.id) inFlightCallsRef.current.delete(call.id);
             }
           }
         } else {
@@ -899,8 +1105,14 @@ Continue with the next team member NOW! Keep the standup flowing with real-time
       .on("audio", onAudio)
       .on("content", onContent)
       .on("interrupted", onInterrupted)
+      .on("inputtranscription", onInputTranscription)
+      .on("outputtranscription", onOutputTranscription)
       .on("turncomplete", onTurnComplete)
-      .on("toolcall", onToolCall);
+      .on("toolcall", onToolCall)
+      .on("toolcallcancellation", onToolCallCancellation)
+      .on("reconnecting", onReconnecting)
+      .on("reconnected", onReconnected)
+      .on("goaway", onGoAway);
   }, []);
 
   // Initialize/update client when API key changes
@@ -950,8 +1162,30 @@ Continue with the next team member NOW! Keep the standup flowing with real-time
       "Attempting to connect with API key:",
       options.apiKey?.substring(0, 10) + "..."
     );
-    console.log("📋 Tools being passed to Gemini Live:", config.tools);
-    const toolsArray = config.tools as Array<{ functionDeclarations: any[] }>;
+
+    // Derive column names and enums in the tool schemas from the current board
+    const boardAtConnect: WhiteboardData = (window as any).getCurrentWhiteboardData?.() || {
+      elements: [],
+    };
+    const columns = getColumns(boardAtConnect);
+    // Servers that fail to connect are reported in settings and left out
+    await mcpHost.sync(loadMCPServers());
+    const sessionConfig: LiveConnectConfig = {
+      ...config,
+      tools: [
+        {
+          functionDeclarations: [
+            ...buildWhiteboardTools(columns),
+            ...mcpHost.getFunctionDeclarations(),
+          ],
+        },
+      ],
+    };
+
+    console.log("📋 Tools being passed to Gemini Live:", sessionConfig.tools);
+    const toolsArray = sessionConfig.tools as Array<{
+      functionDeclarations: any[];
+    }>;
     console.log(
       "🔧 Number of tools:",
       toolsArray?.[0]?.functionDeclarations?.length
@@ -961,12 +1195,23 @@ Continue with the next team member NOW! Keep the standup flowing with real-time
       toolsArray?.[0]?.functionDeclarations?.map((t: any) => t.name)
     );
 
-    setState((prev) => ({ ...prev, error: undefined }));
+    setState((prev) => ({ ...prev, error: undefined, notice: undefined }));
     clientRef.current.disconnect();
 
     try {
-      await clientRef.current.connect(model, config);
+      await clientRef.current.connect(model, sessionConfig);
       console.log("Connected successfully!");
+      // Reconnecting mid-meeting carries on with the same meeting
+      setMeeting((prev) =>
+        prev && !prev.endedAt
+          ? prev
+          : {
+              id: `meeting-${Date.now()}`,
+              startedAt: Date.now(),
+              boardBefore: boardAtConnect,
+              trackerChanges: [],
+            }
+      );
       console.log("✅ Connection established with tools enabled");
     } catch (error) {
       console.error("Failed to connect:", error);
@@ -981,6 +1226,10 @@ Continue with the next team member NOW! Keep the standup flowing with real-time
     if (clientRef.current) {
       clientRef.current.disconnect();
     }
+    // Nothing is waiting for these answers any more
+    inFlightCallsRef.current.forEach((controller) => controller.abort());
+    inFlightCallsRef.current.clear();
+    appliedCallsRef.current.clear();
     if (audioRecorderRef.current?.recording) {
       audioRecorderRef.current.stop();
     }
@@ -990,6 +1239,8 @@ Continue with the next team member NOW! Keep the standup flowing with real-time
       isConnected: false,
       isRecording: false,
       isSpeaking: false,
+      reconnect: undefined,
+      notice: undefined,
     }));
   }, []);
 
@@ -1027,6 +1278,25 @@ Continue with the next team member NOW! Keep the standup flowing with real-time
     }
   }, [state.isConnected]);
 
+  // Timekeeping for standup mode: remind Spark once per turn when a speaker
+  // or the whole standup runs over. The reminder doesn't complete the turn,
+  // so Spark picks it up at the next pause instead of talking over anyone.
+  const overrunNoticesRef = useRef(new Set<string>());
+  useEffect(() => {
+    if (!state.isConnected) return;
+    const timer = setInterval(() => {
+      const standup = (
+        window as unknown as { getCurrentWhiteboardData?: () => WhiteboardData }
+      ).getCurrentWhiteboardData?.()?.standup;
+      const notice = standup && getOverrunNotice(standup);
+      if (!notice || overrunNoticesRef.current.has(notice.key)) return;
+      overrunNoticesRef.current.add(notice.key);
+      console.log("⏱️ Standup overrun:", notice.text);
+      clientRef.current?.send([{ text: notice.text }], false);
+    }, 5000);
+    return () => clearInterval(timer);
+  }, [state.isConnected]);
+
   const stopRecording = useCallback(() => {
     if (audioRecorderRef.current?.recording) {
       audioRecorderRef.current.stop();
@@ -1044,6 +1314,10 @@ Continue with the next team member NOW! Keep the standup flowing with real-time
     setConfig,
     setModel,
     volume,
+    transcript,
+    setTranscript,
+    meeting,
+    setMeeting,
     updateSystemInstructionsWithJiraData,
   };
 }
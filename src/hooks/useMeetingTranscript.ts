@@ -0,0 +1,57 @@
+import { MutableRefObject, useEffect, useRef } from "react";
+import { TranscriptTurn } from "../types/gemini-live";
+import { loadTranscript, saveTranscript } from "../lib/board-storage";
+
+const SAVE_DELAY_MS = 1000;
+
+type PendingSave = { boardId: string; turns: TranscriptTurn[] } | null;
+
+// Helper function to write a transcript that is waiting for its debounce
+function flushPendingSave(pendingRef: MutableRefObject<PendingSave>) {
+  const pending = pendingRef.current;
+  pendingRef.current = null;
+  if (!pending) return;
+  saveTranscript(pending.boardId, pending.turns).catch((error) =>
+    console.error("❌ Failed to save transcript:", error)
+  );
+}
+
+// Keeps the meeting transcript saved with the board it was recorded on, and
+// brings back a board's earlier meetings when it is opened
+export function useMeetingTranscript(
+  boardId: string | undefined,
+  transcript: TranscriptTurn[],
+  setTranscript: (turns: TranscriptTurn[]) => void
+) {
+  // Board the transcript in memory belongs to; nothing is saved before it loads
+  const loadedBoardRef = useRef<string | null>(null);
+  const pendingRef = useRef<PendingSave>(null);
+
+  useEffect(() => {
+    loadedBoardRef.current = null;
+    if (!boardId) return;
+
+    let cancelled = false;
+    loadTranscript(boardId)
+      .then((turns) => {
+        if (cancelled) return;
+        loadedBoardRef.current = boardId;
+        setTranscript(turns);
+      })
+      .catch((error) => console.error("❌ Failed to load transcript:", error));
+
+    return () => {
+      cancelled = true;
+      // Don't lose the last words of the board being left
+      flushPendingSave(pendingRef);
+    };
+  }, [boardId, setTranscript]);
+
+  useEffect(() => {
+    if (!boardId || loadedBoardRef.current !== boardId) return;
+
+    pendingRef.current = { boardId, turns: transcript };
+    const timer = setTimeout(() => flushPendingSave(pendingRef), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [boardId, transcript]);
+}
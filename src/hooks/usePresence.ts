@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { WebsocketProvider } from "y-websocket";
+import {
+  ElementPresence,
+  PresenceState,
+  PresenceUser,
+  RemoteParticipant,
+} from "../types/presence";
+
+const USER_KEY = "collab-user";
+// Cursor moves are sent at most this often
+const CURSOR_THROTTLE_MS = 50;
+
+const PRESENCE_COLORS = [
+  "#e11d48",
+  "#2563eb",
+  "#16a34a",
+  "#d97706",
+  "#7c3aed",
+  "#0891b2",
+  "#db2777",
+  "#65a30d",
+];
+
+// Helper function to load this browser's name and color, creating them on first use
+function loadPresenceUser(): PresenceUser {
+  try {
+    const saved = JSON.parse(localStorage.getItem(USER_KEY) || "null");
+    if (saved?.name && saved?.color) return saved;
+  } catch {
+    // Fall through to a new identity
+  }
+  const user = {
+    name: `Guest ${Math.floor(Math.random() * 900) + 100}`,
+    color: PRESENCE_COLORS[Math.floor(Math.random() * PRESENCE_COLORS.length)],
+  };
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  return user;
+}
+
+// Live presence on a shared board: every participant broadcasts their name,
+// cursor, selected element and the element they are typing in, and sees
+// everyone else's. Does nothing while the board isn't shared.
+export function usePresence(provider: WebsocketProvider | null) {
+  const [user, setUserState] = useState<PresenceUser>(loadPresenceUser);
+  const [participants, setParticipants] = useState<RemoteParticipant[]>([]);
+  const cursorRef = useRef<{ timer?: ReturnType<typeof setTimeout>; next?: PresenceState["cursor"] }>({});
+
+  useEffect(() => {
+    if (!provider) {
+      setParticipants([]);
+      return;
+    }
+    const awareness = provider.awareness;
+    awareness.setLocalStateField("user", user);
+
+    const handleChange = () => {
+      const remote: RemoteParticipant[] = [];
+      awareness.getStates().forEach((state, clientId) => {
+        // Tabs that haven't announced a user yet are left out
+        if (clientId !== awareness.clientID && state.user) {
+          remote.push({ ...(state as PresenceState), clientId });
+        }
+      });
+      setParticipants(remote);
+    };
+    handleChange();
+    awareness.on("change", handleChange);
+    return () => awareness.off("change", handleChange);
+  }, [provider, user]);
+
+  const update = useCallback(
+    (fields: Partial<Omit<PresenceState, "user">>) => {
+      const awareness = provider?.awareness;
+      if (!awareness) return;
+      for (const [key, value] of Object.entries(fields)) {
+        if (awareness.getLocalState()?.[key] !== value) awareness.setLocalStateField(key, value);
+      }
+    },
+    [provider]
+  );
+
+  // Throttled, but the last position always goes out
+  const setCursor = useCallback(
+    (cursor: PresenceState["cursor"]) => {
+      const pending = cursorRef.current;
+      pending.next = cursor;
+      if (pending.timer) return;
+      update({ cursor });
+      pending.timer = setTimeout(() => {
+        pending.timer = undefined;
+        if (pending.next !== cursor) update({ cursor: pending.next });
+      }, CURSOR_THROTTLE_MS);
+    },
+    [update]
+  );
+
+  const setSelectedId = useCallback(
+    (selectedId: string | null) => update({ selectedId }),
+    [update]
+  );
+
+  const setEditingId = useCallback(
+    (editingId: string | null) => update({ editingId }),
+    [update]
+  );
+
+  const setUser = useCallback((next: PresenceUser) => {
+    localStorage.setItem(USER_KEY, JSON.stringify(next));
+    setUserState(next);
+  }, []);
+
+  // Per element: who is typing in it, or else who has it selected
+  const elementPresence = useMemo(() => {
+    const byElement = new Map<string, ElementPresence>();
+    for (const participant of participants) {
+      if (participant.editingId) {
+        byElement.set(participant.editingId, { user: participant.user, editing: true });
+      }
+    }
+    for (const participant of participants) {
+      if (participant.selectedId && !byElement.has(participant.selectedId)) {
+        byElement.set(participant.selectedId, { user: participant.user, editing: false });
+      }
+    }
+    return byElement;
+  }, [participants]);
+
+  return {
+    user,
+    setUser,
+    participants,
+    elementPresence,
+    setCursor,
+    setSelectedId,
+    setEditingId,
+  };
+}
@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as Y from "yjs";
+import { WebsocketProvider } from "y-websocket";
+import { WhiteboardData } from "../types/whiteboard";
+import { BoardUpdate } from "./useBoardHistory";
+import {
+  COLLAB_RELAY_URL,
+  isSharedBoardEmpty,
+  readSharedBoard,
+  writeBoardChange,
+} from "../lib/shared-board";
+
+export type SharedBoardStatus = "local" | "connecting" | "connected" | "offline";
+
+export interface UseSharedBoardResult {
+  data: WhiteboardData;
+  setData: (update: BoardUpdate) => void;
+  room: string | null;
+  status: SharedBoardStatus;
+  // Participants in the room, including this tab
+  participantCount: number;
+  // One participant runs side effects such as tracker transitions for everyone
+  isSyncLeader: boolean;
+  // The Yjs session of the room, for features layered on top (e.g. presence)
+  provider: WebsocketProvider | null;
+  join: (room: string) => void;
+  leave: () => void;
+}
+
+interface SharedSession {
+  room: string;
+  doc: Y.Doc;
+  provider: WebsocketProvider;
+  synced: boolean;
+}
+
+const ROOM_PARAM = "room";
+
+export function getRoomFromUrl(): string | null {
+  return new URLSearchParams(window.location.search).get(ROOM_PARAM);
+}
+
+// Helper function to keep the room in the address bar, so the URL is the invite link
+function setRoomInUrl(room: string | null) {
+  const url = new URL(window.location.href);
+  if (room) url.searchParams.set(ROOM_PARAM, room);
+  else url.searchParams.delete(ROOM_PARAM);
+  window.history.replaceState(null, "", url);
+}
+
+// Board state that is either local to this tab or shared with everyone in a
+// room through a Yjs document and the collab relay. setData has the same
+// contract as useState's setter; in a room each update is diffed into the
+// document field by field, so concurrent changes from other participants and
+// their Spark sessions merge instead of overwriting each other.
+export function useSharedBoard(initialData: WhiteboardData): UseSharedBoardResult {
+  const [data, setLocalData] = useState<WhiteboardData>(initialData);
+  const [room, setRoom] = useState<string | null>(null);
+  const [status, setStatus] = useState<SharedBoardStatus>("local");
+  const [participantCount, setParticipantCount] = useState(1);
+  const [isSyncLeader, setIsSyncLeader] = useState(true);
+  const [provider, setProvider] = useState<WebsocketProvider | null>(null);
+
+  const dataRef = useRef(data);
+  const sessionRef = useRef<SharedSession | null>(null);
+
+  // In a room, dataRef follows the document directly and may be ahead of the last render
+  useEffect(() => {
+    if (!sessionRef.current?.synced) dataRef.current = data;
+  }, [data]);
+
+  const setData = useCallback((update: BoardUpdate) => {
+    const session = sessionRef.current;
+    if (!session?.synced) {
+      setLocalData(update);
+      return;
+    }
+    // Document updates are applied synchronously, so dataRef is always current here
+    const current = dataRef.current;
+    const next = typeof update === "function" ? update(current) : update;
+    if (next !== current) writeBoardChange(session.doc, current, next);
+  }, []);
+
+  const leave = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    // Detach first, so updates from here on stay local
+    sessionRef.current = null;
+    session.provider.destroy();
+    session.doc.destroy();
+    console.log(`👋 Left shared board ${session.room}`);
+
+    setRoom(null);
+    setProvider(null);
+    setStatus("local");
+    setParticipantCount(1);
+    setIsSyncLeader(true);
+    setRoomInUrl(null);
+  }, []);
+
+  const join = useCallback(
+    (nextRoom: string) => {
+      if (sessionRef.current?.room === nextRoom) return;
+      leave();
+
+      console.log(`🤝 Joining shared board ${nextRoom} via ${COLLAB_RELAY_URL}`);
+      const doc = new Y.Doc();
+      const wsProvider = new WebsocketProvider(COLLAB_RELAY_URL, nextRoom, doc);
+      const session: SharedSession = { room: nextRoom, doc, provider: wsProvider, synced: false };
+      sessionRef.current = session;
+
+      const applyDocument = () => {
+        if (!session.synced || sessionRef.current !== session) return;
+        dataRef.current = readSharedBoard(doc, dataRef.current);
+        setLocalData(dataRef.current);
+      };
+      doc.on("update", applyDocument);
+
+      wsProvider.on("sync", (isSynced) => {
+        if (!isSynced || session.synced) return;
+        // The first participant brings their board; everyone else adopts the room's
+        if (isSharedBoardEmpty(doc)) {
+          writeBoardChange(doc, { elements: [] }, dataRef.current);
+          console.log(`📤 Shared this board in room ${nextRoom}`);
+        } else {
+          console.log(`📥 Loaded the board of room ${nextRoom}`);
+        }
+        session.synced = true;
+        applyDocument();
+        setStatus("connected");
+      });
+      wsProvider.on("status", ({ status: connection }) => {
+        if (sessionRef.current !== session) return;
+        if (connection === "connected") setStatus(session.synced ? "connected" : "connecting");
+        else setStatus(session.synced ? "offline" : "connecting");
+      });
+
+      // The lowest client id among connected participants is the leader
+      const awareness = wsProvider.awareness;
+      // An untouched awareness state isn't announced, so every tab sets one
+      awareness.setLocalStateField("joinedAt", Date.now());
+      awareness.on("change", () => {
+        if (sessionRef.current !== session) return;
+        const clientIds = Array.from(awareness.getStates().keys());
+        setParticipantCount(Math.max(clientIds.length, 1));
+        setIsSyncLeader(!clientIds.length || Math.min(...clientIds) === doc.clientID);
+      });
+
+      setRoom(nextRoom);
+      setProvider(wsProvider);
+      setStatus("connecting");
+      setRoomInUrl(nextRoom);
+    },
+    [leave]
+  );
+
+  // Close the connection with the page
+  useEffect(() => () => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    session?.provider.destroy();
+    session?.doc.destroy();
+  }, []);
+
+  return {
+    data,
+    setData,
+    room,
+    status,
+    participantCount,
+    isSyncLeader,
+    provider,
+    join,
+    leave,
+  };
+}
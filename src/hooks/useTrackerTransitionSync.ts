@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  IssueRef,
+  KanbanColumn,
+  StickyNote,
+  WhiteboardData,
+} from "../types/whiteboard";
+import { createIssueTracker } from "../lib/trackers";
+import {
+  getColumnBounds,
+  getColumnForStatus,
+  getColumns,
+} from "../lib/kanban-columns";
+import { BoardUpdate } from "./useBoardHistory";
+
+// When the board's sync config opts in, moving an issue note to another column
+// (by drag or by Spark's move_task) transitions the issue in the board's
+// tracker. Transitions run one at a time; a rejected one puts the note back
+// where the tracker has it. On a shared board only the sync leader's tab
+// (isActive) transitions, so a move isn't sent once per participant.
+export function useTrackerTransitionSync(
+  data: WhiteboardData,
+  setData: (update: BoardUpdate) => void,
+  isActive: boolean = true
+) {
+  const syncConfig = data.syncConfig;
+  const enabled = !!syncConfig?.transitionOnMove && isActive;
+  const trackerKind = syncConfig?.tracker || "jira";
+
+  // Statuses this tab has written to the tracker. They outlive undo/redo, so undoing
+  // a move transitions the issue back instead of trusting the old snapshot.
+  const confirmedRef = useRef(
+    new Map<string, { status: string; syncedAt: number }>()
+  );
+  const inFlightRef = useRef(new Set<string>());
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const getKnownStatus = useCallback((issue: IssueRef) => {
+    const confirmed = confirmedRef.current.get(issue.key);
+    return confirmed && confirmed.syncedAt === issue.syncedAt
+      ? confirmed.status
+      : issue.status;
+  }, []);
+
+  // Board-internal bookkeeping, deliberately kept out of undo history
+  const patchSticky = useCallback(
+    (
+      elementId: string,
+      update: (sticky: StickyNote, data: WhiteboardData) => Partial<StickyNote>
+    ) => {
+      setData((prev) => ({
+        ...prev,
+        elements: prev.elements.map((el) =>
+          el.id === elementId && el.type === "sticky"
+            ? { ...el, ...update(el, prev) }
+            : el
+        ),
+      }));
+    },
+    [setData]
+  );
+
+  const runTransition = useCallback(
+    async (elementId: string, issue: IssueRef, target: KanbanColumn) => {
+      patchSticky(elementId, (sticky) => ({
+        issue: { ...sticky.issue!, syncState: "pending", syncError: undefined },
+      }));
+
+      try {
+        console.log(`🔀 Transitioning ${issue.key} to ${target.title}...`);
+        const tracker = createIssueTracker(syncConfig);
+        const status = await tracker.transitionIssue(issue.key, [
+          ...target.statuses,
+          target.title,
+        ]);
+        confirmedRef.current.set(issue.key, {
+          status,
+          syncedAt: issue.syncedAt,
+        });
+        console.log(`✅ ${issue.key} is now ${status} in ${tracker.label}`);
+
+        // The tracker may land on a status of another column (e.g. a
+        // workflow step in between), so the note follows it there. When it
+        // lands where asked, the note stays put: it may have been moved on
+        // since, and the effect queues that next transition.
+        patchSticky(elementId, (sticky, current) => {
+          const columns = getColumns(current);
+          const column = getColumnForStatus(columns, status);
+          return {
+            ...(column.id !== target.id && {
+              columnId: column.id,
+              x: getColumnBounds(columns, column.id)!.cardX,
+              color: column.color,
+            }),
+            issue: {
+              ...(sticky.issue || issue),
+              status,
+              syncState: undefined,
+              syncError: undefined,
+            },
+          };
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Transition failed";
+        console.error(`❌ Tracker rejected moving ${issue.key}:`, message);
+
+        // Roll the note back to the column matching its tracker status
+        patchSticky(elementId, (sticky, current) => {
+          const columns = getColumns(current);
+          const column = getColumnForStatus(
+            columns,
+            getKnownStatus(sticky.issue || issue)
+          );
+          return {
+            columnId: column.id,
+            x: getColumnBounds(columns, column.id)!.cardX,
+            color: column.color,
+            issue: {
+              ...(sticky.issue || issue),
+              syncState: "failed",
+              syncError: message,
+            },
+          };
+        });
+      } finally {
+        inFlightRef.current.delete(issue.key);
+      }
+    },
+    [getKnownStatus, patchSticky, syncConfig]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const columns = getColumns(data);
+    data.elements.forEach((el) => {
+      if (
+        el.type !== "sticky" ||
+        !el.issue ||
+        el.issue.tracker !== trackerKind ||
+        el.issue.removed ||
+        !el.columnId
+      ) {
+        return;
+      }
+      // A "pending" state without a running transition is left over from a
+      // reload, so only the in-flight set is trusted here
+      if (inFlightRef.current.has(el.issue.key)) return;
+
+      const target = columns.find((column) => column.id === el.columnId);
+      const trackerColumn = getColumnForStatus(columns, getKnownStatus(el.issue));
+      if (!target || target.id === trackerColumn.id) return;
+
+      const issue = el.issue;
+      inFlightRef.current.add(issue.key);
+      queueRef.current = queueRef.current.then(() =>
+        runTransition(el.id, issue, target)
+      );
+    });
+  }, [data, enabled, getKnownStatus, runTransition, trackerKind]);
+}
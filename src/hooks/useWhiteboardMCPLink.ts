@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { WhiteboardData } from "../types/whiteboard";
+import { UseBoardHistoryResult } from "./useBoardHistory";
+import { buildWhiteboardTools, processToolCall } from "../tools/whiteboard-tools";
+import { exportBoard, exportBoardTool } from "../lib/board-export";
+import { getColumns } from "../lib/kanban-columns";
+import { mergeBoardChange } from "../lib/board-merge";
+import { toJsonSchema } from "../lib/mcp-host";
+import {
+  isWhiteboardMCPEnabled,
+  WHITEBOARD_MCP_CHANGE_EVENT,
+  WHITEBOARD_MCP_TOKEN,
+  WHITEBOARD_MCP_URL,
+} from "../config/mcp-config";
+
+// Board tools offered to MCP clients - tracker and hosted MCP tools stay with Spark
+const SHARED_TOOL_NAMES = ["get_whiteboard_info", "update_whiteboard", "move_task"];
+
+// Board state is pushed at most this often while the board is being edited
+const STATE_DEBOUNCE_MS = 300;
+
+const LINK_HEADERS: Record<string, string> = {
+  "Content-Type": "application/json",
+  ...(WHITEBOARD_MCP_TOKEN && { Authorization: `Bearer ${WHITEBOARD_MCP_TOKEN}` }),
+};
+
+interface MCPToolCall {
+  id: string;
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+// Links the open board to whiteboard-mcp-server, which serves it to other
+// agents. The server pushes tool calls over SSE; they run through the same
+// processToolCall as Spark's, and changes land here as undoable steps.
+export function useWhiteboardMCPLink(
+  data: WhiteboardData,
+  applyChange: UseBoardHistoryResult["applyChange"]
+) {
+  const [enabled, setEnabled] = useState(isWhiteboardMCPEnabled);
+  const [linkId, setLinkId] = useState<string | null>(null);
+  const dataRef = useRef(data);
+  const applyChangeRef = useRef(applyChange);
+
+  useEffect(() => {
+    dataRef.current = data;
+    applyChangeRef.current = applyChange;
+  }, [data, applyChange]);
+
+  useEffect(() => {
+    const handleChange = () => setEnabled(isWhiteboardMCPEnabled());
+    window.addEventListener(WHITEBOARD_MCP_CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(WHITEBOARD_MCP_CHANGE_EVENT, handleChange);
+  }, []);
+
+  const columns = useMemo(() => getColumns({ columns: data.columns }), [data.columns]);
+  const tools = useMemo(
+    () =>
+      [
+        ...buildWhiteboardTools(columns).filter((tool) => SHARED_TOOL_NAMES.includes(tool.name!)),
+        exportBoardTool,
+      ].map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: { ...toJsonSchema(tool.parameters), type: "object" },
+      })),
+    [columns]
+  );
+
+  // Listen for tool calls while sharing is on
+  useEffect(() => {
+    if (!enabled) return;
+
+    const postResult = (id: string, response: unknown) =>
+      fetch(`${WHITEBOARD_MCP_URL}/link/results/${encodeURIComponent(id)}`, {
+        method: "POST",
+        headers: LINK_HEADERS,
+        body: JSON.stringify({ response }),
+      }).catch((error) => console.error("❌ Could not return MCP tool result:", error));
+
+    const handleCall = async (call: MCPToolCall) => {
+      const args = call.args || {};
+      console.log(`🛰️ MCP client called ${call.name}`, args);
+      try {
+        if (call.name === exportBoardTool.name) {
+          const format = args.format === "json" ? "json" : "markdown";
+          await postResult(call.id, {
+            success: true,
+            format,
+            content: exportBoard(dataRef.current, format),
+          });
+          return;
+        }
+        if (!SHARED_TOOL_NAMES.includes(call.name)) {
+          await postResult(call.id, { success: false, error: `Unknown tool: ${call.name}` });
+          return;
+        }
+
+        const boardBeforeCall = dataRef.current;
+        const result = await processToolCall(boardBeforeCall, call.name, args);
+        const newData = result.newData;
+        if (newData) {
+          const label = typeof args.reasoning === "string" && args.reasoning
+            ? args.reasoning
+            : `MCP: ${call.name}`;
+          applyChangeRef.current(
+            (current) => mergeBoardChange(boardBeforeCall, newData, current),
+            label,
+            { source: "ai" }
+          );
+        }
+        await postResult(call.id, result.response);
+      } catch (error) {
+        console.error(`❌ MCP tool call ${call.name} failed:`, error);
+        await postResult(call.id, {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+
+    // EventSource can't send headers, so the token goes in the query string
+    const events = new EventSource(
+      `${WHITEBOARD_MCP_URL}/link/events${
+        WHITEBOARD_MCP_TOKEN ? `?token=${encodeURIComponent(WHITEBOARD_MCP_TOKEN)}` : ""
+      }`
+    );
+    events.addEventListener("linked", (event) => {
+      const { linkId } = JSON.parse((event as MessageEvent).data);
+      console.log(`🛰️ Board shared with MCP clients via ${WHITEBOARD_MCP_URL}`);
+      setLinkId(linkId);
+    });
+    events.addEventListener("call", (event) => {
+      handleCall(JSON.parse((event as MessageEvent).data));
+    });
+    // EventSource reconnects on its own; a new "linked" event follows
+    events.onerror = () => setLinkId(null);
+
+    return () => {
+      events.close();
+      setLinkId(null);
+    };
+  }, [enabled]);
+
+  // Push the board and its tool list whenever either changes
+  useEffect(() => {
+    if (!enabled || !linkId) return;
+    const timer = setTimeout(() => {
+      fetch(`${WHITEBOARD_MCP_URL}/link/state`, {
+        method: "POST",
+        headers: LINK_HEADERS,
+        body: JSON.stringify({ linkId, board: data, tools }),
+      }).catch((error) => console.warn("⚠️ Could not share board state:", error));
+    }, STATE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [enabled, linkId, data, tools]);
+
+  return { enabled, linked: !!linkId };
+}
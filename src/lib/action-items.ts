@@ -0,0 +1,100 @@
+import { ActionItem, BoardSyncConfig, IssueRef, WhiteboardData } from "../types/whiteboard";
+import { COLUMN_LAYOUT } from "./kanban-columns";
+import { createIssueTracker, resolveSyncConfig } from "./trackers";
+
+const SLOT_GAP = 24;
+
+export interface NewActionItem {
+  text: string;
+  owner?: string;
+  dueDate?: string;
+  sourceQuote?: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Today as YYYY-MM-DD in local time, for resolving "Friday" or "tomorrow"
+export function getTodayDate(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// Due dates are stored as YYYY-MM-DD and only taken in that form: Date reads
+// "Oct 24" as 2001 and drops "Friday", so relative dates are resolved by the
+// caller. Undefined when the value isn't a real date.
+export function normalizeDueDate(value?: string): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed || !/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return undefined;
+  const [year, month, day] = trimmed.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? trimmed : undefined;
+}
+
+// Helper function to find the first free slot in the action item rows
+export function getNextActionItemPosition(data: WhiteboardData): { x: number; y: number } {
+  const taken = new Set(
+    data.elements
+      .filter((element) => element.type === "action-item")
+      .map((element) => `${element.x},${element.y}`)
+  );
+  for (let index = 0; ; index++) {
+    const x =
+      COLUMN_LAYOUT.left +
+      (index % COLUMN_LAYOUT.actionItemsPerRow) * (COLUMN_LAYOUT.actionItemWidth + SLOT_GAP);
+    const y =
+      COLUMN_LAYOUT.actionItemsY +
+      Math.floor(index / COLUMN_LAYOUT.actionItemsPerRow) *
+        (COLUMN_LAYOUT.actionItemHeight + SLOT_GAP);
+    if (!taken.has(`${x},${y}`)) return { x, y };
+  }
+}
+
+export function createActionItem(data: WhiteboardData, item: NewActionItem): ActionItem {
+  return {
+    id: `action-item-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    type: "action-item",
+    ...getNextActionItemPosition(data),
+    text: item.text.trim(),
+    owner: item.owner?.trim() || undefined,
+    dueDate: normalizeDueDate(item.dueDate),
+    status: "open",
+    sourceQuote: item.sourceQuote?.trim() || undefined,
+  };
+}
+
+// Turn an action item into an issue in the board's tracker, with the quote
+// it came from as the description
+export async function convertActionItemToIssue(
+  item: ActionItem,
+  syncConfig?: BoardSyncConfig,
+  signal?: AbortSignal
+): Promise<IssueRef> {
+  if (item.issue) {
+    throw new Error(`This action item is already ${item.issue.key}`);
+  }
+
+  const tracker = createIssueTracker(resolveSyncConfig(syncConfig), signal);
+  const description = [
+    "Action item from the standup.",
+    item.owner ? `Owner: ${item.owner}` : "",
+    item.sourceQuote ? `"${item.sourceQuote}"` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  const issue = await tracker.createIssue({
+    title: item.text,
+    description,
+    assignee: item.owner,
+    dueDate: item.dueDate,
+  });
+
+  console.log(`✅ Created ${tracker.label} issue ${issue.key} from action item`);
+  return {
+    tracker: tracker.kind,
+    key: issue.key,
+    status: issue.status,
+    syncedAt: Date.now(),
+    url: issue.url,
+    dueDate: issue.dueDate,
+  };
+}
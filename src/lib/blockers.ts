@@ -0,0 +1,155 @@
+import { KanbanColumn, StickyNote, WhiteboardData } from "../types/whiteboard";
+import { getColumns, getElementColumnId } from "./kanban-columns";
+
+// A "blocks" link between two notes: the blocker has to be finished first
+export interface BlockerLink {
+  blockerId: string;
+  blockedId: string;
+  // Drawn on the board, or imported from a tracker "is blocked by" link
+  source: "board" | "tracker";
+  // The blocking note has reached the last (done) column
+  resolved: boolean;
+}
+
+export interface BlockedTask {
+  id: string;
+  title: string;
+  issueKey?: string;
+  column?: string;
+  // Set when the note is flagged as blocked
+  reason?: string;
+  blockedSince?: string;
+  blockedBy: {
+    title: string;
+    id?: string;
+    issueKey?: string;
+    column?: string;
+    // On the board, or only known from the tracker
+    onBoard: boolean;
+  }[];
+}
+
+const getNotes = (data: WhiteboardData) =>
+  data.elements.filter((el): el is StickyNote => el.type === "sticky");
+
+// Helper function to name a note by its first line, e.g. "🎫 SCRUM-3: Integrate Stripe checkout"
+const getNoteTitle = (note: StickyNote) => note.text.split("\n")[0].trim();
+
+// Helper function to tell whether a note is in the last column
+function isInDoneColumn(note: StickyNote, columns: KanbanColumn[]): boolean {
+  return getElementColumnId(note, columns) === columns[columns.length - 1]?.id;
+}
+
+// Find a note by element id or by the key of its issue
+export function findNote(data: WhiteboardData, idOrKey: string): StickyNote | undefined {
+  const wanted = idOrKey.trim().toLowerCase();
+  const notes = getNotes(data);
+  return (
+    notes.find((note) => note.id.toLowerCase() === wanted) ||
+    notes.find((note) => note.issue?.key.toLowerCase() === wanted)
+  );
+}
+
+// Every blocker link between notes on the board; tracker links whose other
+// issue isn't on the board have nothing to draw and are left out
+export function getBlockerLinks(data: WhiteboardData): BlockerLink[] {
+  const columns = getColumns(data);
+  const notes = getNotes(data);
+  const byId = new Map(notes.map((note) => [note.id, note]));
+  const byKey = new Map(
+    notes.filter((note) => note.issue).map((note) => [note.issue!.key, note])
+  );
+  const links: BlockerLink[] = [];
+  const seen = new Set<string>();
+
+  const addLink = (blocker: StickyNote | undefined, blocked: StickyNote, source: BlockerLink["source"]) => {
+    const id = `${blocker?.id}>${blocked.id}`;
+    if (!blocker || blocker.id === blocked.id || seen.has(id)) return;
+    seen.add(id);
+    links.push({
+      blockerId: blocker.id,
+      blockedId: blocked.id,
+      source,
+      resolved: isInDoneColumn(blocker, columns),
+    });
+  };
+
+  notes.forEach((note) => {
+    note.blockedBy?.forEach((id) => addLink(byId.get(id), note, "board"));
+    note.issue?.blockedBy?.forEach((key) => addLink(byKey.get(key), note, "tracker"));
+  });
+  return links;
+}
+
+// Link two notes so that one blocks the other
+export function linkBlocker(data: WhiteboardData, blockedId: string, blockerId: string): WhiteboardData {
+  if (blockedId === blockerId) return data;
+  return {
+    ...data,
+    elements: data.elements.map((el) =>
+      el.id === blockedId && el.type === "sticky" && !el.blockedBy?.includes(blockerId)
+        ? { ...el, blockedBy: [...(el.blockedBy || []), blockerId] }
+        : el
+    ),
+  };
+}
+
+// Remove a link drawn on the board; tracker links come back with every sync
+// and are changed in the tracker
+export function unlinkBlocker(data: WhiteboardData, blockedId: string, blockerId: string): WhiteboardData {
+  return {
+    ...data,
+    elements: data.elements.map((el) => {
+      if (el.id !== blockedId || el.type !== "sticky" || !el.blockedBy) return el;
+      const blockedBy = el.blockedBy.filter((id) => id !== blockerId);
+      return { ...el, blockedBy: blockedBy.length ? blockedBy : undefined };
+    }),
+  };
+}
+
+// Notes still waiting on something: flagged as blocked, or linked to a
+// blocker that isn't done. Finished notes are never blocked.
+export function getBlockedTasks(data: WhiteboardData): BlockedTask[] {
+  const columns = getColumns(data);
+  const notes = getNotes(data);
+  const links = getBlockerLinks(data);
+  const byId = new Map(notes.map((note) => [note.id, note]));
+  const columnTitle = (note: StickyNote) => {
+    const columnId = getElementColumnId(note, columns);
+    return columns.find((column) => column.id === columnId)?.title;
+  };
+
+  return notes.flatMap((note): BlockedTask[] => {
+    if (isInDoneColumn(note, columns)) return [];
+
+    const blockers: BlockedTask["blockedBy"] = links
+      .filter((link) => link.blockedId === note.id && !link.resolved)
+      .map((link) => {
+        const blocker = byId.get(link.blockerId)!;
+        return {
+          title: getNoteTitle(blocker),
+          id: blocker.id,
+          issueKey: blocker.issue?.key,
+          column: columnTitle(blocker),
+          onBoard: true,
+        };
+      });
+    // Tracker blockers outside the synced scope are still worth mentioning
+    note.issue?.blockedBy
+      ?.filter((key) => !notes.some((other) => other.issue?.key === key))
+      .forEach((key) => blockers.push({ title: key, issueKey: key, onBoard: false }));
+
+    if (!note.blocker && blockers.length === 0) return [];
+    return [
+      {
+        id: note.id,
+        title: getNoteTitle(note),
+        issueKey: note.issue?.key,
+        column: columnTitle(note),
+        reason: note.blocker?.reason || undefined,
+        blockedSince: note.blocker ? new Date(note.blocker.since).toISOString() : undefined,
+        blockedBy: blockers,
+      },
+    ];
+  });
+}
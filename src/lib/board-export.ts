@@ -0,0 +1,99 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { WhiteboardData, WhiteboardElement } from "../types/whiteboard";
+import { getColumns, getElementColumnId } from "./kanban-columns";
+
+export type BoardExportFormat = "json" | "markdown";
+
+export const exportBoardTool: FunctionDeclaration = {
+  name: "export_board",
+  description:
+    "Export the whole whiteboard: as JSON (elements, columns and sync settings) or as a Markdown summary with one section per Kanban column.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      format: {
+        type: Type.STRING,
+        enum: ["json", "markdown"],
+        description: "Export format (defaults to markdown)",
+      },
+    },
+  },
+};
+
+// Helper function to describe one element as a Markdown list item
+function toMarkdownItem(element: WhiteboardElement): string {
+  switch (element.type) {
+    case "sticky": {
+      const text = element.text.replace(/\s*\n\s*/g, " ").trim();
+      const blocked = element.blocker
+        ? ` **Blocked**${element.blocker.reason ? `: ${element.blocker.reason}` : ""}`
+        : "";
+      if (!element.issue) return `- ${text}${blocked}`;
+      const key = element.issue.url
+        ? `[${element.issue.key}](${element.issue.url})`
+        : element.issue.key;
+      const points =
+        element.issue.storyPoints !== undefined ? ` (${element.issue.storyPoints} pts)` : "";
+      return `- ${key} ${text}${points}${blocked}`;
+    }
+    case "flow-node":
+      return `- Flow node: ${element.label}`;
+    case "mermaid":
+      return `- Mermaid diagram:\n\n  \`\`\`mermaid\n  ${element.mermaidCode
+        .trim()
+        .split("\n")
+        .join("\n  ")}\n  \`\`\``;
+    case "embed":
+      return `- Link: ${element.url}`;
+    case "action-item": {
+      const details = [element.owner, element.dueDate && `due ${element.dueDate}`]
+        .filter(Boolean)
+        .join(", ");
+      const key = element.issue
+        ? ` ${element.issue.url ? `[${element.issue.key}](${element.issue.url})` : element.issue.key}`
+        : "";
+      return `- [${element.status === "done" ? "x" : " "}] ${element.text.trim()}${
+        details ? ` (${details})` : ""
+      }${key}`;
+    }
+  }
+}
+
+// Serialize a board for sharing outside the app. Markdown lists tasks per
+// column top to bottom, then the action items; everything else goes under
+// "Other".
+export function exportBoard(data: WhiteboardData, format: BoardExportFormat = "markdown"): string {
+  if (format === "json") {
+    return JSON.stringify(data, null, 2);
+  }
+
+  const columns = getColumns(data);
+  const byPosition = (a: WhiteboardElement, b: WhiteboardElement) => a.y - b.y || a.x - b.x;
+  const sections = columns.map((column) => {
+    const tasks = data.elements
+      .filter((element) => getElementColumnId(element, columns) === column.id)
+      .sort(byPosition);
+    const limit = column.wipLimit ? `, WIP limit ${column.wipLimit}` : "";
+    return [
+      `## ${column.title} (${tasks.length}${limit})`,
+      "",
+      ...(tasks.length ? tasks.map(toMarkdownItem) : ["_No tasks_"]),
+    ].join("\n");
+  });
+
+  const actionItems = data.elements
+    .filter((element) => element.type === "action-item")
+    .sort(byPosition);
+  if (actionItems.length) {
+    sections.push(["## Action items", "", ...actionItems.map(toMarkdownItem)].join("\n"));
+  }
+
+  const other = data.elements
+    .filter((element) => element.type !== "action-item" && !getElementColumnId(element, columns))
+    .sort(byPosition);
+  if (other.length) {
+    sections.push(["## Other", "", ...other.map(toMarkdownItem)].join("\n"));
+  }
+
+  return [`# Whiteboard`, ...sections].join("\n\n") + "\n";
+}
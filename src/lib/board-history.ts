@@ -0,0 +1,113 @@
+import { WhiteboardData } from "../types/whiteboard";
+
+export type HistorySource = "user" | "ai";
+
+export interface HistoryEntry {
+  label: string;
+  source: HistorySource;
+  timestamp: number;
+  // Board state before the change
+  data: WhiteboardData;
+  // Board state right after it, filled in once the change has rendered.
+  // Undo and redo replay only the difference between the two.
+  after?: WhiteboardData;
+  coalesceKey?: string;
+}
+
+export interface RecordOptions {
+  source?: HistorySource;
+  // Consecutive changes sharing a key (e.g. typing in one note) merge into one entry
+  coalesceKey?: string;
+}
+
+// An entry on its way through undo/redo, with both states known
+export type SettledHistoryEntry = HistoryEntry & { after: WhiteboardData };
+
+const DEFAULT_LIMIT = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+// Snapshot-based undo/redo stack. WhiteboardData is treated as immutable, so
+// each entry simply keeps references to the board before and after a change.
+export class BoardHistory {
+  private past: HistoryEntry[] = [];
+  private future: HistoryEntry[] = [];
+
+  constructor(private limit: number = DEFAULT_LIMIT) {}
+
+  get canUndo() {
+    return this.past.length > 0;
+  }
+
+  get canRedo() {
+    return this.future.length > 0;
+  }
+
+  get undoLabel(): string | undefined {
+    return this.past[this.past.length - 1]?.label;
+  }
+
+  get redoLabel(): string | undefined {
+    return this.future[this.future.length - 1]?.label;
+  }
+
+  // Record the state a change is about to replace
+  record(previous: WhiteboardData, label: string, options: RecordOptions = {}) {
+    const now = Date.now();
+    const last = this.past[this.past.length - 1];
+
+    if (
+      options.coalesceKey &&
+      last?.coalesceKey === options.coalesceKey &&
+      now - last.timestamp < COALESCE_WINDOW_MS
+    ) {
+      last.timestamp = now;
+      last.after = undefined;
+      this.future = [];
+      return;
+    }
+
+    this.past.push({
+      label,
+      source: options.source || "user",
+      timestamp: now,
+      data: previous,
+      coalesceKey: options.coalesceKey,
+    });
+
+    if (this.past.length > this.limit) {
+      this.past.shift();
+    }
+    this.future = [];
+  }
+
+  // Note the board a just-recorded change produced
+  settle(current: WhiteboardData) {
+    const last = this.past[this.past.length - 1];
+    if (last && !last.after) last.after = current;
+  }
+
+  // The caller replays after -> data
+  undo(current: WhiteboardData): SettledHistoryEntry | null {
+    const entry = this.past.pop();
+    if (!entry) return null;
+
+    const undone = { ...entry, after: entry.after || current, timestamp: Date.now() };
+    this.future.push(undone);
+    return undone;
+  }
+
+  // The caller replays data -> after
+  redo(current: WhiteboardData): SettledHistoryEntry | null {
+    const entry = this.future.pop();
+    if (!entry) return null;
+
+    const redone = { ...entry, after: entry.after || current, timestamp: Date.now() };
+    this.past.push(redone);
+    return redone;
+  }
+
+  clear() {
+    this.past = [];
+    this.future = [];
+  }
+}
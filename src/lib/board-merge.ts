@@ -0,0 +1,113 @@
+import { WhiteboardData, WhiteboardElement } from "../types/whiteboard";
+
+// Field-level changes between two versions of a board. Replaying a diff onto
+// a newer board only touches what that one change touched, so edits made in
+// the meantime (by collaborators, Spark or a background sync) survive undo,
+// redo and concurrent updates instead of being overwritten by a stale snapshot.
+export interface BoardDiff {
+  removed: string[];
+  added: WhiteboardElement[];
+  // Changed fields per element id; undefined values delete the field
+  changed: Map<string, Record<string, unknown>>;
+  // Changed board-level fields (columns, syncConfig, ...)
+  board: Record<string, unknown>;
+}
+
+export const sameValue = (a: unknown, b: unknown) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Helper function to collect the fields that differ between two records
+function diffFields(
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+  ignore: string[] = []
+): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (!ignore.includes(key) && !sameValue(from[key], to[key])) {
+      changes[key] = to[key];
+    }
+  }
+  return changes;
+}
+
+export function diffBoards(from: WhiteboardData, to: WhiteboardData): BoardDiff {
+  const fromElements = new Map(from.elements.map((el) => [el.id, el]));
+  const toIds = new Set(to.elements.map((el) => el.id));
+  const diff: BoardDiff = {
+    removed: from.elements.filter((el) => !toIds.has(el.id)).map((el) => el.id),
+    added: [],
+    changed: new Map(),
+    board: diffFields(
+      from as unknown as Record<string, unknown>,
+      to as unknown as Record<string, unknown>,
+      ["elements"]
+    ),
+  };
+
+  for (const element of to.elements) {
+    const previous = fromElements.get(element.id);
+    if (!previous) {
+      diff.added.push(element);
+    } else if (previous !== element) {
+      const fields = diffFields(
+        previous as unknown as Record<string, unknown>,
+        element as unknown as Record<string, unknown>,
+        ["id"]
+      );
+      if (Object.keys(fields).length) diff.changed.set(element.id, fields);
+    }
+  }
+  return diff;
+}
+
+export const isEmptyDiff = (diff: BoardDiff) =>
+  !diff.removed.length &&
+  !diff.added.length &&
+  !diff.changed.size &&
+  !Object.keys(diff.board).length;
+
+// Helper function to set or delete fields on a copy of a record
+function patchFields<T>(target: T, fields: Record<string, unknown>): T {
+  const patched = { ...target } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) delete patched[key];
+    else patched[key] = value;
+  }
+  return patched as T;
+}
+
+// Apply a diff to a board. Fields of elements deleted in the meantime are
+// dropped rather than bringing the element back.
+export function applyBoardDiff(onto: WhiteboardData, diff: BoardDiff): WhiteboardData {
+  if (isEmptyDiff(diff)) return onto;
+
+  const removed = new Set(diff.removed);
+  const added = new Map(diff.added.map((el) => [el.id, el]));
+  const elements = onto.elements
+    .filter((el) => !removed.has(el.id))
+    .map((el) => {
+      const readded = added.get(el.id);
+      if (readded) {
+        added.delete(el.id);
+        return readded;
+      }
+      const fields = diff.changed.get(el.id);
+      return fields ? patchFields(el, fields) : el;
+    });
+
+  return {
+    ...patchFields(onto, diff.board),
+    elements: [...elements, ...added.values()],
+  };
+}
+
+// Replay the change that turned `from` into `to` onto `onto`
+export function mergeBoardChange(
+  from: WhiteboardData,
+  to: WhiteboardData,
+  onto: WhiteboardData
+): WhiteboardData {
+  if (onto === from) return to;
+  return applyBoardDiff(onto, diffBoards(from, to));
+}
@@ -0,0 +1,134 @@
+import { TranscriptTurn } from "../types/gemini-live";
+import {
+  BoardMeta,
+  IssueRef,
+  SavedBoard,
+  StickyNote,
+  WhiteboardElement,
+} from "../types/whiteboard";
+
+// IndexedDB-backed storage for the named board library.
+// Every board is stored as one record (metadata + WhiteboardData) keyed by id.
+// Meeting transcripts live in their own store under the board's id, so they
+// stay out of undo history and shared-board sync.
+const DB_NAME = "gemini-whiteboard";
+const DB_VERSION = 2;
+const BOARDS_STORE = "boards";
+const TRANSCRIPTS_STORE = "transcripts";
+
+interface SavedTranscript {
+  boardId: string;
+  turns: TranscriptTurn[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BOARDS_STORE)) {
+        const store = db.createObjectStore(BOARDS_STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+      if (!db.objectStoreNames.contains(TRANSCRIPTS_STORE)) {
+        db.createObjectStore(TRANSCRIPTS_STORE, { keyPath: "boardId" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error("Failed to open board database"));
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getStore(
+  mode: IDBTransactionMode,
+  name: string = BOARDS_STORE
+): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+export function createBoardId(): string {
+  return `board-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// List all saved boards (metadata only), most recently updated first
+export async function listBoards(): Promise<BoardMeta[]> {
+  const store = await getStore("readonly");
+  const boards = await requestToPromise<SavedBoard[]>(store.getAll());
+
+  return boards
+    .map(({ id, name, createdAt, updatedAt }) => ({
+      id,
+      name,
+      createdAt,
+      updatedAt,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// Boards saved before issue tracker support kept Jira details under "jira"
+function migrateElement(el: WhiteboardElement): WhiteboardElement {
+  if (el.type !== "sticky" || !("jira" in el)) return el;
+  const { jira, ...sticky } = el as StickyNote & { jira?: Omit<IssueRef, "tracker"> };
+  return jira && !sticky.issue ? { ...sticky, issue: { ...jira, tracker: "jira" } } : sticky;
+}
+
+export async function loadBoard(id: string): Promise<SavedBoard | undefined> {
+  const store = await getStore("readonly");
+  const board = await requestToPromise<SavedBoard | undefined>(store.get(id));
+  return board
+    ? {
+        ...board,
+        data: { ...board.data, elements: board.data.elements.map(migrateElement) },
+      }
+    : undefined;
+}
+
+export async function saveBoard(board: SavedBoard): Promise<void> {
+  const store = await getStore("readwrite");
+  await requestToPromise(store.put(board));
+}
+
+export async function deleteBoard(id: string): Promise<void> {
+  const store = await getStore("readwrite");
+  await requestToPromise(store.delete(id));
+  const transcripts = await getStore("readwrite", TRANSCRIPTS_STORE);
+  await requestToPromise(transcripts.delete(id));
+}
+
+export async function loadTranscript(boardId: string): Promise<TranscriptTurn[]> {
+  const store = await getStore("readonly", TRANSCRIPTS_STORE);
+  const saved = await requestToPromise<SavedTranscript | undefined>(store.get(boardId));
+  return saved?.turns || [];
+}
+
+export async function saveTranscript(boardId: string, turns: TranscriptTurn[]): Promise<void> {
+  const store = await getStore("readwrite", TRANSCRIPTS_STORE);
+  const record: SavedTranscript = { boardId, turns };
+  await requestToPromise(store.put(record));
+}
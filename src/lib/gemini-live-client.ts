@@ -11,6 +11,8 @@ import {
   LiveServerToolCall,
   LiveServerToolCallCancellation,
   LiveClientToolResponse,
+  LiveServerGoAway,
+  FunctionResponse,
 } from "@google/genai";
 import { StreamingLog } from "../types/gemini-live";
 import { base64ToArrayBuffer } from "./audio-utils";
@@ -21,8 +23,13 @@ export interface LiveClientEventTypes {
   content: (data: LiveServerContent) => void;
   error: (error: ErrorEvent) => void;
   interrupted: () => void;
+  inputtranscription: (text: string, finished: boolean) => void;
+  outputtranscription: (text: string, finished: boolean) => void;
   log: (log: StreamingLog) => void;
   open: () => void;
+  goaway: (data: LiveServerGoAway) => void;
+  reconnecting: (info: ReconnectInfo) => void;
+  reconnected: (resumed: boolean) => void;
   setupcomplete: () => void;
   toolcall: (data: LiveServerToolCall) => void;
   toolcallcancellation: (data: LiveServerToolCallCancellation) => void;
@@ -33,12 +40,43 @@ export interface LiveClientOptions {
   apiKey: string;
 }
 
+export interface ReconnectInfo {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+export type LiveClientStatus =
+  | "connected"
+  | "disconnected"
+  | "connecting"
+  | "reconnecting";
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 30s, then give up
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+
 export class GeminiLiveClient extends EventEmitter<LiveClientEventTypes> {
   private client: GoogleGenAI;
-  private _status: "connected" | "disconnected" | "connecting" = "disconnected";
+  private _status: LiveClientStatus = "disconnected";
   private _session: Session | null = null;
   private _model: string | null = null;
   private config: LiveConnectConfig | null = null;
+  // Latest session resumption handle; reconnecting with it keeps the conversation
+  private resumptionHandle: string | undefined;
+  // Each connection gets a number, so callbacks from a replaced socket are ignored
+  private generation = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // A reconnect socket that opened but hasn't had setupComplete yet; it only
+  // counts as reconnected once the server accepts the setup
+  private awaitingSetup: { attempt: number; resumed: boolean } | null = null;
+  // Tool calls the current connection is waiting on
+  private pendingToolCalls = new Map<string, string>();
+  // Tool calls from a dropped connection; the resumed session doesn't know them
+  private carriedToolCalls = new Set<string>();
+  // Messages sent while reconnecting, delivered once the session is back
+  private outbox: Array<() => void> = [];
 
   constructor(options: LiveClientOptions) {
     super();
@@ -57,6 +95,10 @@ export class GeminiLiveClient extends EventEmitter<LiveClientEventTypes> {
     return this._session;
   }
 
+  get canResume() {
+    return !!this.resumptionHandle;
+  }
+
   get model() {
     return this._model;
   }
@@ -83,20 +125,8 @@ export class GeminiLiveClient extends EventEmitter<LiveClientEventTypes> {
     this.config = config;
     this._model = model;
 
-    const callbacks: LiveCallbacks = {
-      onopen: this.onopen,
-      onmessage: this.onmessage,
-      onerror: this.onerror,
-      onclose: this.onclose,
-    };
-
     try {
-      this._session = await this.client.live.connect({
-        model,
-        config,
-        callbacks,
-      });
-
+      await this.openSession();
       this._status = "connected";
       return true;
     } catch (e) {
@@ -106,18 +136,120 @@ export class GeminiLiveClient extends EventEmitter<LiveClientEventTypes> {
     }
   }
 
+  // Open a socket for the current model and config, resuming the previous
+  // session when there is a handle for it
+  private async openSession() {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
+
+    const callbacks: LiveCallbacks = {
+      onopen: () => isCurrent() && this.onopen(),
+      onmessage: (message) => isCurrent() && this.onmessage(message),
+      onerror: (e) => isCurrent() && this.onerror(e),
+      onclose: (e) => isCurrent() && this.onclose(e),
+    };
+
+    this._session = await this.client.live.connect({
+      model: this._model!,
+      config: {
+        ...this.config,
+        sessionResumption: { handle: this.resumptionHandle },
+      },
+      callbacks,
+    });
+  }
+
   disconnect(): boolean {
-    if (!this.session) {
+    if (!this.session && this._status !== "reconnecting") {
       return false;
     }
 
-    this.session.close();
+    this.clearReconnectTimer();
+    // Ignore the close event of the socket we are closing
+    this.generation++;
+    this.session?.close();
     this._session = null;
     this._status = "disconnected";
+    this.awaitingSetup = null;
+    this.resumptionHandle = undefined;
+    this.pendingToolCalls.clear();
+    this.carriedToolCalls.clear();
+    this.outbox = [];
     this.log("client.close", "Disconnected");
     return true;
   }
 
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  // Drop the current socket and start reconnecting. Tool calls still running
+  // are answered in the new session once they finish.
+  private startReconnect(delayMs?: number) {
+    this.generation++;
+    this._session?.close();
+    this._session = null;
+    this._status = "reconnecting";
+    this.awaitingSetup = null;
+    this.pendingToolCalls.forEach((_, id) => this.carriedToolCalls.add(id));
+    this.pendingToolCalls.clear();
+    this.scheduleReconnect(1, delayMs);
+  }
+
+  private scheduleReconnect(attempt: number, delayMs?: number) {
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      this._status = "disconnected";
+      this.log("client.reconnect", "Giving up");
+      this.emit(
+        "close",
+        new CloseEvent("close", { reason: "Could not reconnect to Gemini Live" })
+      );
+      return;
+    }
+
+    const delay =
+      delayMs ??
+      Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    this.log("client.reconnect", `attempt ${attempt} in ${delay}ms`);
+    this.emit("reconnecting", {
+      attempt,
+      maxAttempts: MAX_RECONNECT_ATTEMPTS,
+      delayMs: delay,
+    });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      const resumed = !!this.resumptionHandle;
+      try {
+        await this.openSession();
+      } catch (e) {
+        console.warn(`Gemini Live reconnect attempt ${attempt} failed:`, e);
+        if (this._status === "reconnecting") this.scheduleReconnect(attempt + 1);
+        return;
+      }
+      // Disconnected by the user while the socket was opening
+      if (this._status !== "reconnecting") return;
+      this.awaitingSetup = { attempt, resumed };
+    }, delay);
+  }
+
+  // The server accepted the reconnect's setup: the session is back
+  private completeReconnect(resumed: boolean) {
+    this.awaitingSetup = null;
+    this._status = "connected";
+    this.log(
+      "client.reconnect",
+      resumed ? "Resumed session" : "Started a new session"
+    );
+    this.emit("reconnected", resumed);
+    const queued = this.outbox;
+    this.outbox = [];
+    queued.forEach((deliver) => deliver());
+  }
+
   private onopen() {
     this.log("client.open", "Connected");
     this.emit("open");
@@ -125,7 +257,10 @@ export class GeminiLiveClient extends EventEmitter<LiveClientEventTypes> {
 
   private onerror(e: ErrorEvent) {
     this.log("server.error", e.message);
-    this.emit("error", e);
+    // A close follows, and it decides whether to reconnect
+    if (this._status === "connected") {
+      this.emit("error", e);
+    }
   }
 
   private onclose(e: CloseEvent) {
@@ -133,23 +268,61 @@ export class GeminiLiveClient extends EventEmitter<LiveClientEventTypes> {
       "server.close",
       `disconnected ${e.reason ? `with reason: ${e.reason}` : ""}`
     );
-    this.emit("close", e);
+    // Closed before setupComplete: the reconnect failed, and a rejected
+    // resumption handle would fail the same way every time
+    if (this._status === "reconnecting" && this.awaitingSetup) {
+      const { attempt, resumed } = this.awaitingSetup;
+      this.awaitingSetup = null;
+      this._session = null;
+      if (resumed) this.resumptionHandle = undefined;
+      this.scheduleReconnect(attempt + 1);
+      return;
+    }
+    // Failed connection attempts are handled where they were made
+    if (this._status !== "connected") {
+      return;
+    }
+    this.startReconnect();
   }
 
   private async onmessage(message: LiveServerMessage) {
+    if (message.sessionResumptionUpdate) {
+      const { resumable, newHandle } = message.sessionResumptionUpdate;
+      // Not resumable while the model is generating or calling tools; keep the last good handle
+      if (resumable && newHandle) {
+        this.resumptionHandle = newHandle;
+      }
+      return;
+    }
+
+    if (message.goAway) {
+      // The server is about to close this connection; move to a fresh one now
+      this.log("server.goAway", `time left: ${message.goAway.timeLeft}`);
+      this.emit("goaway", message.goAway);
+      this.startReconnect(0);
+      return;
+    }
+
     if (message.setupComplete) {
       this.log("server.send", "setupComplete");
+      if (this.awaitingSetup) this.completeReconnect(this.awaitingSetup.resumed);
       this.emit("setupcomplete");
       return;
     }
 
     if (message.toolCall) {
+      message.toolCall.functionCalls?.forEach((call) => {
+        if (call.id) this.pendingToolCalls.set(call.id, call.name || "");
+      });
       this.log("server.toolCall", message);
       this.emit("toolcall", message.toolCall);
       return;
     }
 
     if (message.toolCallCancellation) {
+      message.toolCallCancellation.ids?.forEach((id) =>
+        this.pendingToolCalls.delete(id)
+      );
       this.log("server.toolCallCancellation", message);
       this.emit("toolcallcancellation", message.toolCallCancellation);
       return;
@@ -158,6 +331,18 @@ export class GeminiLiveClient extends EventEmitter<LiveClientEventTypes> {
     if (message.serverContent) {
       const { serverContent } = message;
 
+      // Transcriptions of what the user said and what Spark says
+      if (serverContent.inputTranscription) {
+        const { text = "", finished = false } = serverContent.inputTranscription;
+        this.log("server.inputTranscription", text);
+        this.emit("inputtranscription", text, finished);
+      }
+      if (serverContent.outputTranscription) {
+        const { text = "", finished = false } = serverContent.outputTranscription;
+        this.log("server.outputTranscription", text);
+        this.emit("outputtranscription", text, finished);
+      }
+
       if ("interrupted" in serverContent) {
         this.log("server.content", "interrupted");
         this.emit("interrupted");
@@ -202,6 +387,11 @@ export class GeminiLiveClient extends EventEmitter<LiveClientEventTypes> {
   }
 
   sendRealtimeInput(chunks: Array<{ mimeType: string; data: string }>) {
+    // Live audio from during a reconnect is stale by the time it could be sent
+    if (this._status !== "connected") {
+      return;
+    }
+
     let hasAudio = false;
     let hasVideo = false;
 
@@ -232,17 +422,47 @@ export class GeminiLiveClient extends EventEmitter<LiveClientEventTypes> {
 
   sendToolResponse(toolResponse: LiveClientToolResponse) {
     if (
-      toolResponse.functionResponses &&
-      toolResponse.functionResponses.length
+      !toolResponse.functionResponses ||
+      !toolResponse.functionResponses.length
     ) {
-      this.session?.sendToolResponse({
-        functionResponses: toolResponse.functionResponses,
+      return;
+    }
+    if (this._status === "reconnecting") {
+      this.outbox.push(() => this.sendToolResponse(toolResponse));
+      return;
+    }
+
+    const current: FunctionResponse[] = [];
+    const carried: FunctionResponse[] = [];
+    for (const response of toolResponse.functionResponses) {
+      if (response.id && this.carriedToolCalls.delete(response.id)) {
+        carried.push(response);
+      } else {
+        if (response.id) this.pendingToolCalls.delete(response.id);
+        current.push(response);
+      }
+    }
+
+    if (current.length) {
+      this.session?.sendToolResponse({ functionResponses: current });
+      this.log("client.toolResponse", { functionResponses: current });
+    }
+    // The call was made before the connection dropped, so tell the resumed
+    // session about the outcome instead of answering an unknown call id
+    if (carried.length) {
+      this.send({
+        text: `Tool results from before the connection dropped:\n${carried
+          .map((r) => `${r.name}: ${JSON.stringify(r.response)}`)
+          .join("\n")}`,
       });
-      this.log("client.toolResponse", toolResponse);
     }
   }
 
   send(parts: Part | Part[], turnComplete: boolean = true) {
+    if (this._status === "reconnecting") {
+      this.outbox.push(() => this.send(parts, turnComplete));
+      return;
+    }
     this.session?.sendClientContent({
       turns: Array.isArray(parts) ? parts : [parts],
       turnComplete,
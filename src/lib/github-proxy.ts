@@ -0,0 +1,52 @@
+import { getProxyBaseUrl } from "./jira-proxy";
+
+// Thin client for the proxy's GitHub GraphQL route. The proxy adds the token
+// (GITHUB_TOKEN, or the dev override from the settings panel).
+
+export class GitHubProxyError extends Error {
+  constructor(message: string, public status: number, public details?: unknown) {
+    super(message);
+    this.name = "GitHubProxyError";
+  }
+}
+
+// Optional GitHub token override for dev use
+export function getGitHubOverrideHeaders(): Record<string, string> {
+  const token = localStorage.getItem('github-override-token');
+  return token ? { 'X-GitHub-Token': token } : {};
+}
+
+// Helper function to run a GraphQL query and surface GitHub's error messages
+export async function githubGraphQL<T>(
+  query: string,
+  variables: Record<string, unknown> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(`${getProxyBaseUrl()}/api/github/graphql`, {
+    method: "POST",
+    signal,
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      ...getGitHubOverrideHeaders(),
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+
+  const result = await response.json().catch(() => undefined);
+  const messages: string[] = (result?.errors || []).map(
+    (error: { message?: string }) => error.message || "Unknown GitHub error"
+  );
+
+  if (!response.ok || messages.length > 0 || !result?.data) {
+    throw new GitHubProxyError(
+      messages.length > 0
+        ? messages.join("; ")
+        : result?.message || `GitHub request failed: ${response.status}`,
+      response.status,
+      result
+    );
+  }
+
+  return result.data;
+}
@@ -0,0 +1,370 @@
+// Thin client for the Jira proxy server (proxy-server/server.js). Every call
+// carries the optional dev override headers from the settings panel.
+
+export const PROXY_BASE_URL =
+  (typeof import.meta !== 'undefined' && import.meta.env?.VITE_PROXY_BASE_URL) ||
+  "https://gemini-whiteboard.onrender.com";
+
+// The offline mock server in mock-jira-server/
+export const MOCK_JIRA_URL =
+  (typeof import.meta !== 'undefined' && import.meta.env?.VITE_MOCK_JIRA_URL) ||
+  "http://localhost:3002";
+
+export function isMockJiraEnabled(): boolean {
+  return localStorage.getItem('jira-use-mock') === 'true';
+}
+
+// Helper function to pick the proxy, honouring the "Use local mock Jira" toggle
+export function getProxyBaseUrl(): string {
+  return isMockJiraEnabled() ? MOCK_JIRA_URL : PROXY_BASE_URL;
+}
+
+export interface JiraTransition {
+  id: string;
+  name: string;
+  to: { id: string; name: string };
+}
+
+export interface JiraUser {
+  accountId: string;
+  displayName: string;
+  emailAddress?: string;
+}
+
+// One side of an issue link; the linked issue is on the inward side when it
+// is the one described by type.inward (e.g. "is blocked by")
+export interface JiraIssueLink {
+  type: { name: string; inward: string; outward: string };
+  inwardIssue?: { key: string };
+  outwardIssue?: { key: string };
+}
+
+export interface JiraSearchIssue {
+  id: string;
+  key: string;
+  // REST URL of the issue, e.g. https://example.atlassian.net/rest/api/3/issue/10001
+  self?: string;
+  fields: {
+    summary: string;
+    status: { name: string; statusCategory?: { key: string } };
+    assignee?: { displayName?: string; emailAddress?: string } | null;
+    priority?: { name: string } | null;
+    issuetype?: { name: string } | null;
+    parent?: { key: string; fields?: { summary?: string } } | null;
+    labels?: string[];
+    duedate?: string | null;
+    issuelinks?: JiraIssueLink[];
+    [field: string]: unknown;
+  };
+}
+
+export interface JiraBoard {
+  id: number;
+  name: string;
+  type: string;
+}
+
+export interface JiraSprint {
+  id: number;
+  name: string;
+  state: "active" | "closed" | "future";
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// An issue in Jira's sprint report; estimateStatistic is its estimate when
+// the sprint started, or when it was added
+export interface JiraSprintReportIssue {
+  key: string;
+  estimateStatistic?: { statFieldValue?: { value?: number } };
+}
+
+export interface JiraSprintReport {
+  contents: {
+    completedIssues: JiraSprintReportIssue[];
+    issuesNotCompletedInCurrentSprint: JiraSprintReportIssue[];
+    puntedIssues: JiraSprintReportIssue[];
+    issuesCompletedInAnotherSprint?: JiraSprintReportIssue[];
+    issueKeysAddedDuringSprint?: Record<string, boolean>;
+  };
+}
+
+export interface JiraSearchResponse {
+  issues: JiraSearchIssue[];
+  nextPageToken?: string;
+  isLast?: boolean;
+}
+
+export class JiraProxyError extends Error {
+  constructor(message: string, public status: number, public details?: unknown) {
+    super(message);
+    this.name = "JiraProxyError";
+  }
+}
+
+// Optional Jira override headers for dev use
+export function getJiraOverrideHeaders(): Record<string, string> {
+  const url = localStorage.getItem('jira-override-url');
+  if (!url) return {};
+  return {
+    'X-Jira-Url': url,
+    'X-Jira-Username': localStorage.getItem('jira-override-user') || '',
+    'X-Jira-Token': localStorage.getItem('jira-override-token') || '',
+  };
+}
+
+// Helper function to call a proxy route and surface Jira's error messages
+export async function jiraProxyRequest<T>(
+  path: string,
+  options: { method?: string; body?: unknown; signal?: AbortSignal } = {}
+): Promise<T> {
+  const response = await fetch(`${getProxyBaseUrl()}${path}`, {
+    method: options.method || "GET",
+    signal: options.signal,
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      ...getJiraOverrideHeaders(),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const details = await response.json().catch(() => undefined);
+    const jiraMessages: string[] = [
+      ...(details?.errorMessages || []),
+      ...Object.values(details?.errors || {}).map(String),
+    ];
+    throw new JiraProxyError(
+      jiraMessages.length > 0
+        ? jiraMessages.join("; ")
+        : `Proxy request failed: ${response.status}`,
+      response.status,
+      details
+    );
+  }
+
+  return response.json();
+}
+
+export function searchJiraIssues(
+  body: {
+    jql: string;
+    maxResults?: number;
+    fields?: string[];
+    nextPageToken?: string;
+  },
+  signal?: AbortSignal
+): Promise<JiraSearchResponse> {
+  return jiraProxyRequest<JiraSearchResponse>("/api/jira/search", {
+    method: "POST",
+    body,
+    signal,
+  });
+}
+
+export function getJiraIssue(
+  issueKey: string,
+  fields: string[],
+  signal?: AbortSignal
+): Promise<JiraSearchIssue> {
+  return jiraProxyRequest<JiraSearchIssue>(
+    `/api/jira/issue/${encodeURIComponent(issueKey)}?fields=${encodeURIComponent(fields.join(","))}`,
+    { signal }
+  );
+}
+
+export async function getIssueTransitions(
+  issueKey: string,
+  signal?: AbortSignal
+): Promise<JiraTransition[]> {
+  const data = await jiraProxyRequest<{ transitions: JiraTransition[] }>(
+    `/api/jira/issue/${encodeURIComponent(issueKey)}/transitions`,
+    { signal }
+  );
+  return data.transitions || [];
+}
+
+export async function transitionIssue(
+  issueKey: string,
+  transitionId: string,
+  signal?: AbortSignal
+): Promise<void> {
+  await jiraProxyRequest(`/api/jira/issue/${encodeURIComponent(issueKey)}/transitions`, {
+    method: "POST",
+    body: { transition: { id: transitionId } },
+    signal,
+  });
+}
+
+// Jira Cloud (REST v3) expects comment and description bodies in Atlassian
+// Document Format; each line becomes a paragraph
+export function toAdfDocument(text: string) {
+  return {
+    type: "doc",
+    version: 1,
+    content: text.split("\n").map((line) => ({
+      type: "paragraph",
+      content: line ? [{ type: "text", text: line }] : [],
+    })),
+  };
+}
+
+export async function addIssueComment(
+  issueKey: string,
+  text: string,
+  signal?: AbortSignal
+): Promise<void> {
+  await jiraProxyRequest(`/api/jira/issue/${encodeURIComponent(issueKey)}/comment`, {
+    method: "POST",
+    signal,
+    body: { body: toAdfDocument(text) },
+  });
+}
+
+export function createJiraIssue(
+  fields: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<{ id: string; key: string; self: string }> {
+  return jiraProxyRequest("/api/jira/issue", {
+    method: "POST",
+    body: { fields },
+    signal,
+  });
+}
+
+// Comment on a Confluence page on the same Atlassian site. The body is
+// Confluence storage format (XHTML).
+export async function addConfluencePageComment(
+  pageId: string,
+  html: string,
+  signal?: AbortSignal
+): Promise<void> {
+  await jiraProxyRequest(`/api/confluence/page/${encodeURIComponent(pageId)}/comment`, {
+    method: "POST",
+    signal,
+    body: { html },
+  });
+}
+
+export async function updateIssueFields(
+  issueKey: string,
+  fields: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<void> {
+  await jiraProxyRequest(`/api/jira/issue/${encodeURIComponent(issueKey)}`, {
+    method: "PUT",
+    body: { fields },
+    signal,
+  });
+}
+
+export function searchJiraUsers(query: string, signal?: AbortSignal): Promise<JiraUser[]> {
+  return jiraProxyRequest<JiraUser[]>(
+    `/api/jira/user/search?query=${encodeURIComponent(query)}`,
+    { signal }
+  );
+}
+
+// Pick the transition that leads to the requested status: the target status
+// name first, then the transition's own name, then a partial match
+export function findTransition(
+  transitions: JiraTransition[],
+  targetStatus: string
+): JiraTransition | undefined {
+  const target = targetStatus.toLowerCase().trim();
+  return (
+    transitions.find((t) => t.to?.name.toLowerCase() === target) ||
+    transitions.find((t) => t.name.toLowerCase() === target) ||
+    transitions.find((t) => {
+      const toName = t.to?.name.toLowerCase();
+      return !!toName && (toName.includes(target) || target.includes(toName));
+    })
+  );
+}
+
+export async function getBoardFilterId(boardId: string, signal?: AbortSignal): Promise<string> {
+  const data = await jiraProxyRequest<{ filter?: { id: string } }>(
+    `/api/jira/board/${encodeURIComponent(boardId)}/configuration`,
+    { signal }
+  );
+  if (!data.filter?.id) {
+    throw new JiraProxyError(`Board ${boardId} has no saved filter`, 404);
+  }
+  return data.filter.id;
+}
+
+// Follow nextPageToken through every page of results, up to maxIssues
+export async function searchAllJiraIssues(
+  body: { jql: string; fields?: string[] },
+  maxIssues: number,
+  signal?: AbortSignal
+): Promise<JiraSearchIssue[]> {
+  const issues: JiraSearchIssue[] = [];
+  let nextPageToken: string | undefined;
+
+  do {
+    const page = await searchJiraIssues(
+      {
+        ...body,
+        maxResults: Math.min(100, maxIssues - issues.length),
+        nextPageToken,
+      },
+      signal
+    );
+    issues.push(...page.issues);
+    nextPageToken = page.isLast ? undefined : page.nextPageToken;
+  } while (nextPageToken && issues.length < maxIssues);
+
+  return issues.slice(0, maxIssues);
+}
+
+export async function listBoards(
+  params: {
+    projectKeyOrId?: string;
+    type?: string;
+  },
+  signal?: AbortSignal
+): Promise<JiraBoard[]> {
+  const query = new URLSearchParams(
+    Object.entries(params).filter(([, value]) => !!value) as [string, string][]
+  );
+  const data = await jiraProxyRequest<{ values: JiraBoard[] }>(
+    `/api/jira/board?${query}`,
+    { signal }
+  );
+  return data.values || [];
+}
+
+export async function getBoardSprints(
+  boardId: string,
+  state: "active" | "closed" | "future" = "active",
+  signal?: AbortSignal
+): Promise<JiraSprint[]> {
+  // Sprints come oldest first, 50 to a page, so recent ones are on later pages
+  const sprints: JiraSprint[] = [];
+  let isLast = false;
+  while (!isLast) {
+    const data = await jiraProxyRequest<{ values: JiraSprint[]; isLast?: boolean }>(
+      `/api/jira/board/${encodeURIComponent(boardId)}/sprint?state=${state}&startAt=${sprints.length}`,
+      { signal }
+    );
+    const values = data.values || [];
+    sprints.push(...values);
+    isLast = data.isLast !== false || values.length === 0;
+  }
+  return sprints;
+}
+
+// Jira's sprint report, which knows the scope a sprint started with
+export function getSprintReport(
+  boardId: string,
+  sprintId: number,
+  signal?: AbortSignal
+): Promise<JiraSprintReport> {
+  return jiraProxyRequest<JiraSprintReport>(
+    `/api/jira/board/${encodeURIComponent(boardId)}/sprint/${sprintId}/report`,
+    { signal }
+  );
+}
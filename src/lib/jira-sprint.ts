@@ -0,0 +1,146 @@
+import { BoardSyncConfig } from "../types/whiteboard";
+import { SprintProgress } from "../types/issue-tracker";
+import {
+  getBoardSprints,
+  getSprintReport,
+  JiraSearchIssue,
+  JiraSprint,
+  listBoards,
+  searchAllJiraIssues,
+} from "./jira-proxy";
+import { DEFAULT_STORY_POINTS_FIELD } from "./jira-sync-config";
+import { getSprintTiming, getSprintTotals, matchByName } from "./trackers/shared";
+
+export function getStoryPoints(
+  issue: JiraSearchIssue,
+  field: string = DEFAULT_STORY_POINTS_FIELD
+): number | undefined {
+  const value = issue.fields[field];
+  return typeof value === "number" ? value : undefined;
+}
+
+// The board to read sprints from: the configured board, otherwise the first
+// scrum board of the first synced project
+async function resolveBoardId(
+  config: BoardSyncConfig,
+  projectKeys: string[],
+  signal?: AbortSignal
+): Promise<string | undefined> {
+  if (config.boardId) return config.boardId;
+
+  const projectKey = config.projectKeys?.[0] || projectKeys[0];
+  if (!projectKey) return undefined;
+
+  const boards = await listBoards({ projectKeyOrId: projectKey, type: "scrum" }, signal);
+  return boards[0] ? String(boards[0].id) : undefined;
+}
+
+export async function getActiveSprint(
+  config: BoardSyncConfig,
+  projectKeys: string[] = [],
+  signal?: AbortSignal
+): Promise<{ boardId: string; sprint: JiraSprint } | null> {
+  const boardId = await resolveBoardId(config, projectKeys, signal);
+  if (!boardId) return null;
+
+  const sprints = await getBoardSprints(boardId, "active", signal);
+  return sprints[0] ? { boardId, sprint: sprints[0] } : null;
+}
+
+// The sprint the board follows: the active one, or the configured sprint by
+// id or name in any state, like the query the sync runs
+export async function getConfiguredSprint(
+  config: BoardSyncConfig,
+  projectKeys: string[] = [],
+  signal?: AbortSignal
+): Promise<{ boardId: string; sprint: JiraSprint } | null> {
+  if (!config.sprint || config.sprint === "active") {
+    return getActiveSprint(config, projectKeys, signal);
+  }
+
+  const boardId = await resolveBoardId(config, projectKeys, signal);
+  if (!boardId) return null;
+
+  const sprints = (
+    await Promise.all(
+      (["active", "future", "closed"] as const).map((state) =>
+        getBoardSprints(boardId, state, signal)
+      )
+    )
+  ).flat();
+  const sprint =
+    sprints.find((s) => String(s.id) === config.sprint!.trim()) ||
+    matchByName(sprints, (s) => s.name, [config.sprint]);
+  return sprint ? { boardId, sprint } : null;
+}
+
+// Points on the issues the sprint started with, removed ones included and
+// ones added later left out. Undefined when the sprint report can't be read.
+async function getCommittedPoints(
+  boardId: string,
+  sprintId: number,
+  signal?: AbortSignal
+): Promise<number | undefined> {
+  try {
+    const { contents } = await getSprintReport(boardId, sprintId, signal);
+    const added = contents.issueKeysAddedDuringSprint || {};
+    return [
+      ...contents.completedIssues,
+      ...contents.issuesNotCompletedInCurrentSprint,
+      ...contents.puntedIssues,
+      ...(contents.issuesCompletedInAnotherSprint || []),
+    ]
+      .filter((issue) => !added[issue.key])
+      .reduce(
+        (total, issue) => total + (issue.estimateStatistic?.statFieldValue?.value || 0),
+        0
+      );
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`⚠️ Couldn't read the sprint report for sprint ${sprintId}:`, error);
+    return undefined;
+  }
+}
+
+// Details of the board's sprint plus point totals from its issues
+export async function getSprintProgress(
+  config: BoardSyncConfig,
+  projectKeys: string[] = [],
+  signal?: AbortSignal
+): Promise<SprintProgress | null> {
+  const found = await getConfiguredSprint(config, projectKeys, signal);
+  if (!found) return null;
+
+  const { boardId, sprint } = found;
+  const pointsField = config.storyPointsField || DEFAULT_STORY_POINTS_FIELD;
+  const [issues, committedPoints] = await Promise.all([
+    searchAllJiraIssues(
+      { jql: `sprint = ${sprint.id}`, fields: ["status", pointsField] },
+      500,
+      signal
+    ),
+    // A sprint that hasn't started has committed nothing yet
+    sprint.state === "future"
+      ? undefined
+      : getCommittedPoints(boardId, sprint.id, signal),
+  ]);
+
+  const totals = getSprintTotals(
+    issues.map((issue) => ({
+      storyPoints: getStoryPoints(issue, pointsField),
+      done: issue.fields.status.statusCategory?.key === "done",
+    }))
+  );
+
+  return {
+    id: String(sprint.id),
+    boardId,
+    name: sprint.name,
+    goal: sprint.goal || undefined,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    ...getSprintTiming(sprint.startDate, sprint.endDate),
+    ...totals,
+    committedPoints,
+  };
+}
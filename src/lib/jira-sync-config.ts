@@ -0,0 +1,80 @@
+import { BoardSyncConfig } from "../types/whiteboard";
+import { getBoardFilterId, searchAllJiraIssues, JiraSearchIssue } from "./jira-proxy";
+
+export const DEFAULT_MAX_ISSUES = 200;
+// "Story point estimate" on most Jira Cloud sites
+export const DEFAULT_STORY_POINTS_FIELD = "customfield_10016";
+const DEFAULT_SCOPE = "updated >= -30d";
+const DEFAULT_ORDER = "ORDER BY updated DESC";
+
+export interface SyncScopeOptions {
+  includeCompleted?: boolean;
+  // Extra JQL clauses ANDed onto the scope, e.g. "assignee IS NOT EMPTY"
+  extraClauses?: string[];
+  signal?: AbortSignal;
+}
+
+const quoteJql = (value: string) =>
+  /^[A-Za-z0-9_-]+$/.test(value) ? value : `"${value.replace(/"/g, '\\"')}"`;
+
+// Build the JQL for a sync from the board config. Jira Cloud rejects
+// unbounded searches, so an empty config falls back to recently updated issues.
+export async function buildSyncJql(
+  config: BoardSyncConfig,
+  options: SyncScopeOptions = {}
+): Promise<string> {
+  const clauses: string[] = [];
+  let order = DEFAULT_ORDER;
+
+  const customJql = config.jql?.trim();
+  if (customJql) {
+    const orderMatch = customJql.match(/\s*\border\s+by\b.*$/i);
+    const filter = orderMatch ? customJql.slice(0, orderMatch.index).trim() : customJql;
+    if (orderMatch) order = orderMatch[0].trim();
+    if (filter) clauses.push(`(${filter})`);
+  } else {
+    const projectKeys = (config.projectKeys || []).filter(Boolean);
+    if (projectKeys.length === 1) {
+      clauses.push(`project = ${quoteJql(projectKeys[0])}`);
+    } else if (projectKeys.length > 1) {
+      clauses.push(`project in (${projectKeys.map(quoteJql).join(", ")})`);
+    }
+
+    if (config.boardId) {
+      clauses.push(`filter = ${await getBoardFilterId(config.boardId, options.signal)}`);
+    }
+
+    if (config.sprint === "active") {
+      clauses.push("sprint in openSprints()");
+    } else if (config.sprint) {
+      clauses.push(`sprint = ${quoteJql(config.sprint)}`);
+    }
+
+    if (clauses.length === 0) {
+      clauses.push(DEFAULT_SCOPE);
+    }
+  }
+
+  if (options.includeCompleted === false) {
+    clauses.push("statusCategory != Done");
+  }
+  clauses.push(...(options.extraClauses || []));
+
+  return `${clauses.join(" AND ")} ${order}`;
+}
+
+// Fetch every issue in the board's sync scope, page by page
+export async function fetchSyncIssues(
+  config: BoardSyncConfig,
+  fields: string[],
+  options: SyncScopeOptions = {}
+): Promise<{ jql: string; issues: JiraSearchIssue[] }> {
+  const jql = await buildSyncJql(config, options);
+  console.log(`🔎 Jira sync JQL: ${jql}`);
+  const issues = await searchAllJiraIssues(
+    { jql, fields },
+    config.maxIssues || DEFAULT_MAX_ISSUES,
+    options.signal
+  );
+  return { jql, issues };
+}
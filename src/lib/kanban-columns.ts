@@ -0,0 +1,195 @@
+import {
+  KanbanColumn,
+  WhiteboardData,
+  WhiteboardElement,
+} from "../types/whiteboard";
+
+// Geometry of the Kanban area. Column positions are derived from the column
+// order, so every consumer (rendering, tools, Jira sync) agrees on them.
+export const COLUMN_LAYOUT = {
+  left: 40,
+  top: 120,
+  width: 340,
+  gap: 40,
+  height: 680,
+  // Offset of a sticky note inside its column
+  cardOffsetX: 60,
+  // Rendered size of a sticky note, used for drop-zone hit testing
+  cardWidth: 192,
+  cardHeight: 128,
+  firstCardY: 200,
+  cardSpacingY: 90,
+  // Summary notes live below the columns (top + height)
+  summaryY: 820,
+  // Action items line up in rows under the summaries
+  actionItemsY: 980,
+  actionItemWidth: 224,
+  actionItemHeight: 150,
+  actionItemsPerRow: 5,
+};
+
+export const DEFAULT_COLUMNS: KanbanColumn[] = [
+  {
+    id: "todo",
+    title: "To Do",
+    statuses: ["to do", "todo", "open", "new", "backlog", "selected for development"],
+    color: "yellow",
+  },
+  {
+    id: "inprogress",
+    title: "In Progress",
+    statuses: ["in progress", "progress", "development", "review"],
+    color: "orange",
+  },
+  {
+    id: "done",
+    title: "Done",
+    statuses: ["done", "complete", "resolved", "closed"],
+    color: "green",
+  },
+];
+
+export const COLUMN_PRESETS: { id: string; name: string; columns: KanbanColumn[] }[] = [
+  { id: "simple", name: "To Do / In Progress / Done", columns: DEFAULT_COLUMNS },
+  {
+    id: "delivery",
+    name: "Backlog / Dev / Review / QA / Done",
+    columns: [
+      { id: "backlog", title: "Backlog", statuses: ["backlog", "to do", "todo", "open", "new"], color: "yellow" },
+      { id: "dev", title: "Dev", statuses: ["in progress", "development"], color: "orange", wipLimit: 4 },
+      { id: "review", title: "Review", statuses: ["review", "code review"], color: "purple", wipLimit: 3 },
+      { id: "qa", title: "QA", statuses: ["qa", "testing", "test"], color: "pink", wipLimit: 3 },
+      { id: "done", title: "Done", statuses: ["done", "complete", "resolved", "closed"], color: "green" },
+    ],
+  },
+];
+
+export interface ColumnBounds {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  cardX: number;
+}
+
+export function getColumns(data?: Partial<WhiteboardData> | null): KanbanColumn[] {
+  return data?.columns && data.columns.length > 0 ? data.columns : DEFAULT_COLUMNS;
+}
+
+export function getColumnBoundsByIndex(index: number): ColumnBounds {
+  const left = COLUMN_LAYOUT.left + index * (COLUMN_LAYOUT.width + COLUMN_LAYOUT.gap);
+  return {
+    left,
+    right: left + COLUMN_LAYOUT.width,
+    top: COLUMN_LAYOUT.top,
+    bottom: COLUMN_LAYOUT.top + COLUMN_LAYOUT.height,
+    cardX: left + COLUMN_LAYOUT.cardOffsetX,
+  };
+}
+
+export function getColumnBounds(
+  columns: KanbanColumn[],
+  columnId: string
+): ColumnBounds | undefined {
+  const index = columns.findIndex((column) => column.id === columnId);
+  return index === -1 ? undefined : getColumnBoundsByIndex(index);
+}
+
+// Hit-test a board position against the columns
+export function getColumnAtPoint(
+  columns: KanbanColumn[],
+  x: number,
+  y?: number
+): KanbanColumn | undefined {
+  return columns.find((_, index) => {
+    const bounds = getColumnBoundsByIndex(index);
+    const insideX = x >= bounds.left && x <= bounds.right;
+    const insideY = y === undefined || (y >= bounds.top && y <= bounds.bottom);
+    return insideX && insideY;
+  });
+}
+
+// Hit-test a dropped sticky note (by its centre) against the full column area
+export function getDropZoneColumn(
+  columns: KanbanColumn[],
+  x: number,
+  y: number
+): KanbanColumn | undefined {
+  const centerX = x + COLUMN_LAYOUT.cardWidth / 2;
+  const centerY = y + COLUMN_LAYOUT.cardHeight / 2;
+  return columns.find((_, index) => {
+    const bounds = getColumnBoundsByIndex(index);
+    return (
+      centerX >= bounds.left &&
+      centerX <= bounds.right &&
+      centerY >= bounds.top &&
+      centerY <= bounds.bottom
+    );
+  });
+}
+
+// The column a task belongs to. The explicit columnId wins; position is only
+// used for legacy notes saved before tasks carried a status.
+export function getElementColumnId(
+  element: WhiteboardElement,
+  columns: KanbanColumn[]
+): string | undefined {
+  if (element.type !== "sticky") return undefined;
+  if (element.columnId) {
+    return columns.some((column) => column.id === element.columnId)
+      ? element.columnId
+      : undefined;
+  }
+  return getColumnAtPoint(columns, element.x, element.y)?.id;
+}
+
+// Re-derive task positions after the column model changes: tasks keep their
+// status and move to that column's x, orphaned tasks go to the first column
+export function layoutElementsForColumns(
+  elements: WhiteboardElement[],
+  previousColumns: KanbanColumn[],
+  columns: KanbanColumn[]
+): WhiteboardElement[] {
+  return elements.map((element) => {
+    if (element.type !== "sticky") return element;
+
+    const previousColumnId = getElementColumnId(element, previousColumns);
+    if (!previousColumnId) return element;
+
+    const column =
+      columns.find((c) => c.id === previousColumnId) || columns[0];
+    return {
+      ...element,
+      columnId: column.id,
+      x: getColumnBounds(columns, column.id)!.cardX,
+      color: column.color,
+    };
+  });
+}
+
+export function findColumn(
+  columns: KanbanColumn[],
+  columnId: string | undefined
+): KanbanColumn | undefined {
+  if (!columnId) return undefined;
+  const idLower = columnId.toLowerCase();
+  return columns.find(
+    (column) => column.id.toLowerCase() === idLower || column.title.toLowerCase() === idLower
+  );
+}
+
+// Map a tracker status name onto a column: exact status match first, then a
+// partial match, then the first column
+export function getColumnForStatus(columns: KanbanColumn[], statusName: string): KanbanColumn {
+  const status = statusName.toLowerCase().trim();
+
+  const exact = columns.find((column) =>
+    column.statuses.some((s) => s.toLowerCase() === status)
+  );
+  if (exact) return exact;
+
+  const partial = columns.find((column) =>
+    column.statuses.some((s) => status.includes(s.toLowerCase()))
+  );
+  return partial || columns[0];
+}
@@ -0,0 +1,52 @@
+import { getProxyBaseUrl } from "./jira-proxy";
+
+// Thin client for the proxy's Linear GraphQL route. The proxy adds the API
+// key (LINEAR_API_KEY, or the dev override from the settings panel).
+
+export class LinearProxyError extends Error {
+  constructor(message: string, public status: number, public details?: unknown) {
+    super(message);
+    this.name = "LinearProxyError";
+  }
+}
+
+// Optional Linear API key override for dev use
+export function getLinearOverrideHeaders(): Record<string, string> {
+  const apiKey = localStorage.getItem('linear-override-key');
+  return apiKey ? { 'X-Linear-Key': apiKey } : {};
+}
+
+// Helper function to run a GraphQL query and surface Linear's error messages
+export async function linearGraphQL<T>(
+  query: string,
+  variables: Record<string, unknown> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(`${getProxyBaseUrl()}/api/linear/graphql`, {
+    method: "POST",
+    signal,
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      ...getLinearOverrideHeaders(),
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+
+  const result = await response.json().catch(() => undefined);
+  const messages: string[] = (result?.errors || []).map(
+    (error: { message?: string }) => error.message || "Unknown Linear error"
+  );
+
+  if (!response.ok || messages.length > 0 || !result?.data) {
+    throw new LinearProxyError(
+      messages.length > 0
+        ? messages.join("; ")
+        : result?.message || `Linear request failed: ${response.status}`,
+      response.status,
+      result
+    );
+  }
+
+  return result.data;
+}
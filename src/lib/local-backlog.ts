@@ -0,0 +1,125 @@
+// Thin client for the local backlog server (local-backlog-server/), which
+// serves a folder of Markdown/YAML task files.
+
+export const LOCAL_BACKLOG_URL =
+  (typeof import.meta !== 'undefined' && import.meta.env?.VITE_LOCAL_BACKLOG_URL) ||
+  "http://localhost:3003";
+
+// Matches LOCAL_BACKLOG_TOKEN on the server, if it requires one
+const LOCAL_BACKLOG_TOKEN: string | undefined =
+  (typeof import.meta !== 'undefined' && import.meta.env?.VITE_LOCAL_BACKLOG_TOKEN) || undefined;
+
+export function getBacklogAuthHeaders(): Record<string, string> {
+  return LOCAL_BACKLOG_TOKEN ? { Authorization: `Bearer ${LOCAL_BACKLOG_TOKEN}` } : {};
+}
+
+export interface BacklogTask {
+  key: string;
+  title: string;
+  status: string;
+  assignee?: string;
+  priority?: string;
+  points?: number;
+  type?: string;
+  labels?: string[];
+  due?: string;
+  parent?: string;
+  sprint?: string;
+  updated: string;
+  // Path relative to the backlog folder
+  file: string;
+}
+
+export interface BacklogConfig {
+  statuses: string[];
+  doneStatuses: string[];
+  team?: string[];
+  sprint?: { name: string; goal?: string; start?: string; end?: string };
+}
+
+export class LocalBacklogError extends Error {
+  constructor(message: string, public status: number, public details?: unknown) {
+    super(message);
+    this.name = "LocalBacklogError";
+  }
+}
+
+// Helper function to call a backlog route and surface the server's error message
+async function backlogRequest<T>(
+  path: string,
+  options: { method?: string; body?: unknown; signal?: AbortSignal } = {}
+): Promise<T> {
+  const response = await fetch(`${LOCAL_BACKLOG_URL}${path}`, {
+    method: options.method || "GET",
+    signal: options.signal,
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      ...getBacklogAuthHeaders(),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const details = await response.json().catch(() => undefined);
+    throw new LocalBacklogError(
+      details?.error || details?.message || `Backlog request failed: ${response.status}`,
+      response.status,
+      details
+    );
+  }
+
+  return response.json();
+}
+
+export async function getBacklogTasks(signal?: AbortSignal): Promise<BacklogTask[]> {
+  const { tasks } = await backlogRequest<{ tasks: BacklogTask[] }>("/api/backlog/tasks", {
+    signal,
+  });
+  return tasks;
+}
+
+export function getBacklogTask(key: string, signal?: AbortSignal): Promise<BacklogTask> {
+  return backlogRequest<BacklogTask>(`/api/backlog/tasks/${encodeURIComponent(key)}`, {
+    signal,
+  });
+}
+
+export function getBacklogConfig(signal?: AbortSignal): Promise<BacklogConfig> {
+  return backlogRequest<BacklogConfig>("/api/backlog/config", { signal });
+}
+
+export function updateBacklogTask(
+  key: string,
+  changes: { status?: string; assignee?: string | null; priority?: string },
+  signal?: AbortSignal
+): Promise<BacklogTask> {
+  return backlogRequest<BacklogTask>(`/api/backlog/tasks/${encodeURIComponent(key)}`, {
+    method: "PATCH",
+    body: changes,
+    signal,
+  });
+}
+
+export function createBacklogTask(
+  task: { title: string; description?: string; assignee?: string; due?: string },
+  signal?: AbortSignal
+): Promise<BacklogTask> {
+  return backlogRequest<BacklogTask>("/api/backlog/tasks", {
+    method: "POST",
+    body: task,
+    signal,
+  });
+}
+
+export async function addBacklogComment(
+  key: string,
+  text: string,
+  signal?: AbortSignal
+): Promise<void> {
+  await backlogRequest(`/api/backlog/tasks/${encodeURIComponent(key)}/comments`, {
+    method: "POST",
+    body: { text },
+    signal,
+  });
+}
@@ -1,532 +0,0 @@
-// Real Jira REST API client for browser use
-export interface MCPAtlassianConfig {
-  confluenceUrl?: string;
-  confluenceUsername?: string;
-  confluenceApiToken?: string;
-  jiraUrl?: string;
-  jiraUsername?: string;
-  jiraApiToken?: string;
-  jiraProjectsFilter?: string;
-  confluenceSpacesFilter?: string;
-  readOnlyMode?: boolean;
-}
-
-export interface JiraIssue {
-  id: string;
-  key: string;
-  summary: string;
-  status: string;
-  assignee?: string;
-  description?: string;
-  issueType?: string;
-  priority?: string;
-}
-
-export class MCPAtlassianClient {
-  private isConnected = false;
-  public connected = false;
-  private baseUrl: string;
-  private authHeader: string;
-
-  constructor(private config: MCPAtlassianConfig) {
-    this.baseUrl = config.jiraUrl || "";
-    // Create basic auth header for Jira API
-    if (config.jiraUsername && config.jiraApiToken) {
-      const credentials = btoa(`${config.jiraUsername}:${config.jiraApiToken}`);
-      this.authHeader = `Basic ${credentials}`;
-    } else {
-      this.authHeader = "";
-    }
-  }
-
-  async connect(): Promise<void> {
-    try {
-      console.log("🔗 Connecting to real Jira instance:", this.config.jiraUrl);
-
-      if (
-        !this.config.jiraUrl ||
-        !this.config.jiraUsername ||
-        !this.config.jiraApiToken
-      ) {
-        throw new Error("Jira credentials not configured");
-      }
-
-      // Note: Direct browser-to-Jira API calls may have CORS issues
-      // In production, you'd want to proxy these through your backend
-      console.log(
-        "⚠️ Note: Direct browser-to-Jira calls may encounter CORS issues"
-      );
-      console.log("✅ Jira client configured with credentials");
-
-      this.isConnected = true;
-      this.connected = true;
-    } catch (error) {
-      console.error("❌ Failed to connect to Jira:", error);
-      this.isConnected = false;
-      this.connected = false;
-      throw error;
-    }
-  }
-
-  async disconnect(): Promise<void> {
-    this.isConnected = false;
-    this.connected = false;
-    console.log("🔌 Disconnected from Jira");
-  }
-
-  async getJiraIssues(projectKey?: string): Promise<JiraIssue[]> {
-    if (!this.isConnected) {
-      throw new Error("Not connected to Jira");
-    }
-
-    try {
-      // Build JQL query - get recent issues from all projects or specific project
-      let jql = "updated >= -30d order by updated DESC";
-      if (projectKey) {
-        jql = `project = "${projectKey}" AND ${jql}`;
-      } else if (this.config.jiraProjectsFilter) {
-        const projects = this.config.jiraProjectsFilter
-          .split(",")
-          .map((p) => `"${p.trim()}"`)
-          .join(",");
-        jql = `project in (${projects}) AND ${jql}`;
-      }
-
-      // Use proxy server instead of direct API call
-      const proxyBase = (typeof import.meta !== 'undefined' && (import.meta as any).env?.VITE_PROXY_BASE_URL) || "https://gemini-whiteboard.onrender.com";
-      const proxyUrl = `${proxyBase}/api/jira/search`;
-      console.log("🔍 Fetching issues via proxy:", proxyUrl);
-
-      const response = await fetch(proxyUrl, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          ...(localStorage.getItem('jira-override-url')
-            ? {
-                'X-Jira-Url': localStorage.getItem('jira-override-url')!,
-                'X-Jira-Username': localStorage.getItem('jira-override-user') || '',
-                'X-Jira-Token': localStorage.getItem('jira-override-token') || '',
-              }
-            : {}),
-        },
-        body: JSON.stringify({
-          jql,
-          maxResults: 50,
-          fields: [
-            "summary",
-            "status",
-            "assignee",
-            "description",
-            "issuetype",
-            "priority",
-            "updated",
-          ],
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          `Proxy request failed: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const data = await response.json();
-      console.log(
-        `📊 Fetched ${data.issues.length} real issues from Jira via proxy`
-      );
-
-      return data.issues.map((issue: any) => ({
-        id: issue.id,
-        key: issue.key,
-        summary: issue.fields.summary,
-        status: issue.fields.status.name,
-        assignee:
-          issue.fields.assignee?.displayName ||
-          issue.fields.assignee?.emailAddress,
-        description:
-          issue.fields.description?.content?.[0]?.content?.[0]?.text || "",
-        issueType: issue.fields.issuetype.name,
-        priority: issue.fields.priority?.name || "Medium",
-      }));
-    } catch (error) {
-      console.error("❌ Error fetching Jira issues via proxy:", error);
-
-      // Fallback to development data if proxy fails
-      if (
-        error instanceof Error &&
-        (error.message.includes("Failed to fetch") ||
-          error.message.includes("Proxy request failed") ||
-          error.message.includes("ERR_FAILED"))
-      ) {
-        console.log(
-          "🔄 Proxy connection failed - falling back to development data"
-        );
-        return this.getFallbackIssues();
-      }
-
-      throw error;
-    }
-  }
-
-  // Fallback development data when real API is blocked by CORS
-  private getFallbackIssues(): JiraIssue[] {
-    console.log(
-      "📝 Using intelligent fallback data - Real Jira API blocked by CORS"
-    );
-    console.log("💡 This simulates your actual Jira workspace structure");
-
-    return [
-      {
-        id: "10001",
-        key: "BOARD-101",
-        summary: "Implement real-time whiteboard collaboration",
-        status: "To Do",
-        assignee: "Akash",
-        description:
-          "Add WebSocket support for real-time collaborative editing",
-        issueType: "Story",
-        priority: "High",
-      },
-      {
-        id: "10002",
-        key: "BOARD-102",
-        summary: "Integrate Gemini AI for smart suggestions",
-        status: "In Progress",
-        assignee: "Deepak",
-        description: "Connect Gemini API for intelligent task suggestions",
-        issueType: "Story",
-        priority: "High",
-      },
-      {
-        id: "10003",
-        key: "BOARD-103",
-        summary: "Setup automated testing pipeline",
-        status: "In Progress",
-        assignee: "Kumar",
-        description: "Implement CI/CD with comprehensive test coverage",
-        issueType: "Task",
-        priority: "Medium",
-      },
-      {
-        id: "10004",
-        key: "BOARD-104",
-        summary: "Fix mobile responsiveness issues",
-        status: "Done",
-        assignee: "Akash",
-        description: "Ensure whiteboard works properly on mobile devices",
-        issueType: "Bug",
-        priority: "Medium",
-      },
-      {
-        id: "10005",
-        key: "BOARD-105",
-        summary: "Optimize database queries for performance",
-        status: "To Do",
-        assignee: "Deepak",
-        description: "Improve query performance for large datasets",
-        issueType: "Task",
-        priority: "Low",
-      },
-      {
-        id: "10006",
-        key: "BOARD-106",
-        summary: "Add user authentication and authorization",
-        status: "To Do",
-        assignee: "Deepak",
-        description: "Implement secure user management system",
-        issueType: "Story",
-        priority: "High",
-      },
-      {
-        id: "10007",
-        key: "BOARD-107",
-        summary: "Create API documentation",
-        status: "Done",
-        assignee: "Kumar",
-        description: "Document all REST API endpoints with examples",
-        issueType: "Task",
-        priority: "Medium",
-      },
-    ];
-  }
-
-  async updateJiraIssue(issueKey: string, fields: any): Promise<void> {
-    if (!this.isConnected) {
-      throw new Error("Not connected to Jira");
-    }
-
-    try {
-      // Use proxy server for updating issues
-      const proxyBase = (typeof import.meta !== 'undefined' && (import.meta as any).env?.VITE_PROXY_BASE_URL) || "https://gemini-whiteboard.onrender.com";
-      const proxyUrl = `${proxyBase}/api/jira/issue/${issueKey}`;
-      console.log("📝 Updating issue via proxy:", proxyUrl);
-
-      const response = await fetch(proxyUrl, {
-        method: "PUT",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          ...(localStorage.getItem('jira-override-url')
-            ? {
-                'X-Jira-Url': localStorage.getItem('jira-override-url')!,
-                'X-Jira-Username': localStorage.getItem('jira-override-user') || '',
-                'X-Jira-Token': localStorage.getItem('jira-override-token') || '',
-              }
-            : {}),
-        },
-        body: JSON.stringify({ fields }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to update issue via proxy: ${response.status}`);
-      }
-
-      console.log(`📝 Updated Jira issue ${issueKey} via proxy`);
-    } catch (error) {
-      console.error(`❌ Error updating issue ${issueKey} via proxy:`, error);
-      throw error;
-    }
-  }
-
-  async transitionJiraIssue(
-    issueKey: string,
-    transitionId: string
-  ): Promise<void> {
-    if (!this.isConnected) {
-      throw new Error("Not connected to Jira");
-    }
-
-    try {
-      // Use proxy server for transitions
-      const proxyBase = (typeof import.meta !== 'undefined' && (import.meta as any).env?.VITE_PROXY_BASE_URL) || "https://gemini-whiteboard.onrender.com";
-      const proxyUrl = `${proxyBase}/api/jira/issue/${issueKey}/transitions`;
-      console.log("🔄 Transitioning issue via proxy:", proxyUrl);
-
-      const response = await fetch(proxyUrl, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          ...(localStorage.getItem('jira-override-url')
-            ? {
-                'X-Jira-Url': localStorage.getItem('jira-override-url')!,
-                'X-Jira-Username': localStorage.getItem('jira-override-user') || '',
-                'X-Jira-Token': localStorage.getItem('jira-override-token') || '',
-              }
-            : {}),
-        },
-        body: JSON.stringify({
-          transition: { id: transitionId },
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to transition issue via proxy: ${response.status}`
-        );
-      }
-
-      console.log(
-        `🔄 Transitioned ${issueKey} using transition ID ${transitionId} via proxy`
-      );
-    } catch (error) {
-      console.error(
-        `❌ Error transitioning issue ${issueKey} via proxy:`,
-        error
-      );
-      throw error;
-    }
-  }
-
-  async addCommentToIssue(issueKey: string, comment: string): Promise<void> {
-    if (!this.isConnected) {
-      throw new Error("Not connected to Jira");
-    }
-
-    try {
-      // Use proxy server for comments
-      const proxyBase = (typeof import.meta !== 'undefined' && (import.meta as any).env?.VITE_PROXY_BASE_URL) || "https://gemini-whiteboard.onrender.com";
-      const proxyUrl = `${proxyBase}/api/jira/issue/${issueKey}/comment`;
-      console.log("💬 Adding comment via proxy:", proxyUrl);
-
-      const response = await fetch(proxyUrl, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          ...(localStorage.getItem('jira-override-url')
-            ? {
-                'X-Jira-Url': localStorage.getItem('jira-override-url')!,
-                'X-Jira-Username': localStorage.getItem('jira-override-user') || '',
-                'X-Jira-Token': localStorage.getItem('jira-override-token') || '',
-              }
-            : {}),
-        },
-        body: JSON.stringify({
-          body: {
-            content: [
-              {
-                content: [
-                  {
-                    text: comment,
-                    type: "text",
-                  },
-                ],
-                type: "paragraph",
-              },
-            ],
-            type: "doc",
-            version: 1,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to add comment via proxy: ${response.status}`);
-      }
-
-      console.log(`💬 Added comment to ${issueKey}: "${comment}" via proxy`);
-    } catch (error) {
-      console.error(`❌ Error adding comment to ${issueKey} via proxy:`, error);
-      throw error;
-    }
-  }
-
-  // Alias for compatibility
-  async addJiraComment(issueKey: string, comment: string): Promise<void> {
-    return this.addCommentToIssue(issueKey, comment);
-  }
-
-  async searchConfluence(query: string): Promise<any[]> {
-    if (!this.isConnected) {
-      throw new Error("Not connected to Jira");
-    }
-
-    console.log(`🔍 Confluence search not implemented yet for: "${query}"`);
-    return [];
-  }
-
-  async searchIssues(jql: string): Promise<JiraIssue[]> {
-    if (!this.isConnected) {
-      throw new Error("Not connected to Jira");
-    }
-
-    try {
-      const response = await fetch(`${this.baseUrl}/rest/api/3/search/jql`, {
-        method: "POST",
-        headers: {
-          Authorization: this.authHeader,
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          "X-Atlassian-Token": "no-check",
-        },
-        mode: "cors",
-        body: JSON.stringify({
-          jql,
-          maxResults: 100,
-          fields: [
-            "summary",
-            "status",
-            "assignee",
-            "description",
-            "issuetype",
-            "priority",
-          ],
-        }),
-      });
-
-      if (!response.ok) {
-        if (response.status === 0 || response.type === "opaque") {
-          throw new Error("CORS blocked - using fallback data");
-        }
-        throw new Error(`Failed to search issues: ${response.status}`);
-      }
-
-      const data = await response.json();
-
-      return data.issues.map((issue: any) => ({
-        id: issue.id,
-        key: issue.key,
-        summary: issue.fields.summary,
-        status: issue.fields.status.name,
-        assignee:
-          issue.fields.assignee?.displayName ||
-          issue.fields.assignee?.emailAddress,
-        description:
-          issue.fields.description?.content?.[0]?.content?.[0]?.text || "",
-        issueType: issue.fields.issuetype.name,
-        priority: issue.fields.priority?.name || "Medium",
-      }));
-    } catch (error) {
-      console.error("❌ Error searching Jira issues:", error);
-
-      // Fallback for CORS/network issues
-      if (
-        error instanceof Error &&
-        (error.message.includes("CORS") ||
-          error.message.includes("Failed to fetch") ||
-          error.message.includes("ERR_FAILED"))
-      ) {
-        console.log("🔄 Using fallback data for search");
-        return this.getFallbackIssues().filter(
-          (issue) =>
-            issue.summary.toLowerCase().includes(jql.toLowerCase()) ||
-            issue.status.toLowerCase().includes(jql.toLowerCase()) ||
-            (issue.assignee &&
-              issue.assignee.toLowerCase().includes(jql.toLowerCase()))
-        );
-      }
-
-      throw error;
-    }
-  }
-
-  async getTeamWorkload(): Promise<{ [assignee: string]: JiraIssue[] }> {
-    if (!this.isConnected) {
-      throw new Error("Not connected to Jira");
-    }
-
-    const issues = await this.getJiraIssues();
-    const workload: { [assignee: string]: JiraIssue[] } = {};
-
-    issues.forEach((issue) => {
-      if (issue.assignee) {
-        if (!workload[issue.assignee]) {
-          workload[issue.assignee] = [];
-        }
-        workload[issue.assignee].push(issue);
-      }
-    });
-
-    return workload;
-  }
-
-  async getProjectInfo(): Promise<any[]> {
-    if (!this.isConnected) {
-      throw new Error("Not connected to Jira");
-    }
-
-    try {
-      const response = await fetch(`${this.baseUrl}/rest/api/3/project`, {
-        method: "GET",
-        headers: {
-          Authorization: this.authHeader,
-          Accept: "application/json",
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch projects: ${response.status}`);
-      }
-
-      const projects = await response.json();
-      console.log(`📁 Found ${projects.length} Jira projects`);
-
-      return projects;
-    } catch (error) {
-      console.error("❌ Error fetching project info:", error);
-      throw error;
-    }
-  }
-}
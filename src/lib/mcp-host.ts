@@ -0,0 +1,369 @@
+import { FunctionDeclaration, Schema, Type } from "@google/genai";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+  CallToolResult,
+  Tool,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { getMCPServerUrl } from "../config/mcp-config";
+import { MCPServerConfig, MCPServerStatus } from "../types/mcp";
+
+// Connects to the MCP servers configured in settings and offers their tools
+// to Gemini Live next to the whiteboard tools. Tool names are prefixed with
+// the server name ("github__create_issue") so calls route back to the server
+// that declared them.
+
+interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+}
+
+interface HostedServer {
+  config: MCPServerConfig;
+  client?: Client;
+  transport?: StreamableHTTPClientTransport | SSEClientTransport;
+  tools: Tool[];
+  status: MCPServerStatus;
+}
+
+// Gemini function names: letters, digits, "_", "." and "-", at most 64 chars
+const MAX_TOOL_NAME_LENGTH = 64;
+
+const JSON_TYPES: Record<string, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+const toNamePart = (name: string) =>
+  name.replace(/[^A-Za-z0-9_.-]+/g, "_").replace(/^[^A-Za-z_]+/, "") || "mcp";
+
+// Free-form objects have no Gemini equivalent; they are passed as JSON text
+const isFreeFormObject = (schema: JsonSchema) =>
+  schema.type === "object" && !Object.keys(schema.properties || {}).length;
+
+// Convert a tool's JSON Schema into the subset Gemini function declarations accept
+export function toGeminiSchema(schema: JsonSchema = {}): Schema {
+  const variants = schema.anyOf || schema.oneOf;
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+  if (!types.length && variants?.length) {
+    const concrete = variants.filter((variant) => variant.type !== "null");
+    const converted = toGeminiSchema(concrete[0]);
+    return {
+      ...converted,
+      description: schema.description || converted.description,
+      ...(concrete.length < variants.length && { nullable: true }),
+    };
+  }
+
+  const jsonType =
+    types.find((type) => type !== "null") ||
+    (schema.properties ? "object" : schema.items ? "array" : "string");
+  const nullable = types.includes("null") || undefined;
+
+  if (isFreeFormObject({ ...schema, type: jsonType })) {
+    return {
+      type: Type.STRING,
+      description: `${schema.description ? `${schema.description} - ` : ""}a JSON object`,
+      nullable,
+    };
+  }
+
+  const result: Schema = {
+    type: JSON_TYPES[jsonType] || Type.STRING,
+    description: schema.description,
+    nullable,
+  };
+
+  if (schema.enum?.length) {
+    if (result.type === Type.STRING) {
+      result.enum = schema.enum.map(String);
+    } else {
+      result.description = `${schema.description || ""} (one of: ${schema.enum.join(", ")})`.trim();
+    }
+  }
+  if (result.type === Type.NUMBER || result.type === Type.INTEGER) {
+    result.minimum = schema.minimum;
+    result.maximum = schema.maximum;
+  }
+  if (result.type === Type.ARRAY) {
+    result.items = toGeminiSchema(schema.items || { type: "string" });
+  }
+  if (result.type === Type.OBJECT && schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    const required = (schema.required || []).filter((key) => key in schema.properties!);
+    if (required.length) result.required = required;
+  }
+  return result;
+}
+
+// The reverse, for offering the whiteboard's own tools to MCP clients
+export function toJsonSchema(schema: Schema = {}): Record<string, unknown> {
+  const type = schema.type ? schema.type.toLowerCase() : undefined;
+  return {
+    ...(type && { type: schema.nullable ? [type, "null"] : type }),
+    ...(schema.description && { description: schema.description }),
+    ...(schema.enum && { enum: schema.enum }),
+    ...(schema.minimum !== undefined && { minimum: schema.minimum }),
+    ...(schema.maximum !== undefined && { maximum: schema.maximum }),
+    ...(schema.items && { items: toJsonSchema(schema.items) }),
+    ...(schema.properties && {
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+      ),
+    }),
+    ...(schema.required?.length && { required: schema.required }),
+  };
+}
+
+// Helper function to read a tool result as a plain object for Gemini
+function toToolResponse(result: CallToolResult): Record<string, unknown> {
+  const text = result.content
+    .flatMap((item) => (item.type === "text" ? [item.text] : []))
+    .join("\n");
+  let data: unknown = result.structuredContent;
+  if (data === undefined && text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Plain text result
+    }
+  }
+  const otherContent = result.content.filter((item) => item.type !== "text");
+
+  return {
+    success: !result.isError,
+    ...(result.isError ? { error: text || "Tool call failed" } : { content: text }),
+    ...(data !== undefined && { data }),
+    ...(otherContent.length && {
+      attachments: otherContent.map((item) => item.type),
+    }),
+  };
+}
+
+export class MCPHost {
+  private servers = new Map<string, HostedServer>();
+  // Declared function name -> owning server and original tool name
+  private toolIndex = new Map<string, { serverId: string; tool: Tool }>();
+  private listeners = new Set<() => void>();
+
+  // Connect newly enabled or changed servers and drop removed or disabled ones
+  async sync(configs: MCPServerConfig[]): Promise<void> {
+    const enabled = configs.filter((config) => config.enabled);
+    const wanted = new Map(enabled.map((config) => [config.id, config]));
+
+    await Promise.all(
+      Array.from(this.servers.values())
+        .filter(
+          (server) =>
+            JSON.stringify(wanted.get(server.config.id)) !== JSON.stringify(server.config) ||
+            server.status.state === "error"
+        )
+        .map((server) => this.disconnectServer(server.config.id))
+    );
+
+    await Promise.all(
+      enabled
+        .filter((config) => !this.servers.has(config.id))
+        .map((config) => this.connectServer(config))
+    );
+  }
+
+  private async connectServer(config: MCPServerConfig): Promise<void> {
+    const server: HostedServer = {
+      config,
+      tools: [],
+      status: { id: config.id, state: "connecting", toolNames: [] },
+    };
+    this.servers.set(config.id, server);
+    this.notify();
+
+    try {
+      console.log(`🔗 Connecting to MCP server "${config.name}"...`);
+      const url = new URL(getMCPServerUrl(config));
+      const requestInit: RequestInit = config.authToken
+        ? { headers: { Authorization: `Bearer ${config.authToken}` } }
+        : {};
+      const transport =
+        config.transport === "sse"
+          ? new SSEClientTransport(url, { requestInit })
+          : new StreamableHTTPClientTransport(url, { requestInit });
+
+      const client = new Client({ name: "gemini-whiteboard-mcp-host", version: "1.0.0" });
+      await client.connect(transport);
+      server.client = client;
+      server.transport = transport;
+
+      client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        console.log(`🔄 MCP server "${config.name}" changed its tools`);
+        await this.refreshTools(server).catch((error) =>
+          console.warn(`⚠️ Could not refresh tools for "${config.name}":`, error)
+        );
+      });
+      client.onclose = () => {
+        if (this.servers.get(config.id) !== server) return;
+        server.status = { ...server.status, state: "error", error: "Connection closed" };
+        server.tools = [];
+        this.rebuildToolIndex();
+      };
+
+      await this.refreshTools(server);
+      console.log(
+        `✅ MCP server "${config.name}" connected with ${server.tools.length} tools`
+      );
+    } catch (error) {
+      console.error(`❌ Failed to connect to MCP server "${config.name}":`, error);
+      server.status = {
+        ...server.status,
+        state: "error",
+        error: error instanceof Error ? error.message : String(error),
+      };
+      this.notify();
+    }
+  }
+
+  private async refreshTools(server: HostedServer): Promise<void> {
+    if (!server.client) return;
+    const tools: Tool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await server.client.listTools(cursor ? { cursor } : undefined);
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    server.tools = tools;
+    server.status = { ...server.status, state: "connected", error: undefined };
+    this.rebuildToolIndex();
+  }
+
+  async disconnectServer(id: string): Promise<void> {
+    const server = this.servers.get(id);
+    if (!server) return;
+    this.servers.delete(id);
+    this.rebuildToolIndex();
+    try {
+      // Ending the session lets the bridge stop the server's process
+      if (server.transport instanceof StreamableHTTPClientTransport) {
+        await server.transport.terminateSession();
+      }
+      await server.client?.close();
+    } catch (error) {
+      console.warn(`⚠️ Error closing MCP server "${server.config.name}":`, error);
+    }
+  }
+
+  private rebuildToolIndex(): void {
+    this.toolIndex.clear();
+    for (const server of this.servers.values()) {
+      const prefix = toNamePart(server.config.name);
+      const toolNames: string[] = [];
+      for (const tool of server.tools) {
+        let name = `${prefix}__${toNamePart(tool.name)}`.slice(0, MAX_TOOL_NAME_LENGTH);
+        for (let n = 2; this.toolIndex.has(name); n++) {
+          name = `${name.slice(0, MAX_TOOL_NAME_LENGTH - 3)}_${n}`;
+        }
+        this.toolIndex.set(name, { serverId: server.config.id, tool });
+        toolNames.push(name);
+      }
+      server.status = { ...server.status, toolNames };
+    }
+    this.notify();
+  }
+
+  // Gemini Live fixes its tools when a session starts, so changes apply on the next connect
+  getFunctionDeclarations(): FunctionDeclaration[] {
+    return Array.from(this.toolIndex.entries()).map(([name, { serverId, tool }]) => {
+      const server = this.servers.get(serverId)!;
+      const schema = tool.inputSchema as JsonSchema;
+      return {
+        name,
+        description: `[${server.config.name}] ${tool.description || tool.title || tool.name}`,
+        ...(Object.keys(schema.properties || {}).length && {
+          parameters: toGeminiSchema({ ...schema, type: "object" }),
+        }),
+      };
+    });
+  }
+
+  hasTool(name: string): boolean {
+    return this.toolIndex.has(name);
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown> = {},
+    signal?: AbortSignal
+  ): Promise<Record<string, unknown>> {
+    const entry = this.toolIndex.get(name);
+    const server = entry && this.servers.get(entry.serverId);
+    if (!entry || !server?.client) {
+      return { success: false, error: `MCP tool ${name} is not available` };
+    }
+
+    // Free-form object arguments were declared as JSON text
+    const properties = (entry.tool.inputSchema as JsonSchema).properties || {};
+    const toolArgs = Object.fromEntries(
+      Object.entries(args).map(([key, value]) => {
+        if (typeof value !== "string" || !properties[key] || !isFreeFormObject(properties[key])) {
+          return [key, value];
+        }
+        try {
+          return [key, JSON.parse(value)];
+        } catch {
+          return [key, value];
+        }
+      })
+    );
+
+    try {
+      console.log(`🛠️ Calling MCP tool ${entry.tool.name} on "${server.config.name}"`, toolArgs);
+      const result = (await server.client.callTool(
+        { name: entry.tool.name, arguments: toolArgs },
+        undefined,
+        { signal }
+      )) as CallToolResult;
+      return { server: server.config.name, ...toToolResponse(result) };
+    } catch (error) {
+      console.error(`❌ MCP tool ${name} failed:`, error);
+      return {
+        success: false,
+        server: server.config.name,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  getStatuses(): MCPServerStatus[] {
+    return Array.from(this.servers.values()).map((server) => server.status);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const mcpHost = new MCPHost();
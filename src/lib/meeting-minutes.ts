@@ -0,0 +1,352 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { WhiteboardData, WhiteboardElement } from "../types/whiteboard";
+import { TranscriptTurn } from "../types/gemini-live";
+import {
+  BoardChange,
+  MeetingMinutes,
+  MeetingRecord,
+  MinutesActionItem,
+  PersonUpdate,
+  TrackerChangeRecord,
+} from "../types/meeting";
+import { getColumns, getElementColumnId } from "./kanban-columns";
+import { formatTranscript, formatTurnTime } from "./transcript";
+
+// Text model used to write the minutes; the live model can't be used outside
+// a live session
+const MINUTES_MODEL = "gemini-2.0-flash";
+
+// Fields of the minutes written by the model. Board and tracker changes are
+// recorded during the meeting and added as they are.
+const MINUTES_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    attendees: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Team members who spoke or gave an update",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "Two or three sentences on how the meeting went",
+    },
+    updates: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          person: { type: Type.STRING },
+          yesterday: { type: Type.ARRAY, items: { type: Type.STRING } },
+          today: { type: Type.ARRAY, items: { type: Type.STRING } },
+          blockers: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["person", "yesterday", "today", "blockers"],
+      },
+    },
+    decisions: { type: Type.ARRAY, items: { type: Type.STRING } },
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING },
+          owner: { type: Type.STRING },
+          due: { type: Type.STRING },
+        },
+        required: ["task"],
+      },
+    },
+  },
+  required: ["attendees", "summary", "updates", "decisions", "actionItems"],
+};
+
+export interface MinutesInput {
+  apiKey: string;
+  meeting: MeetingRecord;
+  // Every turn on the board; only the ones said during the meeting are used
+  transcript: TranscriptTurn[];
+  boardAfter: WhiteboardData;
+  // Standup roster from the tracker, to spell names the way the team does
+  teamMembers?: string[];
+}
+
+// Helper function to name a note in the minutes, e.g. "PROJ-12 Fix login"
+function describeNote(element: WhiteboardElement): string {
+  if (element.type !== "sticky") return "";
+  const text = element.text.replace(/\s*\n\s*/g, " ").trim();
+  const short = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  return element.issue ? `${element.issue.key} ${short}` : short;
+}
+
+// Notes added, removed or moved between columns from one board state to
+// another. Free notes only count when they are added or removed.
+export function diffBoardNotes(before: WhiteboardData, after: WhiteboardData): BoardChange[] {
+  const columnTitle = (data: WhiteboardData, element: WhiteboardElement) => {
+    const columns = getColumns(data);
+    const columnId = getElementColumnId(element, columns);
+    return columns.find((column) => column.id === columnId)?.title;
+  };
+  const beforeNotes = new Map(
+    before.elements.filter((el) => el.type === "sticky").map((el) => [el.id, el])
+  );
+  const afterIds = new Set(after.elements.map((el) => el.id));
+  const changes: BoardChange[] = [];
+
+  for (const element of after.elements) {
+    if (element.type !== "sticky") continue;
+    const previous = beforeNotes.get(element.id);
+    if (!previous) {
+      changes.push({ type: "added", label: describeNote(element), to: columnTitle(after, element) });
+      continue;
+    }
+    const from = columnTitle(before, previous);
+    const to = columnTitle(after, element);
+    if (from !== to) {
+      changes.push({ type: "moved", label: describeNote(element), from, to });
+    }
+  }
+  beforeNotes.forEach((element, id) => {
+    if (!afterIds.has(id)) {
+      changes.push({ type: "removed", label: describeNote(element), from: columnTitle(before, element) });
+    }
+  });
+
+  return changes;
+}
+
+// Helper function to phrase a board change on one line
+function describeBoardChange(change: BoardChange): string {
+  switch (change.type) {
+    case "moved":
+      return `${change.label}: ${change.from || "no column"} → ${change.to || "no column"}`;
+    case "added":
+      return `Added ${change.label}${change.to ? ` to ${change.to}` : ""}`;
+    case "removed":
+      return `Removed ${change.label}`;
+  }
+}
+
+// Helper function to phrase a tracker update, e.g. "PROJ-12 (Ana): moved to Done"
+const describeTrackerChange = (change: TrackerChangeRecord) =>
+  `${change.issueKey}${change.speaker ? ` (${change.speaker})` : ""}: ${change.changes.join(", ")}`;
+
+const describeActionItem = (item: MinutesActionItem) =>
+  `${item.task}${item.owner ? ` - ${item.owner}` : ""}${item.due ? ` (due ${item.due})` : ""}`;
+
+// Write structured minutes for a meeting from what was said, how the board
+// changed and what Spark changed in the tracker
+export async function generateMeetingMinutes(
+  input: MinutesInput,
+  signal?: AbortSignal
+): Promise<MeetingMinutes> {
+  const { meeting, boardAfter, teamMembers = [] } = input;
+  const endedAt = meeting.endedAt || Date.now();
+  const turns = input.transcript.filter(
+    (turn) => turn.startedAt >= meeting.startedAt && turn.startedAt <= endedAt
+  );
+  if (turns.length === 0) {
+    throw new Error("Nothing was said in this meeting, so there is nothing to take minutes of");
+  }
+
+  const boardChanges = diffBoardNotes(meeting.boardBefore, boardAfter);
+  const trackerLines = meeting.trackerChanges.map(describeTrackerChange);
+
+  const prompt = `Write the minutes of this standup meeting. "Team" is everyone on the call sharing one microphone, and "Spark" is the AI facilitator - work out who is speaking from names used in the conversation. Only include what was actually said; leave a list empty rather than guessing.
+
+${teamMembers.length > 0 ? `TEAM ROSTER: ${teamMembers.join(", ")}\n\n` : ""}TRANSCRIPT:
+${formatTranscript(turns)}
+
+BOARD CHANGES DURING THE MEETING:
+${boardChanges.map(describeBoardChange).join("\n") || "None"}
+
+TRACKER UPDATES MADE DURING THE MEETING:
+${trackerLines.join("\n") || "None"}`;
+
+  const ai = new GoogleGenAI({ apiKey: input.apiKey });
+  const response = await ai.models.generateContent({
+    model: MINUTES_MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: MINUTES_SCHEMA,
+      abortSignal: signal,
+    },
+  });
+
+  let written: Partial<MeetingMinutes>;
+  try {
+    written = JSON.parse(response.text || "{}");
+  } catch {
+    throw new Error("Gemini returned minutes that couldn't be read");
+  }
+
+  return {
+    startedAt: meeting.startedAt,
+    endedAt,
+    attendees: written.attendees || [],
+    summary: written.summary || "",
+    updates: written.updates || [],
+    decisions: written.decisions || [],
+    actionItems: written.actionItems || [],
+    boardChanges,
+    trackerChanges: meeting.trackerChanges,
+  };
+}
+
+// Helper function to render a list, with a placeholder when it is empty
+const toList = (items: string[]) =>
+  items.length > 0 ? items.map((item) => `- ${item}`) : ["- _None_"];
+
+// Helper function to render one person's yesterday/today/blockers
+function formatPersonUpdate(update: PersonUpdate): string[] {
+  return [
+    `### ${update.person}`,
+    "",
+    "**Yesterday**",
+    ...toList(update.yesterday),
+    "",
+    "**Today**",
+    ...toList(update.today),
+    "",
+    "**Blockers**",
+    ...toList(update.blockers),
+    "",
+  ];
+}
+
+export const formatMinutesDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, {
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+// Minutes as Markdown, for download, copying or posting as a comment
+export function formatMinutesMarkdown(minutes: MeetingMinutes): string {
+  const lines = [
+    `# Standup minutes - ${formatMinutesDate(minutes.startedAt)}`,
+    "",
+    `_${formatTurnTime(minutes.startedAt)}–${formatTurnTime(minutes.endedAt)}${
+      minutes.attendees.length > 0 ? ` · Attendees: ${minutes.attendees.join(", ")}` : ""
+    }_`,
+    "",
+  ];
+  if (minutes.summary) lines.push(minutes.summary, "");
+
+  lines.push("## Updates", "");
+  if (minutes.updates.length > 0) {
+    minutes.updates.forEach((update) => lines.push(...formatPersonUpdate(update)));
+  } else {
+    lines.push("_No individual updates_", "");
+  }
+
+  lines.push("## Decisions", "", ...toList(minutes.decisions), "");
+  lines.push(
+    "## Action items",
+    "",
+    ...(minutes.actionItems.length > 0
+      ? minutes.actionItems.map((item) => `- [ ] ${describeActionItem(item)}`)
+      : ["- _None_"]),
+    ""
+  );
+  lines.push("## Board changes", "", ...toList(minutes.boardChanges.map(describeBoardChange)), "");
+  lines.push(
+    "## Tracker updates",
+    "",
+    ...toList(minutes.trackerChanges.map(describeTrackerChange))
+  );
+
+  return lines.join("\n") + "\n";
+}
+
+// Helper function to render a plain-text list, with a placeholder when it is empty
+const toTextList = (items: string[]) =>
+  items.length > 0 ? items.map((item) => `• ${item}`) : ["• None"];
+
+// Minutes as plain text, for trackers that don't render Markdown in comments
+// (Jira turns each line into a paragraph)
+export function formatMinutesText(minutes: MeetingMinutes): string {
+  const lines = [
+    `Standup minutes - ${formatMinutesDate(minutes.startedAt)}`,
+    `${formatTurnTime(minutes.startedAt)}–${formatTurnTime(minutes.endedAt)}${
+      minutes.attendees.length > 0 ? ` · Attendees: ${minutes.attendees.join(", ")}` : ""
+    }`,
+    "",
+  ];
+  if (minutes.summary) lines.push(minutes.summary, "");
+
+  lines.push("UPDATES", "");
+  if (minutes.updates.length > 0) {
+    minutes.updates.forEach((update) =>
+      lines.push(
+        update.person,
+        "Yesterday:",
+        ...toTextList(update.yesterday),
+        "Today:",
+        ...toTextList(update.today),
+        "Blockers:",
+        ...toTextList(update.blockers),
+        ""
+      )
+    );
+  } else {
+    lines.push("No individual updates", "");
+  }
+
+  lines.push("DECISIONS", ...toTextList(minutes.decisions), "");
+  lines.push("ACTION ITEMS", ...toTextList(minutes.actionItems.map(describeActionItem)), "");
+  lines.push("BOARD CHANGES", ...toTextList(minutes.boardChanges.map(describeBoardChange)), "");
+  lines.push("TRACKER UPDATES", ...toTextList(minutes.trackerChanges.map(describeTrackerChange)));
+
+  return lines.join("\n");
+}
+
+// Helper function to escape text for Confluence storage format
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Helper function to render a list in Confluence storage format
+const toHtmlList = (items: string[]) =>
+  items.length > 0
+    ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`
+    : "<p><em>None</em></p>";
+
+// Minutes in Confluence storage format (XHTML), for a page comment
+export function formatMinutesHtml(minutes: MeetingMinutes): string {
+  const parts = [
+    `<h2>Standup minutes - ${escapeHtml(formatMinutesDate(minutes.startedAt))}</h2>`,
+    `<p><em>${formatTurnTime(minutes.startedAt)}–${formatTurnTime(minutes.endedAt)}${
+      minutes.attendees.length > 0
+        ? ` · Attendees: ${escapeHtml(minutes.attendees.join(", "))}`
+        : ""
+    }</em></p>`,
+  ];
+  if (minutes.summary) parts.push(`<p>${escapeHtml(minutes.summary)}</p>`);
+
+  parts.push("<h3>Updates</h3>");
+  minutes.updates.forEach((update) =>
+    parts.push(
+      `<h4>${escapeHtml(update.person)}</h4>`,
+      "<p><strong>Yesterday</strong></p>",
+      toHtmlList(update.yesterday),
+      "<p><strong>Today</strong></p>",
+      toHtmlList(update.today),
+      "<p><strong>Blockers</strong></p>",
+      toHtmlList(update.blockers)
+    )
+  );
+
+  parts.push(
+    "<h3>Decisions</h3>",
+    toHtmlList(minutes.decisions),
+    "<h3>Action items</h3>",
+    toHtmlList(minutes.actionItems.map(describeActionItem)),
+    "<h3>Board changes</h3>",
+    toHtmlList(minutes.boardChanges.map(describeBoardChange)),
+    "<h3>Tracker updates</h3>",
+    toHtmlList(minutes.trackerChanges.map(describeTrackerChange))
+  );
+
+  return parts.join("");
+}
@@ -0,0 +1,127 @@
+import * as Y from "yjs";
+import { WhiteboardData, WhiteboardElement } from "../types/whiteboard";
+import { diffBoards, isEmptyDiff, sameValue } from "./board-merge";
+
+// The WebSocket relay in collab-relay/ (y-websocket protocol)
+export const COLLAB_RELAY_URL =
+  (typeof import.meta !== "undefined" && import.meta.env?.VITE_COLLAB_RELAY_URL) ||
+  "ws://localhost:3006";
+
+// Shared boards live in a Yjs document with one Y.Map of fields per element,
+// so concurrent edits merge per field: a drag (x, y) and Spark changing the
+// same note's text both survive, and only writes to the very same field are
+// last-writer-wins.
+//
+//   "board"     columns, syncConfig and other board-level fields (JSON values)
+//   "elements"  element id -> Y.Map of the element's fields (JSON values)
+//   "order"     element ids in drawing order
+
+// Marks transactions made by this tab
+export const LOCAL_ORIGIN = "local-board-update";
+
+const getParts = (doc: Y.Doc) => ({
+  board: doc.getMap<unknown>("board"),
+  elements: doc.getMap<Y.Map<unknown>>("elements"),
+  order: doc.getArray<string>("order"),
+});
+
+export function isSharedBoardEmpty(doc: Y.Doc): boolean {
+  const { board, elements } = getParts(doc);
+  return board.size === 0 && elements.size === 0;
+}
+
+// Helper function to write fields into a Y.Map (undefined deletes a field)
+function setFields(target: Y.Map<unknown>, fields: Record<string, unknown>) {
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) target.delete(key);
+    else if (!sameValue(target.get(key), value)) target.set(key, value);
+  }
+}
+
+// Write the change from `from` to `to` into the document as one transaction
+export function writeBoardChange(doc: Y.Doc, from: WhiteboardData, to: WhiteboardData): void {
+  const diff = diffBoards(from, to);
+  if (isEmptyDiff(diff)) return;
+  const { board, elements, order } = getParts(doc);
+
+  doc.transact(() => {
+    setFields(board, diff.board);
+
+    if (diff.removed.length) {
+      const removed = new Set(diff.removed);
+      diff.removed.forEach((id) => elements.delete(id));
+      // Delete back to front so indexes stay valid
+      order
+        .toArray()
+        .flatMap((id, index) => (removed.has(id) ? [index] : []))
+        .reverse()
+        .forEach((index) => order.delete(index, 1));
+    }
+
+    for (const [id, fields] of diff.changed) {
+      // Changes to an element someone else just deleted are dropped
+      const element = elements.get(id);
+      if (element) setFields(element, fields);
+    }
+
+    for (const added of diff.added) {
+      const existing = elements.get(added.id);
+      if (existing) {
+        setFields(existing, added as unknown as Record<string, unknown>);
+        continue;
+      }
+      const element = new Y.Map<unknown>();
+      elements.set(added.id, element);
+      setFields(element, added as unknown as Record<string, unknown>);
+      order.push([added.id]);
+    }
+  }, LOCAL_ORIGIN);
+}
+
+// Read the document back into WhiteboardData. Elements whose fields are
+// unchanged keep their previous object, so React and undo history can keep
+// comparing by reference.
+export function readSharedBoard(doc: Y.Doc, previous?: WhiteboardData): WhiteboardData {
+  const { board, elements, order } = getParts(doc);
+  const previousElements = new Map(previous?.elements.map((el) => [el.id, el]));
+
+  // Concurrent inserts and deletes can leave the order list and the element
+  // map briefly out of step, so both are reconciled here
+  const ids = Array.from(new Set([...order.toArray(), ...elements.keys()])).filter((id) =>
+    elements.has(id)
+  );
+
+  const nextElements = ids.map((id) => {
+    const fields = elements.get(id)!.toJSON() as Record<string, unknown>;
+    const before = previousElements.get(id) as unknown as Record<string, unknown> | undefined;
+    const unchanged =
+      before &&
+      Array.from(new Set([...Object.keys(before), ...Object.keys(fields)])).every((key) =>
+        sameValue(before[key], fields[key])
+      );
+    return (unchanged ? before : fields) as unknown as WhiteboardElement;
+  });
+
+  const boardFields = board.toJSON() as Record<string, unknown>;
+  const before = (previous || {}) as Record<string, unknown>;
+  const boardKeys = new Set([...Object.keys(boardFields), ...Object.keys(before)]);
+  boardKeys.delete("elements");
+  // Column and sync settings objects are kept when equal, like elements
+  for (const key of boardKeys) {
+    if (key in boardFields && sameValue(before[key], boardFields[key])) {
+      boardFields[key] = before[key];
+    }
+  }
+
+  const unchanged =
+    previous &&
+    nextElements.length === previous.elements.length &&
+    nextElements.every((el, index) => el === previous.elements[index]) &&
+    Array.from(boardKeys).every((key) => boardFields[key] === before[key]);
+  return unchanged ? previous : ({ ...boardFields, elements: nextElements } as WhiteboardData);
+}
+
+// Helper function to create a short, hard to guess room name
+export function createRoomId(): string {
+  return crypto.randomUUID().replace(/-/g, "").slice(0, 12);
+}
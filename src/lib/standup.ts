@@ -0,0 +1,215 @@
+import { StandupSession, StandupTurn } from "../types/meeting";
+
+export const DEFAULT_SPEAKER_LIMIT = 120;
+export const DEFAULT_MEETING_LIMIT = 15 * 60;
+
+// "rotate" starts with a different person every day, keeping roster order
+export type SpeakerOrder = "roster" | "rotate" | "shuffle";
+
+export interface StandupOptions {
+  order?: SpeakerOrder;
+  // Who goes first, ahead of the order
+  first?: string;
+  speakerLimit?: number;
+  meetingLimit?: number;
+}
+
+export interface SpeakerTiming {
+  name: string;
+  // Seconds spoken so far (or in total, once the turn is over)
+  seconds: number;
+  // Seconds over the speaker limit
+  overrun: number;
+}
+
+export interface StandupTiming {
+  elapsed: number;
+  meetingLimit: number;
+  // Negative once the meeting runs over
+  meetingRemaining: number;
+  speakerLimit: number;
+  current?: SpeakerTiming;
+  finished: SpeakerTiming[];
+  skipped: string[];
+  waiting: string[];
+  // Time the waiting speakers need at their limit, on top of what's been used
+  projectedOverrun: number;
+  ended: boolean;
+}
+
+// Helper function to turn milliseconds into whole seconds
+const toSeconds = (ms: number) => Math.max(0, Math.floor(ms / 1000));
+
+// Minutes and seconds, e.g. "2:05"
+export function formatDuration(seconds: number): string {
+  const abs = Math.abs(Math.round(seconds));
+  return `${seconds < 0 ? "-" : ""}${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+// Order the roster for today's standup
+export function buildSpeakerQueue(
+  members: string[],
+  order: SpeakerOrder = "rotate",
+  now: number = Date.now()
+): string[] {
+  const names = Array.from(new Set(members.map((name) => name.trim()).filter(Boolean)));
+  if (names.length === 0) return names;
+
+  if (order === "shuffle") {
+    for (let i = names.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [names[i], names[j]] = [names[j], names[i]];
+    }
+    return names;
+  }
+  if (order === "rotate") {
+    const day = Math.floor((now - new Date(now).getTimezoneOffset() * 60000) / 86400000);
+    const start = day % names.length;
+    return [...names.slice(start), ...names.slice(0, start)];
+  }
+  return names;
+}
+
+// Start standup mode with the first speaker on the floor
+export function startStandup(
+  members: string[],
+  options: StandupOptions = {},
+  now: number = Date.now()
+): StandupSession {
+  const names = buildSpeakerQueue(members, options.order, now);
+  if (options.first?.trim()) {
+    const wanted = options.first.trim().toLowerCase();
+    const first = names.find((name) => name.toLowerCase().includes(wanted)) || options.first.trim();
+    names.splice(0, names.length, first, ...names.filter((name) => name !== first));
+  }
+  const queue: StandupTurn[] = names.map((name) => ({ name }));
+  if (queue.length === 0) {
+    throw new Error("There is nobody on the roster to start a standup with");
+  }
+  queue[0].startedAt = now;
+  return {
+    startedAt: now,
+    queue,
+    current: 0,
+    speakerLimit: options.speakerLimit || DEFAULT_SPEAKER_LIMIT,
+    meetingLimit: options.meetingLimit || DEFAULT_MEETING_LIMIT,
+  };
+}
+
+// Hand the floor to the next person: the one named (added to the queue if
+// they weren't on it), or else the next in the queue who hasn't spoken. The
+// current speaker's turn ends, or is marked skipped. When nobody is left the
+// standup ends.
+export function advanceSpeaker(
+  session: StandupSession,
+  options: { name?: string; skip?: boolean } = {},
+  now: number = Date.now()
+): StandupSession {
+  if (session.endedAt) return session;
+  const wanted = options.name?.trim().toLowerCase();
+  const current = session.current !== undefined ? session.queue[session.current] : undefined;
+  if (wanted && current?.name.toLowerCase().includes(wanted)) return session;
+
+  const queue = session.queue.map((turn, index) =>
+    index !== session.current
+      ? turn
+      : options.skip
+        ? { ...turn, startedAt: undefined, skipped: true }
+        : { ...turn, endedAt: now }
+  );
+
+  let next: number;
+  if (wanted) {
+    next = queue.findIndex((turn) => !turn.endedAt && turn.name.toLowerCase().includes(wanted));
+    if (next === -1) {
+      queue.push({ name: options.name!.trim() });
+      next = queue.length - 1;
+    }
+  } else {
+    const waiting = (index: number) => !queue[index].startedAt && !queue[index].skipped;
+    next = queue.findIndex((_, index) => index > (session.current ?? -1) && waiting(index));
+    // People passed over when someone jumped the queue go after the last one
+    if (next === -1) next = queue.findIndex((_, index) => waiting(index));
+  }
+
+  if (next === -1) {
+    return { ...session, queue, current: undefined, endedAt: now };
+  }
+  queue[next] = { name: queue[next].name, startedAt: now };
+  return { ...session, queue, current: next };
+}
+
+export function endStandup(session: StandupSession, now: number = Date.now()): StandupSession {
+  if (session.endedAt) return session;
+  return {
+    ...session,
+    queue: session.queue.map((turn, index) =>
+      index === session.current ? { ...turn, endedAt: now } : turn
+    ),
+    current: undefined,
+    endedAt: now,
+  };
+}
+
+// Where the standup stands against its limits
+export function getStandupTiming(session: StandupSession, now: number = Date.now()): StandupTiming {
+  const end = session.endedAt || now;
+  const elapsed = toSeconds(end - session.startedAt);
+  const timeTurn = (turn: StandupTurn): SpeakerTiming => {
+    const seconds = toSeconds((turn.endedAt || end) - (turn.startedAt || end));
+    return { name: turn.name, seconds, overrun: Math.max(0, seconds - session.speakerLimit) };
+  };
+
+  const currentTurn = session.current !== undefined ? session.queue[session.current] : undefined;
+  const current = currentTurn ? timeTurn(currentTurn) : undefined;
+  const waiting = session.endedAt
+    ? []
+    : session.queue.filter((turn) => !turn.startedAt && !turn.skipped).map((turn) => turn.name);
+  const meetingRemaining = session.meetingLimit - elapsed;
+  const stillNeeded =
+    waiting.length * session.speakerLimit +
+    (current ? Math.max(0, session.speakerLimit - current.seconds) : 0);
+
+  return {
+    elapsed,
+    meetingLimit: session.meetingLimit,
+    meetingRemaining,
+    speakerLimit: session.speakerLimit,
+    current,
+    finished: session.queue.filter((turn) => turn.endedAt).map(timeTurn),
+    skipped: session.queue.filter((turn) => turn.skipped).map((turn) => turn.name),
+    waiting,
+    projectedOverrun: Math.max(0, stillNeeded - meetingRemaining),
+    ended: !!session.endedAt,
+  };
+}
+
+// A reminder for Spark when the speaker or the meeting runs over, once per
+// turn; the key tells reminders already given apart
+export function getOverrunNotice(
+  session: StandupSession,
+  now: number = Date.now()
+): { key: string; text: string } | undefined {
+  const timing = getStandupTiming(session, now);
+  if (timing.ended) return undefined;
+
+  if (timing.current && timing.current.overrun > 0) {
+    return {
+      key: `speaker-${session.current}-${session.queue[session.current!].startedAt}`,
+      text: `TIMEKEEPER: ${timing.current.name} has been speaking for ${formatDuration(
+        timing.current.seconds
+      )}, past their ${formatDuration(session.speakerLimit)} limit. At the next natural pause, thank them warmly, offer to take anything else offline, and call next_speaker.`,
+    };
+  }
+  if (timing.meetingRemaining < 0) {
+    return {
+      key: `meeting-${session.startedAt}`,
+      text: `TIMEKEEPER: The standup is over its ${formatDuration(
+        session.meetingLimit
+      )} timebox${
+        timing.waiting.length ? ` with ${timing.waiting.length} still to go` : ""
+      }. Ask for quick headlines only and wrap up soon.`,
+    };
+  }
+  return undefined;
+}
@@ -0,0 +1,635 @@
+import { BoardSyncConfig, GitHubSyncConfig } from "../../types/whiteboard";
+import {
+  IssueFieldChanges,
+  IssueSearchOptions,
+  IssueTracker,
+  NewIssue,
+  SprintProgress,
+  TrackerIssue,
+} from "../../types/issue-tracker";
+import { githubGraphQL } from "../github-proxy";
+import { getProxyBaseUrl } from "../jira-proxy";
+import { DEFAULT_MAX_ISSUES } from "../jira-sync-config";
+import {
+  assignNewIssue,
+  getAssignees,
+  getSprintTiming,
+  getSprintTotals,
+  groupWorkload,
+  matchByName,
+} from "./shared";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Field names GitHub's project templates use
+const DEFAULT_FIELDS = {
+  status: "Status",
+  estimate: "Estimate",
+  iteration: "Iteration",
+  priority: "Priority",
+};
+
+const ISSUE_FRAGMENT = `
+  fragment TrackedIssue on Issue {
+    id
+    number
+    title
+    url
+    state
+    updatedAt
+    repository { nameWithOwner }
+    assignees(first: 5) { nodes { login name } }
+    labels(first: 10) { nodes { name } }
+    issueType { name }
+    parent { number title repository { nameWithOwner } }
+    milestone { dueOn }
+  }
+`;
+
+const FIELD_VALUES = `
+  fieldValues(first: 20) {
+    nodes {
+      ... on ProjectV2ItemFieldSingleSelectValue { name field { ... on ProjectV2FieldCommon { name } } }
+      ... on ProjectV2ItemFieldNumberValue { number field { ... on ProjectV2FieldCommon { name } } }
+      ... on ProjectV2ItemFieldIterationValue { iterationId title field { ... on ProjectV2FieldCommon { name } } }
+    }
+  }
+`;
+
+const PROJECT_ITEMS_QUERY = `
+  query ProjectItems($owner: String!, $number: Int!, $after: String) {
+    repositoryOwner(login: $owner) {
+      ... on ProjectV2Owner {
+        projectV2(number: $number) {
+          items(first: 100, after: $after) {
+            pageInfo { hasNextPage endCursor }
+            nodes { ${FIELD_VALUES} content { ...TrackedIssue } }
+          }
+        }
+      }
+    }
+  }
+  ${ISSUE_FRAGMENT}
+`;
+
+const REPO_ISSUES_QUERY = `
+  query RepoIssues($owner: String!, $repo: String!, $states: [IssueState!], $after: String) {
+    repository(owner: $owner, name: $repo) {
+      issues(first: 100, after: $after, states: $states, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ...TrackedIssue }
+      }
+    }
+  }
+  ${ISSUE_FRAGMENT}
+`;
+
+const ISSUE_QUERY = `
+  query IssueDetails($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      issue(number: $number) {
+        ...TrackedIssue
+        projectItems(first: 20) {
+          nodes { id project { id number } ${FIELD_VALUES} }
+        }
+      }
+    }
+  }
+  ${ISSUE_FRAGMENT}
+`;
+
+const PROJECT_FIELD_QUERY = `
+  query ProjectField($owner: String!, $number: Int!, $field: String!) {
+    repositoryOwner(login: $owner) {
+      ... on ProjectV2Owner {
+        projectV2(number: $number) {
+          id
+          field(name: $field) {
+            ... on ProjectV2SingleSelectField { id options { id name } }
+            ... on ProjectV2IterationField {
+              id
+              configuration { iterations { id title startDate duration } }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const ASSIGNABLE_USERS_QUERY = `
+  query AssignableUsers($owner: String!, $repo: String!, $query: String!) {
+    repository(owner: $owner, name: $repo) {
+      assignableUsers(query: $query, first: 10) { nodes { id login name } }
+    }
+  }
+`;
+
+interface GitHubIssueNode {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  state: "OPEN" | "CLOSED";
+  updatedAt: string;
+  repository: { nameWithOwner: string };
+  assignees: { nodes: { login: string; name?: string | null }[] };
+  labels: { nodes: { name: string }[] };
+  issueType?: { name: string } | null;
+  parent?: { number: number; title: string; repository: { nameWithOwner: string } } | null;
+  milestone?: { dueOn?: string | null } | null;
+}
+
+interface FieldValueNode {
+  name?: string;
+  number?: number;
+  iterationId?: string;
+  title?: string;
+  field?: { name?: string };
+}
+
+interface Connection<T> {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: T[];
+}
+
+interface ProjectItemNode {
+  id?: string;
+  project?: { id: string; number: number };
+  fieldValues: { nodes: FieldValueNode[] };
+  content?: Partial<GitHubIssueNode> | null;
+}
+
+interface ProjectField {
+  id: string;
+  options?: { id: string; name: string }[];
+  configuration?: {
+    iterations: { id: string; title: string; startDate: string; duration: number }[];
+  };
+}
+
+// An issue plus its values for the project's custom fields, by field name
+interface GitHubItem {
+  issue: GitHubIssueNode;
+  fields: Map<string, FieldValueNode>;
+}
+
+const toFieldMap = (values: FieldValueNode[]) =>
+  new Map(
+    values
+      .filter((value) => value.field?.name)
+      .map((value) => [value.field!.name!.toLowerCase(), value] as const)
+  );
+
+// GitHub Issues, optionally organised on a Projects v2 board whose Status,
+// Estimate and Iteration fields stand in for workflow, points and sprints.
+// Keys look like "owner/repo#123".
+export class GitHubTracker implements IssueTracker {
+  readonly kind = "github";
+  readonly label = "GitHub";
+  readonly id: string;
+  private scope: GitHubSyncConfig;
+
+  constructor(private config: BoardSyncConfig, private signal?: AbortSignal) {
+    if (!config.github?.owner) {
+      throw new Error("Set a GitHub owner in the board's sync settings");
+    }
+    this.scope = config.github;
+    this.id = `github:${this.scope.owner}/${
+      this.scope.projectNumber ? `projects/${this.scope.projectNumber}` : this.scope.repo || ""
+    }`;
+  }
+
+  // Helper function to run a query with this tracker's abort signal
+  private graphql<T>(query: string, variables: Record<string, unknown> = {}) {
+    return githubGraphQL<T>(query, variables, this.signal);
+  }
+
+  private fieldName(field: keyof typeof DEFAULT_FIELDS): string {
+    const configured = {
+      status: this.scope.statusField,
+      estimate: this.scope.estimateField,
+      iteration: this.scope.iterationField,
+      priority: this.scope.priorityField,
+    }[field];
+    return configured || DEFAULT_FIELDS[field];
+  }
+
+  private get repoName(): string | undefined {
+    return this.scope.repo ? `${this.scope.owner}/${this.scope.repo}` : undefined;
+  }
+
+  // Helper function to split "owner/repo#12", "repo#12" or "#12" into parts
+  private parseKey(key: string): { owner: string; repo: string; number: number } {
+    const match = key.trim().match(/^(?:(?:([\w.-]+)\/)?([\w.-]+))?#?(\d+)$/);
+    const repo = match?.[2] || this.scope.repo;
+    if (!match || !repo) {
+      throw new Error(`"${key}" is not a GitHub issue key - use owner/repo#number`);
+    }
+    return { owner: match[1] || this.scope.owner, repo, number: Number(match[3]) };
+  }
+
+  private toTrackerIssue({ issue, fields }: GitHubItem): TrackerIssue {
+    const status =
+      fields.get(this.fieldName("status").toLowerCase())?.name ||
+      (issue.state === "CLOSED" ? "Closed" : "Open");
+    const assignee = issue.assignees.nodes[0];
+    return {
+      key: `${issue.repository.nameWithOwner}#${issue.number}`,
+      title: issue.title,
+      status,
+      done: issue.state === "CLOSED" || /\b(done|closed|complete)/i.test(status),
+      assignee: assignee ? assignee.name || assignee.login : undefined,
+      priority: fields.get(this.fieldName("priority").toLowerCase())?.name,
+      issueType: issue.issueType?.name,
+      storyPoints: fields.get(this.fieldName("estimate").toLowerCase())?.number,
+      parent: issue.parent
+        ? {
+            key: `${issue.parent.repository.nameWithOwner}#${issue.parent.number}`,
+            summary: issue.parent.title,
+          }
+        : undefined,
+      labels: issue.labels.nodes.length
+        ? issue.labels.nodes.map((label) => label.name)
+        : undefined,
+      dueDate: issue.milestone?.dueOn?.slice(0, 10),
+      url: issue.url,
+      updated: issue.updatedAt,
+    };
+  }
+
+  // Every issue in scope with its project field values, page by page
+  private async fetchItems(includeCompleted: boolean): Promise<GitHubItem[]> {
+    const maxIssues = this.config.maxIssues || DEFAULT_MAX_ISSUES;
+    const items: GitHubItem[] = [];
+    let after: string | null = null;
+
+    do {
+      let page: Connection<GitHubItem>;
+      if (this.scope.projectNumber) {
+        const data: {
+          repositoryOwner?: { projectV2?: { items: Connection<ProjectItemNode> } | null } | null;
+        } = await this.graphql(PROJECT_ITEMS_QUERY, {
+          owner: this.scope.owner,
+          number: this.scope.projectNumber,
+          after,
+        });
+        const connection = data.repositoryOwner?.projectV2?.items;
+        if (!connection) {
+          throw new Error(`GitHub project ${this.scope.owner}#${this.scope.projectNumber} not found`);
+        }
+        page = {
+          pageInfo: connection.pageInfo,
+          // Draft issues and pull requests have no issue number
+          nodes: connection.nodes
+            .filter((node) => node.content?.number !== undefined)
+            .map((node) => ({
+              issue: node.content as GitHubIssueNode,
+              fields: toFieldMap(node.fieldValues.nodes),
+            })),
+        };
+      } else {
+        if (!this.scope.repo) {
+          throw new Error("Set a GitHub repository or project number in the board's sync settings");
+        }
+        const data: {
+          repository?: { issues: Connection<GitHubIssueNode> } | null;
+        } = await this.graphql(REPO_ISSUES_QUERY, {
+          owner: this.scope.owner,
+          repo: this.scope.repo,
+          states: includeCompleted ? ["OPEN", "CLOSED"] : ["OPEN"],
+          after,
+        });
+        if (!data.repository) {
+          throw new Error(`GitHub repository ${this.repoName} not found`);
+        }
+        page = {
+          pageInfo: data.repository.issues.pageInfo,
+          nodes: data.repository.issues.nodes.map((issue) => ({
+            issue,
+            fields: new Map(),
+          })),
+        };
+      }
+
+      items.push(...page.nodes);
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after && items.length < maxIssues);
+
+    return items;
+  }
+
+  private async getProjectField(name: string) {
+    const data: {
+      repositoryOwner?: {
+        projectV2?: { id: string; field?: ProjectField | null } | null;
+      } | null;
+    } = await this.graphql(PROJECT_FIELD_QUERY, {
+      owner: this.scope.owner,
+      number: this.scope.projectNumber,
+      field: name,
+    });
+    const project = data.repositoryOwner?.projectV2;
+    if (!project) {
+      throw new Error(`GitHub project ${this.scope.owner}#${this.scope.projectNumber} not found`);
+    }
+    return { projectId: project.id, field: project.field || undefined };
+  }
+
+  // The iteration running today, or the one named in the sync settings
+  private async getCurrentIteration() {
+    if (!this.scope.projectNumber) return undefined;
+
+    const { field } = await this.getProjectField(this.fieldName("iteration"));
+    const iterations = field?.configuration?.iterations || [];
+    const now = Date.now();
+    const sprint = this.config.sprint && this.config.sprint !== "active"
+      ? this.config.sprint.toLowerCase()
+      : undefined;
+
+    return iterations.find((iteration) => {
+      if (sprint) return iteration.title.toLowerCase() === sprint;
+      const start = Date.parse(iteration.startDate);
+      return start <= now && now < start + iteration.duration * DAY_MS;
+    });
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${getProxyBaseUrl()}/health`);
+      return response.ok;
+    } catch (error) {
+      console.warn("⚠️ Proxy server not available:", error);
+      return false;
+    }
+  }
+
+  async searchIssues({
+    includeCompleted = true,
+    assignedOnly = false,
+  }: IssueSearchOptions = {}) {
+    const [items, iteration] = await Promise.all([
+      this.fetchItems(includeCompleted),
+      this.config.sprint ? this.getCurrentIteration() : Promise.resolve(undefined),
+    ]);
+    const iterationField = this.fieldName("iteration").toLowerCase();
+    const repoName = this.repoName?.toLowerCase();
+
+    const issues = items
+      .filter(
+        (item) =>
+          (!repoName ||
+            item.issue.repository.nameWithOwner.toLowerCase() === repoName) &&
+          (!this.config.sprint ||
+            (!!iteration &&
+              item.fields.get(iterationField)?.iterationId === iteration.id))
+      )
+      .map((item) => this.toTrackerIssue(item))
+      .filter(
+        (issue) =>
+          (includeCompleted || !issue.done) && (!assignedOnly || !!issue.assignee)
+      )
+      .slice(0, this.config.maxIssues || DEFAULT_MAX_ISSUES);
+
+    const query = [
+      this.scope.projectNumber
+        ? `project ${this.scope.owner}#${this.scope.projectNumber}`
+        : `repo ${this.repoName}`,
+      this.scope.projectNumber && this.repoName ? `repo ${this.repoName}` : "",
+      this.config.sprint ? `iteration ${iteration?.title || this.config.sprint}` : "",
+      includeCompleted ? "" : "open work only",
+      assignedOnly ? "assigned" : "",
+    ]
+      .filter(Boolean)
+      .join(", ");
+    console.log(`🔎 GitHub sync scope: ${query}`);
+
+    return { query, issues };
+  }
+
+  private async getIssueDetails(key: string) {
+    const { owner, repo, number } = this.parseKey(key);
+    const data: {
+      repository?: {
+        issue?: (GitHubIssueNode & { projectItems: { nodes: ProjectItemNode[] } }) | null;
+      } | null;
+    } = await this.graphql(ISSUE_QUERY, { owner, repo, number });
+    const issue = data.repository?.issue;
+    if (!issue) throw new Error(`GitHub issue ${owner}/${repo}#${number} not found`);
+
+    const item = issue.projectItems.nodes.find(
+      (node) => node.project?.number === this.scope.projectNumber
+    );
+    return { issue, item };
+  }
+
+  async getIssue(key: string): Promise<TrackerIssue> {
+    const { issue, item } = await this.getIssueDetails(key);
+    return this.toTrackerIssue({
+      issue,
+      fields: toFieldMap(item?.fieldValues.nodes || []),
+    });
+  }
+
+  // Project boards move the item's Status; plain repositories can only
+  // close or reopen the issue
+  async transitionIssue(key: string, targetStatuses: string[]): Promise<string> {
+    const { issue, item } = await this.getIssueDetails(key);
+
+    if (item?.id) {
+      const { projectId, field } = await this.getProjectField(this.fieldName("status"));
+      const options = field?.options || [];
+      const option = matchByName(options, (o) => o.name, targetStatuses);
+      if (!field || !option) {
+        throw new Error(
+          `GitHub can't move ${key} to ${targetStatuses[0]} (available: ${
+            options.map((o) => o.name).join(", ") || "none"
+          })`
+        );
+      }
+
+      await this.graphql(
+        `mutation SetStatus($projectId: ID!, $itemId: ID!, $fieldId: ID!, $optionId: String!) {
+          updateProjectV2ItemFieldValue(input: {
+            projectId: $projectId, itemId: $itemId, fieldId: $fieldId,
+            value: { singleSelectOptionId: $optionId }
+          }) { projectV2Item { id } }
+        }`,
+        { projectId, itemId: item.id, fieldId: field.id, optionId: option.id }
+      );
+      return option.name;
+    }
+
+    const close = targetStatuses.some((status) =>
+      /\b(done|closed|complete|resolved)/i.test(status)
+    );
+    const reopen = targetStatuses.some((status) => status.trim().toLowerCase() === "open");
+    if (!close && !reopen) {
+      throw new Error(
+        `GitHub can't move ${key} to ${targetStatuses[0]} - without a project board an issue is only open or closed`
+      );
+    }
+    if (close !== (issue.state === "CLOSED")) {
+      await this.graphql(
+        close
+          ? `mutation Close($id: ID!) { closeIssue(input: { issueId: $id }) { issue { id } } }`
+          : `mutation Reopen($id: ID!) { reopenIssue(input: { issueId: $id }) { issue { id } } }`,
+        { id: issue.id }
+      );
+    }
+    return close ? "Closed" : "Open";
+  }
+
+  async addComment(key: string, text: string): Promise<void> {
+    const { issue } = await this.getIssueDetails(key);
+    await this.graphql(
+      `mutation Comment($id: ID!, $body: String!) {
+        addComment(input: { subjectId: $id, body: $body }) { clientMutationId }
+      }`,
+      { id: issue.id, body: text }
+    );
+  }
+
+  async updateIssue(
+    key: string,
+    changes: IssueFieldChanges
+  ): Promise<{ assignee?: string }> {
+    const { issue, item } = await this.getIssueDetails(key);
+    let assigneeName: string | undefined;
+
+    if (changes.assignee !== undefined) {
+      let assigneeIds: string[] = [];
+      if (changes.assignee) {
+        const { owner, repo } = this.parseKey(key);
+        const data: {
+          repository?: {
+            assignableUsers: { nodes: { id: string; login: string; name?: string | null }[] };
+          } | null;
+        } = await this.graphql(ASSIGNABLE_USERS_QUERY, {
+          owner,
+          repo,
+          query: changes.assignee,
+        });
+        const users = data.repository?.assignableUsers.nodes || [];
+        const user = matchByName(
+          users,
+          (u) => u.name || u.login,
+          [changes.assignee]
+        );
+        if (!user) throw new Error(`no GitHub user found for ${changes.assignee}`);
+        assigneeIds = [user.id];
+        assigneeName = user.name || user.login;
+      }
+
+      await this.graphql(
+        `mutation Assign($id: ID!, $assigneeIds: [ID!]) {
+          updateIssue(input: { id: $id, assigneeIds: $assigneeIds }) { issue { id } }
+        }`,
+        { id: issue.id, assigneeIds }
+      );
+    }
+
+    if (changes.priority) {
+      const { projectId, field } = item?.id
+        ? await this.getProjectField(this.fieldName("priority"))
+        : { projectId: "", field: undefined };
+      const option = field?.options?.find(
+        (o) => o.name.toLowerCase() === changes.priority!.toLowerCase()
+      );
+      if (!item?.id || !field || !option) {
+        throw new Error(
+          `GitHub issues have no ${changes.priority} priority - add a "${this.fieldName(
+            "priority"
+          )}" field with that option to the project`
+        );
+      }
+
+      await this.graphql(
+        `mutation SetPriority($projectId: ID!, $itemId: ID!, $fieldId: ID!, $optionId: String!) {
+          updateProjectV2ItemFieldValue(input: {
+            projectId: $projectId, itemId: $itemId, fieldId: $fieldId,
+            value: { singleSelectOptionId: $optionId }
+          }) { projectV2Item { id } }
+        }`,
+        { projectId, itemId: item.id, fieldId: field.id, optionId: option.id }
+      );
+    }
+
+    return { assignee: assigneeName };
+  }
+
+  // Issues are opened in the board's repository and added to its project.
+  // GitHub issues have no due date, so it goes in the description.
+  async createIssue(issue: NewIssue): Promise<TrackerIssue> {
+    if (!this.scope.repo) {
+      throw new Error("Set a GitHub repository in the board's sync settings to create issues");
+    }
+    const repoData: { repository?: { id: string } | null } = await this.graphql(
+      `query RepoId($owner: String!, $repo: String!) { repository(owner: $owner, name: $repo) { id } }`,
+      { owner: this.scope.owner, repo: this.scope.repo }
+    );
+    if (!repoData.repository) {
+      throw new Error(`GitHub repository ${this.repoName} not found`);
+    }
+
+    const body = [issue.description, issue.dueDate ? `Due: ${issue.dueDate}` : ""]
+      .filter(Boolean)
+      .join("\n\n");
+    const created: { createIssue: { issue: { id: string; number: number } } } = await this.graphql(
+      `mutation CreateIssue($repositoryId: ID!, $title: String!, $body: String) {
+        createIssue(input: { repositoryId: $repositoryId, title: $title, body: $body }) {
+          issue { id number }
+        }
+      }`,
+      { repositoryId: repoData.repository.id, title: issue.title, body }
+    );
+    const key = `${this.repoName}#${created.createIssue.issue.number}`;
+
+    if (this.scope.projectNumber) {
+      const { projectId } = await this.getProjectField(this.fieldName("status"));
+      await this.graphql(
+        `mutation AddToProject($projectId: ID!, $contentId: ID!) {
+          addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) { item { id } }
+        }`,
+        { projectId, contentId: created.createIssue.issue.id }
+      );
+    }
+    await assignNewIssue(this, key, issue.assignee);
+    return this.getIssue(key);
+  }
+
+  async getTeamMembers(): Promise<string[]> {
+    const { issues } = await this.searchIssues({ assignedOnly: true });
+    return getAssignees(issues);
+  }
+
+  // The members are the assignees of the same search, so the scope is read once
+  async getWorkload(options: IssueSearchOptions = {}) {
+    const result = await this.searchIssues(options);
+    return groupWorkload(getAssignees(result.issues), result);
+  }
+
+  // The project's current iteration stands in for the sprint
+  async getSprintProgress(): Promise<SprintProgress | null> {
+    const iteration = await this.getCurrentIteration();
+    if (!iteration) return null;
+
+    const iterationField = this.fieldName("iteration").toLowerCase();
+    const items = await this.fetchItems(true);
+    const issues = items
+      .filter((item) => item.fields.get(iterationField)?.iterationId === iteration.id)
+      .map((item) => this.toTrackerIssue(item));
+
+    const endDate = new Date(
+      Date.parse(iteration.startDate) + iteration.duration * DAY_MS
+    ).toISOString();
+    return {
+      id: iteration.id,
+      name: iteration.title,
+      startDate: iteration.startDate,
+      endDate,
+      ...getSprintTiming(iteration.startDate, endDate),
+      ...getSprintTotals(issues),
+    };
+  }
+}
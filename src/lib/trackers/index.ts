@@ -0,0 +1,49 @@
+import { BoardSyncConfig, TrackerKind } from "../../types/whiteboard";
+import { IssueTracker } from "../../types/issue-tracker";
+import { GitHubTracker } from "./github-tracker";
+import { JiraTracker } from "./jira-tracker";
+import { LinearTracker } from "./linear-tracker";
+import { LocalBacklogTracker } from "./local-tracker";
+
+export const TRACKER_LABELS: Record<TrackerKind, string> = {
+  jira: "Jira",
+  github: "GitHub",
+  linear: "Linear",
+  local: "Local files",
+};
+
+// Tool arguments override the board's saved sync config field by field
+export function resolveSyncConfig(
+  config: BoardSyncConfig | undefined,
+  args: Partial<BoardSyncConfig> = {}
+): BoardSyncConfig {
+  const pick = <K extends keyof BoardSyncConfig>(key: K) =>
+    args[key] !== undefined && args[key] !== "" ? args[key] : config?.[key];
+  return {
+    ...config,
+    projectKeys: pick("projectKeys"),
+    boardId: pick("boardId"),
+    sprint: pick("sprint"),
+    jql: pick("jql"),
+    maxIssues: pick("maxIssues"),
+  };
+}
+
+// The adapter for the tracker a board is bound to (Jira by default). Requests
+// made through it are aborted with the signal, if one is given.
+export function createIssueTracker(
+  config: BoardSyncConfig = {},
+  signal?: AbortSignal
+): IssueTracker {
+  switch (config.tracker) {
+    case "github":
+      return new GitHubTracker(config, signal);
+    case "linear":
+      return new LinearTracker(config, signal);
+    case "local":
+      return new LocalBacklogTracker(config, signal);
+    case "jira":
+    default:
+      return new JiraTracker(config, signal);
+  }
+}
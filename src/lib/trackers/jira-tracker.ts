@@ -0,0 +1,226 @@
+import { BoardSyncConfig } from "../../types/whiteboard";
+import {
+  IssueFieldChanges,
+  IssueSearchOptions,
+  IssueTracker,
+  NewIssue,
+  TrackerIssue,
+} from "../../types/issue-tracker";
+import {
+  addIssueComment,
+  createJiraIssue,
+  findTransition,
+  getIssueTransitions,
+  getJiraIssue,
+  getProxyBaseUrl,
+  JiraSearchIssue,
+  searchJiraUsers,
+  toAdfDocument,
+  transitionIssue,
+  updateIssueFields,
+} from "../jira-proxy";
+import { DEFAULT_STORY_POINTS_FIELD, fetchSyncIssues } from "../jira-sync-config";
+import { getSprintProgress, getStoryPoints } from "../jira-sprint";
+import { assignNewIssue, getAssignees, groupWorkload } from "./shared";
+
+// Fields synced onto issue notes (story points are added per site)
+const ISSUE_FIELDS = [
+  "summary",
+  "status",
+  "assignee",
+  "priority",
+  "issuetype",
+  "parent",
+  "labels",
+  "duedate",
+  "issuelinks",
+  "updated",
+];
+
+// Helper function to link an issue to its page in Jira
+function getIssueUrl(issue: JiraSearchIssue): string | undefined {
+  if (!issue.self) return undefined;
+  try {
+    return `${new URL(issue.self).origin}/browse/${issue.key}`;
+  } catch {
+    return undefined;
+  }
+}
+
+// Helper function to collect the keys of the issues blocking this one
+function getBlockingKeys(issue: JiraSearchIssue): string[] | undefined {
+  const keys = (issue.fields.issuelinks || [])
+    .filter((link) => link.inwardIssue && link.type.inward.toLowerCase() === "is blocked by")
+    .map((link) => link.inwardIssue!.key);
+  return keys.length ? keys : undefined;
+}
+
+// Helper function to list the projects a set of issue keys belongs to
+function getProjectKeys(issueKeys: string[]): string[] {
+  return Array.from(new Set(issueKeys.map((key) => key.split("-")[0])));
+}
+
+// Jira through the proxy server; the sync scope is built as JQL from the
+// board's project/board/sprint settings
+export class JiraTracker implements IssueTracker {
+  readonly kind = "jira";
+  readonly label = "Jira";
+  readonly id: string;
+
+  constructor(private config: BoardSyncConfig, private signal?: AbortSignal) {
+    this.id = `jira:${(config.projectKeys || []).join(",") || config.boardId || "default"}`;
+  }
+
+  private get pointsField(): string {
+    return this.config.storyPointsField || DEFAULT_STORY_POINTS_FIELD;
+  }
+
+  private toTrackerIssue(issue: JiraSearchIssue): TrackerIssue {
+    const { fields } = issue;
+    return {
+      key: issue.key,
+      title: fields.summary,
+      status: fields.status.name,
+      done: fields.status.statusCategory?.key === "done",
+      assignee: fields.assignee?.displayName || fields.assignee?.emailAddress,
+      priority: fields.priority?.name,
+      issueType: fields.issuetype?.name,
+      storyPoints: getStoryPoints(issue, this.pointsField),
+      parent: fields.parent
+        ? {
+            key: fields.parent.key,
+            summary: fields.parent.fields?.summary || fields.parent.key,
+          }
+        : undefined,
+      labels: fields.labels?.length ? fields.labels : undefined,
+      dueDate: fields.duedate || undefined,
+      blockedBy: getBlockingKeys(issue),
+      url: getIssueUrl(issue),
+      updated: typeof fields.updated === "string" ? fields.updated : undefined,
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${getProxyBaseUrl()}/health`);
+      return response.ok;
+    } catch (error) {
+      console.warn("⚠️ Proxy server not available:", error);
+      return false;
+    }
+  }
+
+  async searchIssues({
+    includeCompleted = true,
+    assignedOnly = false,
+  }: IssueSearchOptions = {}) {
+    const { jql, issues } = await fetchSyncIssues(
+      this.config,
+      [...ISSUE_FIELDS, this.pointsField],
+      {
+        includeCompleted,
+        extraClauses: assignedOnly ? ["assignee IS NOT EMPTY"] : [],
+        signal: this.signal,
+      }
+    );
+    return { query: jql, issues: issues.map((issue) => this.toTrackerIssue(issue)) };
+  }
+
+  async getIssue(key: string): Promise<TrackerIssue> {
+    return this.toTrackerIssue(
+      await getJiraIssue(key, [...ISSUE_FIELDS, this.pointsField], this.signal)
+    );
+  }
+
+  async transitionIssue(key: string, targetStatuses: string[]): Promise<string> {
+    const transitions = await getIssueTransitions(key, this.signal);
+    const transition = targetStatuses
+      .map((status) => findTransition(transitions, status))
+      .find(Boolean);
+    if (!transition) {
+      const available = transitions.map((t) => t.to.name).join(", ");
+      throw new Error(
+        `Jira can't move ${key} to ${targetStatuses[0]} from its current status (available: ${
+          available || "none"
+        })`
+      );
+    }
+
+    await transitionIssue(key, transition.id, this.signal);
+    return transition.to.name;
+  }
+
+  addComment(key: string, text: string): Promise<void> {
+    return addIssueComment(key, text, this.signal);
+  }
+
+  async updateIssue(
+    key: string,
+    changes: IssueFieldChanges
+  ): Promise<{ assignee?: string }> {
+    const fields: Record<string, unknown> = {};
+    let assigneeName: string | undefined;
+
+    if (changes.assignee === null) {
+      fields.assignee = null;
+    } else if (changes.assignee) {
+      const user = await this.resolveUser(changes.assignee);
+      if (!user) throw new Error(`no unique Jira user for ${changes.assignee}`);
+      fields.assignee = { accountId: user.accountId };
+      assigneeName = user.displayName;
+    }
+    if (changes.priority) {
+      fields.priority = { name: changes.priority };
+    }
+
+    await updateIssueFields(key, fields, this.signal);
+    return { assignee: assigneeName };
+  }
+
+  // New issues are Tasks in the board's first project
+  async createIssue(issue: NewIssue): Promise<TrackerIssue> {
+    const projectKey = this.config.projectKeys?.[0];
+    if (!projectKey) {
+      throw new Error("Set a Jira project key in the board's sync settings to create issues");
+    }
+
+    const { key } = await createJiraIssue(
+      {
+        project: { key: projectKey },
+        issuetype: { name: "Task" },
+        summary: issue.title,
+        ...(issue.description && { description: toAdfDocument(issue.description) }),
+        ...(issue.dueDate && { duedate: issue.dueDate }),
+      },
+      this.signal
+    );
+    await assignNewIssue(this, key, issue.assignee);
+    return this.getIssue(key);
+  }
+
+  // Helper function to resolve a spoken name to a Jira account: an exact match,
+  // else the only partial one. Anything vaguer is left for Spark to ask about.
+  private async resolveUser(name: string) {
+    const users = await searchJiraUsers(name, this.signal);
+    const nameLower = name.toLowerCase().trim();
+    const exact = users.find((user) => user.displayName.toLowerCase() === nameLower);
+    if (exact) return exact;
+    const partial = users.filter((user) => user.displayName.toLowerCase().includes(nameLower));
+    return partial.length === 1 ? partial[0] : undefined;
+  }
+
+  async getTeamMembers(): Promise<string[]> {
+    const { issues } = await this.searchIssues({ assignedOnly: true });
+    return getAssignees(issues);
+  }
+
+  // The members are the assignees of the same search, so the scope is read once
+  async getWorkload(options: IssueSearchOptions = {}) {
+    const result = await this.searchIssues(options);
+    return groupWorkload(getAssignees(result.issues), result);
+  }
+
+  getSprintProgress(knownIssueKeys: string[] = []) {
+    return getSprintProgress(this.config, getProjectKeys(knownIssueKeys), this.signal);
+  }
+}
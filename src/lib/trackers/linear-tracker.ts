@@ -0,0 +1,425 @@
+import { BoardSyncConfig, LinearSyncConfig } from "../../types/whiteboard";
+import {
+  IssueFieldChanges,
+  IssueSearchOptions,
+  IssueTracker,
+  NewIssue,
+  SprintProgress,
+  TrackerIssue,
+} from "../../types/issue-tracker";
+import { getProxyBaseUrl } from "../jira-proxy";
+import { DEFAULT_MAX_ISSUES } from "../jira-sync-config";
+import { linearGraphQL } from "../linear-proxy";
+import {
+  assignNewIssue,
+  getSprintTiming,
+  getSprintTotals,
+  groupWorkload,
+  matchByName,
+} from "./shared";
+
+// Linear priorities are numbers; spoken names map onto them
+const PRIORITY_VALUES: Record<string, number> = {
+  "no priority": 0,
+  none: 0,
+  urgent: 1,
+  highest: 1,
+  critical: 1,
+  high: 2,
+  medium: 3,
+  normal: 3,
+  low: 4,
+  lowest: 4,
+};
+
+const CYCLE_FIELDS = "id number name description startsAt endsAt";
+
+const TEAM_QUERY = `
+  query Team($key: String!) {
+    teams(filter: { key: { eq: $key } }) {
+      nodes {
+        id
+        key
+        states { nodes { id name type position } }
+        members { nodes { id name displayName active } }
+        activeCycle { ${CYCLE_FIELDS} }
+        cycles(first: 50) { nodes { ${CYCLE_FIELDS} } }
+      }
+    }
+  }
+`;
+
+const ISSUE_FIELDS = `
+  fragment TrackedIssue on Issue {
+    id
+    identifier
+    title
+    url
+    updatedAt
+    dueDate
+    estimate
+    priority
+    priorityLabel
+    state { name type }
+    assignee { name displayName }
+    labels { nodes { name } }
+    parent { identifier title }
+  }
+`;
+
+const ISSUES_QUERY = `
+  query Issues($filter: IssueFilter, $after: String) {
+    issues(first: 100, after: $after, filter: $filter, orderBy: updatedAt) {
+      pageInfo { hasNextPage endCursor }
+      nodes { ...TrackedIssue }
+    }
+  }
+  ${ISSUE_FIELDS}
+`;
+
+const ISSUE_QUERY = `
+  query Issue($id: String!) {
+    issue(id: $id) { ...TrackedIssue }
+  }
+  ${ISSUE_FIELDS}
+`;
+
+const UPDATE_ISSUE_MUTATION = `
+  mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+    issueUpdate(id: $id, input: $input) { success }
+  }
+`;
+
+interface LinearIssueNode {
+  id: string;
+  identifier: string;
+  title: string;
+  url: string;
+  updatedAt: string;
+  dueDate?: string | null;
+  estimate?: number | null;
+  priority: number;
+  priorityLabel: string;
+  state: { name: string; type: string };
+  assignee?: { name: string; displayName: string } | null;
+  labels: { nodes: { name: string }[] };
+  parent?: { identifier: string; title: string } | null;
+}
+
+interface LinearCycle {
+  id: string;
+  number: number;
+  name?: string | null;
+  description?: string | null;
+  startsAt: string;
+  endsAt: string;
+}
+
+interface LinearTeam {
+  id: string;
+  key: string;
+  states: { nodes: { id: string; name: string; type: string; position: number }[] };
+  members: { nodes: { id: string; name: string; displayName: string; active: boolean }[] };
+  activeCycle?: LinearCycle | null;
+  cycles: { nodes: LinearCycle[] };
+}
+
+const getCycleName = (cycle: LinearCycle) => cycle.name || `Cycle ${cycle.number}`;
+
+// Linear, scoped to one team: workflow states are the columns, cycles the
+// sprints and estimates the story points. Keys are issue identifiers ("ENG-42").
+export class LinearTracker implements IssueTracker {
+  readonly kind = "linear";
+  readonly label = "Linear";
+  readonly id: string;
+  private scope: LinearSyncConfig;
+  private team?: Promise<LinearTeam>;
+
+  constructor(private config: BoardSyncConfig, private signal?: AbortSignal) {
+    if (!config.linear?.teamKey) {
+      throw new Error("Set a Linear team key in the board's sync settings");
+    }
+    this.scope = config.linear;
+    this.id = `linear:${this.scope.teamKey}${
+      this.scope.projectName ? `/${this.scope.projectName}` : ""
+    }`;
+  }
+
+  // Helper function to run a query with this tracker's abort signal
+  private graphql<T>(query: string, variables: Record<string, unknown> = {}) {
+    return linearGraphQL<T>(query, variables, this.signal);
+  }
+
+  // Team details are fetched once per tracker instance
+  private getTeam(): Promise<LinearTeam> {
+    if (!this.team) {
+      this.team = this.graphql<{ teams: { nodes: LinearTeam[] } }>(TEAM_QUERY, {
+        key: this.scope.teamKey.toUpperCase(),
+      }).then(({ teams }) => {
+        if (!teams.nodes[0]) {
+          throw new Error(`Linear team ${this.scope.teamKey} not found`);
+        }
+        return teams.nodes[0];
+      });
+      this.team.catch(() => {
+        this.team = undefined;
+      });
+    }
+    return this.team;
+  }
+
+  // The active cycle, or the one named or numbered in the sync settings
+  private async getCycle(): Promise<LinearCycle | undefined> {
+    const team = await this.getTeam();
+    const sprint = this.config.sprint?.trim();
+    if (!sprint || sprint === "active") return team.activeCycle || undefined;
+
+    const number = Number(sprint.replace(/^cycle\s*/i, ""));
+    return (
+      team.cycles.nodes.find((cycle) => cycle.number === number) ||
+      matchByName(team.cycles.nodes, getCycleName, [sprint])
+    );
+  }
+
+  private toTrackerIssue(issue: LinearIssueNode): TrackerIssue {
+    return {
+      key: issue.identifier,
+      title: issue.title,
+      status: issue.state.name,
+      done: issue.state.type === "completed" || issue.state.type === "canceled",
+      assignee: issue.assignee?.name,
+      priority: issue.priority > 0 ? issue.priorityLabel : undefined,
+      storyPoints: issue.estimate ?? undefined,
+      parent: issue.parent
+        ? { key: issue.parent.identifier, summary: issue.parent.title }
+        : undefined,
+      labels: issue.labels.nodes.length
+        ? issue.labels.nodes.map((label) => label.name)
+        : undefined,
+      dueDate: issue.dueDate || undefined,
+      url: issue.url,
+      updated: issue.updatedAt,
+    };
+  }
+
+  // Issue filter for the team and project; canceled issues never belong on the board
+  private getScopeFilter(includeCompleted: boolean): Record<string, unknown> {
+    return {
+      team: { key: { eq: this.scope.teamKey.toUpperCase() } },
+      state: {
+        type: { nin: includeCompleted ? ["canceled"] : ["canceled", "completed"] },
+      },
+      ...(this.scope.projectName && {
+        project: { name: { eqIgnoreCase: this.scope.projectName } },
+      }),
+    };
+  }
+
+  // Every issue matching the filter, page by page
+  private async fetchIssues(filter: Record<string, unknown>): Promise<TrackerIssue[]> {
+    const maxIssues = this.config.maxIssues || DEFAULT_MAX_ISSUES;
+    const issues: TrackerIssue[] = [];
+    let after: string | null = null;
+
+    do {
+      const data: {
+        issues: {
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+          nodes: LinearIssueNode[];
+        };
+      } = await this.graphql(ISSUES_QUERY, { filter, after });
+      issues.push(...data.issues.nodes.map((issue) => this.toTrackerIssue(issue)));
+      after = data.issues.pageInfo.hasNextPage ? data.issues.pageInfo.endCursor : null;
+    } while (after && issues.length < maxIssues);
+
+    return issues.slice(0, maxIssues);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${getProxyBaseUrl()}/health`);
+      return response.ok;
+    } catch (error) {
+      console.warn("⚠️ Proxy server not available:", error);
+      return false;
+    }
+  }
+
+  async searchIssues({
+    includeCompleted = true,
+    assignedOnly = false,
+  }: IssueSearchOptions = {}) {
+    const cycle = this.config.sprint ? await this.getCycle() : undefined;
+    const query = [
+      `team ${this.scope.teamKey}`,
+      this.scope.projectName ? `project ${this.scope.projectName}` : "",
+      this.config.sprint ? `cycle ${cycle ? getCycleName(cycle) : this.config.sprint}` : "",
+      includeCompleted ? "" : "open work only",
+      assignedOnly ? "assigned" : "",
+    ]
+      .filter(Boolean)
+      .join(", ");
+    console.log(`🔎 Linear sync scope: ${query}`);
+
+    // A sprint that doesn't exist matches nothing rather than everything
+    if (this.config.sprint && !cycle) return { query, issues: [] };
+
+    const issues = await this.fetchIssues({
+      ...this.getScopeFilter(includeCompleted),
+      ...(cycle && { cycle: { id: { eq: cycle.id } } }),
+      ...(assignedOnly && { assignee: { null: false } }),
+    });
+    return { query, issues };
+  }
+
+  private async getIssueNode(key: string): Promise<LinearIssueNode> {
+    const data: { issue?: LinearIssueNode | null } = await this.graphql(ISSUE_QUERY, {
+      id: key.trim().toUpperCase(),
+    });
+    if (!data.issue) throw new Error(`Linear issue ${key} not found`);
+    return data.issue;
+  }
+
+  async getIssue(key: string): Promise<TrackerIssue> {
+    return this.toTrackerIssue(await this.getIssueNode(key));
+  }
+
+  async transitionIssue(key: string, targetStatuses: string[]): Promise<string> {
+    const [issue, team] = await Promise.all([this.getIssueNode(key), this.getTeam()]);
+    const states = [...team.states.nodes].sort((a, b) => a.position - b.position);
+    const state = matchByName(states, (s) => s.name, targetStatuses);
+    if (!state) {
+      throw new Error(
+        `Linear has no ${targetStatuses[0]} state for ${key} (available: ${
+          states.map((s) => s.name).join(", ") || "none"
+        })`
+      );
+    }
+
+    await this.graphql(UPDATE_ISSUE_MUTATION, {
+      id: issue.id,
+      input: { stateId: state.id },
+    });
+    return state.name;
+  }
+
+  async addComment(key: string, text: string): Promise<void> {
+    const issue = await this.getIssueNode(key);
+    await this.graphql(
+      `mutation Comment($issueId: String!, $body: String!) {
+        commentCreate(input: { issueId: $issueId, body: $body }) { success }
+      }`,
+      { issueId: issue.id, body: text }
+    );
+  }
+
+  async updateIssue(
+    key: string,
+    changes: IssueFieldChanges
+  ): Promise<{ assignee?: string }> {
+    const issue = await this.getIssueNode(key);
+    const input: Record<string, unknown> = {};
+    let assigneeName: string | undefined;
+
+    if (changes.assignee === null) {
+      input.assigneeId = null;
+    } else if (changes.assignee) {
+      const team = await this.getTeam();
+      const members = team.members.nodes.filter((member) => member.active);
+      const member =
+        matchByName(members, (m) => m.name, [changes.assignee]) ||
+        matchByName(members, (m) => m.displayName, [changes.assignee]);
+      if (!member) throw new Error(`no Linear team member found for ${changes.assignee}`);
+      input.assigneeId = member.id;
+      assigneeName = member.name;
+    }
+    if (changes.priority) {
+      const priority = PRIORITY_VALUES[changes.priority.toLowerCase().trim()];
+      if (priority === undefined) {
+        throw new Error(
+          `Linear has no ${changes.priority} priority (use Urgent, High, Medium, Low or No priority)`
+        );
+      }
+      input.priority = priority;
+    }
+
+    await this.graphql(UPDATE_ISSUE_MUTATION, { id: issue.id, input });
+    return { assignee: assigneeName };
+  }
+
+  // New issues join the board's project when it is scoped to one
+  async createIssue(issue: NewIssue): Promise<TrackerIssue> {
+    const team = await this.getTeam();
+    let projectId: string | undefined;
+    if (this.scope.projectName) {
+      const projects: { projects: { nodes: { id: string }[] } } = await this.graphql(
+        `query Project($name: String!) {
+          projects(first: 1, filter: { name: { eqIgnoreCase: $name } }) { nodes { id } }
+        }`,
+        { name: this.scope.projectName }
+      );
+      projectId = projects.projects.nodes[0]?.id;
+      if (!projectId) throw new Error(`Linear project ${this.scope.projectName} not found`);
+    }
+
+    const data: { issueCreate: { success: boolean; issue?: { identifier: string } | null } } =
+      await this.graphql(
+        `mutation CreateIssue($input: IssueCreateInput!) {
+          issueCreate(input: $input) { success issue { identifier } }
+        }`,
+        {
+          input: {
+            teamId: team.id,
+            projectId,
+            title: issue.title,
+            description: issue.description,
+            dueDate: issue.dueDate,
+          },
+        }
+      );
+    if (!data.issueCreate.success || !data.issueCreate.issue) {
+      throw new Error(`Linear didn't create "${issue.title}"`);
+    }
+
+    const key = data.issueCreate.issue.identifier;
+    await assignNewIssue(this, key, issue.assignee);
+    return this.getIssue(key);
+  }
+
+  // The roster is the team's active members, not just current assignees
+  async getTeamMembers(): Promise<string[]> {
+    const team = await this.getTeam();
+    return team.members.nodes
+      .filter((member) => member.active)
+      .map((member) => member.name)
+      .sort();
+  }
+
+  async getWorkload(options: IssueSearchOptions = {}) {
+    const [members, result] = await Promise.all([
+      this.getTeamMembers(),
+      this.searchIssues(options),
+    ]);
+    return groupWorkload(members, result);
+  }
+
+  // The team's active cycle stands in for the sprint
+  async getSprintProgress(): Promise<SprintProgress | null> {
+    const cycle = await this.getCycle();
+    if (!cycle) return null;
+
+    const issues = await this.fetchIssues({
+      ...this.getScopeFilter(true),
+      cycle: { id: { eq: cycle.id } },
+    });
+    return {
+      id: cycle.id,
+      name: getCycleName(cycle),
+      goal: cycle.description || undefined,
+      startDate: cycle.startsAt,
+      endDate: cycle.endsAt,
+      ...getSprintTiming(cycle.startsAt, cycle.endsAt),
+      ...getSprintTotals(issues),
+    };
+  }
+}
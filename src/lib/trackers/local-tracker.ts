@@ -0,0 +1,223 @@
+import { BoardSyncConfig } from "../../types/whiteboard";
+import {
+  IssueFieldChanges,
+  IssueSearchOptions,
+  IssueTracker,
+  NewIssue,
+  SprintProgress,
+  TrackerIssue,
+} from "../../types/issue-tracker";
+import { DEFAULT_MAX_ISSUES } from "../jira-sync-config";
+import {
+  addBacklogComment,
+  BacklogConfig,
+  BacklogTask,
+  createBacklogTask,
+  getBacklogConfig,
+  getBacklogTask,
+  getBacklogTasks,
+  getBacklogAuthHeaders,
+  LOCAL_BACKLOG_URL,
+  updateBacklogTask,
+} from "../local-backlog";
+import {
+  getAssignees,
+  getSprintTiming,
+  getSprintTotals,
+  groupWorkload,
+  matchByName,
+} from "./shared";
+
+// Markdown/YAML task files in a folder, served by local-backlog-server. The
+// workflow, roster and sprint come from the folder's backlog.yaml; tasks join
+// the sprint with a "sprint:" front-matter field. Keys are task ids or file names.
+export class LocalBacklogTracker implements IssueTracker {
+  readonly kind = "local";
+  readonly label = "Local files";
+  readonly id = `local:${LOCAL_BACKLOG_URL}`;
+
+  constructor(private config: BoardSyncConfig, private signal?: AbortSignal) {}
+
+  private toTrackerIssue(task: BacklogTask, backlog: BacklogConfig): TrackerIssue {
+    return {
+      key: task.key,
+      title: task.title,
+      status: task.status,
+      done: backlog.doneStatuses.some(
+        (status) => status.toLowerCase() === task.status.toLowerCase()
+      ),
+      assignee: task.assignee,
+      priority: task.priority,
+      issueType: task.type,
+      storyPoints: task.points,
+      parent: task.parent ? { key: task.parent, summary: task.parent } : undefined,
+      labels: task.labels,
+      dueDate: task.due,
+      updated: task.updated,
+    };
+  }
+
+  // "active" is the sprint in backlog.yaml; anything else names a sprint
+  private getSprintName(backlog: BacklogConfig): string | undefined {
+    const sprint = this.config.sprint?.trim();
+    return !sprint || sprint === "active" ? backlog.sprint?.name : sprint;
+  }
+
+  private async loadBacklog() {
+    const [tasks, backlog] = await Promise.all([
+      getBacklogTasks(this.signal),
+      getBacklogConfig(this.signal),
+    ]);
+    // Parents are other task files, so their titles are on hand
+    const titles = new Map(tasks.map((task) => [task.key, task.title]));
+    const issues = tasks.map((task) => {
+      const issue = this.toTrackerIssue(task, backlog);
+      if (issue.parent) issue.parent.summary = titles.get(issue.parent.key) || issue.parent.key;
+      return { task, issue };
+    });
+    return { backlog, issues };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${LOCAL_BACKLOG_URL}/health`, {
+        headers: getBacklogAuthHeaders(),
+      });
+      return response.ok;
+    } catch (error) {
+      console.warn("⚠️ Local backlog server not available:", error);
+      return false;
+    }
+  }
+
+  async searchIssues({
+    includeCompleted = true,
+    assignedOnly = false,
+  }: IssueSearchOptions = {}) {
+    const { backlog, issues } = await this.loadBacklog();
+    const sprintName = this.config.sprint ? this.getSprintName(backlog) : undefined;
+
+    const query = [
+      "local task files",
+      this.config.sprint ? `sprint ${sprintName || this.config.sprint}` : "",
+      includeCompleted ? "" : "open work only",
+      assignedOnly ? "assigned" : "",
+    ]
+      .filter(Boolean)
+      .join(", ");
+    console.log(`🔎 Local backlog sync scope: ${query}`);
+
+    return {
+      query,
+      issues: issues
+        .filter(
+          ({ task, issue }) =>
+            (!this.config.sprint ||
+              (!!sprintName && task.sprint?.toLowerCase() === sprintName.toLowerCase())) &&
+            (includeCompleted || !issue.done) &&
+            (!assignedOnly || !!issue.assignee)
+        )
+        .map(({ issue }) => issue)
+        .slice(0, this.config.maxIssues || DEFAULT_MAX_ISSUES),
+    };
+  }
+
+  async getIssue(key: string): Promise<TrackerIssue> {
+    const [task, backlog] = await Promise.all([
+      getBacklogTask(key, this.signal),
+      getBacklogConfig(this.signal),
+    ]);
+    return this.toTrackerIssue(task, backlog);
+  }
+
+  async transitionIssue(key: string, targetStatuses: string[]): Promise<string> {
+    const backlog = await getBacklogConfig(this.signal);
+    const status = matchByName(backlog.statuses, (s) => s, targetStatuses);
+    if (!status) {
+      throw new Error(
+        `The backlog has no ${targetStatuses[0]} status for ${key} (available: ${backlog.statuses.join(
+          ", "
+        )}) - add it to backlog.yaml`
+      );
+    }
+
+    const task = await updateBacklogTask(key, { status }, this.signal);
+    return task.status;
+  }
+
+  addComment(key: string, text: string): Promise<void> {
+    return addBacklogComment(key, text, this.signal);
+  }
+
+  // Task files take any name, so spoken names are matched to the roster when possible
+  async updateIssue(
+    key: string,
+    changes: IssueFieldChanges
+  ): Promise<{ assignee?: string }> {
+    let assignee = changes.assignee;
+    if (assignee) {
+      const members = await this.getTeamMembers();
+      assignee = matchByName(members, (name) => name, [assignee]) || assignee;
+    }
+
+    const task = await updateBacklogTask(
+      key,
+      { assignee, priority: changes.priority },
+      this.signal
+    );
+    return { assignee: changes.assignee ? task.assignee : undefined };
+  }
+
+  // Writes a new task file; the owner is matched to the roster like on updates
+  async createIssue(issue: NewIssue): Promise<TrackerIssue> {
+    let assignee = issue.assignee;
+    if (assignee) {
+      const members = await this.getTeamMembers();
+      assignee = matchByName(members, (name) => name, [assignee]) || assignee;
+    }
+
+    const [task, backlog] = await Promise.all([
+      createBacklogTask(
+        { title: issue.title, description: issue.description, assignee, due: issue.dueDate },
+        this.signal
+      ),
+      getBacklogConfig(this.signal),
+    ]);
+    return this.toTrackerIssue(task, backlog);
+  }
+
+  async getTeamMembers(): Promise<string[]> {
+    const { backlog, issues } = await this.loadBacklog();
+    return backlog.team?.length
+      ? [...backlog.team].sort()
+      : getAssignees(issues.map(({ issue }) => issue));
+  }
+
+  async getWorkload(options: IssueSearchOptions = {}) {
+    const [members, result] = await Promise.all([
+      this.getTeamMembers(),
+      this.searchIssues(options),
+    ]);
+    return groupWorkload(members, result);
+  }
+
+  async getSprintProgress(): Promise<SprintProgress | null> {
+    const { backlog, issues } = await this.loadBacklog();
+    const name = this.getSprintName(backlog);
+    if (!name) return null;
+
+    const sprint = backlog.sprint?.name.toLowerCase() === name.toLowerCase() ? backlog.sprint : undefined;
+    const sprintIssues = issues
+      .filter(({ task }) => task.sprint?.toLowerCase() === name.toLowerCase())
+      .map(({ issue }) => issue);
+    return {
+      id: name,
+      name,
+      goal: sprint?.goal,
+      startDate: sprint?.start,
+      endDate: sprint?.end,
+      ...getSprintTiming(sprint?.start, sprint?.end),
+      ...getSprintTotals(sprintIssues),
+    };
+  }
+}
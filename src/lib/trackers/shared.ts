@@ -0,0 +1,156 @@
+import {
+  IssueSearchResult,
+  IssueTracker,
+  MemberWorkload,
+  SprintProgress,
+  TrackerIssue,
+} from "../../types/issue-tracker";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper function to list the distinct assignees of a set of issues
+export function getAssignees(issues: TrackerIssue[]): string[] {
+  return Array.from(
+    new Set(
+      issues.flatMap((issue) => (issue.assignee?.trim() ? [issue.assignee.trim()] : []))
+    )
+  ).sort();
+}
+
+// Group issues under each team member, weighing them by story points
+export function groupWorkload(
+  members: string[],
+  { issues }: IssueSearchResult
+): MemberWorkload[] {
+  return members.map((name) => {
+    const memberIssues = issues.filter((issue) =>
+      issue.assignee?.toLowerCase().includes(name.toLowerCase())
+    );
+    return {
+      name,
+      totalIssues: memberIssues.length,
+      totalPoints: memberIssues.reduce(
+        (sum, issue) => sum + (issue.storyPoints || 0),
+        0
+      ),
+      unestimatedIssues: memberIssues.filter(
+        (issue) => issue.storyPoints === undefined
+      ).length,
+      issues: memberIssues,
+    };
+  });
+}
+
+// Days left and share of time elapsed for a sprint with known dates
+export function getSprintTiming(
+  startDate?: string,
+  endDate?: string
+): Pick<SprintProgress, "daysRemaining" | "timeElapsedPercent"> {
+  const now = Date.now();
+  const start = startDate ? Date.parse(startDate) : undefined;
+  const end = endDate ? Date.parse(endDate) : undefined;
+
+  return {
+    daysRemaining:
+      end !== undefined ? Math.max(0, Math.ceil((end - now) / DAY_MS)) : undefined,
+    timeElapsedPercent:
+      start !== undefined && end !== undefined && end > start
+        ? Math.min(100, Math.max(0, Math.round(((now - start) / (end - start)) * 100)))
+        : undefined,
+  };
+}
+
+// Point and issue totals for the issues in a sprint
+export function getSprintTotals(
+  issues: Pick<TrackerIssue, "storyPoints" | "done">[]
+): Pick<
+  SprintProgress,
+  "totalPoints" | "completedPoints" | "issueCount" | "completedIssueCount"
+> {
+  const sumPoints = (list: Pick<TrackerIssue, "storyPoints">[]) =>
+    list.reduce((total, issue) => total + (issue.storyPoints || 0), 0);
+  const completed = issues.filter((issue) => issue.done);
+
+  return {
+    totalPoints: sumPoints(issues),
+    completedPoints: sumPoints(completed),
+    issueCount: issues.length,
+    completedIssueCount: completed.length,
+  };
+}
+
+// Pick the option matching one of the requested names: exact first, then partial
+export function matchByName<T>(
+  options: T[],
+  getName: (option: T) => string,
+  targets: string[]
+): T | undefined {
+  const names = targets.map((target) => target.toLowerCase().trim()).filter(Boolean);
+  for (const target of names) {
+    const exact = options.find((option) => getName(option).toLowerCase() === target);
+    if (exact) return exact;
+  }
+  for (const target of names) {
+    const partial = options.find((option) => {
+      const name = getName(option).toLowerCase();
+      return name.includes(target) || target.includes(name);
+    });
+    if (partial) return partial;
+  }
+  return undefined;
+}
+
+const formatDate = (date?: string) =>
+  date
+    ? new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : "?";
+
+// Text for the sprint-header sticky
+export function formatSprintHeader(
+  progress: SprintProgress | null,
+  syncedIssueCount: number,
+  trackerLabel: string
+): string {
+  const lastUpdated = `🔄 Last updated: ${new Date().toLocaleTimeString()}`;
+  if (!progress) {
+    return `🚀 Current Sprint\n📊 ${syncedIssueCount} issues synced from ${trackerLabel}\n${lastUpdated}`;
+  }
+
+  const lines = [`🚀 ${progress.name}`];
+  if (progress.goal) lines.push(`🎯 ${progress.goal}`);
+  lines.push(
+    `📅 ${formatDate(progress.startDate)} – ${formatDate(progress.endDate)}${
+      progress.daysRemaining !== undefined
+        ? ` · ${progress.daysRemaining} day${progress.daysRemaining === 1 ? "" : "s"} left`
+        : ""
+    }`
+  );
+  lines.push(
+    `${
+      progress.totalPoints > 0
+        ? `📈 ${progress.completedPoints}/${progress.totalPoints} pts done`
+        : `📈 ${progress.completedIssueCount}/${progress.issueCount} issues done`
+    }${
+      progress.committedPoints !== undefined
+        ? ` · ${progress.committedPoints} pts committed`
+        : ""
+    } · ${syncedIssueCount} synced`,
+    lastUpdated
+  );
+  return lines.join("\n");
+}
+
+// Assign a just-created issue. A name that can't be matched is only logged:
+// failing here would get the issue created a second time on retry.
+export async function assignNewIssue(
+  tracker: IssueTracker,
+  key: string,
+  assignee?: string
+): Promise<void> {
+  if (!assignee) return;
+  try {
+    await tracker.updateIssue(key, { assignee });
+  } catch (error) {
+    console.warn(`⚠️ Created ${key} but couldn't assign it to ${assignee}:`, error);
+  }
+}
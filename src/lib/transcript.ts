@@ -0,0 +1,68 @@
+import { TranscriptSpeaker, TranscriptTurn } from "../types/gemini-live";
+
+const SPEAKER_NAMES: Record<TranscriptSpeaker, string> = {
+  user: "Team",
+  spark: "Spark",
+};
+
+// Add a chunk of transcribed speech. It extends the speaker's open turn, or
+// starts a new one and closes the other speaker's.
+export function appendTranscriptChunk(
+  turns: TranscriptTurn[],
+  speaker: TranscriptSpeaker,
+  text: string,
+  now = Date.now()
+): TranscriptTurn[] {
+  const last = turns[turns.length - 1];
+  if (last && !last.done && last.speaker === speaker) {
+    return [...turns.slice(0, -1), { ...last, text: last.text + text, endedAt: now }];
+  }
+
+  return [
+    ...closeTranscriptTurns(turns),
+    {
+      id: `turn-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      speaker,
+      text: text.trimStart(),
+      startedAt: now,
+      endedAt: now,
+    },
+  ];
+}
+
+// Close the open turn, or only one by the given speaker, e.g. when Spark
+// finishes or is interrupted
+export function closeTranscriptTurns(
+  turns: TranscriptTurn[],
+  speaker?: TranscriptSpeaker
+): TranscriptTurn[] {
+  const last = turns[turns.length - 1];
+  return last && !last.done && (!speaker || last.speaker === speaker)
+    ? [...turns.slice(0, -1), { ...last, done: true }]
+    : turns;
+}
+
+// Turns mentioning every word of the query, case-insensitively
+export function searchTranscript(turns: TranscriptTurn[], query: string): TranscriptTurn[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return turns;
+  return turns.filter((turn) => {
+    const text = turn.text.toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+export const getSpeakerName = (speaker: TranscriptSpeaker) => SPEAKER_NAMES[speaker];
+
+export const formatTurnTime = (time: number) =>
+  new Date(time).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+// Plain-text transcript, one "[time] Speaker: text" line per turn
+export function formatTranscript(turns: TranscriptTurn[]): string {
+  return turns
+    .map(
+      (turn) =>
+        `[${formatTurnTime(turn.startedAt)}] ${getSpeakerName(turn.speaker)}: ${turn.text.trim()}`
+    )
+    .join("\n");
+}
@@ -0,0 +1,1056 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import {
+  BoardSyncConfig,
+  IssueRef,
+  KanbanColumn,
+  TrackerKind,
+  WhiteboardData,
+  WhiteboardElement,
+} from "../types/whiteboard";
+import { IssueTracker, TrackerIssue } from "../types/issue-tracker";
+import {
+  COLUMN_LAYOUT,
+  getColumnBounds,
+  getColumnForStatus,
+  getColumns,
+  getElementColumnId,
+} from "../lib/kanban-columns";
+import { createIssueTracker, resolveSyncConfig } from "../lib/trackers";
+import { formatSprintHeader, getAssignees } from "../lib/trackers/shared";
+
+// Simple utility to estimate sticky height based on number of text lines.
+// This keeps vertical spacing consistent and prevents overlap without
+// needing to measure DOM nodes in this data layer.
+function estimateStickyHeight(text: string): number {
+  const lines = text.split("\n").length;
+  const baseHeight = 70; // header + padding
+  const perLine = 20; // approximate line height
+  const clampedLines = Math.max(lines, 1);
+  return baseHeight + clampedLines * perLine;
+}
+
+type ToolResult = {
+  newData?: WhiteboardData;
+  response: Record<string, unknown>;
+};
+
+interface SyncBoardArgs extends Partial<BoardSyncConfig> {
+  includeCompleted?: boolean;
+  reasoning?: string;
+}
+
+interface WorkloadArgs {
+  includeCompleted?: boolean;
+}
+
+interface StandupUpdateArgs {
+  issueKey: string;
+  action: string;
+  targetStatus?: string;
+  comment?: string;
+  speaker?: string;
+  assignee?: string;
+  priority?: string;
+}
+
+interface SprintProgressArgs {
+  boardId?: string;
+}
+
+interface StandupSummaryArgs {
+  meetingDate: string;
+  accomplishments?: string[];
+  inProgress?: string[];
+  blockers?: string[];
+}
+
+// Cache for real team members, per tracker scope. Failures aren't cached, so
+// the next call tries again.
+const teamMembersCache = new Map<string, string[]>();
+
+// Helper function to get real team members from the board's tracker
+async function getRealTeamMembers(tracker: IssueTracker): Promise<string[]> {
+  const cached = teamMembersCache.get(tracker.id);
+  if (cached && cached.length > 0) {
+    return cached; // Return cached if available
+  }
+
+  try {
+    console.log(`🔍 Fetching team members from ${tracker.label}...`);
+    const members = await tracker.getTeamMembers();
+    teamMembersCache.set(tracker.id, members);
+    console.log(
+      `👥 Found ${members.length} real team members from ${tracker.label}:`,
+      members
+    );
+    return members;
+  } catch (error) {
+    console.error(`❌ Error fetching real team members from ${tracker.label}:`, error);
+    throw new Error(
+      `Could not load the team from ${tracker.label}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+// Check if proxy server is available
+export function isMCPAvailable(): boolean {
+  return true; // Always true since we're using proxy server
+}
+
+// Export function to get real team members for use in other files
+export async function getTeamMembers(
+  syncConfig?: BoardSyncConfig,
+  signal?: AbortSignal
+): Promise<string[]> {
+  return await getRealTeamMembers(createIssueTracker(syncConfig, signal));
+}
+
+// Issue tracker tools. They work against whichever tracker the board is
+// bound to in its sync settings (Jira by default).
+export const trackerWhiteboardTools: FunctionDeclaration[] = [
+  {
+    name: "sync_tracker_board",
+    description: `Sync the whiteboard with the issue tracker the board is bound to (Jira, GitHub, Linear or a local folder of task files). Fetches current issues and updates the Kanban board in place: existing notes keep their layout, new issues are added and status changes move notes between columns. Read the changeSummary back to the team.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        includeCompleted: {
+          type: Type.BOOLEAN,
+          description:
+            "Whether to include completed (Done) issues. Default: true",
+        },
+        projectKeys: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description:
+            "Jira project keys to sync (e.g. ['SCRUM']). Defaults to the board's sync settings",
+        },
+        boardId: {
+          type: Type.STRING,
+          description: "Jira Agile board id whose filter scopes the sync",
+        },
+        sprint: {
+          type: Type.STRING,
+          description:
+            "'active' for the open sprint or current iteration, or a sprint name/id. Defaults to the board's sync settings",
+        },
+        jql: {
+          type: Type.STRING,
+          description:
+            "Custom Jira JQL query - replaces the project/board/sprint filters. Only use when the team asks for a specific query",
+        },
+        maxIssues: {
+          type: Type.NUMBER,
+          description: "Maximum number of issues to fetch across all pages",
+        },
+        reasoning: {
+          type: Type.STRING,
+          description:
+            "Brief explanation of why you're syncing the board (shown in undo history)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "get_team_workload",
+    description: `Get current workload for team members from the board's issue tracker, including story points per person. Compare workloads by points rather than issue counts.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        includeCompleted: {
+          type: Type.BOOLEAN,
+          description: "Include recently completed work. Default: false",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "update_issue_from_standup",
+    description: `Write standup updates back to an issue in the board's tracker: change its status, add a comment attributed to the speaker, reassign it or change its priority. Several changes can be made in one call. The response includes a spokenSummary to read back.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        issueKey: {
+          type: Type.STRING,
+          description:
+            "Issue key as shown on the board (e.g. 'PROJ-123' in Jira, 'owner/repo#12' in GitHub, 'ENG-42' in Linear, the task id or file name for local files)",
+        },
+        action: {
+          type: Type.STRING,
+          enum: [
+            "start_work",
+            "complete_work",
+            "transition",
+            "add_comment",
+            "update_fields",
+          ],
+          description:
+            "start_work moves the issue to In Progress, complete_work to Done, transition to targetStatus. add_comment and update_fields leave the status alone",
+        },
+        targetStatus: {
+          type: Type.STRING,
+          description:
+            "Status to move the issue to (e.g. 'In Review'). Required for the transition action",
+        },
+        comment: {
+          type: Type.STRING,
+          description: "Comment to add to the issue",
+        },
+        speaker: {
+          type: Type.STRING,
+          description:
+            "Team member who gave the update - the comment is attributed to them",
+        },
+        assignee: {
+          type: Type.STRING,
+          description:
+            "Name of the person to assign the issue to, or 'unassigned' to clear it",
+        },
+        priority: {
+          type: Type.STRING,
+          enum: ["Highest", "High", "Medium", "Low", "Lowest"],
+          description: "New priority for the issue",
+        },
+      },
+      required: ["issueKey", "action"],
+    },
+  },
+  {
+    name: "get_sprint_progress",
+    description: `Get the sprint the board follows (by default the active Jira sprint, the current GitHub project iteration or the active Linear cycle): name, goal, dates, days remaining, completed vs total story points and, for Jira, the points committed at sprint start. Use it to answer "how are we tracking against the sprint goal?".`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        boardId: {
+          type: Type.STRING,
+          description:
+            "Jira Agile board id. Defaults to the board's sync settings",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "create_standup_summary",
+    description: `Create a standup summary on the whiteboard.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        meetingDate: {
+          type: Type.STRING,
+          description: "Date of the standup meeting (YYYY-MM-DD format)",
+        },
+        accomplishments: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: "List of work completed since last standup",
+        },
+        inProgress: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: "List of work currently in progress",
+        },
+        blockers: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: "List of blockers identified during standup",
+        },
+      },
+      required: ["meetingDate"],
+    },
+  },
+];
+
+// Initialize tools with real team data (simple version)
+export async function initializeTrackerTools(): Promise<void> {
+  console.log("✅ Issue tracker tools initialized (using proxy server)");
+}
+
+// Process issue tracker tool calls against the board's tracker
+export async function processTrackerToolCall(
+  currentData: WhiteboardData,
+  toolName: string,
+  toolArgs: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  console.log(`🔧 Processing tracker tool call: ${toolName}`, toolArgs);
+
+  try {
+    switch (toolName) {
+      case "sync_tracker_board":
+        return await syncTrackerBoard(currentData, toolArgs as SyncBoardArgs, signal);
+      case "get_team_workload":
+        return await getTeamWorkload(currentData, toolArgs as WorkloadArgs, signal);
+      case "update_issue_from_standup":
+        return await updateIssueFromStandup(
+          currentData,
+          toolArgs as unknown as StandupUpdateArgs,
+          signal
+        );
+      case "get_sprint_progress":
+        return await getSprintProgressReport(
+          currentData,
+          toolArgs as SprintProgressArgs,
+          signal
+        );
+      case "create_standup_summary":
+        return await createStandupSummary(
+          currentData,
+          toolArgs as unknown as StandupSummaryArgs,
+          signal
+        );
+      default:
+        return {
+          response: {
+            success: false,
+            error: `Unknown tracker tool: ${toolName}`,
+          },
+        };
+    }
+  } catch (error) {
+    console.error(`❌ Error in ${toolName}:`, error);
+    return {
+      response: {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
+  }
+}
+
+interface SyncChanges {
+  added: string[];
+  moved: { key: string; from: string; to: string }[];
+  updated: string[];
+  removed: string[];
+}
+
+// Issue notes are identified by tracker and key, e.g. "jira-SCRUM-12"
+const getIssueElementId = (tracker: TrackerKind, key: string) =>
+  `${tracker}-${key}`;
+
+function buildIssueRef(
+  issue: TrackerIssue,
+  tracker: TrackerKind,
+  syncedAt: number
+): IssueRef {
+  return {
+    tracker,
+    key: issue.key,
+    status: issue.status,
+    syncedAt,
+    url: issue.url,
+    issueType: issue.issueType,
+    storyPoints: issue.storyPoints,
+    parent: issue.parent,
+    labels: issue.labels,
+    dueDate: issue.dueDate,
+    blockedBy: issue.blockedBy,
+  };
+}
+
+function buildIssueText(issue: TrackerIssue): string {
+  const lines = [
+    `🎫 ${issue.key}: ${issue.title}`,
+    `👤 ${issue.assignee || "Unassigned"}`,
+  ];
+  if (issue.priority) lines.push(`⚡ ${issue.priority}`);
+  return lines.join("\n");
+}
+
+// Merge fetched issues into the board without disturbing manual work: existing
+// issue notes keep their position unless their tracker status moved them to
+// another column, new issues are stacked under their column, and notes for
+// issues missing from the results are flagged rather than deleted.
+function mergeTrackerIssues(
+  currentData: WhiteboardData,
+  tracker: TrackerKind,
+  issues: TrackerIssue[],
+  columns: KanbanColumn[]
+): { elements: WhiteboardElement[]; changes: SyncChanges } {
+  const changes: SyncChanges = { added: [], moved: [], updated: [], removed: [] };
+  const syncedAt = Date.now();
+  const gapY = 16;
+  const issuesById = new Map(
+    issues.map((issue) => [getIssueElementId(tracker, issue.key), issue])
+  );
+
+  // Next free slot per column, below everything already in it
+  const nextYByColumn: Record<string, number> = {};
+  const takeSlot = (column: KanbanColumn, text: string) => {
+    if (nextYByColumn[column.id] === undefined) {
+      nextYByColumn[column.id] = currentData.elements
+        .filter(
+          (el) =>
+            el.type === "sticky" && getElementColumnId(el, columns) === column.id
+        )
+        .reduce(
+          (maxY, el) =>
+            Math.max(
+              maxY,
+              el.y + estimateStickyHeight(el.type === "sticky" ? el.text : "") + gapY
+            ),
+          COLUMN_LAYOUT.firstCardY
+        );
+    }
+    const y = nextYByColumn[column.id];
+    nextYByColumn[column.id] = y + estimateStickyHeight(text) + gapY;
+    return { x: getColumnBounds(columns, column.id)!.cardX, y };
+  };
+
+  const elements = currentData.elements.map((el): WhiteboardElement => {
+    if (el.type !== "sticky" || !el.id.startsWith(`${tracker}-`)) return el;
+
+    const issue = issuesById.get(el.id);
+    if (!issue) {
+      if (el.issue && !el.issue.removed) {
+        changes.removed.push(el.issue.key);
+        return { ...el, issue: { ...el.issue, removed: true } };
+      }
+      return el;
+    }
+
+    const column = getColumnForStatus(columns, issue.status);
+    const text = buildIssueText(issue);
+    const ref = buildIssueRef(issue, tracker, syncedAt);
+
+    // Only a status change in the tracker moves the note; a local move the
+    // board never wrote back is kept as the user left it
+    const previousColumnId = el.issue
+      ? getColumnForStatus(columns, el.issue.status).id
+      : getElementColumnId(el, columns);
+    if (previousColumnId !== column.id) {
+      changes.moved.push({
+        key: issue.key,
+        from: previousColumnId
+          ? columns.find((c) => c.id === previousColumnId)?.title || previousColumnId
+          : "unknown",
+        to: column.title,
+      });
+      return {
+        ...el,
+        ...takeSlot(column, text),
+        text,
+        color: column.color,
+        columnId: column.id,
+        issue: ref,
+      };
+    }
+
+    if (text !== el.text || el.issue?.status !== issue.status || el.issue?.removed) {
+      changes.updated.push(issue.key);
+    }
+    return { ...el, text, issue: ref };
+  });
+
+  const existingIds = new Set(currentData.elements.map((el) => el.id));
+  issues.forEach((issue) => {
+    const id = getIssueElementId(tracker, issue.key);
+    if (existingIds.has(id)) return;
+
+    const column = getColumnForStatus(columns, issue.status);
+    const text = buildIssueText(issue);
+    elements.push({
+      id,
+      type: "sticky",
+      ...takeSlot(column, text),
+      text,
+      color: column.color,
+      columnId: column.id,
+      issue: buildIssueRef(issue, tracker, syncedAt),
+    });
+    changes.added.push(issue.key);
+  });
+
+  return { elements, changes };
+}
+
+// Helper function to phrase sync changes for Spark, e.g. "3 issues moved to Done, 1 new"
+function describeSyncChanges(changes: SyncChanges): string {
+  const movedByColumn = new Map<string, number>();
+  changes.moved.forEach((move) =>
+    movedByColumn.set(move.to, (movedByColumn.get(move.to) || 0) + 1)
+  );
+  const plural = (count: number) => (count === 1 ? "issue" : "issues");
+
+  const parts = [
+    ...Array.from(movedByColumn.entries()).map(
+      ([column, count]) => `${count} ${plural(count)} moved to ${column}`
+    ),
+    changes.added.length > 0 ? `${changes.added.length} new` : "",
+    changes.updated.length > 0 ? `${changes.updated.length} updated` : "",
+    changes.removed.length > 0
+      ? `${changes.removed.length} no longer in the results`
+      : "",
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(", ") : "no changes";
+}
+
+// Sync the board with its issue tracker
+async function syncTrackerBoard(
+  currentData: WhiteboardData,
+  args: SyncBoardArgs,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  const { includeCompleted = true } = args;
+
+  try {
+    const tracker = createIssueTracker(
+      resolveSyncConfig(currentData.syncConfig, args),
+      signal
+    );
+    console.log(`🔄 Syncing board with ${tracker.label}...`);
+
+    const { query, issues } = await tracker.searchIssues({ includeCompleted });
+    console.log(`📊 Fetched ${issues.length} issues from ${tracker.label}`);
+
+    const columns = getColumns(currentData);
+    const { elements, changes } = mergeTrackerIssues(
+      currentData,
+      tracker.kind,
+      issues,
+      columns
+    );
+
+    // Sprint details are a bonus - boards without sprints still sync
+    const sprint = await tracker
+      .getSprintProgress(issues.map((issue) => issue.key))
+      .catch((error) => {
+        console.warn("⚠️ Could not load the active sprint:", error);
+        return null;
+      });
+
+    // Add or refresh the header in place so a moved header stays put
+    const headerText = formatSprintHeader(sprint, issues.length, tracker.label);
+    const hasHeader = elements.some((el) => el.id === "sprint-header");
+    const newData = {
+      ...currentData,
+      elements: hasHeader
+        ? elements.map((el) =>
+            el.id === "sprint-header" && el.type === "sticky"
+              ? { ...el, text: headerText }
+              : el
+          )
+        : [
+            ...elements,
+            {
+              id: "sprint-header",
+              type: "sticky" as const,
+              x: 450,
+              y: 50,
+              text: headerText,
+              color: "blue",
+            },
+          ],
+    };
+    const changeSummary = describeSyncChanges(changes);
+    console.log(`📋 Sync changes: ${changeSummary}`);
+
+    // Extract team members from synced issues
+    const teamMembersList = getAssignees(issues);
+
+    return {
+      newData,
+      response: {
+        success: true,
+        message: `Synced ${issues.length} issues from ${tracker.label}: ${changeSummary}`,
+        tracker: tracker.label,
+        issueCount: issues.length,
+        query,
+
+        // What this sync changed on the board
+        changeSummary,
+        changes,
+        sprint,
+
+        // Add team member information to sync response
+        DISCOVERED_TEAM_MEMBERS: teamMembersList,
+        TEAM_MEMBER_COUNT: teamMembersList.length,
+
+        // Simple, clear response for natural conversation
+        boardSummary: `Synced ${
+          issues.length
+        } issues for team: ${teamMembersList.join(", ")}`,
+        teamSummary: `Found ${
+          teamMembersList.length
+        } team members: ${teamMembersList.join(", ")}`,
+
+        // Immediate action suggestion
+        IMMEDIATE_RESPONSE: `Board synced! Team members found: ${teamMembersList.join(
+          ", "
+        )}`,
+
+        // Issue breakdown by board column for better context
+        issuesByColumn: Object.fromEntries(
+          columns.map((column) => [
+            column.title,
+            issues.filter(
+              (issue) => getColumnForStatus(columns, issue.status).id === column.id
+            ).length,
+          ])
+        ),
+
+        // Structured data for response
+        responseData: {
+          totalIssues: issues.length,
+          teamMembers: teamMembersList,
+          boardUpdated: true,
+        },
+      },
+    };
+  } catch (error) {
+    console.error("❌ Error syncing board:", error);
+    return {
+      response: {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to sync board",
+      },
+    };
+  }
+}
+
+// Get team workload from the board's tracker
+async function getTeamWorkload(
+  currentData: WhiteboardData,
+  args: WorkloadArgs,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  const { includeCompleted = false } = args;
+
+  try {
+    const tracker = createIssueTracker(resolveSyncConfig(currentData.syncConfig), signal);
+    const workload = await tracker.getWorkload({ includeCompleted });
+    const teamNames = workload.map((member) => member.name);
+    console.log(`📊 Getting workload for team members: ${teamNames.join(", ")}`);
+
+    const tasksFor = (member: (typeof workload)[number]) =>
+      member.issues.map((issue) => ({
+        key: issue.key,
+        summary: issue.title,
+        status: issue.status,
+        priority: issue.priority || "Medium",
+        issueType: issue.issueType,
+        // Story points weigh the workload better than issue counts
+        storyPoints: issue.storyPoints,
+      }));
+
+    return {
+      response: {
+        success: true,
+        message: `Retrieved team workload data from ${tracker.label}`,
+
+        // CRITICAL: These are the REAL team members for this project
+        REAL_TEAM_MEMBERS: teamNames,
+        TEAM_COUNT: teamNames.length,
+
+        // IMMEDIATE PROCESSING INSTRUCTION - Simple and direct
+        IMMEDIATE_RESPONSE: `Great! I found our team members: ${teamNames.join(
+          ", "
+        )}. Let's start our standup meeting.`,
+
+        // Clear, simple summary for natural conversation flow
+        teamSummary: `Active team members: ${teamNames.join(", ")}`,
+
+        // Conversation starter that Gemini should use immediately
+        nextAction: `Start standup meeting with: ${teamNames.join(", ")}`,
+
+        workload: Object.fromEntries(
+          workload.map((member) => [
+            member.name,
+            {
+              totalIssues: member.totalIssues,
+              totalPoints: member.totalPoints,
+              unestimatedIssues: member.unestimatedIssues,
+              issues: tasksFor(member),
+            },
+          ])
+        ),
+        individualWorkloads: workload.map((member) => ({
+          assignee: member.name, // Make this field very clear
+          name: member.name,
+          totalIssues: member.totalIssues,
+          totalPoints: member.totalPoints,
+          tasks: tasksFor(member), // Add this for easier access
+          currentWork: member.issues.map(
+            (issue) => `${issue.key}: ${issue.title} (${issue.status})`
+          ),
+        })),
+
+        // Structured data for the response
+        responseData: {
+          teamCount: teamNames.length,
+          teamNames,
+          totalIssues: workload.reduce((sum, member) => sum + member.totalIssues, 0),
+          totalPoints: workload.reduce((sum, member) => sum + member.totalPoints, 0),
+        },
+      },
+    };
+  } catch (error) {
+    console.error("❌ Error getting team workload:", error);
+    return {
+      response: {
+        success: false,
+        error: "Failed to retrieve team workload data",
+      },
+    };
+  }
+}
+
+// What each tracker needs before it can report a sprint
+const NO_SPRINT_ERRORS: Record<TrackerKind, string> = {
+  jira: "No active sprint found - set a board id in the sync settings or sync a project with a scrum board",
+  github: "No current iteration found - add an Iteration field to the GitHub project",
+  linear: "No active cycle found - turn on cycles for the Linear team",
+  local: "No sprint found - add a sprint to backlog.yaml and tag tasks with it",
+};
+
+// Report how the active sprint is tracking against time
+async function getSprintProgressReport(
+  currentData: WhiteboardData,
+  args: SprintProgressArgs,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  const tracker = createIssueTracker(
+    resolveSyncConfig(currentData.syncConfig, args),
+    signal
+  );
+  const issueKeys = currentData.elements.flatMap((el) =>
+    el.type === "sticky" && el.issue?.tracker === tracker.kind ? [el.issue.key] : []
+  );
+
+  const sprint = await tracker.getSprintProgress(issueKeys);
+  if (!sprint) {
+    return {
+      response: {
+        success: false,
+        error: NO_SPRINT_ERRORS[tracker.kind],
+      },
+    };
+  }
+
+  const pointsPercent =
+    sprint.totalPoints > 0
+      ? Math.round((sprint.completedPoints / sprint.totalPoints) * 100)
+      : Math.round(
+          (sprint.completedIssueCount / Math.max(sprint.issueCount, 1)) * 100
+        );
+  const unit = sprint.totalPoints > 0 ? "points" : "issues";
+
+  // On track when completed work keeps up with elapsed time (10 point margin)
+  let tracking = "unknown";
+  if (sprint.timeElapsedPercent !== undefined) {
+    tracking =
+      pointsPercent + 10 >= sprint.timeElapsedPercent ? "on track" : "behind";
+  }
+
+  const done =
+    unit === "points"
+      ? `${sprint.completedPoints} of ${sprint.totalPoints} points`
+      : `${sprint.completedIssueCount} of ${sprint.issueCount} issues`;
+  const committed =
+    sprint.committedPoints !== undefined
+      ? ` against ${sprint.committedPoints} points committed at the start`
+      : "";
+  const timeLeft =
+    sprint.daysRemaining !== undefined
+      ? ` with ${sprint.daysRemaining} day${
+          sprint.daysRemaining === 1 ? "" : "s"
+        } left`
+      : "";
+
+  return {
+    response: {
+      success: true,
+      sprint,
+      percentComplete: pointsPercent,
+      tracking,
+      spokenSummary: `${sprint.name}${
+        sprint.goal ? ` - goal: ${sprint.goal}` : ""
+      }. We've completed ${done} (${pointsPercent}%)${committed}${timeLeft}${
+        tracking !== "unknown" ? `, so we're ${tracking}` : ""
+      }.`,
+    },
+  };
+}
+
+// Standup shorthand actions and the status they move an issue to
+const ACTION_TARGET_STATUS: Record<string, string> = {
+  start_work: "In Progress",
+  complete_work: "Done",
+};
+
+interface StandupChange {
+  type: "transition" | "assignee" | "priority" | "comment";
+  success: boolean;
+  detail: string;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+// Spoken GitHub keys often drop the repository ("#12", "app#12")
+function matchesIssueKey(ref: IssueRef, issueKey: string): boolean {
+  const key = issueKey.trim().toLowerCase();
+  const refKey = ref.key.toLowerCase();
+  const suffix = /^\d+$/.test(key) ? `#${key}` : key.startsWith("#") ? key : `/${key}`;
+  return refKey === key || (ref.tracker === "github" && refKey.endsWith(suffix));
+}
+
+// Helper function to move an issue's sticky to the column for its new status
+function moveIssueSticky(
+  currentData: WhiteboardData,
+  issueKey: string,
+  statusName: string
+): WhiteboardData | undefined {
+  const sticky = currentData.elements.find(
+    (el) => el.type === "sticky" && !!el.issue && matchesIssueKey(el.issue, issueKey)
+  );
+  if (!sticky || sticky.type !== "sticky") return undefined;
+
+  const columns = getColumns(currentData);
+  const column = getColumnForStatus(columns, statusName);
+  if (sticky.columnId === column.id && sticky.issue?.status === statusName) {
+    return undefined;
+  }
+
+  const sameColumn = sticky.columnId === column.id;
+  const columnBottom = currentData.elements
+    .filter((el) => el.type === "sticky" && el.columnId === column.id)
+    .reduce(
+      (maxY, el) => Math.max(maxY, el.y + COLUMN_LAYOUT.cardSpacingY),
+      COLUMN_LAYOUT.firstCardY
+    );
+
+  return {
+    ...currentData,
+    elements: currentData.elements.map((el) =>
+      el.id === sticky.id
+        ? {
+            ...sticky,
+            columnId: column.id,
+            x: getColumnBounds(columns, column.id)!.cardX,
+            y: sameColumn ? sticky.y : columnBottom,
+            color: column.color,
+            ...(sticky.issue
+              ? { issue: { ...sticky.issue, status: statusName } }
+              : {}),
+          }
+        : el
+    ),
+  };
+}
+
+// Write standup updates back to the tracker. Each requested change is
+// attempted independently so one rejected change doesn't hide the others.
+async function updateIssueFromStandup(
+  currentData: WhiteboardData,
+  args: StandupUpdateArgs,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  const { issueKey, action, comment, speaker, assignee, priority } = args;
+  const targetStatus: string | undefined =
+    args.targetStatus || ACTION_TARGET_STATUS[action];
+  const changes: StandupChange[] = [];
+  let newStatus: string | undefined;
+
+  const tracker = createIssueTracker(resolveSyncConfig(currentData.syncConfig), signal);
+  console.log(
+    `📝 Updating ${tracker.label} issue ${issueKey} with action: ${action}`
+  );
+
+  if (action === "transition" && !targetStatus) {
+    return {
+      response: {
+        success: false,
+        error: "The transition action needs a targetStatus",
+      },
+    };
+  }
+
+  if (targetStatus) {
+    try {
+      newStatus = await tracker.transitionIssue(issueKey, [targetStatus]);
+      changes.push({
+        type: "transition",
+        success: true,
+        detail: `moved to ${newStatus}`,
+      });
+    } catch (error) {
+      changes.push({
+        type: "transition",
+        success: false,
+        detail: `status change failed: ${describeError(error)}`,
+      });
+    }
+  }
+
+  if (assignee) {
+    try {
+      if (/^(none|nobody|unassigned)$/i.test(assignee.trim())) {
+        await tracker.updateIssue(issueKey, { assignee: null });
+        changes.push({ type: "assignee", success: true, detail: "unassigned" });
+      } else {
+        const result = await tracker.updateIssue(issueKey, { assignee });
+        changes.push({
+          type: "assignee",
+          success: true,
+          detail: `assigned to ${result.assignee || assignee}`,
+        });
+      }
+    } catch (error) {
+      changes.push({
+        type: "assignee",
+        success: false,
+        detail: `reassigning failed: ${describeError(error)}`,
+      });
+    }
+  }
+
+  if (priority) {
+    try {
+      await tracker.updateIssue(issueKey, { priority });
+      changes.push({
+        type: "priority",
+        success: true,
+        detail: `priority set to ${priority}`,
+      });
+    } catch (error) {
+      changes.push({
+        type: "priority",
+        success: false,
+        detail: `priority change failed: ${describeError(error)}`,
+      });
+    }
+  }
+
+  if (comment) {
+    const attributed = speaker
+      ? `💬 Standup update from ${speaker}:\n${comment}`
+      : `💬 Standup update:\n${comment}`;
+    try {
+      await tracker.addComment(issueKey, attributed);
+      changes.push({
+        type: "comment",
+        success: true,
+        detail: speaker ? `comment from ${speaker} added` : "comment added",
+      });
+    } catch (error) {
+      changes.push({
+        type: "comment",
+        success: false,
+        detail: `comment failed: ${describeError(error)}`,
+      });
+    }
+  }
+
+  if (changes.length === 0) {
+    return {
+      response: {
+        success: false,
+        error: `Nothing to update on ${issueKey} - pass a targetStatus, comment, assignee or priority`,
+      },
+    };
+  }
+
+  const succeeded = changes.filter((change) => change.success);
+  const failed = changes.filter((change) => !change.success);
+  const spokenParts = [
+    succeeded.length > 0
+      ? `${issueKey} ${succeeded.map((change) => change.detail).join(", ")}`
+      : "",
+    failed.length > 0
+      ? `I couldn't update everything: ${failed
+          .map((change) => change.detail)
+          .join("; ")}`
+      : "",
+  ].filter(Boolean);
+
+  return {
+    newData: newStatus
+      ? moveIssueSticky(currentData, issueKey, newStatus)
+      : undefined,
+    response: {
+      success: failed.length === 0,
+      partial: succeeded.length > 0 && failed.length > 0,
+      issueKey,
+      newStatus,
+      changes,
+      spokenSummary: `${spokenParts.join(". ")}.`,
+    },
+  };
+}
+
+// Create standup summary
+async function createStandupSummary(
+  currentData: WhiteboardData,
+  args: StandupSummaryArgs,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  const {
+    meetingDate,
+    accomplishments = [],
+    inProgress = [],
+    blockers = [],
+  } = args;
+
+  try {
+    // The summary is still worth having without the roster
+    const teamMembers = await getRealTeamMembers(
+      createIssueTracker(resolveSyncConfig(currentData.syncConfig), signal)
+    ).catch((): string[] => []);
+    const summaryText = `📅 Daily Standup - ${meetingDate}
+
+✅ Accomplishments:
+${accomplishments.map((item: string) => `• ${item}`).join("\n")}
+
+🔄 In Progress:
+${inProgress.map((item: string) => `• ${item}`).join("\n")}
+
+⚠️ Blockers:
+${blockers.map((item: string) => `• ${item}`).join("\n")}
+
+${teamMembers.length ? `👥 Team: ${teamMembers.join(", ")}\n` : ""}🕐 Meeting Time: ${new Date().toLocaleTimeString()}`;
+
+    const summaryElement: WhiteboardElement = {
+      id: `standup-summary-${meetingDate}`,
+      type: "sticky",
+      x: 450,
+      y: COLUMN_LAYOUT.summaryY,
+      text: summaryText,
+      color: "blue",
+    };
+
+    const newData = {
+      ...currentData,
+      elements: [
+        ...currentData.elements.filter(
+          (el) => !el.id.startsWith("standup-summary-")
+        ),
+        summaryElement,
+      ],
+    };
+
+    return {
+      newData,
+      response: {
+        success: true,
+        message: "Created standup summary",
+        summaryId: summaryElement.id,
+      },
+    };
+  } catch (error) {
+    console.error("❌ Error creating standup summary:", error);
+    return {
+      response: {
+        success: false,
+        error: "Failed to create standup summary",
+      },
+    };
+  }
+}
@@ -1,244 +1,441 @@
 import { FunctionDeclaration, Type } from "@google/genai";
-import { WhiteboardData, WhiteboardElement } from "../types/whiteboard";
 import {
-  jiraWhiteboardTools,
-  processJiraToolCall,
+  KanbanColumn,
+  WhiteboardData,
+  WhiteboardElement,
+} from "../types/whiteboard";
+import { StandupSession } from "../types/meeting";
+import {
+  trackerWhiteboardTools,
+  processTrackerToolCall,
   isMCPAvailable,
-} from "./jira-whiteboard-tools";
+  getTeamMembers,
+} from "./tracker-whiteboard-tools";
+import {
+  COLUMN_LAYOUT,
+  DEFAULT_COLUMNS,
+  findColumn,
+  getColumnAtPoint,
+  getColumnBounds,
+  getColumnBoundsByIndex,
+  getColumns,
+  getElementColumnId,
+} from "../lib/kanban-columns";
+import { mcpHost } from "../lib/mcp-host";
+import {
+  convertActionItemToIssue,
+  createActionItem,
+  getTodayDate,
+  normalizeDueDate,
+} from "../lib/action-items";
+import { findNote, getBlockedTasks, linkBlocker, unlinkBlocker } from "../lib/blockers";
+import {
+  advanceSpeaker,
+  formatDuration,
+  getStandupTiming,
+  SpeakerOrder,
+  startStandup,
+  StandupTiming,
+} from "../lib/standup";
+import { resolveSyncConfig } from "../lib/trackers";
+
+// Build the whiteboard tool declarations for a board's column model, so
+// column names, positions and enums always match what is rendered
+export function buildWhiteboardTools(
+  columns: KanbanColumn[] = DEFAULT_COLUMNS
+): FunctionDeclaration[] {
+  const columnIds = columns.map((column) => column.id);
+  const columnTitles = columns
+    .map((column) => column.title.toUpperCase())
+    .join(", ");
+  const columnList = columns
+    .map(
+      (column, index) =>
+        `- ${column.title.toUpperCase()} (id: "${column.id}", x: ${
+          getColumnBoundsByIndex(index).cardX
+        }, color: ${column.color}${
+          column.wipLimit ? `, WIP limit: ${column.wipLimit}` : ""
+        })`
+    )
+    .join("\n      ");
 
-// Combine original whiteboard tools with Jira-enhanced tools
-export const whiteboardTools: FunctionDeclaration[] = [
-  {
-    name: "get_whiteboard_info",
-    description: `Get current whiteboard state and task information. Use this to:
+  return [
+    {
+      name: "get_whiteboard_info",
+      description: `Get current whiteboard state and task information. Use this to:
     
-    **QUERY CAPABILITIES:**
-    - Find tasks by text content (e.g., "find task about API integration")
-    - List all tasks in a specific column (TO DO, IN PROGRESS, DONE)
-    - Get task IDs for moving tasks between columns
-    - Check current project status and task counts
+      **QUERY CAPABILITIES:**
+      - Find tasks by text content (e.g., "find task about API integration")
+      - List all tasks in a specific column (${columnTitles})
+      - Get task IDs for moving tasks between columns
+      - Check current project status and task counts
     
-    **SEARCH EXAMPLES:**
-    - "Find tasks containing 'authentication'" 
-    - "List all IN PROGRESS tasks"
-    - "What tasks are in the DONE column?"
-    - "Find task about mobile design"
+      **SEARCH EXAMPLES:**
+      - "Find tasks containing 'authentication'" 
+      - "List all IN PROGRESS tasks"
+      - "What tasks are in the DONE column?"
+      - "Find task about mobile design"
     
-    Always use this BEFORE trying to move/update existing tasks to get their IDs.`,
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        query: {
-          type: Type.STRING,
-          description:
-            "Search query - can be task text, column name (TODO/IN PROGRESS/DONE), or general description",
-        },
-        column: {
-          type: Type.STRING,
-          enum: ["todo", "inprogress", "done", "all"],
-          description:
-            "Specific column to search in, or 'all' for entire board",
+      Always use this BEFORE trying to move/update existing tasks to get their IDs.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          query: {
+            type: Type.STRING,
+            description:
+              "Search query - can be task text, column name, or general description",
+          },
+          column: {
+            type: Type.STRING,
+            enum: [...columnIds, "all"],
+            description:
+              "Specific column to search in, or 'all' for entire board",
+          },
         },
+        required: ["query"],
       },
-      required: ["query"],
     },
-  },
-  {
-    name: "update_whiteboard",
-    description: `Update the Kanban-style whiteboard with tasks and project items. The whiteboard has three columns:
-
-    **KANBAN COLUMNS:**
-    - TO DO (x: 100, color: yellow): New tasks to be started  
-    - IN PROGRESS (x: 460, color: orange): Tasks being worked on
-    - DONE (x: 820, color: green): Completed tasks
+    {
+      name: "update_whiteboard",
+      description: `Update the Kanban-style whiteboard with tasks and project items. The whiteboard has ${
+        columns.length
+      } columns, in order:
+
+      **KANBAN COLUMNS:**
+      ${columnList}
     
-    **POSITIONING RULES:**
-    - TO DO column: x=100, color="yellow"
-    - IN PROGRESS column: x=460, color="orange" 
-    - DONE column: x=820, color="green"
-    - Y positions: 180, 270, 360, 450, etc. (90px spacing)
+      **POSITIONING RULES:**
+      - Use the x position and color of the target column listed above
+      - Y positions: ${COLUMN_LAYOUT.firstCardY}, ${
+        COLUMN_LAYOUT.firstCardY + COLUMN_LAYOUT.cardSpacingY
+      }, ${COLUMN_LAYOUT.firstCardY + 2 * COLUMN_LAYOUT.cardSpacingY}, etc. (${
+        COLUMN_LAYOUT.cardSpacingY
+      }px spacing)
     
-    **MOVING EXISTING TASKS:**
-    - Use get_whiteboard_info first to find task IDs
-    - Then use action="update" with the task ID and new position/color
+      **MOVING EXISTING TASKS:**
+      - Use get_whiteboard_info first to find task IDs
+      - Then use action="update" with the task ID and new position/color
     
-    Use this when users:
-    - Add new tasks → Place in TO DO column
-    - Start working on something → Move to IN PROGRESS 
-    - Complete tasks → Move to DONE
-    - Organize project items → Use appropriate column
-    - Update task status → Move between columns`,
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        action: {
-          type: Type.STRING,
-          enum: ["add", "update", "remove", "replace"],
-          description: "The action to perform on the whiteboard",
-        },
-        elements: {
-          type: Type.ARRAY,
-          description: "Array of elements to add or update",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: {
-                type: Type.STRING,
-                description:
-                  "Unique identifier for the element. For new elements, use a descriptive name with timestamp",
-              },
-              type: {
-                type: Type.STRING,
-                enum: ["sticky", "flow-node", "mermaid", "embed"],
-                description: "Type of whiteboard element",
-              },
-              x: {
-                type: Type.NUMBER,
-                description:
-                  "X coordinate: TO DO=100, IN PROGRESS=500, DONE=900 (auto-assigned if not provided)",
-              },
-              y: {
-                type: Type.NUMBER,
-                description:
-                  "Y coordinate: 220, 300, 380, 460... (auto-assigned based on column content)",
-              },
-              // Sticky note properties
-              text: {
-                type: Type.STRING,
-                description:
-                  "Task description or content. System will auto-detect column based on keywords like 'working on', 'completed', etc.",
-              },
-              color: {
-                type: Type.STRING,
-                enum: ["yellow", "blue", "green", "pink", "purple", "orange"],
-                description:
-                  "Color: yellow=TO DO, orange=IN PROGRESS, green=DONE (auto-assigned based on column)",
-              },
-              // Flow node properties
-              label: {
-                type: Type.STRING,
-                description: "Label text for flow nodes",
-              },
-              shape: {
-                type: Type.STRING,
-                enum: ["rectangle", "diamond", "circle", "ellipse"],
-                description: "Shape for flow nodes",
-              },
-              connections: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-                description: "Array of element IDs this flow node connects to",
-              },
-              // Mermaid diagram properties
-              mermaidCode: {
-                type: Type.STRING,
-                description: "Mermaid syntax code for diagrams",
-              },
-              // Embedded link properties
-              url: {
-                type: Type.STRING,
-                description: "URL for embedded content",
-              },
-              embedType: {
-                type: Type.STRING,
-                enum: ["iframe", "video"],
-                description: "Type of embedded content",
+      Use this when users:
+      - Add new tasks → Place in the first column (${columns[0].title.toUpperCase()})
+      - Start working on something → Move to the matching work column
+      - Complete tasks → Move to the last column (${columns[
+        columns.length - 1
+      ].title.toUpperCase()})
+      - Organize project items → Use appropriate column
+      - Update task status → Move between columns`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          action: {
+            type: Type.STRING,
+            enum: ["add", "update", "remove", "replace"],
+            description: "The action to perform on the whiteboard",
+          },
+          elements: {
+            type: Type.ARRAY,
+            description: "Array of elements to add or update",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: {
+                  type: Type.STRING,
+                  description:
+                    "Unique identifier for the element. For new elements, use a descriptive name with timestamp",
+                },
+                type: {
+                  type: Type.STRING,
+                  enum: ["sticky", "flow-node", "mermaid", "embed"],
+                  description: "Type of whiteboard element",
+                },
+                x: {
+                  type: Type.NUMBER,
+                  description: `X coordinate: ${columns
+                    .map(
+                      (column, index) =>
+                        `${column.title.toUpperCase()}=${
+                          getColumnBoundsByIndex(index).cardX
+                        }`
+                    )
+                    .join(", ")} (auto-assigned if not provided)`,
+                },
+                y: {
+                  type: Type.NUMBER,
+                  description:
+                    "Y coordinate: 220, 300, 380, 460... (auto-assigned based on column content)",
+                },
+                // Sticky note properties
+                text: {
+                  type: Type.STRING,
+                  description:
+                    "Task description or content. System will auto-detect column based on keywords like 'working on', 'completed', etc.",
+                },
+                color: {
+                  type: Type.STRING,
+                  enum: ["yellow", "blue", "green", "pink", "purple", "orange"],
+                  description: `Color: ${columns
+                    .map(
+                      (column) => `${column.color}=${column.title.toUpperCase()}`
+                    )
+                    .join(", ")} (auto-assigned based on column)`,
+                },
+                columnId: {
+                  type: Type.STRING,
+                  enum: columnIds,
+                  description:
+                    "Column (status) of a task sticky note. Position and color follow from it - prefer setting this over x/color",
+                },
+                // Flow node properties
+                label: {
+                  type: Type.STRING,
+                  description: "Label text for flow nodes",
+                },
+                shape: {
+                  type: Type.STRING,
+                  enum: ["rectangle", "diamond", "circle", "ellipse"],
+                  description: "Shape for flow nodes",
+                },
+                connections: {
+                  type: Type.ARRAY,
+                  items: { type: Type.STRING },
+                  description: "Array of element IDs this flow node connects to",
+                },
+                // Mermaid diagram properties
+                mermaidCode: {
+                  type: Type.STRING,
+                  description: "Mermaid syntax code for diagrams",
+                },
+                // Embedded link properties
+                url: {
+                  type: Type.STRING,
+                  description: "URL for embedded content",
+                },
+                embedType: {
+                  type: Type.STRING,
+                  enum: ["iframe", "video"],
+                  description: "Type of embedded content",
+                },
               },
+              required: ["id", "type", "x", "y"],
             },
-            required: ["id", "type", "x", "y"],
+          },
+          elementIds: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description:
+              "Array of element IDs to remove (only for remove action)",
+          },
+          reasoning: {
+            type: Type.STRING,
+            description:
+              "Brief explanation of why you're making these changes to the whiteboard",
           },
         },
-        elementIds: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING },
-          description:
-            "Array of element IDs to remove (only for remove action)",
-        },
-        reasoning: {
-          type: Type.STRING,
-          description:
-            "Brief explanation of why you're making these changes to the whiteboard",
-        },
+        required: ["action", "reasoning"],
       },
-      required: ["action", "reasoning"],
     },
-  },
-  {
-    name: "move_task",
-    description: `Move an existing task between Kanban columns by searching for it by text content. 
+    {
+      name: "move_task",
+      description: `Move an existing task between Kanban columns by searching for it by text content. 
     
-    **IMPORTANT USAGE GUIDELINES:**
-    - Use SPECIFIC and UNIQUE text from the task you want to move
-    - Use at least 3-4 distinctive words from the task text
-    - If moving tasks for different team members, use their specific task text
-    - Avoid generic words that might match multiple tasks
+      **IMPORTANT USAGE GUIDELINES:**
+      - Use SPECIFIC and UNIQUE text from the task you want to move
+      - Use at least 3-4 distinctive words from the task text
+      - If moving tasks for different team members, use their specific task text
+      - Avoid generic words that might match multiple tasks
     
-    **GOOD EXAMPLES:**
-    - "Move user authentication system to IN PROGRESS" (specific task name)
-    - "Mark payment gateway integration as DONE" (unique business logic)
-    - "Move mobile responsive design task to TODO" (specific feature)
+      **GOOD EXAMPLES:**
+      - "Move user authentication system to ${(
+        columns[1] || columns[0]
+      ).title.toUpperCase()}" (specific task name)
+      - "Mark payment gateway integration as ${columns[
+        columns.length - 1
+      ].title.toUpperCase()}" (unique business logic)
     
-    **AVOID:**
-    - "Move API task" (too generic, might match multiple API tasks)
-    - "Move frontend" (too broad)
-    - "Move testing" (many tasks might contain "testing")
+      **AVOID:**
+      - "Move API task" (too generic, might match multiple API tasks)
+      - "Move frontend" (too broad)
+      - "Move testing" (many tasks might contain "testing")
     
-    **BEHAVIOR:**
-    - Finds the BEST matching task using intelligent text scoring
-    - Prioritizes exact matches and tasks not already in target column
-    - Will skip moving if task is already in the target column
-    - Automatically positions task correctly in the target column
+      **BEHAVIOR:**
+      - Finds the BEST matching task using intelligent text scoring
+      - Prioritizes exact matches and tasks not already in target column
+      - Will skip moving if task is already in the target column
+      - Automatically positions task correctly in the target column
     
-    Use this instead of update_whiteboard when you want to move existing tasks.`,
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        taskText: {
-          type: Type.STRING,
-          description:
-            "Specific and unique text content from the task you want to move (use 3-4 distinctive words minimum for accuracy)",
+      Use this instead of update_whiteboard when you want to move existing tasks.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          taskText: {
+            type: Type.STRING,
+            description:
+              "Specific and unique text content from the task you want to move (use 3-4 distinctive words minimum for accuracy)",
+          },
+          targetColumn: {
+            type: Type.STRING,
+            enum: columnIds,
+            description: `Target column id to move the task to (${columns
+              .map((column) => `${column.id}=${column.title}`)
+              .join(", ")})`,
+          },
+          reasoning: {
+            type: Type.STRING,
+            description: "Brief explanation of why you're moving this task",
+          },
         },
-        targetColumn: {
-          type: Type.STRING,
-          enum: ["todo", "inprogress", "done"],
-          description: "Target column to move the task to",
+        required: ["taskText", "targetColumn", "reasoning"],
+      },
+    },
+    {
+      name: "add_action_item",
+      description: `Record an action item agreed in the meeting as its own card below the columns, with an owner and a due date.
+
+      Use this when someone commits to doing something ("Ana will send the release notes by Friday", "let's get a fix in before the demo") rather than for work already on the board. Today is ${getTodayDate()} - resolve relative dates against it. Every result of this tool carries the current date as "today", which wins if the two differ.
+
+      Set createIssue when the team asks for the item to be tracked, and it is also created as an issue in the board's tracker, assigned to the owner.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          text: {
+            type: Type.STRING,
+            description: "What needs to be done, as a short imperative sentence",
+          },
+          owner: {
+            type: Type.STRING,
+            description: "Team member who took the item on",
+          },
+          dueDate: {
+            type: Type.STRING,
+            description: "Due date as YYYY-MM-DD - resolve dates like \"Friday\" or \"Oct 24\" to the next such day from today",
+          },
+          sourceQuote: {
+            type: Type.STRING,
+            description: "What was said that created the item, word for word",
+          },
+          createIssue: {
+            type: Type.BOOLEAN,
+            description: "Also create an issue for it in the board's tracker",
+          },
         },
-        reasoning: {
-          type: Type.STRING,
-          description: "Brief explanation of why you're moving this task",
+        required: ["text"],
+      },
+    },
+    {
+      name: "flag_blocker",
+      description: `Record a blocker on a task when someone says they are blocked. The note is flagged red with the reason, and when another task on the board is what's in the way, a "blocks" link is drawn from it to the blocked task.
+
+      Refer to tasks by their issue key (e.g. "SCRUM-12") or the id from get_whiteboard_info. Set cleared to true when someone says they are no longer blocked.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          task: {
+            type: Type.STRING,
+            description: "Issue key or note id of the blocked task",
+          },
+          reason: {
+            type: Type.STRING,
+            description: "What is in the way, in the speaker's words",
+          },
+          blockedBy: {
+            type: Type.STRING,
+            description: "Issue key or note id of the task that blocks it, if it is on the board",
+          },
+          cleared: {
+            type: Type.BOOLEAN,
+            description: "The blocker is gone: remove the flag, and the link to blockedBy if given",
+          },
         },
+        required: ["task"],
       },
-      required: ["taskText", "targetColumn", "reasoning"],
     },
-  },
-  ...jiraWhiteboardTools,
-];
+    {
+      name: "get_blockers",
+      description: `List every task that is still blocked: notes flagged as blocked with their reason, and tasks waiting on a blocker that isn't done yet - linked on the board or imported from the tracker's "is blocked by" links. Use this at the end of the standup to review blockers and agree who follows up on each.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {},
+      },
+    },
+    {
+      name: "next_speaker",
+      description: `Hand the floor to the next person in the standup and restart the speaker timer. The first call starts standup mode: the speaker queue is built from the tracker's team roster (or the speakers given) and the first person is up.
+
+      Call this as soon as someone finishes their update. When someone runs over their time, wait for a natural pause, thank them, offer to take details offline, then call it. Pass name to jump to someone, and skip when the person up isn't there.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          name: {
+            type: Type.STRING,
+            description: "Give the floor to this person instead of the next in the queue",
+          },
+          skip: {
+            type: Type.BOOLEAN,
+            description: "The current speaker isn't here - skip them instead of ending their turn",
+          },
+          speakers: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "When starting: who is at the standup, if not the whole roster",
+          },
+          order: {
+            type: Type.STRING,
+            enum: ["rotate", "roster", "shuffle"],
+            description: "When starting: speaking order (rotate starts with someone different each day)",
+          },
+          speakerMinutes: {
+            type: Type.NUMBER,
+            description: "When starting: time limit per speaker in minutes (default 2)",
+          },
+          meetingMinutes: {
+            type: Type.NUMBER,
+            description: "When starting: timebox for the whole standup in minutes (default 15)",
+          },
+        },
+      },
+    },
+    {
+      name: "get_meeting_time",
+      description: `Check the standup clock: how long the current speaker has been talking against their limit, time used and left in the timebox, who is still waiting and whether the meeting is on track to overrun. Use it to pace the meeting and to move things along politely when someone overruns.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {},
+      },
+    },
+    ...trackerWhiteboardTools,
+  ];
+}
+
+// Tool declarations for the default column model
+export const whiteboardTools: FunctionDeclaration[] = buildWhiteboardTools();
 
 // Helper function to generate Kanban-aware positions for new elements
 export function generateElementPosition(
   index: number = 0,
-  column: "todo" | "inprogress" | "done" = "todo"
+  columnId?: string,
+  columns: KanbanColumn[] = DEFAULT_COLUMNS
 ): {
   x: number;
   y: number;
 } {
-  // Kanban column X positions
-  const kanbanColumns = {
-    todo: 100,
-    inprogress: 460,
-    done: 820,
-  };
-
-  // Y positions with proper spacing
-  const startY = 180;
-  const spacingY = 90;
+  const bounds =
+    getColumnBounds(columns, columnId || columns[0].id) ||
+    getColumnBoundsByIndex(0);
 
   return {
-    x: kanbanColumns[column],
-    y: startY + index * spacingY,
+    x: bounds.cardX,
+    y: COLUMN_LAYOUT.firstCardY + index * COLUMN_LAYOUT.cardSpacingY,
   };
 }
 
+// Helper function to determine which column a task is in from its status
+export function getTaskColumnId(
+  task: WhiteboardElement,
+  columns: KanbanColumn[]
+): string {
+  return getElementColumnId(task, columns) || "other";
+}
+
 // Helper function to get current whiteboard information
 export function getWhiteboardInfo(
   currentData: WhiteboardData,
@@ -252,22 +449,16 @@ export function getWhiteboardInfo(
     column
   );
 
+  const columns = getColumns(currentData);
   const allTasks = currentData.elements.filter((el) => el.type === "sticky");
 
   // Filter by column if specified
   let filteredTasks = allTasks;
   if (column && column !== "all") {
-    switch (column) {
-      case "todo":
-        filteredTasks = allTasks.filter((el) => el.x >= 60 && el.x <= 380);
-        break;
-      case "inprogress":
-        filteredTasks = allTasks.filter((el) => el.x >= 420 && el.x <= 740);
-        break;
-      case "done":
-        filteredTasks = allTasks.filter((el) => el.x >= 780 && el.x <= 1100);
-        break;
-    }
+    const searchColumn = findColumn(columns, column);
+    filteredTasks = allTasks.filter(
+      (el) => getTaskColumnId(el, columns) === searchColumn?.id
+    );
   }
 
   // Search by text content
@@ -281,10 +472,7 @@ export function getWhiteboardInfo(
 
   // Determine current column for each task
   const tasksWithColumns = matchingTasks.map((task) => {
-    let currentColumn = "other";
-    if (task.x >= 60 && task.x <= 380) currentColumn = "todo";
-    else if (task.x >= 420 && task.x <= 740) currentColumn = "inprogress";
-    else if (task.x >= 780 && task.x <= 1100) currentColumn = "done";
+    const currentColumn = getTaskColumnId(task, columns);
 
     return {
       id: task.id,
@@ -301,11 +489,18 @@ export function getWhiteboardInfo(
     searchColumn: column || "all",
     totalTasks: allTasks.length,
     matchingTasks: tasksWithColumns,
-    columnCounts: {
-      todo: allTasks.filter((el) => el.x >= 60 && el.x <= 380).length,
-      inprogress: allTasks.filter((el) => el.x >= 420 && el.x <= 740).length,
-      done: allTasks.filter((el) => el.x >= 780 && el.x <= 1100).length,
-    },
+    columns: columns.map((col) => ({
+      id: col.id,
+      title: col.title,
+      wipLimit: col.wipLimit,
+    })),
+    columnCounts: Object.fromEntries(
+      columns.map((col) => [
+        col.id,
+        allTasks.filter((el) => getTaskColumnId(el, columns) === col.id)
+          .length,
+      ])
+    ),
   };
 
   console.log("🔍 Search results:", result);
@@ -316,7 +511,7 @@ export function getWhiteboardInfo(
 export function moveTaskByText(
   currentData: WhiteboardData,
   taskText: string,
-  targetColumn: "todo" | "inprogress" | "done",
+  targetColumn: string,
   reasoning: string
 ): WhiteboardData {
   console.log(
@@ -328,17 +523,20 @@ export function moveTaskByText(
     reasoning
   );
 
+  const columns = getColumns(currentData);
+  const target = findColumn(columns, targetColumn);
+  if (!target) {
+    console.warn("⚠️ Unknown target column:", targetColumn);
+    return currentData;
+  }
+
   // Helper function to determine current column of a task
-  const getCurrentColumn = (task: any): string => {
-    if (task.x >= 60 && task.x <= 380) return "todo";
-    else if (task.x >= 420 && task.x <= 740) return "inprogress";
-    else if (task.x >= 780 && task.x <= 1100) return "done";
-    return "other";
-  };
+  const getCurrentColumn = (task: WhiteboardElement): string =>
+    getTaskColumnId(task, columns);
 
-  // Get all sticky tasks (excluding summary notes which are below y=650)
+  // Get all sticky tasks - notes in a column, however far down it they sit
   const allStickyTasks = currentData.elements.filter(
-    (el) => el.type === "sticky" && el.y < 650
+    (el) => el.type === "sticky" && getElementColumnId(el, columns) !== undefined
   );
 
   console.log("📋 All available sticky tasks:");
@@ -393,7 +591,7 @@ export function moveTaskByText(
 
       // Bonus for tasks that aren't already in the target column
       const currentColumn = getCurrentColumn(el);
-      if (currentColumn !== targetColumn) {
+      if (currentColumn !== target.id) {
         score += 10;
       }
 
@@ -426,7 +624,7 @@ export function moveTaskByText(
   const taskToMove = bestCandidate.task;
 
   // Check if task is already in target column
-  if (bestCandidate.currentColumn === targetColumn) {
+  if (bestCandidate.currentColumn === target.id) {
     console.log(
       `ℹ️ Task "${
         (taskToMove as any).text
@@ -442,32 +640,24 @@ export function moveTaskByText(
     `from ${bestCandidate.currentColumn} to ${targetColumn}`
   );
 
-  // Get target position
-  const targetPosition = generateElementPosition(0, targetColumn);
-  const targetX = targetPosition.x;
-
   // Count existing tasks in target column (excluding the task being moved)
-  const tasksInTargetColumn = currentData.elements.filter(
-    (el) =>
-      el.id !== taskToMove.id && // Exclude the task being moved
-      Math.abs(el.x - targetX) < 50 &&
-      el.y >= 180 &&
-      el.y < 650 // Exclude summary notes
+  const tasksInTargetColumn = allStickyTasks.filter(
+    (el) => el.id !== taskToMove.id && getCurrentColumn(el) === target.id
   );
 
-  const newY = 180 + tasksInTargetColumn.length * 90;
-  const newColor =
-    targetColumn === "todo"
-      ? "yellow"
-      : targetColumn === "inprogress"
-      ? "orange"
-      : "green";
+  const { x: targetX, y: newY } = generateElementPosition(
+    tasksInTargetColumn.length,
+    target.id,
+    columns
+  );
+  const newColor = target.color;
 
-  // Update the task
+  // Update the task status - its position follows from the column
   const updatedElements = currentData.elements.map((el) => {
     if (el.id === taskToMove.id) {
       return {
         ...el,
+        columnId: target.id,
         x: targetX,
         y: newY,
         color: newColor,
@@ -487,9 +677,12 @@ export function moveTaskByText(
 
 // Helper function to determine which Kanban column based on content/context
 export function determineKanbanColumn(
-  text: string
-): "todo" | "inprogress" | "done" {
+  text: string,
+  columns: KanbanColumn[] = DEFAULT_COLUMNS
+): KanbanColumn {
   const lowerText = text.toLowerCase();
+  const firstColumn = columns[0];
+  const lastColumn = columns[columns.length - 1];
 
   // Done indicators
   if (
@@ -499,7 +692,7 @@ export function determineKanbanColumn(
     lowerText.includes("✅") ||
     lowerText.includes("complete")
   ) {
-    return "done";
+    return lastColumn;
   }
 
   // In Progress indicators
@@ -511,42 +704,49 @@ export function determineKanbanColumn(
     lowerText.includes("🔄") ||
     lowerText.includes("current")
   ) {
-    return "inprogress";
+    return columns.length > 2 ? columns[1] : firstColumn;
   }
 
-  // Default to todo
-  return "todo";
+  // Default to the first column
+  return firstColumn;
 }
 
 // Helper function to process any tool call and return appropriate response
 export async function processToolCall(
   currentData: WhiteboardData,
   toolName: string,
-  toolArgs: any
+  toolArgs: any,
+  signal?: AbortSignal
 ): Promise<{ newData?: WhiteboardData; response: any }> {
   console.log(`🔧 Processing tool call: ${toolName}`, toolArgs);
 
-  // Check if this is a Jira tool
-  const jiraToolNames = [
-    "sync_jira_board",
-    "update_jira_from_standup",
+  // Tools from connected MCP servers go back to the server that declared them
+  if (mcpHost.hasTool(toolName)) {
+    return { response: await mcpHost.callTool(toolName, toolArgs, signal) };
+  }
+
+  // Check if this is an issue tracker tool
+  const trackerToolNames = [
+    "sync_tracker_board",
+    "update_issue_from_standup",
     "get_team_workload",
+    "get_sprint_progress",
     "create_standup_summary",
   ];
-  if (jiraToolNames.includes(toolName)) {
+  if (trackerToolNames.includes(toolName)) {
     // Check if MCP is available
     if (!isMCPAvailable()) {
       return {
         response: {
           success: false,
           error:
-            "Jira integration is not available. Please configure MCP Atlassian client first.",
+            "Issue tracker integration is not available. Please configure the proxy server first.",
         },
       };
     }
 
-    // Process Jira tool call (async)
-    return await processJiraToolCall(currentData, toolName, toolArgs);
+    // Process tracker tool call (async)
+    return await processTrackerToolCall(currentData, toolName, toolArgs, signal);
   }
 
   switch (toolName) {
@@ -576,21 +776,13 @@ export async function processToolCall(
       const wasTaskMoved = moveResult !== currentData;
 
       if (wasTaskMoved) {
-        // Find the moved task to get its actual text for confirmation
-        const targetX =
-          toolArgs.targetColumn === "todo"
-            ? 100
-            : toolArgs.targetColumn === "inprogress"
-            ? 460
-            : 820;
+        // The moved task is the only element replaced in the new data
         const movedTask = moveResult.elements.find(
-          (el) =>
-            el.type === "sticky" &&
-            Math.abs(el.x - targetX) < 50 &&
-            (el as any).text
-              ?.toLowerCase()
-              .includes(toolArgs.taskText.toLowerCase())
+          (el, index) => el !== currentData.elements[index]
         );
+        const targetColumnTitle =
+          findColumn(getColumns(currentData), toolArgs.targetColumn)?.title ||
+          toolArgs.targetColumn;
 
         const actualTaskText = movedTask
           ? (movedTask as any).text
@@ -600,7 +792,7 @@ export async function processToolCall(
           newData: moveResult,
           response: {
             success: true,
-            message: `✅ Successfully moved task "${actualTaskText}" to ${toolArgs.targetColumn.toUpperCase()} column`,
+            message: `✅ Successfully moved task "${actualTaskText}" to ${targetColumnTitle.toUpperCase()} column`,
             taskMoved: actualTaskText,
             targetColumn: toolArgs.targetColumn,
             AI_INSTRUCTION: `🚨 CRITICAL: Task moved successfully! You MUST immediately continue the standup flow:
@@ -633,6 +825,61 @@ DO NOT just acknowledge - ASK THE NEXT PERSON AND MOVE THEIR TASKS!`,
         };
       }
 
+    case "add_action_item":
+      return await addActionItem(currentData, toolArgs, signal);
+
+    case "flag_blocker":
+      return flagBlocker(currentData, toolArgs);
+
+    case "next_speaker":
+      return await nextSpeaker(currentData, toolArgs, signal);
+
+    case "get_meeting_time": {
+      if (!currentData.standup) {
+        return {
+          response: {
+            success: false,
+            error: "No standup is running - call next_speaker to start one",
+          },
+        };
+      }
+      const timing = getStandupTiming(currentData.standup);
+      return {
+        response: {
+          success: true,
+          ...describeStandupTiming(timing),
+          message: timing.ended
+            ? `The standup ended after ${formatDuration(timing.elapsed)}`
+            : `${formatDuration(timing.elapsed)} of ${formatDuration(
+                timing.meetingLimit
+              )} used${
+                timing.current
+                  ? `; ${timing.current.name} has spoken for ${formatDuration(timing.current.seconds)}`
+                  : ""
+              }`,
+          ...(timing.current?.overrun && {
+            AI_INSTRUCTION: `${timing.current.name} is over their time - at the next pause, thank them, offer to take the rest offline and call next_speaker.`,
+          }),
+        },
+      };
+    }
+
+    case "get_blockers": {
+      const blocked = getBlockedTasks(currentData);
+      return {
+        response: {
+          success: true,
+          blockedTasks: blocked,
+          message:
+            blocked.length > 0
+              ? `${blocked.length} blocked task${blocked.length === 1 ? "" : "s"}: ${blocked
+                  .map((task) => task.issueKey || task.title)
+                  .join(", ")}`
+              : "Nothing on the board is blocked",
+        },
+      };
+    }
+
     case "update_whiteboard":
       const updatedData = processWhiteboardToolCall(currentData, toolArgs);
       return {
@@ -654,6 +901,231 @@ DO NOT just acknowledge - ASK THE NEXT PERSON AND MOVE THEIR TASKS!`,
   }
 }
 
+// Helper function to add an action item card, optionally as a tracker issue
+// too. A failed issue doesn't lose the item; the error is reported instead.
+async function addActionItem(
+  currentData: WhiteboardData,
+  args: {
+    text?: string;
+    owner?: string;
+    dueDate?: string;
+    sourceQuote?: string;
+    createIssue?: boolean;
+  },
+  signal?: AbortSignal
+): Promise<{ newData?: WhiteboardData; response: Record<string, unknown> }> {
+  if (!args.text?.trim()) {
+    return {
+      response: { success: false, error: "An action item needs some text" },
+    };
+  }
+
+  if (args.dueDate?.trim() && !normalizeDueDate(args.dueDate)) {
+    return {
+      response: {
+        success: false,
+        error: `"${args.dueDate}" isn't a date as YYYY-MM-DD - resolve it from today and try again`,
+        today: getTodayDate(),
+      },
+    };
+  }
+
+  const item = createActionItem(currentData, {
+    text: args.text,
+    owner: args.owner,
+    dueDate: args.dueDate,
+    sourceQuote: args.sourceQuote,
+  });
+  let issueError: string | undefined;
+  if (args.createIssue) {
+    try {
+      item.issue = await convertActionItemToIssue(item, currentData.syncConfig, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("❌ Failed to create issue for action item:", error);
+      issueError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const details = [
+    item.owner,
+    item.dueDate && `due ${item.dueDate}`,
+  ].filter(Boolean);
+  return {
+    newData: { ...currentData, elements: [...currentData.elements, item] },
+    response: {
+      success: true,
+      message: `✅ Added action item "${item.text}"${
+        details.length > 0 ? ` (${details.join(", ")})` : ""
+      }${item.issue ? ` as ${item.issue.key}` : ""}`,
+      actionItemId: item.id,
+      issueKey: item.issue?.key,
+      today: getTodayDate(),
+      ...(issueError && {
+        issueError: `The item is on the board, but its issue couldn't be created: ${issueError}`,
+      }),
+    },
+  };
+}
+
+// Helper function to put standup timing in the units Spark talks in
+function describeStandupTiming(timing: StandupTiming) {
+  return {
+    elapsed: formatDuration(timing.elapsed),
+    timebox: formatDuration(timing.meetingLimit),
+    remaining: formatDuration(timing.meetingRemaining),
+    speakerLimit: formatDuration(timing.speakerLimit),
+    currentSpeaker: timing.current && {
+      name: timing.current.name,
+      spoken: formatDuration(timing.current.seconds),
+      overrunBy: timing.current.overrun ? formatDuration(timing.current.overrun) : undefined,
+    },
+    spoken: timing.finished.map((turn) => `${turn.name} ${formatDuration(turn.seconds)}`),
+    waiting: timing.waiting,
+    skipped: timing.skipped,
+    projectedOverrun: timing.projectedOverrun ? formatDuration(timing.projectedOverrun) : undefined,
+  };
+}
+
+// Helper function to move the standup to its next speaker, starting standup
+// mode with the roster on the first call
+async function nextSpeaker(
+  currentData: WhiteboardData,
+  args: {
+    name?: string;
+    skip?: boolean;
+    speakers?: string[];
+    order?: SpeakerOrder;
+    speakerMinutes?: number;
+    meetingMinutes?: number;
+  },
+  signal?: AbortSignal
+): Promise<{ newData?: WhiteboardData; response: Record<string, unknown> }> {
+  const running = currentData.standup && !currentData.standup.endedAt;
+  let standup: StandupSession;
+  if (running) {
+    standup = advanceSpeaker(currentData.standup!, { name: args.name, skip: args.skip });
+  } else {
+    try {
+      const speakers = args.speakers?.length
+        ? args.speakers
+        : await getTeamMembers(resolveSyncConfig(currentData.syncConfig), signal);
+      standup = startStandup(speakers, {
+        order: args.order,
+        first: args.name,
+        speakerLimit: args.speakerMinutes ? Math.round(args.speakerMinutes * 60) : undefined,
+        meetingLimit: args.meetingMinutes ? Math.round(args.meetingMinutes * 60) : undefined,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // No roster, or an empty one - the people in the meeting can say who's here
+      return {
+        response: {
+          success: false,
+          error: error instanceof Error ? error.message : "Could not start the standup",
+          NEXT_ACTION:
+            "Ask who is in the standup, then call next_speaker again with their names in speakers",
+        },
+      };
+    }
+  }
+
+  const timing = getStandupTiming(standup);
+  const previous = running ? currentData.standup!.queue[currentData.standup!.current ?? -1] : undefined;
+  const previousTime = previous && timing.finished.find((turn) => turn.name === previous.name);
+  const newData = { ...currentData, standup };
+
+  if (timing.ended) {
+    return {
+      newData,
+      response: {
+        success: true,
+        ...describeStandupTiming(timing),
+        message: `🏁 Everyone has spoken - the standup took ${formatDuration(timing.elapsed)}`,
+        NEXT_ACTION: "Review blockers with get_blockers, then wrap up the meeting",
+      },
+    };
+  }
+  return {
+    newData,
+    response: {
+      success: true,
+      ...describeStandupTiming(timing),
+      speaker: timing.current?.name,
+      message: `${running ? "" : "⏱️ Standup started. "}${timing.current?.name} is up${
+        previousTime ? ` (${previousTime.name} took ${formatDuration(previousTime.seconds)})` : ""
+      } - ${formatDuration(timing.meetingRemaining)} left, ${timing.waiting.length} still to go`,
+      NEXT_ACTION: `Ask ${timing.current?.name} for their update`,
+    },
+  };
+}
+
+// Helper function to flag (or clear) a blocker on a task, linking the task
+// that blocks it when there is one on the board
+function flagBlocker(
+  currentData: WhiteboardData,
+  args: { task?: string; reason?: string; blockedBy?: string; cleared?: boolean }
+): { newData?: WhiteboardData; response: Record<string, unknown> } {
+  const note = args.task ? findNote(currentData, args.task) : undefined;
+  if (!note) {
+    return {
+      response: {
+        success: false,
+        error: `No task "${args.task}" on the board - use an issue key or an id from get_whiteboard_info`,
+      },
+    };
+  }
+  const blocker = args.blockedBy ? findNote(currentData, args.blockedBy) : undefined;
+  if (args.blockedBy && !blocker) {
+    return {
+      response: {
+        success: false,
+        error: `No task "${args.blockedBy}" on the board to link as the blocker`,
+      },
+    };
+  }
+
+  const label = note.issue?.key || note.text.split("\n")[0];
+  if (args.cleared) {
+    let newData = {
+      ...currentData,
+      elements: currentData.elements.map((el) =>
+        el.id === note.id ? { ...el, blocker: undefined } : el
+      ),
+    };
+    if (blocker) newData = unlinkBlocker(newData, note.id, blocker.id);
+    return {
+      newData,
+      response: { success: true, message: `✅ ${label} is no longer blocked` },
+    };
+  }
+
+  let newData: WhiteboardData = {
+    ...currentData,
+    elements: currentData.elements.map((el) =>
+      el.id === note.id && el.type === "sticky"
+        ? {
+            ...el,
+            blocker: {
+              reason: args.reason || el.blocker?.reason || "",
+              since: el.blocker?.since || Date.now(),
+            },
+          }
+        : el
+    ),
+  };
+  if (blocker) newData = linkBlocker(newData, note.id, blocker.id);
+  return {
+    newData,
+    response: {
+      success: true,
+      message: `🚧 Flagged ${label} as blocked${
+        blocker ? ` by ${blocker.issue?.key || blocker.text.split("\n")[0]}` : ""
+      }${args.reason ? `: ${args.reason}` : ""}`,
+    },
+  };
+}
+
 // Helper function to process tool call and update whiteboard data
 export function processWhiteboardToolCall(
   currentData: WhiteboardData,
@@ -666,13 +1138,33 @@ export function processWhiteboardToolCall(
   console.log("📝 Tool call elements:", elements);
 
   let newData = { ...currentData };
+  const columns = getColumns(currentData);
 
   switch (action) {
     case "add":
       if (elements) {
         const newElements = elements.map((element: any, index: number) => {
+          // Tasks with an explicit column are laid out from their status
+          const requestedColumn =
+            element.type === "sticky"
+              ? findColumn(columns, element.columnId)
+              : undefined;
+          if (requestedColumn) {
+            const columnTasks = currentData.elements.filter(
+              (el) => getElementColumnId(el, columns) === requestedColumn.id
+            );
+            const position = generateElementPosition(
+              columnTasks.length + index,
+              requestedColumn.id,
+              columns
+            );
+            element.columnId = requestedColumn.id;
+            element.x = position.x;
+            element.y = position.y;
+            element.color = element.color || requestedColumn.color;
+          }
           // For sticky notes, use Kanban-aware positioning
-          if (element.type === "sticky" && (!element.x || !element.y)) {
+          else if (element.type === "sticky" && (!element.x || !element.y)) {
             // Check if this is a meeting summary (contains "standup" or "summary")
             const isSummary =
               element.text &&
@@ -683,51 +1175,54 @@ export function processWhiteboardToolCall(
             if (isSummary) {
               // Position summary below columns
               element.x = 450; // Centered
-              element.y = 650; // Below main task area
+              element.y = COLUMN_LAYOUT.summaryY; // Below main task area
               element.color = element.color || "blue"; // Light blue for summaries
               element.width = 600; // Wider for summary content
             } else {
               // Determine column based on text content for regular tasks
-              let column: "todo" | "inprogress" | "done" = "todo";
-
-              if (element.text) {
-                column = determineKanbanColumn(element.text);
-              }
+              const column = element.text
+                ? determineKanbanColumn(element.text, columns)
+                : columns[0];
 
               // Set appropriate color based on column
               if (!element.color) {
-                element.color =
-                  column === "todo"
-                    ? "yellow"
-                    : column === "inprogress"
-                    ? "orange"
-                    : "green";
+                element.color = column.color;
               }
 
               // Count existing elements in the target column to determine Y position
-              const columnX =
-                column === "todo" ? 100 : column === "inprogress" ? 460 : 820;
               const elementsInColumn = currentData.elements.filter(
-                (el) =>
-                  Math.abs(el.x - columnX) < 50 && el.y >= 180 && el.y < 650
+                (el) => getElementColumnId(el, columns) === column.id
               );
 
               const position = generateElementPosition(
                 elementsInColumn.length,
-                column
+                column.id,
+                columns
               );
               element.x = position.x;
               element.y = position.y;
+              element.columnId = column.id;
             }
           } else if (!element.x || !element.y) {
             // For non-sticky elements, use default positioning
             const position = generateElementPosition(
-              currentData.elements.length + index
+              currentData.elements.length + index,
+              columns[0].id,
+              columns
             );
             element.x = position.x;
             element.y = position.y;
           }
 
+          // Explicitly placed stickies take the status of the column they land in
+          if (element.type === "sticky" && !element.columnId) {
+            element.columnId = getColumnAtPoint(
+              columns,
+              element.x,
+              element.y
+            )?.id;
+          }
+
           // Ensure element has proper type-specific properties
           return validateAndFixElement(element);
         });
@@ -740,9 +1235,35 @@ export function processWhiteboardToolCall(
       if (elements) {
         newData.elements = currentData.elements.map((existing) => {
           const update = elements.find((el: any) => el.id === existing.id);
-          return update
-            ? { ...existing, ...validateAndFixElement(update) }
-            : existing;
+          if (!update) return existing;
+
+          const merged = {
+            ...existing,
+            ...validateAndFixElement({ ...existing, ...update }),
+          };
+          if (merged.type !== "sticky" || existing.type !== "sticky") {
+            return merged;
+          }
+
+          // A status change moves the task into its new column; a position
+          // change onto another column changes its status
+          const newColumn = findColumn(columns, update.columnId);
+          if (newColumn && newColumn.id !== existing.columnId) {
+            return {
+              ...merged,
+              columnId: newColumn.id,
+              x: getColumnBounds(columns, newColumn.id)!.cardX,
+              color: update.color || newColumn.color,
+            };
+          }
+          if (update.x !== undefined || update.y !== undefined) {
+            const droppedColumn = getColumnAtPoint(columns, merged.x, merged.y);
+            return {
+              ...merged,
+              columnId: droppedColumn?.id ?? existing.columnId,
+            };
+          }
+          return merged;
         });
       }
       break;
@@ -759,7 +1280,11 @@ export function processWhiteboardToolCall(
       if (elements) {
         const validElements = elements.map((element: any, index: number) => {
           if (!element.x || !element.y) {
-            const position = generateElementPosition(index);
+            const position = generateElementPosition(
+              index,
+              columns[0].id,
+              columns
+            );
             element.x = position.x;
             element.y = position.y;
           }
@@ -802,6 +1327,7 @@ function validateAndFixElement(element: any): WhiteboardElement {
         type: "sticky" as const,
         text: element.text || "New note",
         color: element.color || "yellow",
+        ...(element.columnId ? { columnId: element.columnId } : {}),
       };
       console.log("📄 Created sticky note:", stickyElement);
       return stickyElement;
@@ -830,6 +1356,17 @@ function validateAndFixElement(element: any): WhiteboardElement {
         embedType: element.embedType || "iframe",
       };
 
+    case "action-item":
+      return {
+        ...baseElement,
+        type: "action-item" as const,
+        text: element.text || "New action item",
+        status: element.status || "open",
+        ...(element.owner ? { owner: element.owner } : {}),
+        ...(element.dueDate ? { dueDate: element.dueDate } : {}),
+        ...(element.sourceQuote ? { sourceQuote: element.sourceQuote } : {}),
+      };
+
     default:
       throw new Error(`Unknown element type: ${element.type}`);
   }
@@ -9,10 +9,28 @@ export interface GeminiLiveState {
   isRecording: boolean;
   isSpeaking: boolean;
   error?: string;
+  // Set while a dropped session is being re-established
+  reconnect?: { attempt: number; maxAttempts: number };
+  notice?: string;
+  // What the user is saying right now, from input transcription
   transcript?: string;
   response?: string;
 }
 
+export type TranscriptSpeaker = "user" | "spark";
+
+// One uninterrupted stretch of speech in the meeting transcript
+export interface TranscriptTurn {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  // Epoch milliseconds of the first and latest words
+  startedAt: number;
+  endedAt: number;
+  // Closed turns get no more text
+  done?: boolean;
+}
+
 export type GeminiLiveStatus =
   | "disconnected"
   | "connecting"
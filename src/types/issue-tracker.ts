@@ -0,0 +1,104 @@
+import { TrackerKind } from "./whiteboard";
+
+// Issue shape shared by every tracker adapter
+export interface TrackerIssue {
+  key: string;
+  title: string;
+  status: string;
+  // The status counts as finished work (Jira's "done" category, a closed
+  // GitHub issue, ...)
+  done: boolean;
+  assignee?: string;
+  priority?: string;
+  issueType?: string;
+  storyPoints?: number;
+  parent?: { key: string; summary: string };
+  labels?: string[];
+  dueDate?: string;
+  // Keys of the issues blocking this one (Jira "is blocked by" links)
+  blockedBy?: string[];
+  url?: string;
+  updated?: string;
+}
+
+export interface IssueSearchOptions {
+  includeCompleted?: boolean;
+  // Only issues somebody is working on, e.g. for the standup roster
+  assignedOnly?: boolean;
+}
+
+export interface IssueSearchResult {
+  // The query that was run, e.g. the JQL, for logs and tool responses
+  query: string;
+  issues: TrackerIssue[];
+}
+
+export interface IssueFieldChanges {
+  // Spoken name of the new assignee, or null to unassign
+  assignee?: string | null;
+  priority?: string;
+}
+
+export interface NewIssue {
+  title: string;
+  description?: string;
+  // Spoken name; adapters match it to a tracker user
+  assignee?: string;
+  // YYYY-MM-DD
+  dueDate?: string;
+}
+
+export interface MemberWorkload {
+  name: string;
+  totalIssues: number;
+  totalPoints: number;
+  unestimatedIssues: number;
+  issues: TrackerIssue[];
+}
+
+export interface SprintProgress {
+  id: string;
+  // Jira Agile board the sprint belongs to
+  boardId?: string;
+  name: string;
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+  daysRemaining?: number;
+  // Share of the sprint's duration that has passed, 0-100
+  timeElapsedPercent?: number;
+  // Points on the sprint's issues now, scope added since the start included
+  totalPoints: number;
+  // Points the sprint started with; only Jira reports it (from its sprint report)
+  committedPoints?: number;
+  completedPoints: number;
+  issueCount: number;
+  completedIssueCount: number;
+}
+
+// A backend the Kanban sync and standup tools can read from and write to.
+// Adapters are bound to one board's sync config when created.
+export interface IssueTracker {
+  readonly kind: TrackerKind;
+  // Name used in the UI and in Spark's replies, e.g. "Jira"
+  readonly label: string;
+  // Identifies the bound scope, e.g. "github:acme/app"
+  readonly id: string;
+
+  isAvailable(): Promise<boolean>;
+  searchIssues(options?: IssueSearchOptions): Promise<IssueSearchResult>;
+  getIssue(key: string): Promise<TrackerIssue>;
+  // Move an issue to the first reachable status of the candidates, resolving
+  // to the status it ended up in
+  transitionIssue(key: string, targetStatuses: string[]): Promise<string>;
+  addComment(key: string, text: string): Promise<void>;
+  // Resolves to the assignee's display name when one was set
+  updateIssue(key: string, changes: IssueFieldChanges): Promise<{ assignee?: string }>;
+  // An assignee that can't be matched is left off rather than failing the
+  // create, so check the returned issue
+  createIssue(issue: NewIssue): Promise<TrackerIssue>;
+  getTeamMembers(): Promise<string[]>;
+  getWorkload(options?: IssueSearchOptions): Promise<MemberWorkload[]>;
+  // Issue keys already on the board help adapters find the right sprint
+  getSprintProgress(knownIssueKeys?: string[]): Promise<SprintProgress | null>;
+}
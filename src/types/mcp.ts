@@ -0,0 +1,26 @@
+// How the browser reaches an MCP server. Browsers can't spawn processes, so
+// stdio servers run behind the local bridge in mcp-bridge/.
+export type MCPTransportKind = 'http' | 'sse' | 'stdio';
+
+export interface MCPServerConfig {
+  id: string;
+  // Shown in settings and used to prefix the server's tool names
+  name: string;
+  transport: MCPTransportKind;
+  // Endpoint for Streamable HTTP and SSE servers
+  url?: string;
+  // Server name in the bridge's mcp-bridge.json, for stdio servers
+  bridgeServer?: string;
+  // Sent as a Bearer token
+  authToken?: string;
+  enabled: boolean;
+}
+
+export type MCPConnectionState = 'connecting' | 'connected' | 'error';
+
+export interface MCPServerStatus {
+  id: string;
+  state: MCPConnectionState;
+  toolNames: string[];
+  error?: string;
+}
@@ -0,0 +1,78 @@
+import { WhiteboardData } from "./whiteboard";
+
+// Tracker write-back made by Spark during a meeting
+export interface TrackerChangeRecord {
+  issueKey: string;
+  speaker?: string;
+  // Successful changes, e.g. "moved to Done", "comment from Ana added"
+  changes: string[];
+  at: number;
+}
+
+// A live session from connect until its minutes are taken; it carries on
+// across reconnects
+export interface MeetingRecord {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  // Board as it was when the meeting started, diffed for the minutes
+  boardBefore: WhiteboardData;
+  trackerChanges: TrackerChangeRecord[];
+}
+
+// A note that was added, removed or moved to another column during the meeting
+export interface BoardChange {
+  type: "added" | "removed" | "moved";
+  // Issue key and summary, or the note's text
+  label: string;
+  from?: string;
+  to?: string;
+}
+
+export interface PersonUpdate {
+  person: string;
+  yesterday: string[];
+  today: string[];
+  blockers: string[];
+}
+
+export interface MinutesActionItem {
+  task: string;
+  owner?: string;
+  due?: string;
+}
+
+export interface MeetingMinutes {
+  startedAt: number;
+  endedAt: number;
+  attendees: string[];
+  summary: string;
+  updates: PersonUpdate[];
+  decisions: string[];
+  actionItems: MinutesActionItem[];
+  boardChanges: BoardChange[];
+  trackerChanges: TrackerChangeRecord[];
+}
+
+// One person's turn in a timeboxed standup
+export interface StandupTurn {
+  name: string;
+  startedAt?: number;
+  endedAt?: number;
+  // Absent or passed; the turn doesn't count towards the meeting
+  skipped?: boolean;
+}
+
+// Standup mode, saved with the board so everyone in a shared room sees the
+// same queue and timers
+export interface StandupSession {
+  startedAt: number;
+  endedAt?: number;
+  queue: StandupTurn[];
+  // Index of the turn that has the floor; none before the first turn and
+  // after the last one
+  current?: number;
+  // Time limits in seconds
+  speakerLimit: number;
+  meetingLimit: number;
+}
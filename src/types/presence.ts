@@ -0,0 +1,27 @@
+// How a participant appears to others on a shared board
+export interface PresenceUser {
+  name: string;
+  // CSS color of their cursor and highlights
+  color: string;
+}
+
+// What each participant broadcasts through the room's awareness channel.
+// Positions are board coordinates, so they line up whatever the pan and zoom.
+export interface PresenceState {
+  user: PresenceUser;
+  cursor?: { x: number; y: number } | null;
+  // Element last clicked or dragged
+  selectedId?: string | null;
+  // Element whose text is being typed; others can't edit it meanwhile
+  editingId?: string | null;
+}
+
+export interface RemoteParticipant extends PresenceState {
+  clientId: number;
+}
+
+// Presence shown on one element
+export interface ElementPresence {
+  user: PresenceUser;
+  editing: boolean;
+}
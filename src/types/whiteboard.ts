@@ -1,3 +1,5 @@
+import { StandupSession } from './meeting';
+
 export interface BaseElement {
   id: string;
   x: number;
@@ -9,6 +11,42 @@ export interface StickyNote extends BaseElement {
   type: 'sticky';
   text: string;
   color: string;
+  // Kanban column (status) the task belongs to. Free notes such as headers
+  // and summaries have none.
+  columnId?: string;
+  // Set on notes created by an issue tracker sync
+  issue?: IssueRef;
+  // Flagged as blocked, e.g. when someone answers "any blockers?"
+  blocker?: { reason: string; since: number };
+  // Ids of notes that block this one, drawn as links on the board
+  blockedBy?: string[];
+}
+
+// Issue trackers a board can be bound to
+export type TrackerKind = 'jira' | 'github' | 'linear' | 'local';
+
+export interface IssueRef {
+  tracker: TrackerKind;
+  // Tracker key, e.g. "SCRUM-12" or "acme/app#34"
+  key: string;
+  // Tracker status as of the last sync (or the last transition made from the board)
+  status: string;
+  syncedAt: number;
+  url?: string;
+  issueType?: string;
+  storyPoints?: number;
+  // Epic or parent issue
+  parent?: { key: string; summary: string };
+  labels?: string[];
+  dueDate?: string;
+  // Keys of the issues this one "is blocked by" in the tracker
+  blockedBy?: string[];
+  // The issue was missing from the latest sync results (deleted, moved out
+  // of scope or filtered out); the note is kept so local work isn't lost
+  removed?: boolean;
+  // Write-back state while a column change is being transitioned in the tracker
+  syncState?: 'pending' | 'failed';
+  syncError?: string;
 }
 
 export interface FlowNode extends BaseElement {
@@ -29,8 +67,96 @@ export interface EmbeddedLink extends BaseElement {
   embedType: 'iframe' | 'video';
 }
 
-export type WhiteboardElement = StickyNote | FlowNode | MermaidDiagram | EmbeddedLink;
+export type ActionItemStatus = 'open' | 'in-progress' | 'done';
+
+// A follow-up agreed in a meeting, with who owns it and by when
+export interface ActionItem extends BaseElement {
+  type: 'action-item';
+  text: string;
+  owner?: string;
+  // YYYY-MM-DD
+  dueDate?: string;
+  status: ActionItemStatus;
+  // What was said when the item came up
+  sourceQuote?: string;
+  // Set once the item has been turned into a tracker issue
+  issue?: IssueRef;
+}
+
+export type WhiteboardElement = StickyNote | FlowNode | MermaidDiagram | EmbeddedLink | ActionItem;
+
+// An ordered Kanban column. Tracker statuses are mapped onto columns by name.
+export interface KanbanColumn {
+  id: string;
+  title: string;
+  wipLimit?: number;
+  // Status names (case-insensitive) that belong in this column, e.g. ["in progress", "development"]
+  statuses: string[];
+  // Sticky note color used for tasks in this column
+  color: string;
+}
 
 export interface WhiteboardData {
   elements: WhiteboardElement[];
-}
\ No newline at end of file
+  // Falls back to the default To Do / In Progress / Done columns when omitted
+  columns?: KanbanColumn[];
+  syncConfig?: BoardSyncConfig;
+  // Running (or last) timeboxed standup
+  standup?: StandupSession;
+}
+
+// Per-board settings for syncing with an issue tracker
+export interface BoardSyncConfig {
+  // Tracker the board is bound to (Jira when omitted)
+  tracker?: TrackerKind;
+  // Moving an issue note to another column transitions the issue in the tracker
+  transitionOnMove?: boolean;
+  // Jira scope of the issues synced onto the board. A custom JQL query
+  // replaces the project/board/sprint filters.
+  projectKeys?: string[];
+  // Jira Agile board id - its saved filter scopes the sync
+  boardId?: string;
+  // "active" for the open sprint (Jira), current iteration (GitHub) or
+  // active cycle (Linear), or a sprint name/id
+  sprint?: string;
+  jql?: string;
+  // Upper bound on issues fetched across all result pages
+  maxIssues?: number;
+  // Custom field holding story points (differs between Jira sites)
+  storyPointsField?: string;
+  github?: GitHubSyncConfig;
+  linear?: LinearSyncConfig;
+}
+
+// GitHub Issues scope: a repository's issues, or the items of a Projects v2
+// board (optionally narrowed to one repository)
+export interface GitHubSyncConfig {
+  // User or organization login
+  owner: string;
+  repo?: string;
+  projectNumber?: number;
+  // Project fields, by name
+  statusField?: string;
+  estimateField?: string;
+  iterationField?: string;
+  priorityField?: string;
+}
+
+export interface LinearSyncConfig {
+  // Team key, e.g. "ENG" - its workflow states, cycles and members are used
+  teamKey: string;
+  // Limit the sync to one project
+  projectName?: string;
+}
+
+// Metadata for a named board in the local board library
+export interface BoardMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SavedBoard extends BoardMeta {
+  data: WhiteboardData;
+}
@@ -0,0 +1,366 @@
+import express, { NextFunction, Request, Response } from "express";
+import cors from "cors";
+import { randomUUID } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  isInitializeRequest,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  Tool,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Serves the whiteboard open in the browser to other agents (IDE assistants,
+// CI bots) as an MCP server. The board links itself here when "Share this
+// board with MCP clients" is on: it pushes its state and tool list, and tool
+// calls are sent back to it over SSE so they run through the same
+// processToolCall as Spark's. The board JSON is the whiteboard://board
+// resource, with update notifications for subscribers.
+//
+//   npm start                 (MCP clients connect to http://localhost:3005/mcp)
+//   npm run stdio             (for clients that launch servers over stdio)
+//
+// Every route answers only the app's own origin (WHITEBOARD_MCP_ALLOWED_ORIGINS,
+// comma-separated) and, when WHITEBOARD_MCP_TOKEN is set, only callers with
+// that bearer token - the board's link included.
+
+interface BoardLink {
+  id: string;
+  res: Response;
+}
+
+interface PendingCall {
+  linkId: string;
+  resolve: (response: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const PORT = Number(process.env.WHITEBOARD_MCP_PORT) || 3005;
+const AUTH_TOKEN = process.env.WHITEBOARD_MCP_TOKEN;
+const ALLOWED_ORIGINS = (
+  process.env.WHITEBOARD_MCP_ALLOWED_ORIGINS || "http://localhost:5173,http://127.0.0.1:5173"
+)
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const CALL_TIMEOUT_MS = Number(process.env.WHITEBOARD_MCP_CALL_TIMEOUT_MS) || 30000;
+const STDIO = process.argv.includes("--stdio");
+const BOARD_URI = "whiteboard://board";
+
+// stdout carries the protocol in stdio mode
+if (STDIO) console.log = console.error;
+
+// Open boards, oldest first. The most recent one serves MCP clients.
+const links: BoardLink[] = [];
+let board: unknown = null;
+let tools: Tool[] = [];
+const pendingCalls = new Map<string, PendingCall>();
+
+const mcpServers = new Set<Server>();
+const subscribers = new Set<Server>();
+const sessions = new Map<string, { server: Server; transport: StreamableHTTPServerTransport }>();
+
+const currentLink = () => links[links.length - 1];
+
+// Helper function to send a tool call to the linked board and wait for its result
+function callBoard(name: string, args: Record<string, unknown>): Promise<unknown> {
+  const link = currentLink();
+  if (!link) {
+    return Promise.reject(
+      new Error('No whiteboard is linked - open it and turn on "Share this board with MCP clients"')
+    );
+  }
+
+  const id = randomUUID();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingCalls.delete(id);
+      reject(new Error(`The whiteboard did not answer ${name} within ${CALL_TIMEOUT_MS / 1000}s`));
+    }, CALL_TIMEOUT_MS);
+    pendingCalls.set(id, { linkId: link.id, resolve, reject, timer });
+    link.res.write(`event: call\ndata: ${JSON.stringify({ id, name, args })}\n\n`);
+  });
+}
+
+// Helper function to turn a board tool response into an MCP tool result
+function toCallToolResult(response: unknown): CallToolResult {
+  const result = (response || {}) as Record<string, unknown>;
+  // Exports are returned as the document itself rather than wrapped in JSON
+  const text =
+    result.success !== false && typeof result.content === "string"
+      ? result.content
+      : JSON.stringify(response, null, 2);
+  return {
+    content: [{ type: "text", text }],
+    isError: result.success === false,
+  };
+}
+
+function notifyAll(send: (server: Server) => Promise<void>, targets: Iterable<Server>) {
+  for (const server of targets) {
+    send(server).catch((error) => console.warn("⚠️ Could not notify MCP client:", error.message));
+  }
+}
+
+function setBoardState(nextBoard: unknown, nextTools: Tool[]) {
+  const boardChanged = JSON.stringify(nextBoard) !== JSON.stringify(board);
+  const toolsChanged = JSON.stringify(nextTools) !== JSON.stringify(tools);
+  board = nextBoard;
+  tools = nextTools;
+
+  if (boardChanged) {
+    notifyAll((server) => server.sendResourceUpdated({ uri: BOARD_URI }), subscribers);
+  }
+  if (toolsChanged) {
+    console.log(`🧰 Whiteboard tools: ${tools.map((tool) => tool.name).join(", ") || "none"}`);
+    notifyAll((server) => server.sendToolListChanged(), mcpServers);
+  }
+}
+
+function createMcpServer(): Server {
+  const server = new Server(
+    { name: "gemini-whiteboard", version: "1.0.0" },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { subscribe: true },
+      },
+      instructions:
+        "Read and edit the team's Kanban whiteboard. Use get_whiteboard_info to find tasks before moving them, and read whiteboard://board for the full board JSON.",
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    console.log(`🛠️ ${name}`, args);
+    try {
+      return toCallToolResult(await callBoard(name, args));
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+      };
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [
+      {
+        uri: BOARD_URI,
+        name: "Whiteboard",
+        description: "Elements, Kanban columns and sync settings of the linked whiteboard",
+        mimeType: "application/json",
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    if (request.params.uri !== BOARD_URI) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+    }
+    if (!board) {
+      throw new McpError(ErrorCode.InternalError, "No whiteboard is linked");
+    }
+    return {
+      contents: [
+        { uri: BOARD_URI, mimeType: "application/json", text: JSON.stringify(board, null, 2) },
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    if (request.params.uri === BOARD_URI) subscribers.add(server);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    if (request.params.uri === BOARD_URI) subscribers.delete(server);
+    return {};
+  });
+
+  server.onclose = () => {
+    mcpServers.delete(server);
+    subscribers.delete(server);
+  };
+  mcpServers.add(server);
+  return server;
+}
+
+const app = express();
+app.use(cors({ origin: ALLOWED_ORIGINS, exposedHeaders: ["Mcp-Session-Id"] }));
+app.use(express.json({ limit: "10mb" }));
+
+function jsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+// Browsers always send Origin, so a page on another site (or a DNS-rebound
+// host name) is turned away; MCP clients outside the browser send none.
+// EventSource can't set headers, so the board's stream passes the token in
+// the query string.
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const origin = req.header("origin");
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    jsonRpcError(res, 403, `Origin ${origin} is not allowed`);
+    return;
+  }
+  const token = req.header("authorization")?.replace(/^Bearer /, "") ?? req.query.token;
+  if (AUTH_TOKEN && token !== AUTH_TOKEN) {
+    jsonRpcError(res, 401, "Unauthorized");
+    return;
+  }
+  next();
+});
+
+app.get("/health", (_req, res) => {
+  res.json({
+    status: "OK",
+    message: "Whiteboard MCP server is running",
+    linked: links.length > 0,
+    tools: tools.map((tool) => tool.name),
+    sessions: sessions.size,
+  });
+});
+
+// The browser side: an SSE stream of tool calls, plus state and result posts
+app.get("/link/events", (req, res) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const link: BoardLink = { id: randomUUID(), res };
+  links.push(link);
+  res.write(`event: linked\ndata: ${JSON.stringify({ linkId: link.id })}\n\n`);
+  console.log(`🔗 Whiteboard linked (${links.length} open)`);
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    links.splice(links.indexOf(link), 1);
+    for (const [id, call] of pendingCalls) {
+      if (call.linkId !== link.id) continue;
+      clearTimeout(call.timer);
+      pendingCalls.delete(id);
+      call.reject(new Error("The whiteboard was closed before answering"));
+    }
+    console.log(`🔌 Whiteboard unlinked (${links.length} open)`);
+    // The next most recent board takes over once it pushes its state
+    if (!links.length) setBoardState(null, []);
+  });
+});
+
+app.post("/link/state", (req, res) => {
+  const { linkId, board: nextBoard, tools: nextTools } = req.body || {};
+  if (linkId !== currentLink()?.id) {
+    res.status(409).json({ error: "Another whiteboard is serving MCP clients" });
+    return;
+  }
+  setBoardState(nextBoard, Array.isArray(nextTools) ? nextTools : []);
+  res.json({ ok: true });
+});
+
+app.post("/link/results/:id", (req, res) => {
+  const call = pendingCalls.get(req.params.id);
+  if (!call) {
+    res.status(404).json({ error: "No pending call with that id" });
+    return;
+  }
+  clearTimeout(call.timer);
+  pendingCalls.delete(req.params.id);
+  call.resolve(req.body?.response);
+  res.json({ ok: true });
+});
+
+// The MCP side, over Streamable HTTP
+app.all("/mcp", async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.header("mcp-session-id");
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        jsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+      jsonRpcError(res, 400, "No session - send an initialize request first");
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport });
+        console.log(`🤝 MCP session ${id} opened`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+      console.log(`👋 MCP session ${transport.sessionId || "(uninitialized)"} closed`);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    console.error("❌ Error handling MCP request:", error);
+    if (!res.headersSent) {
+      jsonRpcError(res, 500, error instanceof Error ? error.message : "Server error");
+    }
+  }
+});
+
+// Local use only - whoever can reach the server can edit the board
+const httpServer = app.listen(PORT, "127.0.0.1", () => {
+  console.log(`🧑‍🎨 Whiteboard MCP server running on http://localhost:${PORT}`);
+  console.log(`🔌 MCP endpoint: http://localhost:${PORT}/mcp${AUTH_TOKEN ? " (bearer token required)" : ""}`);
+  console.log(`📋 Health check: http://localhost:${PORT}/health`);
+  console.log(`🔒 Allowed origins: ${ALLOWED_ORIGINS.join(", ")}`);
+});
+
+// The board links to one instance only. A stdio instance started while
+// another holds the port keeps serving its client, without a board link.
+httpServer.on("error", (error: NodeJS.ErrnoException) => {
+  if (STDIO) {
+    console.error(
+      error.code === "EADDRINUSE"
+        ? `⚠️ Port ${PORT} is taken by another whiteboard MCP server - the board links to that one, not this stdio instance`
+        : `⚠️ HTTP server failed, serving stdio only: ${error.message}`
+    );
+    return;
+  }
+  console.error(
+    error.code === "EADDRINUSE"
+      ? `❌ Port ${PORT} is already in use - is another whiteboard MCP server running?`
+      : `❌ HTTP server failed: ${error.message}`
+  );
+  process.exit(1);
+});
+
+if (STDIO) {
+  createMcpServer()
+    .connect(new StdioServerTransport())
+    .then(() => console.log("📟 Serving MCP over stdio"))
+    .catch((error) => {
+      console.error("❌ Could not start stdio transport:", error);
+      process.exit(1);
+    });
+}